@@ -19,6 +19,7 @@ const staticRoutes = [
   "/terms",
   "/contact",
   "/guides",
+  "/workflows",
   "/glossary",
 ];
 
@@ -84,7 +85,7 @@ function parseCalculatorsArray(text, exportMarker = "export const calculators")
 }
 
 function parseCalculators(definitions) {
-  const partMatches = [...definitions.matchAll(/from "\.\/(definitions\.part\d+)"/g)];
+  const partMatches = [...definitions.matchAll(/from "\.\/(definitions\.part\d+)(?:\.ts)?"/g)];
   if (partMatches.length > 0) {
     const partFiles = partMatches.map((match) => `src/lib/calculators/${match[1]}.ts`);
     const merged = [];
@@ -97,19 +98,21 @@ function parseCalculators(definitions) {
   return parseCalculatorsArray(definitions, "export const calculators");
 }
 
-function parseGuides(guidesText) {
-  const lines = guidesText.split(/\r?\n/);
+// Top-level `slug`/`updatedAt` pairs of an exported array of objects, such as
+// guides or workflows.
+function parseSlugEntries(text, startMarker) {
+  const lines = text.split(/\r?\n/);
   const results = [];
-  let inGuides = false;
+  let inArray = false;
   let depth = 0;
   let slug = null;
   let updatedAt = null;
   for (const line of lines) {
-    if (!inGuides && line.includes("export const guides")) {
-      inGuides = true;
+    if (!inArray && line.includes(startMarker)) {
+      inArray = true;
       continue;
     }
-    if (!inGuides) continue;
+    if (!inArray) continue;
     if (line.trim().startsWith("];") && depth === 0) break;
     const clean = stripStrings(line);
     const open = (clean.match(/{/g) || []).length;
@@ -199,6 +202,7 @@ function xmlEscape(value) {
 
 const definitions = readText("src/lib/calculators/definitions.ts");
 const guidesText = readText("src/lib/guides/index.ts");
+const workflowsText = readText("src/lib/workflows/index.ts");
 const glossaryFiles = [
   "src/lib/glossary/terms/core.ts",
   "src/lib/glossary/terms/saas.ts",
@@ -211,7 +215,8 @@ const glossaryFiles = [
 
 const categories = parseCategories(definitions);
 const calculators = parseCalculators(definitions);
-const guides = parseGuides(guidesText);
+const guides = parseSlugEntries(guidesText, "export const guides");
+const workflows = parseSlugEntries(workflowsText, "export const workflows");
 const glossaryTerms = glossaryFiles.flatMap((file) =>
   parseGlossaryTerms(readText(file)),
 );
@@ -237,6 +242,13 @@ for (const guide of guides) {
   });
 }
 
+for (const workflow of workflows) {
+  urls.push({
+    loc: `${siteUrl}/workflows/${workflow.slug}`,
+    lastmod: toLastMod(workflow.updatedAt),
+  });
+}
+
 for (const term of glossaryTerms) {
   const reason = getSharedGlossaryIndexingReason({
     slug: term.slug,
@@ -273,6 +285,7 @@ fs.writeFileSync(path.join(publicDir, "sitemap.xml"), xmlLines.join("\n") + "\n"
 const robotsText = [
   "User-agent: *",
   "Allow: /",
+  "Disallow: /api/",
   "Disallow: /reports",
   "Disallow: /search",
   "Disallow: /search?",
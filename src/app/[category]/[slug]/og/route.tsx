@@ -0,0 +1,118 @@
+import { ImageResponse } from "next/og";
+import type { NextRequest } from "next/server";
+import { getCalculator } from "@/lib/calculators";
+import { withDisplayCurrency } from "@/lib/calculators/currency";
+import { runCalculator, type EngineInputs } from "@/lib/calculators/engine";
+import { formatInputValue } from "@/lib/calculators/formatResult";
+import { upgradeLegacyParams } from "@/lib/calculators/series";
+import { isSupportedCurrency } from "@/lib/currency";
+import { siteConfig } from "@/lib/site";
+
+type RouteContext = { params: Promise<{ category: string; slug: string }> };
+
+const size = { width: 1200, height: 630 };
+const MAX_INPUT_ROWS = 4;
+
+// Share links carry inputs as flat, locale-independent query params; the
+// card shows the ones that were set plus the headline they produce.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { category, slug } = await params;
+  const found = getCalculator(slug);
+  if (!found || found.category !== category) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const currencyParam = searchParams.get("currency");
+  const currency = isSupportedCurrency(currencyParam)
+    ? currencyParam
+    : undefined;
+  const calc = currency ? withDisplayCurrency(found, currency) : found;
+
+  const inputParams = upgradeLegacyParams(
+    calc,
+    Object.fromEntries(searchParams),
+  );
+  const inputs: EngineInputs = {};
+  for (const input of calc.inputs) {
+    const value = inputParams[input.key];
+    if (typeof value === "string") inputs[input.key] = value;
+  }
+  const outcome = runCalculator(slug, inputs, { currency, useDefaults: true });
+
+  const inputRows =
+    outcome.status === "ok"
+      ? calc.inputs
+          .filter((input) => inputs[input.key] !== undefined)
+          .slice(0, MAX_INPUT_ROWS)
+          .map((input) => {
+            const format = (v: number) => formatInputValue(input, v);
+            const value =
+              input.kind === "series"
+                ? (outcome.series[input.key] ?? []).map(format).join(" / ")
+                : format(outcome.values[input.key] ?? 0);
+            return { key: input.key, label: input.label, value };
+          })
+      : [];
+  const headline = outcome.status === "ok" ? outcome.result.headline : null;
+
+  return new ImageResponse(
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "space-between",
+        background: "#0a0a0a",
+        color: "#ffffff",
+        padding: 64,
+      }}
+    >
+      <div style={{ display: "flex", flexDirection: "column", gap: 18 }}>
+        <div style={{ display: "flex", alignItems: "center", gap: 14 }}>
+          <div
+            style={{
+              width: 40,
+              height: 40,
+              borderRadius: 12,
+              border: "3px solid #fff",
+            }}
+          />
+          <div style={{ fontSize: 28, fontWeight: 700, color: "#d4d4d8" }}>
+            {siteConfig.name}
+          </div>
+        </div>
+        <div style={{ fontSize: 56, fontWeight: 800, letterSpacing: -1 }}>
+          {calc.title}
+        </div>
+        {inputRows.length ? (
+          <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+            {inputRows.map((row) => (
+              <div
+                key={row.key}
+                style={{ display: "flex", gap: 12, fontSize: 26 }}
+              >
+                <div style={{ color: "#a1a1aa" }}>{`${row.label}:`}</div>
+                <div style={{ color: "#e4e4e7" }}>{row.value}</div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div style={{ fontSize: 28, color: "#d4d4d8", maxWidth: 980 }}>
+            {calc.description}
+          </div>
+        )}
+      </div>
+      {headline ? (
+        <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
+          <div style={{ fontSize: 26, color: "#a1a1aa" }}>{headline.label}</div>
+          <div style={{ fontSize: 72, fontWeight: 800, letterSpacing: -1 }}>
+            {headline.formatted}
+          </div>
+        </div>
+      ) : null}
+    </div>,
+    size,
+  );
+}
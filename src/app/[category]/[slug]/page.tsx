@@ -9,12 +9,16 @@ import type { CalculatorCategorySlug } from "@/lib/calculators/types";
 import { clampMetaDescription, clampMetaTitle } from "@/lib/seo";
 import { absoluteUrl, siteConfig } from "@/lib/site";
 
-type PageProps = { params: Promise<{ category: string; slug: string }> };
+type PageProps = {
+  params: Promise<{ category: string; slug: string }>;
+};
 
 function isCategorySlug(value: string): value is CalculatorCategorySlug {
   return categories.some((c) => c.slug === value);
 }
 
+// Stays static: the preview image here shows the defaults. Share links point
+// at ./share, which carries the inputs into the image.
 export async function generateMetadata({
   params,
 }: PageProps): Promise<Metadata> {
@@ -25,6 +29,12 @@ export async function generateMetadata({
   if (calc.category !== category) return {};
   const metaTitle = clampMetaTitle(calc.title) ?? calc.title;
   const metaDescription = clampMetaDescription(calc.description);
+  const ogImage = {
+    url: `/${calc.category}/${calc.slug}/og`,
+    width: 1200,
+    height: 630,
+    alt: calc.title,
+  };
 
   return {
     title: metaTitle,
@@ -35,6 +45,13 @@ export async function generateMetadata({
       description: metaDescription,
       url: `/${calc.category}/${calc.slug}`,
       type: "article",
+      images: [ogImage],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: metaTitle,
+      description: metaDescription,
+      images: [ogImage],
     },
   };
 }
@@ -0,0 +1,288 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { FormulaMath } from "@/components/calculators/FormulaMath";
+import { PrintReportButton } from "@/components/calculators/PrintReportButton";
+import { ResultMatrix } from "@/components/calculators/ResultMatrix";
+import { getCalculator } from "@/lib/calculators";
+import { withDisplayCurrency } from "@/lib/calculators/currency";
+import {
+  formatResult,
+  runCalculator,
+  type EngineInputs,
+} from "@/lib/calculators/engine";
+import {
+  formatCompactResultValue,
+  formatInputValue,
+} from "@/lib/calculators/formatResult";
+import { seriesRowLabel, upgradeLegacyParams } from "@/lib/calculators/series";
+import { isSupportedCurrency } from "@/lib/currency";
+import { getGuide } from "@/lib/guides";
+import { DEFAULT_LOCALE, isSupportedLocale } from "@/lib/locale";
+import { absoluteUrl, siteConfig } from "@/lib/site";
+
+type PageProps = {
+  params: Promise<{ category: string; slug: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export async function generateMetadata({
+  params,
+}: PageProps): Promise<Metadata> {
+  const { category, slug } = await params;
+  const calc = getCalculator(slug);
+  if (!calc || calc.category !== category) return {};
+
+  return {
+    title: `${calc.title} report`,
+    alternates: { canonical: `/${calc.category}/${calc.slug}` },
+    robots: { index: false, follow: true },
+  };
+}
+
+// Takes the same flat query params as a share link, plus `locale` for how
+// numbers are written in the report.
+export default async function CalculatorReportPage({
+  params,
+  searchParams,
+}: PageProps) {
+  const { category, slug } = await params;
+  const found = getCalculator(slug);
+  if (!found || found.category !== category) notFound();
+  const query = await searchParams;
+  const param = (key: string) =>
+    typeof query[key] === "string" ? query[key] : undefined;
+
+  const localeParam = param("locale");
+  const locale = isSupportedLocale(localeParam) ? localeParam : DEFAULT_LOCALE;
+  const currencyParam = param("currency");
+  const currency = isSupportedCurrency(currencyParam)
+    ? currencyParam
+    : undefined;
+  const calc = currency ? withDisplayCurrency(found, currency) : found;
+
+  const inputParams = upgradeLegacyParams(
+    calc,
+    Object.fromEntries(
+      calc.inputs.map((input) => [input.key, param(input.key)]),
+    ),
+  );
+  const inputs: EngineInputs = {};
+  const shared = new URLSearchParams();
+  for (const input of calc.inputs) {
+    const value = inputParams[input.key];
+    if (typeof value !== "string") continue;
+    inputs[input.key] = value;
+    shared.set(input.key, value);
+  }
+  if (currency) shared.set("currency", currency);
+  const calculatorPath = `/${calc.category}/${calc.slug}`;
+  const sourceUrl = absoluteUrl(
+    shared.size ? `${calculatorPath}?${shared.toString()}` : calculatorPath,
+  );
+
+  // Share-link values are locale-independent, so parse them as written and
+  // only format the results in the reader's locale.
+  const outcome = runCalculator(slug, inputs, { currency, useDefaults: true });
+  const result =
+    outcome.status === "ok" ? formatResult(outcome.result, locale) : null;
+  const guide = calc.guideSlug ? getGuide(calc.guideSlug) : undefined;
+  const preparedOn = new Intl.DateTimeFormat(locale, {
+    dateStyle: "long",
+  }).format(new Date());
+
+  return (
+    <article className="light mx-auto max-w-3xl space-y-6 rounded-2xl border border-zinc-200 bg-white p-6 text-sm text-zinc-900 print:max-w-none print:rounded-none print:border-0 print:p-0">
+      <div className="flex flex-wrap items-center justify-between gap-3 print:hidden">
+        <Link
+          href={sourceUrl}
+          className="rounded-full border border-zinc-200 px-3 py-1.5 text-sm hover:bg-zinc-50"
+        >
+          Back to calculator
+        </Link>
+        <PrintReportButton />
+      </div>
+
+      <header className="space-y-1 border-b border-zinc-200 pb-4">
+        <div className="text-xs uppercase tracking-wide text-zinc-500">
+          {siteConfig.name} calculation report
+        </div>
+        <h1 className="text-2xl font-semibold tracking-tight">{calc.title}</h1>
+        <div className="text-zinc-600">Prepared {preparedOn}</div>
+        <div className="break-all text-xs text-zinc-500">{sourceUrl}</div>
+      </header>
+
+      {outcome.status !== "ok" || !result ? (
+        <section className="space-y-2">
+          <h2 className="text-base font-semibold">
+            These inputs could not be calculated
+          </h2>
+          {outcome.status === "invalid-inputs" ? (
+            <ul className="list-disc space-y-1 pl-5 text-red-600">
+              {calc.inputs
+                .filter((input) => outcome.errors[input.key])
+                .map((input) => (
+                  <li key={input.key}>
+                    {input.label}: {outcome.errors[input.key]}
+                  </li>
+                ))}
+            </ul>
+          ) : null}
+        </section>
+      ) : (
+        <>
+          <section className="grid gap-6 sm:grid-cols-2 print:grid-cols-2">
+            <div className="space-y-2">
+              <h2 className="text-base font-semibold">Inputs</h2>
+              <table className="w-full border-collapse text-left">
+                <tbody>
+                  {calc.inputs.flatMap((input) =>
+                    input.kind === "series"
+                      ? (outcome.series[input.key] ?? []).map(
+                          (value, index) => (
+                            <tr
+                              key={`${input.key}-${index}`}
+                              className="border-b border-zinc-100"
+                            >
+                              <th
+                                scope="row"
+                                className="py-1 pr-3 font-normal text-zinc-600"
+                              >
+                                {input.label} - {seriesRowLabel(input, index)}
+                              </th>
+                              <td className="py-1 text-right font-medium">
+                                {formatInputValue(input, value, locale)}
+                              </td>
+                            </tr>
+                          ),
+                        )
+                      : [
+                          <tr
+                            key={input.key}
+                            className="border-b border-zinc-100"
+                          >
+                            <th
+                              scope="row"
+                              className="py-1 pr-3 font-normal text-zinc-600"
+                            >
+                              {input.label}
+                            </th>
+                            <td className="py-1 text-right font-medium">
+                              {formatInputValue(
+                                input,
+                                outcome.values[input.key] ?? 0,
+                                locale,
+                              )}
+                            </td>
+                          </tr>,
+                        ],
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="space-y-2">
+              <h2 className="text-base font-semibold">Results</h2>
+              <div className="rounded-2xl border border-zinc-200 p-4">
+                <div className="text-zinc-600">{result.headline.label}</div>
+                <div className="mt-1 text-2xl font-semibold tracking-tight">
+                  {result.headline.formatted}
+                </div>
+                {result.headline.detail ? (
+                  <div className="mt-1 text-xs text-zinc-500">
+                    {result.headline.detail}
+                  </div>
+                ) : null}
+              </div>
+              <table className="w-full border-collapse text-left">
+                <tbody>
+                  {[...result.secondary, ...result.breakdown].map((r) => (
+                    <tr key={r.key} className="border-b border-zinc-100">
+                      <th
+                        scope="row"
+                        className="py-1 pr-3 font-normal text-zinc-600"
+                      >
+                        {r.label}
+                        {r.detail ? (
+                          <div className="text-xs text-zinc-500">
+                            {r.detail}
+                          </div>
+                        ) : null}
+                      </th>
+                      <td className="py-1 text-right align-top font-medium">
+                        {r.formatted}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          {result.matrix ? (
+            <section className="space-y-2 break-inside-avoid">
+              <h2 className="text-base font-semibold">{result.matrix.title}</h2>
+              <ResultMatrix
+                matrix={result.matrix}
+                formatValue={(value, spec) =>
+                  formatCompactResultValue(value, spec, locale)
+                }
+              />
+            </section>
+          ) : null}
+
+          {result.warnings.length ? (
+            <section className="space-y-2">
+              <h2 className="text-base font-semibold">Warnings</h2>
+              <ul className="list-disc space-y-1 pl-5 text-red-600">
+                {result.warnings.map((w) => (
+                  <li key={w}>{w}</li>
+                ))}
+              </ul>
+            </section>
+          ) : null}
+        </>
+      )}
+
+      <section className="space-y-2 break-inside-avoid">
+        <h2 className="text-base font-semibold">Formula</h2>
+        {calc.formulaExpression ? (
+          <FormulaMath
+            expression={calc.formulaExpression}
+            inputs={calc.inputs}
+            locale={locale}
+            label={result?.headline.label}
+            working={
+              outcome.status === "ok" && result
+                ? { values: outcome.values, result: result.headline.formatted }
+                : undefined
+            }
+          />
+        ) : null}
+        <div className="font-medium">{calc.formula}</div>
+        <ul className="list-disc space-y-1 pl-5 text-zinc-600">
+          {calc.assumptions.map((a) => (
+            <li key={a}>{a}</li>
+          ))}
+        </ul>
+      </section>
+
+      {guide ? (
+        <section className="space-y-1 break-inside-avoid">
+          <h2 className="text-base font-semibold">Related guide</h2>
+          <Link className="underline" href={`/guides/${guide.slug}`}>
+            {guide.title}
+          </Link>
+          <div className="break-all text-xs text-zinc-500">
+            {absoluteUrl(`/guides/${guide.slug}`)}
+          </div>
+        </section>
+      ) : null}
+
+      <footer className="border-t border-zinc-200 pt-3 text-xs text-zinc-500">
+        Estimates for informational purposes only; not financial, accounting, or
+        legal advice.
+      </footer>
+    </article>
+  );
+}
@@ -0,0 +1,96 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { CalculatorPageClient } from "@/components/calculators/CalculatorPageClient";
+import { Breadcrumbs } from "@/components/site/Breadcrumbs";
+import { categories, getCalculator } from "@/lib/calculators";
+import { upgradeLegacyParams } from "@/lib/calculators/series";
+import type { CalculatorDefinition } from "@/lib/calculators/types";
+import { clampMetaDescription, clampMetaTitle } from "@/lib/seo";
+
+type PageProps = {
+  params: Promise<{ category: string; slug: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+// Share links carry inputs in the query string, so the preview image does too.
+function ogImagePath(
+  calc: CalculatorDefinition,
+  searchParams: Record<string, string | string[] | undefined>,
+): string {
+  const params = upgradeLegacyParams(
+    calc,
+    Object.fromEntries(
+      Object.entries(searchParams).filter(
+        (entry): entry is [string, string] => typeof entry[1] === "string",
+      ),
+    ),
+  );
+  const query = new URLSearchParams();
+  for (const key of [...calc.inputs.map((i) => i.key), "currency"]) {
+    const value = params[key];
+    if (typeof value === "string") query.set(key, value);
+  }
+  const path = `/${calc.category}/${calc.slug}/og`;
+  return query.size ? `${path}?${query.toString()}` : path;
+}
+
+// Rendered per request for the preview image, unlike the calculator page,
+// which stays static; the calculator itself reads the inputs client-side.
+export async function generateMetadata({
+  params,
+  searchParams,
+}: PageProps): Promise<Metadata> {
+  const { category, slug } = await params;
+  const calc = getCalculator(slug);
+  if (!calc || calc.category !== category) return {};
+  const metaTitle = clampMetaTitle(calc.title) ?? calc.title;
+  const metaDescription = clampMetaDescription(calc.description);
+  const ogImage = {
+    url: ogImagePath(calc, await searchParams),
+    width: 1200,
+    height: 630,
+    alt: calc.title,
+  };
+
+  return {
+    title: metaTitle,
+    description: metaDescription,
+    alternates: { canonical: `/${calc.category}/${calc.slug}` },
+    robots: { index: false, follow: true },
+    openGraph: {
+      title: metaTitle,
+      description: metaDescription,
+      type: "article",
+      images: [ogImage],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: metaTitle,
+      description: metaDescription,
+      images: [ogImage],
+    },
+  };
+}
+
+export default async function SharedCalculatorPage({ params }: PageProps) {
+  const { category, slug } = await params;
+  const calc = getCalculator(slug);
+  if (!calc || calc.category !== category) notFound();
+  const categoryTitle =
+    categories.find((c) => c.slug === category)?.title ?? category;
+
+  return (
+    <>
+      <div className="mb-6">
+        <Breadcrumbs
+          items={[
+            { label: "Home", href: "/" },
+            { label: categoryTitle, href: `/${category}` },
+            { label: calc.title, href: `/${category}/${calc.slug}` },
+          ]}
+        />
+      </div>
+      <CalculatorPageClient slug={calc.slug} />
+    </>
+  );
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  handleApiRequest,
+  readJsonRequest,
+  readQueryRequest,
+  type ApiResponse,
+} from "@/lib/calculators/api";
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+function toResponse({ status, body }: ApiResponse) {
+  return NextResponse.json(body, { status });
+}
+
+// GET /api/calculators/roas-calculator?revenue=5000&adSpend=1000
+// Series inputs are ";"-separated, as in share links.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { slug } = await params;
+  return toResponse(handleApiRequest(slug, readQueryRequest(request.nextUrl.searchParams)));
+}
+
+// POST a flat JSON object: { "revenue": 5000, "adSpend": 1000, "currency": "EUR" }.
+// Series inputs may be arrays.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { slug } = await params;
+  const read = readJsonRequest(await request.text());
+  if ("status" in read) return toResponse(read);
+  return toResponse(handleApiRequest(slug, read));
+}
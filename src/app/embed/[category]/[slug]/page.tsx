@@ -0,0 +1,46 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { CalculatorPageClient } from "@/components/calculators/CalculatorPageClient";
+import { getCalculator } from "@/lib/calculators";
+import { readEmbedTheme } from "@/lib/embed";
+
+type PageProps = {
+  params: Promise<{ category: string; slug: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export async function generateMetadata({
+  params,
+}: PageProps): Promise<Metadata> {
+  const { category, slug } = await params;
+  const calc = getCalculator(slug);
+  if (!calc || calc.category !== category) return {};
+
+  return {
+    title: calc.title,
+    description: calc.description,
+    alternates: { canonical: `/${calc.category}/${calc.slug}` },
+    robots: { index: false, follow: true },
+  };
+}
+
+export default async function EmbedCalculatorPage({
+  params,
+  searchParams,
+}: PageProps) {
+  const { category, slug } = await params;
+  const calc = getCalculator(slug);
+  if (!calc || calc.category !== category) notFound();
+  const theme = readEmbedTheme((await searchParams).theme);
+
+  return (
+    <div
+      className={[
+        "min-h-dvh bg-background p-4 text-foreground",
+        theme === "auto" ? "" : theme,
+      ].join(" ")}
+    >
+      <CalculatorPageClient slug={calc.slug} embed />
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { TrustPanel } from "@/components/site/TrustPanel";
 import { AdUnit } from "@/components/ads/AdUnit";
 import { calculators } from "@/lib/calculators";
 import { getGuide, guides } from "@/lib/guides";
+import { slugify } from "@/lib/guides/anchors";
 import { glossaryTerms } from "@/lib/glossary";
 import { clampMetaDescription, clampMetaTitle } from "@/lib/seo";
 import { absoluteUrl, siteConfig } from "@/lib/site";
@@ -14,15 +15,6 @@ import { getAdSenseSlot } from "@/lib/adsense";
 
 type PageProps = { params: Promise<{ slug: string }> };
 
-function slugify(input: string): string {
-  return input
-    .toLowerCase()
-    .trim()
-    .replaceAll(/[^a-z0-9\s-]/g, "")
-    .replaceAll(/\s+/g, "-")
-    .replaceAll(/-+/g, "-");
-}
-
 function overlapCount(a: string[] | undefined, b: string[] | undefined): number {
   if (!a?.length || !b?.length) return 0;
   const setA = new Set(a);
@@ -95,6 +87,8 @@ export default async function GuidePage({ params }: PageProps) {
       if (!calc) return null;
       const url = new URL(`${siteConfig.siteUrl}/${calc.category}/${calc.slug}`);
       for (const [k, v] of Object.entries(ex.params)) url.searchParams.set(k, v);
+      // The calculator saves this example as a scenario named after its label.
+      url.searchParams.set("example", ex.label);
       return {
         ...ex,
         calculatorTitle: calc.title,
@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { SiteFooter } from "@/components/site/SiteFooter";
+import { SiteChrome } from "@/components/site/SiteChrome";
 import { SiteHeader } from "@/components/site/SiteHeader";
 import { AdSenseLoader } from "@/components/ads/AdSenseLoader";
 import { ConsentBanner } from "@/components/consent/ConsentBanner";
@@ -108,17 +109,20 @@ export default function RootLayout({
       >
         <JsonLd data={orgLd} />
         <JsonLd data={webSiteLd} />
-        <GoogleConsentSync />
-        <GoogleAnalytics />
-        <AdSenseLoader />
-        <div className="flex min-h-dvh flex-col">
-          <SiteHeader />
-          <main className="mx-auto w-full max-w-6xl flex-1 px-4 py-10">
-            {children}
-          </main>
-          <SiteFooter />
-        </div>
-        <ConsentBanner />
+        <SiteChrome
+          header={<SiteHeader />}
+          footer={<SiteFooter />}
+          thirdParty={
+            <>
+              <GoogleConsentSync />
+              <GoogleAnalytics />
+              <AdSenseLoader />
+              <ConsentBanner />
+            </>
+          }
+        >
+          {children}
+        </SiteChrome>
       </body>
     </html>
   );
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { buildSearchIndex } from "@/lib/search/build";
+
+// Built once at build time; SearchClient fetches it instead of bundling every
+// calculator, guide and glossary page into the client.
+export const dynamic = "force-static";
+
+export function GET() {
+  return NextResponse.json(buildSearchIndex());
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { buildSearchPassages } from "@/lib/search/build";
+
+// Built once at build time, like /search/index.json, but fetched only by the
+// search page: most of the text is here, and only result snippets need it.
+export const dynamic = "force-static";
+
+export function GET() {
+  return NextResponse.json(buildSearchPassages());
+}
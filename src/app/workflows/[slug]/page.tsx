@@ -0,0 +1,127 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { JsonLd } from "@/components/seo/JsonLd";
+import { Breadcrumbs } from "@/components/site/Breadcrumbs";
+import { CalculatorCard } from "@/components/site/CalculatorCard";
+import { WorkflowPageClient } from "@/components/workflows/WorkflowPageClient";
+import { getWorkflow, workflows } from "@/lib/workflows";
+import { resolveWorkflowSteps } from "@/lib/workflows/run";
+import { clampMetaDescription, clampMetaTitle } from "@/lib/seo";
+import { absoluteUrl, siteConfig } from "@/lib/site";
+
+type PageProps = {
+  params: Promise<{ slug: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export function generateStaticParams() {
+  return workflows.map((w) => ({ slug: w.slug }));
+}
+
+export async function generateMetadata({
+  params,
+}: PageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const workflow = getWorkflow(slug);
+  if (!workflow) return {};
+  const metaTitle = clampMetaTitle(workflow.title) ?? workflow.title;
+  const metaDescription = clampMetaDescription(workflow.description);
+  return {
+    title: metaTitle,
+    description: metaDescription,
+    alternates: { canonical: `/workflows/${workflow.slug}` },
+    openGraph: {
+      title: metaTitle,
+      description: metaDescription,
+      url: `/workflows/${workflow.slug}`,
+      type: "article",
+    },
+  };
+}
+
+// Takes the same flat query params as the page's "Copy link".
+export default async function WorkflowPage({
+  params,
+  searchParams,
+}: PageProps) {
+  const { slug } = await params;
+  const workflow = getWorkflow(slug);
+  if (!workflow) notFound();
+  const query = await searchParams;
+  const initialInputs: Record<string, string> = {};
+  for (const [key, value] of Object.entries(query)) {
+    if (typeof value === "string" && key !== "currency") {
+      initialInputs[key] = value;
+    }
+  }
+  const steps = resolveWorkflowSteps(workflow);
+
+  const breadcrumbLd = {
+    "@context": "https://schema.org",
+    "@type": "BreadcrumbList",
+    itemListElement: [
+      {
+        "@type": "ListItem",
+        position: 1,
+        name: "Home",
+        item: `${siteConfig.siteUrl}/`,
+      },
+      {
+        "@type": "ListItem",
+        position: 2,
+        name: "Workflows",
+        item: `${siteConfig.siteUrl}/workflows`,
+      },
+      {
+        "@type": "ListItem",
+        position: 3,
+        name: workflow.title,
+        item: absoluteUrl(`/workflows/${workflow.slug}`),
+      },
+    ],
+  };
+
+  return (
+    <>
+      <JsonLd data={breadcrumbLd} />
+      <div className="mb-6">
+        <Breadcrumbs
+          items={[
+            { label: "Home", href: "/" },
+            { label: "Workflows", href: "/workflows" },
+            { label: workflow.title, href: `/workflows/${workflow.slug}` },
+          ]}
+        />
+      </div>
+      <noscript>
+        <div className="mb-6 rounded-2xl border border-zinc-200 bg-white p-4 text-sm text-zinc-700 dark:border-zinc-800 dark:bg-black dark:text-zinc-300">
+          JavaScript is required for the interactive workflow. Please enable
+          JavaScript and reload.
+        </div>
+      </noscript>
+      <div className="mb-6 flex flex-wrap gap-2 text-sm text-zinc-600 dark:text-zinc-400">
+        <span className="rounded-full border border-zinc-200 px-3 py-1 dark:border-zinc-800">
+          Reviewed by {siteConfig.reviewTeamName}
+        </span>
+        <span className="rounded-full border border-zinc-200 px-3 py-1 dark:border-zinc-800">
+          Updated {workflow.updatedAt}
+        </span>
+      </div>
+      <WorkflowPageClient
+        key={workflow.slug}
+        slug={workflow.slug}
+        initialInputs={initialInputs}
+      />
+      <section className="mt-10 space-y-3">
+        <h2 className="text-lg font-semibold tracking-tight">
+          Calculators in this workflow
+        </h2>
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          {steps.map(({ calc }) => (
+            <CalculatorCard key={calc.slug} calc={calc} />
+          ))}
+        </div>
+      </section>
+    </>
+  );
+}
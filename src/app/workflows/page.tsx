@@ -0,0 +1,60 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { workflows } from "@/lib/workflows";
+import { resolveWorkflowSteps } from "@/lib/workflows/run";
+
+export const metadata: Metadata = {
+  title: { absolute: "Multi-calculator workflows" },
+  description:
+    "Run several related calculators from one set of inputs: unit economics reviews, paid ads profitability checks and more, with a combined summary.",
+  alternates: { canonical: "/workflows" },
+  openGraph: {
+    title: "Multi-calculator workflows",
+    description:
+      "Run several related calculators from one set of inputs: unit economics reviews, paid ads profitability checks and more, with a combined summary.",
+    url: "/workflows",
+    type: "website",
+  },
+};
+
+export default function WorkflowsIndexPage() {
+  return (
+    <div className="space-y-10">
+      <div className="space-y-2">
+        <h1 className="text-balance text-3xl font-semibold tracking-tight sm:text-4xl">
+          Workflows
+        </h1>
+        <p className="max-w-2xl text-pretty text-zinc-600 dark:text-zinc-400">
+          Enter your numbers once and run a set of related calculators in order.
+          Results from earlier steps feed the later ones, so every metric uses
+          the same assumptions.
+        </p>
+      </div>
+
+      <section className="grid gap-4 sm:grid-cols-2">
+        {workflows.map((w) => (
+          <Link
+            key={w.slug}
+            href={`/workflows/${w.slug}`}
+            className="rounded-2xl border border-zinc-200 bg-white p-5 hover:bg-zinc-50 dark:border-zinc-800 dark:bg-black dark:hover:bg-zinc-950"
+          >
+            <div className="text-lg font-semibold tracking-tight hover:underline">
+              {w.title}
+            </div>
+            <div className="mt-2 text-sm text-zinc-600 dark:text-zinc-400">
+              {w.description}
+            </div>
+            <ol className="mt-3 list-decimal space-y-1 pl-5 text-sm text-zinc-600 dark:text-zinc-400">
+              {resolveWorkflowSteps(w).map(({ calc }) => (
+                <li key={calc.slug}>{calc.title}</li>
+              ))}
+            </ol>
+            <div className="mt-3 text-xs text-zinc-500">
+              Updated {w.updatedAt}
+            </div>
+          </Link>
+        ))}
+      </section>
+    </div>
+  );
+}
@@ -52,7 +52,7 @@ export function AdUnit({ slot, className, style }: AdUnitProps) {
     return (
       <div
         className={[
-          "rounded-2xl border border-dashed border-zinc-300 bg-white p-4 text-sm text-zinc-600 dark:border-zinc-700 dark:bg-black dark:text-zinc-400",
+          "rounded-2xl border border-dashed border-zinc-300 bg-white p-4 text-sm text-zinc-600 print:hidden dark:border-zinc-700 dark:bg-black dark:text-zinc-400",
           className ?? "",
         ].join(" ")}
         style={style}
@@ -76,7 +76,7 @@ export function AdUnit({ slot, className, style }: AdUnitProps) {
   return (
     <div
       className={[
-        "rounded-2xl border border-zinc-200 bg-white p-3 dark:border-zinc-800 dark:bg-black",
+        "rounded-2xl border border-zinc-200 bg-white p-3 print:hidden dark:border-zinc-800 dark:bg-black",
         className ?? "",
       ].join(" ")}
       style={style}
@@ -1,46 +1,76 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { Suspense, useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
 import { calculators } from "@/lib/calculators/definitions";
-import type { CalculatorDefinition, ResultValue } from "@/lib/calculators/types";
-import {
-  formatCurrency,
-  formatNumber,
-  formatPercent,
-  toNumber,
-} from "@/lib/format";
+import { formatNumber, numberSeparators, toLocaleInput } from "@/lib/format";
 import { CalculatorCard } from "@/components/site/CalculatorCard";
 import Link from "next/link";
 import { AdUnit } from "@/components/ads/AdUnit";
 import { guides } from "@/lib/guides";
 import { getAdSenseSlot } from "@/lib/adsense";
+import { FormulaMath } from "@/components/calculators/FormulaMath";
+import { GoalSeekPanel } from "@/components/calculators/GoalSeekPanel";
 import { NextActionPanel } from "@/components/calculators/NextActionPanel";
+import { ResultChart } from "@/components/calculators/ResultChart";
+import { ResultMatrix } from "@/components/calculators/ResultMatrix";
+import { SensitivityPanel } from "@/components/calculators/SensitivityPanel";
+import { NumberInput } from "@/components/calculators/NumberInput";
+import { SeriesInput } from "@/components/calculators/SeriesInput";
+import { ScenariosPanel } from "@/components/calculators/ScenariosPanel";
+import { EmbedSnippet } from "@/components/calculators/EmbedSnippet";
+import { ExportMenu } from "@/components/calculators/ExportMenu";
+import { SendToMenu } from "@/components/calculators/SendToMenu";
+import { useShareableInputs } from "@/components/calculators/useShareableInputs";
+import {
+  formatCompactResultValue,
+  formatResultValue,
+} from "@/lib/calculators/formatResult";
+import { usePageCurrency } from "@/components/currency/currencyStore";
+import { SharedCurrencyNote } from "@/components/currency/SharedCurrencyNote";
+import { withDisplayCurrency } from "@/lib/calculators/currency";
+import { getLocale } from "@/components/locale/localeStore";
+import { DEFAULT_LOCALE } from "@/lib/locale";
+import { absoluteUrl, siteConfig } from "@/lib/site";
+import {
+  buildDefaultRawInputs,
+  flattenRawInputs,
+  parseRawInputs,
+  readUrlInputs,
+  type ExampleInputs,
+  type RawInputs,
+} from "@/lib/calculators/inputs";
 
-function formatValue(result: ResultValue): string {
-  const maxFractionDigits = result.maxFractionDigits ?? 2;
-  switch (result.format) {
-    case "currency":
-      return formatCurrency(result.value, result.currency ?? "USD");
-    case "percent":
-      return formatPercent(result.value, maxFractionDigits);
-    case "multiple":
-      return `${formatNumber(result.value, maxFractionDigits)}x`;
-    case "months":
-      return `${formatNumber(result.value, maxFractionDigits)} months`;
-    case "ratio":
-      return `${formatNumber(result.value, maxFractionDigits)}:1`;
-    case "number":
-    default:
-      return formatNumber(result.value, maxFractionDigits);
-  }
-}
-
-function buildInitialState(calc: CalculatorDefinition): Record<string, string> {
-  return Object.fromEntries(calc.inputs.map((i) => [i.key, i.defaultValue]));
-}
+type CalculatorPageClientProps = {
+  slug: string;
+  embed?: boolean; // form and result only, for /embed iframes
+};
 
-export function CalculatorPageClient({ slug }: { slug: string }) {
-  const calc = calculators.find((c) => c.slug === slug);
+export function CalculatorPageClient({ slug, embed = false }: CalculatorPageClientProps) {
+  const pageCurrency = usePageCurrency(`calculator/${slug}`);
+  const { currency } = pageCurrency;
+  const {
+    locale,
+    rawInputs,
+    setRawInputs,
+    rawSeries,
+    setRawSeries,
+    rawLocale,
+    replaceRawInputs,
+    copyStatus,
+    copyShareLink,
+  } = useShareableInputs({
+    page: `calculator/${slug}`,
+    currency,
+    initial: () => {
+      const found = calculators.find((c) => c.slug === slug);
+      return found ? buildDefaultRawInputs(found) : { values: {}, series: {} };
+    },
+  });
+  const calc = useMemo(() => {
+    const found = calculators.find((c) => c.slug === slug);
+    return found ? withDisplayCurrency(found, currency) : undefined;
+  }, [slug, currency]);
   const sidebarSlot = getAdSenseSlot("calculatorSidebar");
   const relatedGuides = useMemo(() => {
     if (!calc) return [];
@@ -76,62 +106,50 @@ export function CalculatorPageClient({ slug }: { slug: string }) {
       .slice(0, 6);
   }, [calc]);
 
-  const [rawInputs, setRawInputs] = useState<Record<string, string>>(() =>
-    calc ? buildInitialState(calc) : {},
-  );
-  const [copyStatus, setCopyStatus] = useState<"idle" | "copied" | "failed">(
-    "idle",
-  );
+  const [example, setExample] = useState<ExampleInputs | null>(null);
   const [copyResultStatus, setCopyResultStatus] = useState<
     "idle" | "copied" | "failed"
   >("idle");
 
   const defaultExample = useMemo(() => {
     if (!calc) return null;
-    const defaults: Record<string, number> = {};
-    for (const input of calc.inputs) {
-      const parsedValue = toNumber(input.defaultValue);
-      if (parsedValue === null) return null;
-      defaults[input.key] = parsedValue;
-    }
-    return { inputs: defaults, result: calc.compute(defaults) };
+    const defaults = parseRawInputs(calc, buildDefaultRawInputs(calc));
+    if (defaults.invalidKeys.length > 0) return null;
+    return {
+      inputs: defaults.values,
+      series: defaults.series,
+      result: calc.compute(defaults.values, defaults.series),
+    };
   }, [calc]);
 
   const parsed = useMemo(() => {
-    if (!calc) return { values: {}, invalidKeys: [] as string[] };
-    const values: Record<string, number> = {};
-    const invalidKeys: string[] = [];
-    for (const input of calc.inputs) {
-      const parsedValue = toNumber(rawInputs[input.key] ?? "");
-      if (parsedValue === null) invalidKeys.push(input.key);
-      else values[input.key] = parsedValue;
+    if (!calc) {
+      return {
+        values: {},
+        series: {},
+        invalidKeys: [] as string[],
+        invalidSeriesRows: {} as Record<string, number[]>,
+        errors: {} as Record<string, string>,
+      };
     }
-    return { values, invalidKeys };
-  }, [calc, rawInputs]);
+    return parseRawInputs(calc, { values: rawInputs, series: rawSeries }, rawLocale);
+  }, [calc, rawInputs, rawSeries, rawLocale]);
 
   const result = useMemo(() => {
     if (!calc) return null;
     if (parsed.invalidKeys.length > 0) return null;
-    return calc.compute(parsed.values);
-  }, [calc, parsed.invalidKeys.length, parsed.values]);
+    return calc.compute(parsed.values, parsed.series);
+  }, [calc, parsed.invalidKeys.length, parsed.values, parsed.series]);
 
-  useEffect(() => {
+  // Runs on load and again whenever the query changes, e.g. when the command
+  // palette opens this same calculator with other inputs.
+  const applyUrlInputs = (params: URLSearchParams) => {
     if (!calc) return;
-    const url = new URL(window.location.href);
-    const nextRaw: Record<string, string> = {};
-    for (const input of calc.inputs) {
-      const v = url.searchParams.get(input.key);
-      if (v !== null) {
-        nextRaw[input.key] = v;
-      }
-    }
-    setRawInputs(() => ({
-      ...buildInitialState(calc),
-      ...nextRaw,
-    }));
-    // only on first client render per slug
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [slug]);
+    const activeLocale = getLocale();
+    const next = readUrlInputs(calc, params, activeLocale);
+    replaceRawInputs(next.raw, activeLocale);
+    setExample(next.example);
+  };
 
   if (!calc) {
     return (
@@ -146,30 +164,17 @@ export function CalculatorPageClient({ slug }: { slug: string }) {
     );
   }
 
-  const copyShareLink = async () => {
-    try {
-      const url = new URL(window.location.href);
-      url.search = "";
-      for (const input of calc.inputs) {
-        const raw = (rawInputs[input.key] ?? "").trim();
-        if (raw) url.searchParams.set(input.key, raw);
-      }
-      await navigator.clipboard.writeText(url.toString());
-      setCopyStatus("copied");
-      window.setTimeout(() => setCopyStatus("idle"), 1500);
-    } catch {
-      setCopyStatus("failed");
-      window.setTimeout(() => setCopyStatus("idle"), 2000);
-    }
-  };
-
   const copyResult = async () => {
     try {
-      const headline = result ? formatValue(result.headline) : "";
+      const headline = result ? formatResultValue(result.headline, locale) : "";
       const lines: string[] = [];
       lines.push(`${calc.title}: ${headline}`);
       for (const input of calc.inputs) {
-        lines.push(`${input.label}: ${rawInputs[input.key] ?? ""}${input.suffix ?? ""}`);
+        const raw =
+          input.kind === "series"
+            ? (rawSeries[input.key] ?? []).join("; ")
+            : rawInputs[input.key] ?? "";
+        lines.push(`${input.label}: ${input.prefix ?? ""}${raw}${input.suffix ?? ""}`);
       }
       await navigator.clipboard.writeText(lines.join("\n"));
       setCopyResultStatus("copied");
@@ -180,6 +185,205 @@ export function CalculatorPageClient({ slug }: { slug: string }) {
     }
   };
 
+  const flatInputs = flattenRawInputs(
+    calc,
+    { values: rawInputs, series: rawSeries },
+    rawLocale,
+  );
+  const reportParams = new URLSearchParams(flatInputs);
+  reportParams.set("currency", currency);
+  if (locale !== DEFAULT_LOCALE) reportParams.set("locale", locale);
+  const reportHref = `/${calc.category}/${calc.slug}/report?${reportParams.toString()}`;
+
+  const inputForm = (
+    <div className="rounded-2xl border border-zinc-200 bg-white p-5 dark:border-zinc-800 dark:bg-black">
+      <Suspense fallback={null}>
+        <UrlInputs key={slug} onChange={applyUrlInputs} />
+      </Suspense>
+      <div className="grid gap-4 sm:grid-cols-2">
+        {calc.inputs.map((input) => {
+          if (input.kind === "series") {
+            return (
+              <SeriesInput
+                key={input.key}
+                input={input}
+                rows={rawSeries[input.key] ?? []}
+                invalidRows={parsed.invalidSeriesRows[input.key] ?? []}
+                error={parsed.errors[input.key]}
+                locale={locale}
+                onChange={(rows) =>
+                  setRawSeries((prev) => ({ ...prev, [input.key]: rows }))
+                }
+              />
+            );
+          }
+          return (
+            <NumberInput
+              key={input.key}
+              input={input}
+              value={rawInputs[input.key] ?? ""}
+              error={parsed.errors[input.key]}
+              locale={locale}
+              onChange={(value) =>
+                setRawInputs((prev) => ({ ...prev, [input.key]: value }))
+              }
+            />
+          );
+        })}
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+        <div className="text-xs text-zinc-500">
+          Tip: you can type{" "}
+          {numberSeparators(locale).group === "," ? "commas" : "thousands separators"}{" "}
+          (e.g., {formatNumber(10000, 0, locale)}).
+          <SharedCurrencyNote pageCurrency={pageCurrency} />
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => {
+              replaceRawInputs(buildDefaultRawInputs(calc, rawLocale));
+            }}
+            className="rounded-full border border-zinc-200 px-3 py-1.5 text-sm hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900"
+          >
+            Reset
+          </button>
+          <button
+            type="button"
+            // The share page previews these inputs; embeds share it too
+            // rather than the iframe URL.
+            onClick={() =>
+              copyShareLink(`/${calc.category}/${calc.slug}/share`, calc)
+            }
+            className="rounded-full border border-zinc-200 px-3 py-1.5 text-sm hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900"
+          >
+            {copyStatus === "copied"
+              ? "Copied"
+              : copyStatus === "failed"
+                ? "Copy failed"
+                : "Copy link"}
+          </button>
+          <button
+            type="button"
+            onClick={() => setRawInputs((v) => ({ ...v }))}
+            className="rounded-full bg-black px-3 py-1.5 text-sm font-medium text-white hover:bg-zinc-800 dark:bg-white dark:text-black dark:hover:bg-zinc-200"
+          >
+            Calculate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  const resultPanel = (
+    <div className="rounded-2xl border border-zinc-200 bg-white p-5 dark:border-zinc-800 dark:bg-black">
+      <div className="text-sm text-zinc-600 dark:text-zinc-400">
+        Result
+      </div>
+      {result ? (
+        <>
+          <div className="mt-2 text-3xl font-semibold tracking-tight">
+            {formatResultValue(result.headline, locale)}
+          </div>
+          <div className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+            {result.headline.detail}
+          </div>
+          <div className="mt-4 flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={copyResult}
+              className="rounded-full border border-zinc-200 px-3 py-1.5 text-sm hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900"
+            >
+              {copyResultStatus === "copied"
+                ? "Copied"
+                : copyResultStatus === "failed"
+                  ? "Copy failed"
+                  : "Copy result"}
+            </button>
+            <ExportMenu
+              calc={calc}
+              values={parsed.values}
+              series={parsed.series}
+              result={result}
+              locale={locale}
+            />
+            <SendToMenu
+              calc={calc}
+              inputs={flatInputs}
+              result={result}
+              currency={currency}
+              newTab={embed}
+            />
+            {embed ? null : (
+              <Link
+                href={reportHref}
+                className="rounded-full border border-zinc-200 px-3 py-1.5 text-sm hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900"
+              >
+                Print report
+              </Link>
+            )}
+          </div>
+        </>
+      ) : (
+        <div className="mt-2 text-sm text-zinc-600 dark:text-zinc-400">
+          Enter valid numbers to calculate.
+        </div>
+      )}
+      {result?.warnings?.length ? (
+        <ul className="mt-3 list-disc space-y-1 pl-5 text-sm text-red-600">
+          {result.warnings.map((w) => (
+            <li key={w}>{w}</li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+
+  const detailsPanel = result?.secondary?.length ? (
+    <div className="rounded-2xl border border-zinc-200 bg-white p-5 dark:border-zinc-800 dark:bg-black">
+      <div className="text-sm font-medium">Details</div>
+      <dl className="mt-3 space-y-3">
+        {result.secondary.map((r) => (
+          <div key={r.key} className="flex items-start justify-between gap-4">
+            <dt className="text-sm text-zinc-600 dark:text-zinc-400">
+              {r.label}
+              {r.detail ? (
+                <div className="text-xs text-zinc-500">{r.detail}</div>
+              ) : null}
+            </dt>
+            <dd className="text-sm font-medium">{formatResultValue(r, locale)}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  ) : null;
+
+  if (embed) {
+    return (
+      <div className="space-y-4">
+        <h1 className="text-lg font-semibold tracking-tight">{calc.title}</h1>
+        <div className="grid gap-4 md:grid-cols-5">
+          <div className="md:col-span-3">{inputForm}</div>
+          <div className="space-y-4 md:col-span-2">
+            {resultPanel}
+            {detailsPanel}
+          </div>
+        </div>
+        <div className="text-xs text-zinc-500">
+          <a
+            className="underline"
+            href={absoluteUrl(`/${calc.category}/${calc.slug}`)}
+            target="_blank"
+            rel="noopener"
+          >
+            Powered by {siteConfig.name}
+          </a>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="grid gap-8 lg:grid-cols-5">
       <section className="space-y-4 lg:col-span-3">
@@ -241,99 +445,79 @@ export function CalculatorPageClient({ slug }: { slug: string }) {
           </div>
         ) : null}
 
-        <div className="rounded-2xl border border-zinc-200 bg-white p-5 dark:border-zinc-800 dark:bg-black">
-          <div className="grid gap-4 sm:grid-cols-2">
-            {calc.inputs.map((input) => {
-              const isInvalid = parsed.invalidKeys.includes(input.key);
-              const helperText = isInvalid
-                ? "Enter a valid number."
-                : input.help ?? "";
-              return (
-                <div key={input.key} className="space-y-1">
-                  <label className="text-sm font-medium" htmlFor={input.key}>
-                    {input.label}
-                  </label>
-                  <div
-                    className={[
-                      "min-h-4 text-xs",
-                      isInvalid ? "text-red-600" : "text-zinc-500",
-                    ].join(" ")}
-                  >
-                    {helperText || "\u00A0"}
-                  </div>
-                  <div className="relative">
-                    {input.prefix ? (
-                      <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3 text-sm text-zinc-500">
-                        {input.prefix}
-                      </div>
-                    ) : null}
-                    <input
-                      id={input.key}
-                      name={input.key}
-                      aria-invalid={isInvalid}
-                      inputMode="decimal"
-                      min={input.min}
-                      step={input.step}
-                      value={rawInputs[input.key] ?? ""}
-                      onChange={(e) =>
-                        setRawInputs((prev) => ({
-                          ...prev,
-                          [input.key]: e.target.value,
-                        }))
-                      }
-                      placeholder={input.placeholder}
-                      className={[
-                        "w-full rounded-xl border bg-white py-2 text-sm outline-none transition-colors dark:bg-black",
-                        "pl-10 pr-12",
-                        isInvalid
-                          ? "border-red-400 focus:border-red-500"
-                          : "border-zinc-200 focus:border-zinc-400 dark:border-zinc-800 dark:focus:border-zinc-600",
-                      ].join(" ")}
-                    />
-                    {input.suffix ? (
-                      <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3 text-sm text-zinc-500">
-                        {input.suffix}
-                      </div>
-                    ) : null}
-                  </div>
-                </div>
-              );
-            })}
-          </div>
+        {inputForm}
 
-          <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
-            <div className="text-xs text-zinc-500">
-              Tip: you can type commas (e.g., 10,000).
+        {result?.chart ? (
+          <div className="space-y-3">
+            <h2 className="text-lg font-semibold tracking-tight">
+              {result.chart.title}
+            </h2>
+            <div className="rounded-2xl border border-zinc-200 bg-white p-5 dark:border-zinc-800 dark:bg-black">
+              <ResultChart
+                chart={result.chart}
+                formatY={(value, chart) => formatCompactResultValue(value, chart, locale)}
+              />
             </div>
-            <div className="flex items-center gap-2">
-              <button
-                type="button"
-                onClick={() => setRawInputs(buildInitialState(calc))}
-                className="rounded-full border border-zinc-200 px-3 py-1.5 text-sm hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900"
-              >
-                Reset
-              </button>
-              <button
-                type="button"
-                onClick={copyShareLink}
-                className="rounded-full border border-zinc-200 px-3 py-1.5 text-sm hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900"
-              >
-                {copyStatus === "copied"
-                  ? "Copied"
-                  : copyStatus === "failed"
-                    ? "Copy failed"
-                    : "Copy link"}
-              </button>
-              <button
-                type="button"
-                onClick={() => setRawInputs((v) => ({ ...v }))}
-                className="rounded-full bg-black px-3 py-1.5 text-sm font-medium text-white hover:bg-zinc-800 dark:bg-white dark:text-black dark:hover:bg-zinc-200"
-              >
-                Calculate
-              </button>
+          </div>
+        ) : null}
+
+        {result?.matrix ? (
+          <div className="space-y-3">
+            <h2 className="text-lg font-semibold tracking-tight">
+              {result.matrix.title}
+            </h2>
+            <div className="rounded-2xl border border-zinc-200 bg-white p-5 dark:border-zinc-800 dark:bg-black">
+              <ResultMatrix
+                matrix={result.matrix}
+                formatValue={(value, spec) => formatCompactResultValue(value, spec, locale)}
+              />
             </div>
           </div>
-        </div>
+        ) : null}
+
+        {result ? (
+          <SensitivityPanel
+            calc={calc}
+            values={parsed.values}
+            series={parsed.series}
+            headlineLabel={result.headline.label}
+            formatResult={(value) => formatResultValue({ ...result.headline, value }, locale)}
+          />
+        ) : null}
+
+        {result ? (
+          <GoalSeekPanel
+            key={calc.slug}
+            calc={calc}
+            values={parsed.values}
+            series={parsed.series}
+            result={result}
+            locale={locale}
+            formatResult={(r) => formatResultValue(r, locale)}
+            onApply={(inputKey, rawValue) =>
+              setRawInputs((prev) => ({
+                ...prev,
+                [inputKey]: toLocaleInput(rawValue, rawLocale),
+              }))
+            }
+          />
+        ) : null}
+
+        <ScenariosPanel
+          key={calc.slug}
+          calc={calc}
+          current={{ values: rawInputs, series: rawSeries }}
+          example={example}
+          locale={rawLocale}
+          formatResult={(r) => formatResultValue(r, locale)}
+          onLoad={(raw: RawInputs) => replaceRawInputs(raw)}
+        />
+
+        <EmbedSnippet
+          calc={calc}
+          inputs={flatInputs}
+          currency={currency}
+        />
 
         {calc.nextAction ? (
           <NextActionPanel
@@ -354,16 +538,21 @@ export function CalculatorPageClient({ slug }: { slug: string }) {
                 Using the default inputs, the result is:
               </div>
               <div className="mt-2 text-2xl font-semibold tracking-tight">
-                {formatValue(defaultExample.result.headline)}
+                {formatResultValue(defaultExample.result.headline, locale)}
               </div>
               <dl className="mt-4 grid gap-3 sm:grid-cols-2">
                 {calc.inputs.map((i) => (
                   <div key={i.key} className="rounded-xl border border-zinc-100 p-3 dark:border-zinc-900">
                     <dt className="text-xs text-zinc-500">{i.label}</dt>
                     <dd className="mt-1 font-medium">
-                      {i.prefix ?? ""}
-                      {formatNumber(defaultExample.inputs[i.key] ?? 0, 2)}
-                      {i.suffix ?? ""}
+                      {i.kind === "series"
+                        ? (defaultExample.series[i.key] ?? [])
+                            .map(
+                              (v) =>
+                                `${i.prefix ?? ""}${formatNumber(v, 2, locale)}${i.suffix ?? ""}`,
+                            )
+                            .join(" / ") || "None"
+                        : `${i.prefix ?? ""}${formatNumber(defaultExample.inputs[i.key] ?? 0, 2, locale)}${i.suffix ?? ""}`}
                     </dd>
                   </div>
                 ))}
@@ -390,6 +579,24 @@ export function CalculatorPageClient({ slug }: { slug: string }) {
         <div className="space-y-3">
           <h2 className="text-lg font-semibold tracking-tight">Formula</h2>
           <div className="rounded-2xl border border-zinc-200 bg-white p-5 text-sm dark:border-zinc-800 dark:bg-black">
+            {calc.formulaExpression ? (
+              <div className="mb-3">
+                <FormulaMath
+                  expression={calc.formulaExpression}
+                  inputs={calc.inputs}
+                  locale={locale}
+                  label={(result ?? defaultExample?.result)?.headline.label}
+                  working={
+                    result
+                      ? {
+                          values: parsed.values,
+                          result: formatResultValue(result.headline, locale),
+                        }
+                      : undefined
+                  }
+                />
+              </div>
+            ) : null}
             <div className="font-medium">{calc.formula}</div>
             <ul className="mt-3 list-disc space-y-1 pl-5 text-zinc-600 dark:text-zinc-400">
               {calc.assumptions.map((a) => (
@@ -485,68 +692,13 @@ export function CalculatorPageClient({ slug }: { slug: string }) {
 
       <aside className="space-y-4 lg:col-span-2">
         <div className="sticky top-6 space-y-4">
-          <div className="rounded-2xl border border-zinc-200 bg-white p-5 dark:border-zinc-800 dark:bg-black">
-            <div className="text-sm text-zinc-600 dark:text-zinc-400">
-              Result
-            </div>
-            {result ? (
-              <>
-                <div className="mt-2 text-3xl font-semibold tracking-tight">
-                  {formatValue(result.headline)}
-                </div>
-                <div className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
-                  {result.headline.detail}
-                </div>
-                <div className="mt-4 flex flex-wrap gap-2">
-                  <button
-                    type="button"
-                    onClick={copyResult}
-                    className="rounded-full border border-zinc-200 px-3 py-1.5 text-sm hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900"
-                  >
-                    {copyResultStatus === "copied"
-                      ? "Copied"
-                      : copyResultStatus === "failed"
-                        ? "Copy failed"
-                        : "Copy result"}
-                  </button>
-                </div>
-              </>
-            ) : (
-              <div className="mt-2 text-sm text-zinc-600 dark:text-zinc-400">
-                Enter valid numbers to calculate.
-              </div>
-            )}
-            {result?.warnings?.length ? (
-              <ul className="mt-3 list-disc space-y-1 pl-5 text-sm text-red-600">
-                {result.warnings.map((w) => (
-                  <li key={w}>{w}</li>
-                ))}
-              </ul>
-            ) : null}
-          </div>
+          {resultPanel}
 
           <AdUnit
             slot={sidebarSlot}
           />
 
-          {result?.secondary?.length ? (
-            <div className="rounded-2xl border border-zinc-200 bg-white p-5 dark:border-zinc-800 dark:bg-black">
-              <div className="text-sm font-medium">Details</div>
-              <dl className="mt-3 space-y-3">
-                {result.secondary.map((r) => (
-                  <div key={r.key} className="flex items-start justify-between gap-4">
-                    <dt className="text-sm text-zinc-600 dark:text-zinc-400">
-                      {r.label}
-                      {r.detail ? (
-                        <div className="text-xs text-zinc-500">{r.detail}</div>
-                      ) : null}
-                    </dt>
-                    <dd className="text-sm font-medium">{formatValue(r)}</dd>
-                  </div>
-                ))}
-              </dl>
-            </div>
-          ) : null}
+          {detailsPanel}
 
           {result?.breakdown?.length ? (
             <div className="rounded-2xl border border-zinc-200 bg-white p-5 dark:border-zinc-800 dark:bg-black">
@@ -557,7 +709,7 @@ export function CalculatorPageClient({ slug }: { slug: string }) {
                     <dt className="text-sm text-zinc-600 dark:text-zinc-400">
                       {r.label}
                     </dt>
-                    <dd className="text-sm font-medium">{formatValue(r)}</dd>
+                    <dd className="text-sm font-medium">{formatResultValue(r, locale)}</dd>
                   </div>
                 ))}
               </dl>
@@ -573,3 +725,16 @@ export function CalculatorPageClient({ slug }: { slug: string }) {
     </div>
   );
 }
+
+// Reads the query on the client only, so the server-rendered form keeps its
+// defaults and the rest of the page stays outside the Suspense boundary.
+function UrlInputs({ onChange }: { onChange: (params: URLSearchParams) => void }) {
+  const params = useSearchParams();
+  const query = params.toString();
+  useEffect(() => {
+    onChange(new URLSearchParams(query));
+    // only when the query itself changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [query]);
+  return null;
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import type { CalculatorDefinition } from "@/lib/calculators/types";
+import {
+  DEFAULT_EMBED_THEME,
+  EMBED_THEMES,
+  buildEmbedSnippet,
+  buildEmbedUrl,
+  isEmbedTheme,
+  type EmbedTheme,
+} from "@/lib/embed";
+
+type EmbedSnippetProps = {
+  calc: CalculatorDefinition;
+  inputs: Record<string, string>; // current inputs, flat like share-link params
+  currency?: string;
+};
+
+const THEME_LABELS: Record<EmbedTheme, string> = {
+  auto: "Match visitor's system",
+  light: "Light",
+  dark: "Dark",
+};
+
+export function EmbedSnippet({ calc, inputs, currency }: EmbedSnippetProps) {
+  const [theme, setTheme] = useState<EmbedTheme>(DEFAULT_EMBED_THEME);
+  const [useCurrentInputs, setUseCurrentInputs] = useState(false);
+  const [copyStatus, setCopyStatus] = useState<"idle" | "copied" | "failed">(
+    "idle",
+  );
+
+  const src = buildEmbedUrl(calc.category, calc.slug, {
+    theme,
+    inputs: useCurrentInputs ? inputs : undefined,
+    currency: useCurrentInputs ? currency : undefined,
+  });
+  const snippet = buildEmbedSnippet(src, calc.title);
+
+  const copySnippet = async () => {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopyStatus("copied");
+      window.setTimeout(() => setCopyStatus("idle"), 1500);
+    } catch {
+      setCopyStatus("failed");
+      window.setTimeout(() => setCopyStatus("idle"), 2000);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-lg font-semibold tracking-tight">
+        Embed this calculator
+      </h2>
+      <div className="rounded-2xl border border-zinc-200 bg-white p-5 text-sm dark:border-zinc-800 dark:bg-black">
+        <div className="text-zinc-600 dark:text-zinc-400">
+          Paste this snippet into your site or blog to show the inputs and
+          result, with a link back to this page.
+        </div>
+        <div className="mt-4 flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2">
+            <span className="font-medium">Theme</span>
+            <select
+              value={theme}
+              onChange={(e) => {
+                if (isEmbedTheme(e.target.value)) setTheme(e.target.value);
+              }}
+              className="rounded-xl border border-zinc-200 bg-white px-3 py-1.5 text-sm outline-none focus:border-zinc-400 dark:border-zinc-800 dark:bg-black dark:focus:border-zinc-600"
+            >
+              {EMBED_THEMES.map((t) => (
+                <option key={t} value={t}>
+                  {THEME_LABELS[t]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={useCurrentInputs}
+              onChange={(e) => setUseCurrentInputs(e.target.checked)}
+            />
+            <span>Start from the current inputs</span>
+          </label>
+        </div>
+        <label className="sr-only" htmlFor="embed-snippet">
+          Embed code
+        </label>
+        <textarea
+          id="embed-snippet"
+          readOnly
+          value={snippet}
+          rows={4}
+          onFocus={(e) => e.target.select()}
+          className="mt-4 w-full rounded-xl border border-zinc-200 bg-zinc-50 p-3 font-mono text-xs outline-none dark:border-zinc-800 dark:bg-zinc-950"
+        />
+        <div className="mt-3 flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={copySnippet}
+            className="rounded-full border border-zinc-200 px-3 py-1.5 text-sm hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900"
+          >
+            {copyStatus === "copied"
+              ? "Copied"
+              : copyStatus === "failed"
+                ? "Copy failed"
+                : "Copy embed code"}
+          </button>
+          <a
+            href={src}
+            target="_blank"
+            rel="noopener"
+            className="rounded-full border border-zinc-200 px-3 py-1.5 text-sm hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900"
+          >
+            Preview
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
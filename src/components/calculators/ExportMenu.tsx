@@ -0,0 +1,87 @@
+"use client";
+
+import { useRef } from "react";
+import type {
+  CalculatorDefinition,
+  CalculatorResult,
+} from "@/lib/calculators/types";
+import { buildExportRows, exportFileName } from "@/lib/calculators/export";
+import { toCsv, toXlsx } from "@/lib/spreadsheet";
+
+type ExportMenuProps = {
+  calc: CalculatorDefinition;
+  values: Record<string, number>;
+  series: Record<string, number[]>;
+  result: CalculatorResult;
+  locale: string;
+};
+
+function downloadFile(fileName: string, data: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function ExportMenu({
+  calc,
+  values,
+  series,
+  result,
+  locale,
+}: ExportMenuProps) {
+  const menuRef = useRef<HTMLDetailsElement>(null);
+
+  const exportCsv = () => {
+    const rows = buildExportRows(calc, { values, series }, result, { locale });
+    // The byte-order mark makes Excel read the file as UTF-8.
+    downloadFile(
+      exportFileName(calc, "csv"),
+      `\uFEFF${toCsv(rows)}`,
+      "text/csv;charset=utf-8",
+    );
+    menuRef.current?.removeAttribute("open");
+  };
+
+  const exportXlsx = () => {
+    const rows = buildExportRows(calc, { values, series }, result, {
+      locale,
+      typed: true,
+    });
+    downloadFile(
+      exportFileName(calc, "xlsx"),
+      toXlsx(rows, calc.title),
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    );
+    menuRef.current?.removeAttribute("open");
+  };
+
+  const itemClassName =
+    "block w-full rounded-xl px-3 py-2 text-left text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900";
+
+  return (
+    <details ref={menuRef} className="relative">
+      <summary className="cursor-pointer list-none rounded-full border border-zinc-200 px-3 py-1.5 text-sm hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900">
+        Export
+      </summary>
+      <div className="absolute left-0 z-10 mt-2 w-64 rounded-2xl border border-zinc-200 bg-white p-1 shadow-lg dark:border-zinc-800 dark:bg-black">
+        <button type="button" onClick={exportCsv} className={itemClassName}>
+          <div className="font-medium">CSV</div>
+          <div className="text-xs text-zinc-500">
+            Inputs, every result row, formula and assumptions.
+          </div>
+        </button>
+        <button type="button" onClick={exportXlsx} className={itemClassName}>
+          <div className="font-medium">Excel (.xlsx)</div>
+          <div className="text-xs text-zinc-500">
+            Same rows with numeric, formatted values for your models.
+          </div>
+        </button>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,112 @@
+import type { ReactNode } from "react";
+import {
+  describeExpression,
+  expressionLabel,
+  needsParentheses,
+  substituteExpression,
+} from "@/lib/calculators/expression";
+import type { FormulaExpression, InputField } from "@/lib/calculators/types";
+import { formatNumber } from "@/lib/format";
+
+type FormulaMathProps = {
+  expression: FormulaExpression;
+  inputs: InputField[];
+  locale: string;
+  label?: string; // left-hand side, usually the headline label
+  // Current values and the formatted headline for the substituted line.
+  working?: { values: Record<string, number>; result: string };
+};
+
+const OPERATORS = {
+  add: "+",
+  subtract: "\u2212",
+  multiply: "\u00D7",
+} as const;
+
+function renderExpression(
+  expr: FormulaExpression,
+  inputs: InputField[],
+  locale: string,
+): ReactNode {
+  if (expr.kind === "number") return formatNumber(expr.value, 4, locale);
+  if (expr.kind === "input" || expr.kind === "percent") {
+    return <span className="italic">{expressionLabel(expr, inputs)}</span>;
+  }
+  const side = (child: FormulaExpression, which: "left" | "right") => {
+    const rendered = renderExpression(child, inputs, locale);
+    return needsParentheses(expr.kind, child, which) ? (
+      <>
+        <span>(</span>
+        {rendered}
+        <span>)</span>
+      </>
+    ) : (
+      rendered
+    );
+  };
+  if (expr.kind === "divide") {
+    return (
+      <span className="mx-0.5 inline-flex flex-col items-center text-center align-middle">
+        <span className="px-1 pb-0.5">
+          {renderExpression(expr.left, inputs, locale)}
+        </span>
+        <span className="border-t border-current px-1 pt-0.5">
+          {renderExpression(expr.right, inputs, locale)}
+        </span>
+      </span>
+    );
+  }
+  if (expr.kind === "power") {
+    return (
+      <>
+        {side(expr.left, "left")}
+        <sup>{renderExpression(expr.right, inputs, locale)}</sup>
+      </>
+    );
+  }
+  return (
+    <>
+      {side(expr.left, "left")}
+      <span className="mx-1">{OPERATORS[expr.kind]}</span>
+      {side(expr.right, "right")}
+    </>
+  );
+}
+
+// Typesets a structured formula, optionally followed by the same formula with
+// the current numbers substituted in.
+export function FormulaMath({
+  expression,
+  inputs,
+  locale,
+  label,
+  working,
+}: FormulaMathProps) {
+  const text = describeExpression(expression, inputs, locale);
+  return (
+    <div className="space-y-2">
+      <div
+        role="math"
+        aria-label={label ? `${label} = ${text}` : text}
+        className="overflow-x-auto text-base"
+      >
+        {label ? (
+          <>
+            <span className="font-medium">{label}</span>
+            <span className="mx-1">=</span>
+          </>
+        ) : null}
+        {renderExpression(expression, inputs, locale)}
+      </div>
+      {working ? (
+        <div className="text-zinc-600 dark:text-zinc-400">
+          {label ? `${label} = ` : "= "}
+          {substituteExpression(expression, working.values, locale)} ={" "}
+          <span className="font-medium text-zinc-900 dark:text-zinc-100">
+            {working.result}
+          </span>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useState } from "react";
+import type {
+  CalculatorDefinition,
+  CalculatorResult,
+  ResultValue,
+} from "@/lib/calculators/types";
+import {
+  goalSeek,
+  goalSeekTargets,
+  type GoalSeekOutcome,
+} from "@/lib/calculators/goalSeek";
+import { formatNumber, toNumber } from "@/lib/format";
+
+type GoalSeekPanelProps = {
+  calc: CalculatorDefinition;
+  values: Record<string, number>;
+  series: Record<string, number[]>;
+  result: CalculatorResult;
+  locale: string;
+  formatResult: (result: ResultValue) => string;
+  onApply: (inputKey: string, rawValue: string) => void;
+};
+
+function targetUnit(format: ResultValue["format"]): string {
+  switch (format) {
+    case "percent":
+      return "%";
+    case "multiple":
+      return "x";
+    case "months":
+      return "months";
+    case "ratio":
+      return ":1";
+    default:
+      return "";
+  }
+}
+
+export function GoalSeekPanel({
+  calc,
+  values,
+  series,
+  result,
+  locale,
+  formatResult,
+  onApply,
+}: GoalSeekPanelProps) {
+  const targets = goalSeekTargets(result);
+  const numericInputs = calc.inputs.filter((i) => i.kind !== "series");
+  const [targetKey, setTargetKey] = useState(result.headline.key);
+  const [targetRaw, setTargetRaw] = useState("");
+  const [inputKey, setInputKey] = useState(numericInputs[0]?.key ?? "");
+  const [outcome, setOutcome] = useState<GoalSeekOutcome | null>(null);
+
+  const target = targets.find((t) => t.key === targetKey) ?? result.headline;
+  const input = numericInputs.find((i) => i.key === inputKey);
+  if (!input) return null;
+
+  const solve = () => {
+    const parsedTarget = toNumber(targetRaw, locale);
+    if (parsedTarget === null) {
+      setOutcome({ status: "no-solution", reason: "Enter a valid target value." });
+      return;
+    }
+    setOutcome(
+      goalSeek(
+        calc,
+        values,
+        series,
+        {
+          targetKey: target.key,
+          targetValue: target.format === "percent" ? parsedTarget / 100 : parsedTarget,
+          inputKey: input.key,
+        },
+        locale,
+      ),
+    );
+  };
+
+  const selectClassName =
+    "w-full rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm outline-none focus:border-zinc-400 dark:border-zinc-800 dark:bg-black dark:focus:border-zinc-600";
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-lg font-semibold tracking-tight">Goal seek</h2>
+      <div className="rounded-2xl border border-zinc-200 bg-white p-5 text-sm dark:border-zinc-800 dark:bg-black">
+        <div className="text-zinc-600 dark:text-zinc-400">
+          Work backwards: pick the result you want and the input you can change.
+        </div>
+        <div className="mt-4 grid gap-4 sm:grid-cols-3">
+          <div className="space-y-1">
+            <label className="text-sm font-medium" htmlFor="goal-seek-target">
+              Result
+            </label>
+            <select
+              id="goal-seek-target"
+              value={target.key}
+              onChange={(e) => {
+                setTargetKey(e.target.value);
+                setOutcome(null);
+              }}
+              className={selectClassName}
+            >
+              {targets.map((t) => (
+                <option key={t.key} value={t.key}>
+                  {t.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm font-medium" htmlFor="goal-seek-value">
+              Target value
+            </label>
+            <div className="relative">
+              <input
+                id="goal-seek-value"
+                inputMode="decimal"
+                value={targetRaw}
+                onChange={(e) => setTargetRaw(e.target.value)}
+                placeholder={formatNumber(
+                  target.format === "percent" ? target.value * 100 : target.value,
+                  2,
+                  locale,
+                )}
+                className={`${selectClassName} pr-16`}
+              />
+              {targetUnit(target.format) ? (
+                <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3 text-sm text-zinc-500">
+                  {targetUnit(target.format)}
+                </div>
+              ) : null}
+            </div>
+          </div>
+          <div className="space-y-1">
+            <label className="text-sm font-medium" htmlFor="goal-seek-input">
+              By changing
+            </label>
+            <select
+              id="goal-seek-input"
+              value={input.key}
+              onChange={(e) => {
+                setInputKey(e.target.value);
+                setOutcome(null);
+              }}
+              className={selectClassName}
+            >
+              {numericInputs.map((i) => (
+                <option key={i.key} value={i.key}>
+                  {i.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="mt-4 flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={solve}
+            className="rounded-full bg-black px-3 py-1.5 text-sm font-medium text-white hover:bg-zinc-800 dark:bg-white dark:text-black dark:hover:bg-zinc-200"
+          >
+            Solve
+          </button>
+          {outcome?.status === "solved" ? (
+            <>
+              <span>
+                Set {input.label} to{" "}
+                <span className="font-semibold">
+                  {input.prefix ?? ""}
+                  {formatNumber(outcome.inputValue, 4, locale)}
+                  {input.suffix ?? ""}
+                </span>{" "}
+                for {target.label} ={" "}
+                {formatResult({ ...target, value: outcome.resultValue })}.
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  onApply(input.key, String(Number(outcome.inputValue.toPrecision(6))))
+                }
+                className="rounded-full border border-zinc-200 px-3 py-1.5 text-sm hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900"
+              >
+                Use this value
+              </button>
+            </>
+          ) : outcome ? (
+            <span className="text-red-600">{outcome.reason}</span>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import type { NumberInputField } from "@/lib/calculators/types";
+import { toLocaleInput } from "@/lib/format";
+
+type NumberInputProps = {
+  input: NumberInputField;
+  value: string;
+  error?: string;
+  locale: string;
+  onChange: (value: string) => void;
+};
+
+export function NumberInput({
+  input,
+  value,
+  error,
+  locale,
+  onChange,
+}: NumberInputProps) {
+  const isInvalid = error !== undefined;
+  const helperText = error ?? input.help ?? "";
+  return (
+    <div className="space-y-1">
+      <label className="text-sm font-medium" htmlFor={input.key}>
+        {input.label}
+      </label>
+      <div
+        className={[
+          "min-h-4 text-xs",
+          isInvalid ? "text-red-600" : "text-zinc-500",
+        ].join(" ")}
+      >
+        {helperText || "\u00A0"}
+      </div>
+      <div className="relative">
+        {input.prefix ? (
+          <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3 text-sm text-zinc-500">
+            {input.prefix}
+          </div>
+        ) : null}
+        <input
+          id={input.key}
+          name={input.key}
+          aria-invalid={isInvalid}
+          inputMode="decimal"
+          min={input.min}
+          step={input.step}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={
+            input.placeholder === undefined
+              ? undefined
+              : toLocaleInput(input.placeholder, locale)
+          }
+          className={[
+            "w-full rounded-xl border bg-white py-2 text-sm outline-none transition-colors dark:bg-black",
+            "pl-10 pr-12",
+            isInvalid
+              ? "border-red-400 focus:border-red-500"
+              : "border-zinc-200 focus:border-zinc-400 dark:border-zinc-800 dark:focus:border-zinc-600",
+          ].join(" ")}
+        />
+        {input.suffix ? (
+          <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3 text-sm text-zinc-500">
+            {input.suffix}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
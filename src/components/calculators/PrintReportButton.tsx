@@ -0,0 +1,13 @@
+"use client";
+
+export function PrintReportButton() {
+  return (
+    <button
+      type="button"
+      onClick={() => window.print()}
+      className="rounded-full bg-black px-3 py-1.5 text-sm font-medium text-white hover:bg-zinc-800 dark:bg-white dark:text-black dark:hover:bg-zinc-200"
+    >
+      Print or save as PDF
+    </button>
+  );
+}
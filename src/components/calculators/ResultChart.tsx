@@ -0,0 +1,127 @@
+import type { ResultChart as ResultChartData } from "@/lib/calculators/types";
+
+type ResultChartProps = {
+  chart: ResultChartData;
+  formatY: (value: number, chart: ResultChartData) => string;
+};
+
+const WIDTH = 640;
+const HEIGHT = 260;
+const PADDING = { top: 16, right: 16, bottom: 36, left: 84 };
+const LINE_COLORS = ["#2563eb", "#d97706", "#059669", "#71717a"];
+
+function tickIndexes(length: number, maxTicks: number): number[] {
+  if (length <= maxTicks) return Array.from({ length }, (_, i) => i);
+  const step = Math.ceil((length - 1) / (maxTicks - 1));
+  const ticks: number[] = [];
+  for (let i = 0; i < length; i += step) ticks.push(i);
+  if (ticks[ticks.length - 1] !== length - 1) ticks.push(length - 1);
+  return ticks;
+}
+
+export function ResultChart({ chart, formatY }: ResultChartProps) {
+  const finiteValues = chart.lines
+    .flatMap((line) => line.values)
+    .filter((v) => Number.isFinite(v));
+  if (chart.x.length < 2 || finiteValues.length === 0) return null;
+
+  const yMin = Math.min(0, ...finiteValues);
+  const yMaxRaw = Math.max(...finiteValues);
+  const yMax = yMaxRaw === yMin ? yMin + 1 : yMaxRaw;
+  const xMin = chart.x[0];
+  const xMax = chart.x[chart.x.length - 1];
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const xPos = (x: number) =>
+    PADDING.left + (xMax === xMin ? 0 : ((x - xMin) / (xMax - xMin)) * plotWidth);
+  const yPos = (y: number) =>
+    PADDING.top + plotHeight - ((y - yMin) / (yMax - yMin)) * plotHeight;
+
+  const yTicks = Array.from({ length: 5 }, (_, i) => yMin + ((yMax - yMin) * i) / 4);
+  const xTicks = tickIndexes(chart.x.length, 7);
+
+  return (
+    <figure className="space-y-3">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="h-auto w-full text-zinc-500"
+        role="img"
+        aria-label={chart.title}
+      >
+        {yTicks.map((tick) => (
+          <g key={tick}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={yPos(tick)}
+              y2={yPos(tick)}
+              stroke="currentColor"
+              strokeOpacity={0.15}
+            />
+            <text
+              x={PADDING.left - 8}
+              y={yPos(tick)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              fontSize={11}
+              fill="currentColor"
+            >
+              {formatY(tick, chart)}
+            </text>
+          </g>
+        ))}
+        {xTicks.map((index) => (
+          <text
+            key={index}
+            x={xPos(chart.x[index])}
+            y={HEIGHT - PADDING.bottom + 18}
+            textAnchor="middle"
+            fontSize={11}
+            fill="currentColor"
+          >
+            {chart.x[index]}
+          </text>
+        ))}
+        <text
+          x={PADDING.left + plotWidth / 2}
+          y={HEIGHT - 4}
+          textAnchor="middle"
+          fontSize={11}
+          fill="currentColor"
+        >
+          {chart.xLabel}
+        </text>
+        {chart.lines.map((line, lineIndex) => (
+          <polyline
+            key={line.key}
+            fill="none"
+            stroke={LINE_COLORS[lineIndex % LINE_COLORS.length]}
+            strokeWidth={2}
+            strokeDasharray={lineIndex === 0 ? undefined : lineIndex % 2 ? "6 4" : "2 3"}
+            points={line.values
+              .map((v, i) =>
+                Number.isFinite(v) && i < chart.x.length
+                  ? `${xPos(chart.x[i])},${yPos(v)}`
+                  : null,
+              )
+              .filter(Boolean)
+              .join(" ")}
+          />
+        ))}
+      </svg>
+      <figcaption className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-zinc-600 dark:text-zinc-400">
+        {chart.lines.map((line, lineIndex) => (
+          <span key={line.key} className="inline-flex items-center gap-1.5">
+            <span
+              className="inline-block h-0.5 w-4"
+              style={{ backgroundColor: LINE_COLORS[lineIndex % LINE_COLORS.length] }}
+            />
+            {line.label}: {formatY(line.values[line.values.length - 1] ?? 0, chart)} at{" "}
+            {chart.xLabel.toLowerCase()} {chart.x[chart.x.length - 1]}
+          </span>
+        ))}
+      </figcaption>
+    </figure>
+  );
+}
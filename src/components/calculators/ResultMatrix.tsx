@@ -0,0 +1,109 @@
+import type {
+  ResultMatrix as ResultMatrixData,
+  ResultMatrixAxis,
+} from "@/lib/calculators/types";
+
+type ResultMatrixProps = {
+  matrix: ResultMatrixData;
+  // Formats cells (with the matrix as spec) and axis labels (with their axis).
+  formatValue: (value: number, spec: ResultMatrixAxis) => string;
+};
+
+// Diverging red -> green scale with alpha so it reads on light and dark themes.
+function heatColor(score: number): string {
+  if (score >= 0.5) return `rgba(22, 163, 74, ${((score - 0.5) * 0.7).toFixed(3)})`;
+  return `rgba(220, 38, 38, ${((0.5 - score) * 0.7).toFixed(3)})`;
+}
+
+export function ResultMatrix({ matrix, formatValue }: ResultMatrixProps) {
+  const validValues = matrix.values
+    .flat()
+    .filter((v): v is number => v !== null && Number.isFinite(v));
+  const min = validValues.length ? Math.min(...validValues) : 0;
+  const max = validValues.length ? Math.max(...validValues) : 0;
+
+  const scoreFor = (value: number) => {
+    if (max === min) return 0.5;
+    const t = (value - min) / (max - min);
+    return matrix.higherIsBetter ? t : 1 - t;
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-collapse text-sm">
+        <caption className="sr-only">
+          {matrix.title}: {matrix.rowLabel} by {matrix.columnLabel}
+        </caption>
+        <thead>
+          <tr>
+            <th
+              scope="col"
+              className="px-3 py-2 text-left text-xs font-medium text-zinc-500"
+            >
+              {matrix.rowLabel} / {matrix.columnLabel}
+            </th>
+            {matrix.columns.map((column, columnIndex) => (
+              <th
+                // Labels can repeat (a step of 0, rounding), so key by position.
+                key={columnIndex}
+                scope="col"
+                className={[
+                  "px-3 py-2 text-right text-xs font-medium",
+                  columnIndex === matrix.baseColumn
+                    ? "text-zinc-900 dark:text-zinc-100"
+                    : "text-zinc-500",
+                ].join(" ")}
+              >
+                {formatValue(column, matrix.columnFormat)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {matrix.rows.map((row, rowIndex) => (
+            <tr key={rowIndex}>
+              <th
+                scope="row"
+                className={[
+                  "px-3 py-2 text-left text-xs font-medium",
+                  rowIndex === matrix.baseRow
+                    ? "text-zinc-900 dark:text-zinc-100"
+                    : "text-zinc-500",
+                ].join(" ")}
+              >
+                {formatValue(row, matrix.rowFormat)}
+              </th>
+              {matrix.columns.map((_, columnIndex) => {
+                const value = matrix.values[rowIndex]?.[columnIndex] ?? null;
+                const isBase =
+                  rowIndex === matrix.baseRow && columnIndex === matrix.baseColumn;
+                const isValid = value !== null && Number.isFinite(value);
+                return (
+                  <td
+                    key={columnIndex}
+                    className={[
+                      "border border-zinc-100 px-3 py-2 text-right tabular-nums dark:border-zinc-900",
+                      isBase
+                        ? "font-semibold outline outline-2 -outline-offset-2 outline-zinc-900 dark:outline-zinc-100"
+                        : "",
+                      isValid ? "" : "text-zinc-400",
+                    ].join(" ")}
+                    style={isValid ? { backgroundColor: heatColor(scoreFor(value)) } : undefined}
+                  >
+                    {isValid ? formatValue(value, matrix) : "n/a"}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="mt-3 text-xs text-zinc-500">
+        Outlined cell is the base case. Green is better, red is worse
+        {validValues.length < matrix.rows.length * matrix.columns.length
+          ? "; n/a marks combinations the model cannot value."
+          : "."}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { CalculatorDefinition, ResultValue } from "@/lib/calculators/types";
+import {
+  expandRawInputs,
+  flattenRawInputs,
+  type RawInputs,
+} from "@/lib/calculators/inputs";
+import {
+  baselineColumn,
+  compareScenarios,
+  comparableValues,
+  CURRENT_SCENARIO_ID,
+  findScenario,
+  formatScenarioDelta,
+  scenarioDelta,
+} from "@/lib/calculators/scenarios";
+import {
+  deleteScenario,
+  duplicateScenario,
+  saveExampleScenario,
+  saveScenario,
+  useScenarios,
+} from "@/components/calculators/scenarioStore";
+
+type ScenariosPanelProps = {
+  calc: CalculatorDefinition;
+  current: RawInputs;
+  // Guide example the page opened with, offered for saving as a scenario.
+  example: { name: string; inputs: Record<string, string> } | null;
+  locale: string; // the locale `current` is written in
+  formatResult: (result: ResultValue) => string;
+  onLoad: (raw: RawInputs) => void;
+};
+
+export function ScenariosPanel({
+  calc,
+  current,
+  example,
+  locale,
+  formatResult,
+  onLoad,
+}: ScenariosPanelProps) {
+  const scenarios = useScenarios(calc.slug);
+  const [name, setName] = useState("");
+  const [baselineId, setBaselineId] = useState(CURRENT_SCENARIO_ID);
+
+  const { columns, rows } = useMemo(
+    () => compareScenarios(calc, current, locale, scenarios),
+    [calc, current, locale, scenarios],
+  );
+  const baseline = baselineColumn(columns, baselineId);
+  const exampleSaved =
+    example !== null && findScenario(scenarios, example.name, example.inputs) !== undefined;
+
+  const save = () => {
+    const trimmed = name.trim() || `Scenario ${scenarios.length + 1}`;
+    saveScenario(calc.slug, trimmed, flattenRawInputs(calc, current, locale));
+    setName("");
+  };
+
+  const buttonClassName =
+    "rounded-full border border-zinc-200 px-3 py-1 text-sm hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900";
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-lg font-semibold tracking-tight">Scenarios</h2>
+      <div className="rounded-2xl border border-zinc-200 bg-white p-5 text-sm dark:border-zinc-800 dark:bg-black">
+        <div className="text-zinc-600 dark:text-zinc-400">
+          {example
+            ? exampleSaved
+              ? `The guide example "${example.name}" is saved as a scenario. Change the inputs to compare against it.`
+              : `These inputs come from the guide example "${example.name}". Save it as a scenario to compare your own inputs against it.`
+            : "Save the current inputs under a name to compare cases side by side. Scenarios stay in this browser."}
+        </div>
+        {example && !exampleSaved ? (
+          <button
+            type="button"
+            onClick={() => saveExampleScenario(calc.slug, example.name, example.inputs)}
+            className={`mt-3 ${buttonClassName}`}
+          >
+            Save example as scenario
+          </button>
+        ) : null}
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          <label className="sr-only" htmlFor="scenario-name">
+            Scenario name
+          </label>
+          <input
+            id="scenario-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") save();
+            }}
+            placeholder={`Scenario ${scenarios.length + 1}`}
+            maxLength={60}
+            className="min-w-0 flex-1 rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm outline-none focus:border-zinc-400 dark:border-zinc-800 dark:bg-black dark:focus:border-zinc-600"
+          />
+          <button
+            type="button"
+            onClick={save}
+            className="rounded-full bg-black px-3 py-1.5 text-sm font-medium text-white hover:bg-zinc-800 dark:bg-white dark:text-black dark:hover:bg-zinc-200"
+          >
+            Save scenario
+          </button>
+        </div>
+
+        {scenarios.length ? (
+          <ul className="mt-4 divide-y divide-zinc-100 dark:divide-zinc-900">
+            {scenarios.map((s) => (
+              <li
+                key={s.id}
+                className="flex flex-wrap items-center justify-between gap-2 py-2"
+              >
+                <span className="font-medium">{s.name}</span>
+                <span className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={() => onLoad(expandRawInputs(calc, s.inputs, locale))}
+                    className={buttonClassName}
+                  >
+                    Load
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => duplicateScenario(calc.slug, s)}
+                    className={buttonClassName}
+                  >
+                    Duplicate
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      deleteScenario(calc.slug, s.id);
+                      if (baselineId === s.id) setBaselineId(CURRENT_SCENARIO_ID);
+                    }}
+                    className={buttonClassName}
+                  >
+                    Delete
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+
+        {scenarios.length && rows.length ? (
+          <div className="mt-4 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="font-medium" htmlFor="scenario-baseline">
+                Compare against
+              </label>
+              <select
+                id="scenario-baseline"
+                value={baseline.id}
+                onChange={(e) => setBaselineId(e.target.value)}
+                className="rounded-xl border border-zinc-200 bg-white px-3 py-1.5 text-sm outline-none focus:border-zinc-400 dark:border-zinc-800 dark:bg-black dark:focus:border-zinc-600"
+              >
+                {columns.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse text-left">
+                <thead>
+                  <tr className="border-b border-zinc-200 dark:border-zinc-800">
+                    <th scope="col" className="py-2 pr-4 font-medium text-zinc-500">
+                      Result
+                    </th>
+                    {columns.map((c) => (
+                      <th
+                        key={c.id}
+                        scope="col"
+                        className="py-2 pr-4 font-medium"
+                      >
+                        {c.name}
+                        {c.id === baseline.id ? (
+                          <span className="ml-1 text-xs font-normal text-zinc-500">
+                            (baseline)
+                          </span>
+                        ) : null}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr
+                      key={row.key}
+                      className="border-b border-zinc-100 align-top dark:border-zinc-900"
+                    >
+                      <th scope="row" className="py-2 pr-4 font-normal text-zinc-600 dark:text-zinc-400">
+                        {row.label}
+                      </th>
+                      {columns.map((c) => {
+                        const cell = c.result
+                          ? comparableValues(c.result).find((r) => r.key === row.key)
+                          : undefined;
+                        if (!c.result) {
+                          return (
+                            <td key={c.id} className="py-2 pr-4 text-red-600">
+                              Invalid inputs
+                            </td>
+                          );
+                        }
+                        if (!cell) {
+                          return (
+                            <td key={c.id} className="py-2 pr-4 text-zinc-500">
+                              n/a
+                            </td>
+                          );
+                        }
+                        const delta =
+                          c.id === baseline.id
+                            ? undefined
+                            : scenarioDelta(c, baseline, row.key);
+                        return (
+                          <td key={c.id} className="py-2 pr-4">
+                            <div className="font-medium">{formatResult(cell)}</div>
+                            {delta !== undefined ? (
+                              <div className="text-xs text-zinc-500">
+                                {formatScenarioDelta(cell, delta, formatResult, locale)}
+                              </div>
+                            ) : null}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
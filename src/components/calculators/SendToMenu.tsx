@@ -0,0 +1,69 @@
+"use client";
+
+import Link from "next/link";
+import { calculators } from "@/lib/calculators/definitions";
+import { buildHandoffParams } from "@/lib/calculators/handoff";
+import type {
+  CalculatorDefinition,
+  CalculatorResult,
+} from "@/lib/calculators/types";
+
+type SendToMenuProps = {
+  calc: CalculatorDefinition;
+  inputs: Record<string, string>; // canonical flat inputs
+  result: CalculatorResult;
+  currency: string;
+  newTab?: boolean;
+};
+
+export function SendToMenu({
+  calc,
+  inputs,
+  result,
+  currency,
+  newTab = false,
+}: SendToMenuProps) {
+  const targets = (calc.sendTo ?? []).flatMap((handoff) => {
+    const target = calculators.find((c) => c.slug === handoff.calculatorSlug);
+    if (!target) return [];
+    const params = new URLSearchParams(
+      buildHandoffParams(handoff, inputs, result),
+    );
+    params.set("currency", currency);
+    const labels = target.inputs
+      .filter((input) => input.key in handoff.inputs)
+      .map((input) => input.label);
+    return [
+      {
+        target,
+        href: `/${target.category}/${target.slug}?${params.toString()}`,
+        labels,
+      },
+    ];
+  });
+  if (targets.length === 0) return null;
+
+  return (
+    <details className="relative">
+      <summary className="cursor-pointer list-none rounded-full border border-zinc-200 px-3 py-1.5 text-sm hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900">
+        Send to...
+      </summary>
+      <div className="absolute left-0 z-10 mt-2 w-72 rounded-2xl border border-zinc-200 bg-white p-1 shadow-lg dark:border-zinc-800 dark:bg-black">
+        {targets.map(({ target, href, labels }) => (
+          <Link
+            key={target.slug}
+            href={href}
+            target={newTab ? "_blank" : undefined}
+            rel={newTab ? "noopener" : undefined}
+            className="block rounded-xl px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-zinc-900"
+          >
+            <div className="font-medium">{target.title}</div>
+            <div className="text-xs text-zinc-500">
+              Pre-fills {labels.join(", ")}.
+            </div>
+          </Link>
+        ))}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { CalculatorDefinition } from "@/lib/calculators/types";
+import { SENSITIVITY_STEPS, computeTornado } from "@/lib/calculators/sensitivity";
+
+type SensitivityPanelProps = {
+  calc: CalculatorDefinition;
+  values: Record<string, number>;
+  series: Record<string, number[]>;
+  headlineLabel: string;
+  formatResult: (value: number) => string;
+};
+
+export function SensitivityPanel({
+  calc,
+  values,
+  series,
+  headlineLabel,
+  formatResult,
+}: SensitivityPanelProps) {
+  const [step, setStep] = useState(SENSITIVITY_STEPS[0]);
+  const tornado = useMemo(
+    () => computeTornado(calc, values, series, step),
+    [calc, values, series, step],
+  );
+
+  if (!tornado) return null;
+  const movingBars = tornado.bars.filter((bar) => bar.swing > 0);
+  if (movingBars.length === 0) return null;
+
+  const { baseResult } = tornado;
+  const maxDeviation = Math.max(
+    ...movingBars.flatMap((bar) => [
+      Math.abs(bar.lowResult - baseResult),
+      Math.abs(bar.highResult - baseResult),
+    ]),
+  );
+  const widthFor = (result: number) =>
+    maxDeviation > 0 ? (Math.abs(result - baseResult) / maxDeviation) * 50 : 0;
+  const stepLabel = `${Math.round(step * 100)}%`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold tracking-tight">
+          Which input matters most
+        </h2>
+        <div className="flex items-center gap-1" role="group" aria-label="Input change">
+          {SENSITIVITY_STEPS.map((s) => (
+            <button
+              key={s}
+              type="button"
+              onClick={() => setStep(s)}
+              aria-pressed={s === step}
+              className={[
+                "rounded-full border px-3 py-1 text-sm",
+                s === step
+                  ? "border-black bg-black text-white dark:border-white dark:bg-white dark:text-black"
+                  : "border-zinc-200 hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900",
+              ].join(" ")}
+            >
+              +/-{Math.round(s * 100)}%
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="rounded-2xl border border-zinc-200 bg-white p-5 text-sm dark:border-zinc-800 dark:bg-black">
+        <div className="text-zinc-600 dark:text-zinc-400">
+          How {headlineLabel} ({formatResult(baseResult)}) moves when each input
+          changes by +/-{stepLabel} and everything else stays the same.
+        </div>
+        <ol className="mt-4 space-y-3">
+          {movingBars.map((bar) => {
+            const lowSide = bar.lowResult < bar.highResult ? "low" : "high";
+            const leftResult = Math.min(bar.lowResult, bar.highResult);
+            const rightResult = Math.max(bar.lowResult, bar.highResult);
+            return (
+              <li key={bar.key} className="space-y-1">
+                <div className="flex flex-wrap justify-between gap-2">
+                  <span className="font-medium">{bar.label}</span>
+                  <span className="text-xs text-zinc-500">
+                    {formatResult(leftResult)} to {formatResult(rightResult)}
+                  </span>
+                </div>
+                <div className="relative h-3 rounded-full bg-zinc-100 dark:bg-zinc-900">
+                  <div className="absolute inset-y-0 left-1/2 w-px bg-zinc-400" />
+                  {/* Neutral shades: whether a higher result is good depends on
+                      the metric (ROAS vs payback or churn). */}
+                  <div
+                    className="absolute inset-y-0 rounded-l-full bg-zinc-300 dark:bg-zinc-600"
+                    style={{
+                      right: "50%",
+                      width: `${leftResult < baseResult ? widthFor(leftResult) : 0}%`,
+                    }}
+                    title={`${lowSide === "low" ? "-" : "+"}${stepLabel}: ${formatResult(leftResult)}`}
+                  />
+                  <div
+                    className="absolute inset-y-0 rounded-r-full bg-zinc-500 dark:bg-zinc-400"
+                    style={{
+                      left: "50%",
+                      width: `${rightResult > baseResult ? widthFor(rightResult) : 0}%`,
+                    }}
+                    title={`${lowSide === "low" ? "+" : "-"}${stepLabel}: ${formatResult(rightResult)}`}
+                  />
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+        <div className="mt-4 text-xs text-zinc-500">
+          Bars left of center lower the result; bars right of center raise it.
+          Inputs that are 0 or do not affect the result are not shown.
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import type { SeriesInputField } from "@/lib/calculators/types";
+import {
+  clampSeriesRows,
+  seriesRowLabel,
+  splitPastedSeries,
+} from "@/lib/calculators/series";
+import { toLocaleInput } from "@/lib/format";
+
+type SeriesInputProps = {
+  input: SeriesInputField;
+  rows: string[];
+  invalidRows: number[];
+  error?: string;
+  locale: string;
+  onChange: (rows: string[]) => void;
+};
+
+export function SeriesInput({
+  input,
+  rows,
+  invalidRows,
+  error,
+  locale,
+  onChange,
+}: SeriesInputProps) {
+  const minRows = input.minRows ?? 1;
+  const maxRows = input.maxRows ?? 50;
+  const helperText = error ?? input.help ?? "";
+
+  const updateRow = (index: number, value: string) =>
+    onChange(rows.map((row, i) => (i === index ? value : row)));
+
+  const handlePaste = (
+    index: number,
+    e: React.ClipboardEvent<HTMLInputElement>,
+  ) => {
+    const pasted = splitPastedSeries(e.clipboardData.getData("text"));
+    if (pasted.length < 2) return;
+    e.preventDefault();
+    onChange(
+      clampSeriesRows(input, [
+        ...rows.slice(0, index),
+        ...pasted,
+        ...rows.slice(index + pasted.length),
+      ]),
+    );
+  };
+
+  return (
+    <fieldset className="space-y-2 sm:col-span-2">
+      <legend className="text-sm font-medium">{input.label}</legend>
+      <div
+        className={[
+          "min-h-4 text-xs",
+          error ? "text-red-600" : "text-zinc-500",
+        ].join(" ")}
+      >
+        {helperText || "\u00A0"}
+      </div>
+      <div className="space-y-2">
+        {rows.map((row, index) => {
+          const id = `${input.key}-${index}`;
+          const isInvalid = invalidRows.includes(index);
+          return (
+            <div key={id} className="flex items-center gap-2">
+              <label
+                className="w-20 shrink-0 text-sm text-zinc-600 dark:text-zinc-400"
+                htmlFor={id}
+              >
+                {seriesRowLabel(input, index)}
+              </label>
+              <div className="relative flex-1">
+                {input.prefix ? (
+                  <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3 text-sm text-zinc-500">
+                    {input.prefix}
+                  </div>
+                ) : null}
+                <input
+                  id={id}
+                  name={id}
+                  aria-invalid={isInvalid}
+                  inputMode="decimal"
+                  min={input.min}
+                  step={input.step}
+                  value={row}
+                  onChange={(e) => updateRow(index, e.target.value)}
+                  onPaste={(e) => handlePaste(index, e)}
+                  placeholder={
+                    input.placeholder === undefined
+                      ? undefined
+                      : toLocaleInput(input.placeholder, locale)
+                  }
+                  className={[
+                    "w-full rounded-xl border bg-white py-2 text-sm outline-none transition-colors dark:bg-black",
+                    "pl-10 pr-12",
+                    isInvalid
+                      ? "border-red-400 focus:border-red-500"
+                      : "border-zinc-200 focus:border-zinc-400 dark:border-zinc-800 dark:focus:border-zinc-600",
+                  ].join(" ")}
+                />
+                {input.suffix ? (
+                  <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3 text-sm text-zinc-500">
+                    {input.suffix}
+                  </div>
+                ) : null}
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange(rows.filter((_, i) => i !== index))}
+                disabled={rows.length <= minRows}
+                aria-label={`Remove ${seriesRowLabel(input, index)}`}
+                className="rounded-full border border-zinc-200 px-2.5 py-1 text-sm hover:bg-zinc-50 disabled:opacity-40 dark:border-zinc-800 dark:hover:bg-zinc-900"
+              >
+                -
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={() => onChange([...rows, rows[rows.length - 1] ?? ""])}
+          disabled={rows.length >= maxRows}
+          className="rounded-full border border-zinc-200 px-3 py-1.5 text-sm hover:bg-zinc-50 disabled:opacity-40 dark:border-zinc-800 dark:hover:bg-zinc-900"
+        >
+          Add {input.rowLabel.toLowerCase()}
+        </button>
+        <div className="text-xs text-zinc-500">
+          Tip: paste a column from a spreadsheet into any row.
+        </div>
+      </div>
+    </fieldset>
+  );
+}
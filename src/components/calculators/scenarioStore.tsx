@@ -0,0 +1,51 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { createScenarioStore, type SavedScenario } from "@/lib/calculators/scenarios";
+
+export type { SavedScenario } from "@/lib/calculators/scenarios";
+
+const SCENARIOS_KEY = "mk_calculator_scenarios";
+const SCENARIOS_EVENT = "mk-scenarios-change";
+const NO_SCENARIOS: SavedScenario[] = [];
+
+function emitScenariosChange() {
+  try {
+    window.dispatchEvent(new Event(SCENARIOS_EVENT));
+  } catch {
+    // ignore
+  }
+}
+
+const store = createScenarioStore(
+  () => (typeof window === "undefined" ? null : window.localStorage),
+  SCENARIOS_KEY,
+  emitScenariosChange,
+);
+
+export const {
+  getScenarios,
+  saveScenario,
+  duplicateScenario,
+  saveExampleScenario,
+  deleteScenario,
+} = store;
+
+function subscribe(onStoreChange: () => void) {
+  if (typeof window === "undefined") return () => {};
+  const handler = () => onStoreChange();
+  window.addEventListener(SCENARIOS_EVENT, handler);
+  window.addEventListener("storage", handler);
+  return () => {
+    window.removeEventListener(SCENARIOS_EVENT, handler);
+    window.removeEventListener("storage", handler);
+  };
+}
+
+export function useScenarios(slug: string): SavedScenario[] {
+  return useSyncExternalStore(
+    subscribe,
+    () => getScenarios(slug),
+    () => NO_SCENARIOS,
+  );
+}
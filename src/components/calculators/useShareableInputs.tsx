@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { setSharedCurrency } from "@/components/currency/currencyStore";
+import { useLocale } from "@/components/locale/localeStore";
+import {
+  convertRawInputs,
+  flattenRawInputs,
+  type RawInputs,
+} from "@/lib/calculators/inputs";
+import type { InputForm } from "@/lib/calculators/types";
+import { DEFAULT_LOCALE } from "@/lib/locale";
+
+type ShareableInputsOptions = {
+  page: string; // currency store page key, e.g. "calculator/roas-calculator"
+  currency: string; // what the page shows, written into share links
+  initial: () => RawInputs; // in DEFAULT_LOCALE
+};
+
+// Form state shared by calculator and workflow pages: inputs kept as typed, in
+// the active locale, and a "Copy link" that writes them locale-independently.
+export function useShareableInputs({
+  page,
+  currency,
+  initial,
+}: ShareableInputsOptions) {
+  const locale = useLocale();
+  const [rawInputs, setRawInputs] = useState<Record<string, string>>(
+    () => initial().values,
+  );
+  const [rawSeries, setRawSeries] = useState<Record<string, string[]>>(
+    () => initial().series,
+  );
+  // The locale the raw strings above are written in.
+  const [rawLocale, setRawLocale] = useState<string>(DEFAULT_LOCALE);
+  if (rawLocale !== locale) {
+    const converted = convertRawInputs(
+      { values: rawInputs, series: rawSeries },
+      rawLocale,
+      locale,
+    );
+    setRawInputs(converted.values);
+    setRawSeries(converted.series);
+    setRawLocale(locale);
+  }
+  const [copyStatus, setCopyStatus] = useState<"idle" | "copied" | "failed">(
+    "idle",
+  );
+
+  // A shared link's currency labels this page only; the visitor's own
+  // preference is left alone.
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    setSharedCurrency(page, url.searchParams.get("currency"));
+  }, [page]);
+
+  // Replaces every input at once, e.g. from the URL or a saved scenario.
+  const replaceRawInputs = (raw: RawInputs, rawInputsLocale = rawLocale) => {
+    setRawInputs(raw.values);
+    setRawSeries(raw.series);
+    setRawLocale(rawInputsLocale);
+  };
+
+  const copyShareLink = async (path: string, form: InputForm) => {
+    try {
+      const url = new URL(path, window.location.href);
+      const flat = flattenRawInputs(
+        form,
+        { values: rawInputs, series: rawSeries },
+        rawLocale,
+      );
+      for (const [key, raw] of Object.entries(flat)) {
+        url.searchParams.set(key, raw);
+      }
+      // Always included: without it, the recipient's own currency would
+      // relabel these amounts.
+      url.searchParams.set("currency", currency);
+      await navigator.clipboard.writeText(url.toString());
+      setCopyStatus("copied");
+      window.setTimeout(() => setCopyStatus("idle"), 1500);
+    } catch {
+      setCopyStatus("failed");
+      window.setTimeout(() => setCopyStatus("idle"), 2000);
+    }
+  };
+
+  return {
+    locale,
+    rawInputs,
+    setRawInputs,
+    rawSeries,
+    setRawSeries,
+    rawLocale,
+    replaceRawInputs,
+    copyStatus,
+    copyShareLink,
+  };
+}
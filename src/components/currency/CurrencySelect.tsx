@@ -0,0 +1,30 @@
+"use client";
+
+import { SUPPORTED_CURRENCIES, isSupportedCurrency } from "@/lib/currency";
+import { setCurrency, useCurrency } from "@/components/currency/currencyStore";
+
+export function CurrencySelect({ id = "site-currency" }: { id?: string }) {
+  const currency = useCurrency();
+  return (
+    <>
+      <label className="sr-only" htmlFor={id}>
+        Currency
+      </label>
+      <select
+        id={id}
+        value={currency}
+        onChange={(e) => {
+          if (isSupportedCurrency(e.target.value)) setCurrency(e.target.value);
+        }}
+        title="Currency used for inputs and results"
+        className="rounded-full border border-zinc-200 bg-white px-2 py-1.5 text-sm outline-none hover:bg-zinc-50 focus:border-zinc-400 dark:border-zinc-800 dark:bg-black dark:hover:bg-zinc-900 dark:focus:border-zinc-600"
+      >
+        {SUPPORTED_CURRENCIES.map((c) => (
+          <option key={c} value={c}>
+            {c}
+          </option>
+        ))}
+      </select>
+    </>
+  );
+}
@@ -0,0 +1,19 @@
+"use client";
+
+import {
+  clearSharedCurrency,
+  type PageCurrency,
+} from "@/components/currency/currencyStore";
+
+// Shown while a share link's currency overrides the visitor's own choice.
+export function SharedCurrencyNote({ pageCurrency }: { pageCurrency: PageCurrency }) {
+  if (!pageCurrency.shared) return null;
+  return (
+    <div className="text-xs text-zinc-500">
+      Amounts are labelled in {pageCurrency.currency}, as in the shared link.{" "}
+      <button type="button" onClick={clearSharedCurrency} className="underline">
+        Use {pageCurrency.preferred}
+      </button>
+    </div>
+  );
+}
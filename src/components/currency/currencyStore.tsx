@@ -0,0 +1,100 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import {
+  DEFAULT_CURRENCY,
+  isSupportedCurrency,
+  type CurrencyCode,
+} from "@/lib/currency";
+
+const CURRENCY_KEY = "mk_currency";
+const CURRENCY_EVENT = "mk-currency-change";
+
+function readStoredCurrency(): CurrencyCode {
+  try {
+    const v = window.localStorage.getItem(CURRENCY_KEY);
+    return isSupportedCurrency(v) ? v : DEFAULT_CURRENCY;
+  } catch {
+    return DEFAULT_CURRENCY;
+  }
+}
+
+export function getCurrency(): CurrencyCode {
+  if (typeof window === "undefined") return DEFAULT_CURRENCY;
+  return readStoredCurrency();
+}
+
+function emitCurrencyChange() {
+  try {
+    window.dispatchEvent(new Event(CURRENCY_EVENT));
+  } catch {
+    // ignore
+  }
+}
+
+export function setCurrency(value: CurrencyCode) {
+  try {
+    window.localStorage.setItem(CURRENCY_KEY, value);
+  } catch {
+    // ignore
+  }
+  emitCurrencyChange();
+}
+
+function subscribe(onStoreChange: () => void) {
+  if (typeof window === "undefined") return () => {};
+  const handler = () => onStoreChange();
+  window.addEventListener(CURRENCY_EVENT, handler);
+  window.addEventListener("storage", handler);
+  return () => {
+    window.removeEventListener(CURRENCY_EVENT, handler);
+    window.removeEventListener("storage", handler);
+  };
+}
+
+export function useCurrency(): CurrencyCode {
+  return useSyncExternalStore(subscribe, getCurrency, () => DEFAULT_CURRENCY);
+}
+
+// A currency carried by a share link applies to the page it opened, never to
+// the visitor's saved preference: a "$" link opened by someone who prefers GBP
+// still shows dollars. It lapses once they pick a currency themselves.
+type SharedCurrency = {
+  page: string;
+  currency: CurrencyCode;
+  preferred: CurrencyCode; // the saved preference when the link was opened
+};
+
+let sharedCurrency: SharedCurrency | null = null;
+
+export function setSharedCurrency(page: string, value: string | null | undefined) {
+  sharedCurrency = isSupportedCurrency(value)
+    ? { page, currency: value, preferred: getCurrency() }
+    : null;
+  emitCurrencyChange();
+}
+
+export function clearSharedCurrency() {
+  sharedCurrency = null;
+  emitCurrencyChange();
+}
+
+export type PageCurrency = {
+  currency: CurrencyCode; // what the page shows
+  preferred: CurrencyCode;
+  shared: boolean; // true while a share link's currency is in effect
+};
+
+export function usePageCurrency(page: string): PageCurrency {
+  const preferred = useCurrency();
+  const shared = useSyncExternalStore(
+    subscribe,
+    () => sharedCurrency,
+    () => null,
+  );
+  const active =
+    shared && shared.page === page && shared.preferred === preferred
+      ? shared.currency
+      : null;
+  return { currency: active ?? preferred, preferred, shared: active !== null };
+}
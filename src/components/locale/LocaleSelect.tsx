@@ -0,0 +1,31 @@
+"use client";
+
+import { SUPPORTED_LOCALES, isSupportedLocale } from "@/lib/locale";
+import { formatNumber } from "@/lib/format";
+import { setLocale, useLocale } from "@/components/locale/localeStore";
+
+export function LocaleSelect({ id = "site-locale" }: { id?: string }) {
+  const locale = useLocale();
+  return (
+    <>
+      <label className="sr-only" htmlFor={id}>
+        Number format
+      </label>
+      <select
+        id={id}
+        value={locale}
+        onChange={(e) => {
+          if (isSupportedLocale(e.target.value)) setLocale(e.target.value);
+        }}
+        title="How numbers are typed and shown"
+        className="rounded-full border border-zinc-200 bg-white px-2 py-1.5 text-sm outline-none hover:bg-zinc-50 focus:border-zinc-400 dark:border-zinc-800 dark:bg-black dark:hover:bg-zinc-900 dark:focus:border-zinc-600"
+      >
+        {SUPPORTED_LOCALES.map((l) => (
+          <option key={l} value={l}>
+            {formatNumber(1234.5, 2, l)} ({l})
+          </option>
+        ))}
+      </select>
+    </>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import {
+  DEFAULT_LOCALE,
+  isSupportedLocale,
+  type LocaleCode,
+} from "@/lib/locale";
+
+const LOCALE_KEY = "mk_locale";
+const LOCALE_EVENT = "mk-locale-change";
+
+function readStoredLocale(): LocaleCode {
+  try {
+    const v = window.localStorage.getItem(LOCALE_KEY);
+    return isSupportedLocale(v) ? v : DEFAULT_LOCALE;
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+}
+
+export function getLocale(): LocaleCode {
+  if (typeof window === "undefined") return DEFAULT_LOCALE;
+  return readStoredLocale();
+}
+
+function emitLocaleChange() {
+  try {
+    window.dispatchEvent(new Event(LOCALE_EVENT));
+  } catch {
+    // ignore
+  }
+}
+
+export function setLocale(value: LocaleCode) {
+  try {
+    window.localStorage.setItem(LOCALE_KEY, value);
+  } catch {
+    // ignore
+  }
+  emitLocaleChange();
+}
+
+function subscribe(onStoreChange: () => void) {
+  if (typeof window === "undefined") return () => {};
+  const handler = () => onStoreChange();
+  window.addEventListener(LOCALE_EVENT, handler);
+  window.addEventListener("storage", handler);
+  return () => {
+    window.removeEventListener(LOCALE_EVENT, handler);
+    window.removeEventListener("storage", handler);
+  };
+}
+
+export function useLocale(): LocaleCode {
+  return useSyncExternalStore(subscribe, getLocale, () => DEFAULT_LOCALE);
+}
@@ -0,0 +1,265 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useLocale } from "@/components/locale/localeStore";
+import { formatNumber } from "@/lib/format";
+import { parseCalculatorAction } from "@/lib/search/actions";
+import { searchDocuments } from "@/lib/search/query";
+import type { SearchKind } from "@/lib/search/types";
+import { buildSearchHref } from "@/lib/search/url";
+import { useSearchIndex } from "./searchIndexStore";
+
+const RESULT_LIMIT = 8;
+
+const KIND_LABELS: Record<SearchKind, string> = {
+  calculator: "Calculator",
+  guide: "Guide",
+  glossary: "Glossary",
+};
+
+type PaletteItem = {
+  id: string;
+  href: string;
+  label: string;
+  title: string;
+  detail: string;
+};
+
+function isPaletteShortcut(event: KeyboardEvent): boolean {
+  return (
+    (event.metaKey || event.ctrlKey) &&
+    !event.altKey &&
+    event.key.toLowerCase() === "k"
+  );
+}
+
+type PaletteDialogProps = {
+  onClose: () => void;
+};
+
+// Mounted only while open, so the search index is fetched on first use.
+function PaletteDialog({ onClose }: PaletteDialogProps) {
+  const router = useRouter();
+  const searchIndex = useSearchIndex();
+  const locale = useLocale();
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const items = useMemo((): PaletteItem[] => {
+    if (!query.trim() || searchIndex.status !== "ready") return [];
+    const action = parseCalculatorAction(searchIndex.index, query, locale);
+    const hits = searchDocuments(searchIndex.index, query, {
+      limit: RESULT_LIMIT,
+    });
+    return [
+      ...(action
+        ? [
+            {
+              id: "action",
+              href: action.href,
+              label: "Open with inputs",
+              title: action.document.title,
+              detail: action.values
+                .map((v) => `${v.label}: ${formatNumber(v.value, 4, locale)}`)
+                .join(", "),
+            },
+          ]
+        : []),
+      ...hits.map(({ document: d }) => ({
+        id: `${d.kind}:${d.slug}`,
+        href: d.href,
+        label: KIND_LABELS[d.kind],
+        title: d.title,
+        detail: d.description,
+      })),
+    ];
+  }, [query, searchIndex, locale]);
+
+  const activeIndex = Math.min(active, Math.max(items.length - 1, 0));
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  function open(href: string) {
+    onClose();
+    router.push(href);
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/40 p-4 print:hidden"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Quick search"
+        className="mx-auto mt-16 w-full max-w-xl overflow-hidden rounded-2xl border border-zinc-200 bg-white shadow-xl dark:border-zinc-700 dark:bg-zinc-900"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <input
+          ref={inputRef}
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActive(0);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+              e.preventDefault();
+              if (!items.length) return;
+              const step = e.key === "ArrowDown" ? 1 : -1;
+              setActive((activeIndex + step + items.length) % items.length);
+            } else if (e.key === "Enter") {
+              e.preventDefault();
+              const item = items[activeIndex];
+              if (item) open(item.href);
+              else if (query.trim()) open(buildSearchHref(query));
+            } else if (e.key === "Escape") {
+              e.preventDefault();
+              onClose();
+            } else if (e.key === "Tab") {
+              // Keep focus in the palette; arrows move through results.
+              e.preventDefault();
+            }
+          }}
+          role="combobox"
+          aria-expanded={items.length > 0}
+          aria-controls="command-palette-results"
+          aria-activedescendant={
+            items.length ? `command-palette-${activeIndex}` : undefined
+          }
+          aria-autocomplete="list"
+          placeholder='Search, or open a calculator: "roas 5000 1000"'
+          className="w-full border-b border-zinc-200 bg-transparent px-4 py-3 text-sm outline-none dark:border-zinc-700"
+        />
+        {items.length ? (
+          <ul
+            ref={listRef}
+            id="command-palette-results"
+            role="listbox"
+            aria-label="Results"
+            className="max-h-96 overflow-y-auto p-2"
+          >
+            {items.map((item, i) => (
+              <li
+                key={item.id}
+                id={`command-palette-${i}`}
+                data-index={i}
+                role="option"
+                aria-selected={i === activeIndex}
+              >
+                <Link
+                  href={item.href}
+                  tabIndex={-1}
+                  onClick={onClose}
+                  onMouseMove={() => {
+                    if (i !== activeIndex) setActive(i);
+                  }}
+                  className={[
+                    "block rounded-xl px-3 py-2",
+                    i === activeIndex ? "bg-zinc-100 dark:bg-zinc-800" : "",
+                  ].join(" ")}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="shrink-0 text-xs text-zinc-500">
+                      {item.label}
+                    </span>
+                    <span className="truncate text-sm font-medium">
+                      {item.title}
+                    </span>
+                  </div>
+                  <div className="mt-0.5 truncate text-xs text-zinc-600 dark:text-zinc-400">
+                    {item.detail}
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="px-4 py-6 text-sm text-zinc-600 dark:text-zinc-400">
+            {!query.trim()
+              ? "Type a metric, guide or term. Add numbers after a calculator name to open it pre-filled."
+              : searchIndex.status === "loading"
+                ? "Loading search..."
+                : searchIndex.status === "error"
+                  ? "Search is unavailable right now."
+                  : "No results."}
+          </div>
+        )}
+        <div className="flex items-center justify-between gap-2 border-t border-zinc-200 px-4 py-2 text-xs text-zinc-500 dark:border-zinc-700">
+          <span>Up/Down to move, Enter to open, Esc to close</span>
+          {query.trim() ? (
+            <Link
+              href={buildSearchHref(query)}
+              tabIndex={-1}
+              onClick={onClose}
+              className="underline"
+            >
+              All results
+            </Link>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// The header search box: a button that opens the palette, as does Ctrl+K /
+// Cmd+K from any page.
+export function CommandPalette() {
+  const [isOpen, setIsOpen] = useState(false);
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const previousFocusedElementRef = useRef<HTMLElement | null>(null);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!isPaletteShortcut(event)) return;
+      event.preventDefault();
+      setIsOpen((open) => !open);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const triggerElement = triggerRef.current;
+    previousFocusedElementRef.current = document.activeElement as HTMLElement;
+    return () => {
+      const focusTarget = previousFocusedElementRef.current ?? triggerElement;
+      focusTarget?.focus();
+    };
+  }, [isOpen]);
+
+  return (
+    <>
+      <button
+        ref={triggerRef}
+        type="button"
+        aria-haspopup="dialog"
+        aria-keyshortcuts="Control+K Meta+K"
+        title="Search (Ctrl+K or Cmd+K)"
+        onClick={() => setIsOpen(true)}
+        className="hidden w-56 items-center justify-between gap-2 rounded-full border border-zinc-200 bg-white px-4 py-2 text-sm text-zinc-500 outline-none hover:border-zinc-400 focus-visible:border-zinc-400 md:flex dark:border-zinc-800 dark:bg-black dark:hover:border-zinc-600 dark:focus-visible:border-zinc-600"
+      >
+        Search...
+        <kbd className="rounded border border-zinc-200 px-1.5 font-sans text-xs dark:border-zinc-700">
+          Ctrl K
+        </kbd>
+      </button>
+      {isOpen ? <PaletteDialog onClose={() => setIsOpen(false)} /> : null}
+    </>
+  );
+}
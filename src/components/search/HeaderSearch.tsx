@@ -1,27 +0,0 @@
-"use client";
-
-import { useRouter } from "next/navigation";
-import { useState } from "react";
-import { buildSearchHref } from "@/lib/search/url";
-
-export function HeaderSearch() {
-  const router = useRouter();
-  const [q, setQ] = useState("");
-
-  return (
-    <form
-      className="hidden items-center gap-2 md:flex"
-      onSubmit={(e) => {
-        e.preventDefault();
-        router.push(buildSearchHref(q));
-      }}
-    >
-      <input
-        value={q}
-        onChange={(e) => setQ(e.target.value)}
-        placeholder="Search..."
-        className="w-56 rounded-full border border-zinc-200 bg-white px-4 py-2 text-sm outline-none focus:border-zinc-400 dark:border-zinc-800 dark:bg-black dark:focus:border-zinc-600"
-      />
-    </form>
-  );
-}
@@ -3,20 +3,29 @@
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
-import { calculators, categories } from "@/lib/calculators";
-import { guides } from "@/lib/guides";
-import { glossaryTerms } from "@/lib/glossary";
+import { categories } from "@/lib/calculators";
+import { correctQuery } from "@/lib/search/fuzzy";
+import { expandQuery, searchDocuments } from "@/lib/search/query";
+import { searchSnippet } from "@/lib/search/snippet";
+import type { SearchKind } from "@/lib/search/types";
 import { buildSearchHref, readSearchQuery } from "@/lib/search/url";
+import { useSearchIndex, useSearchPassages } from "./searchIndexStore";
 
-function normalize(value: string): string {
-  return value.trim().toLowerCase();
-}
+type FilterKind = "all" | "calculators" | "guides" | "glossary";
 
-function includesText(haystack: string, needle: string): boolean {
-  return normalize(haystack).includes(needle);
-}
+const FILTER_KINDS: Record<Exclude<FilterKind, "all">, SearchKind> = {
+  calculators: "calculator",
+  guides: "guide",
+  glossary: "glossary",
+};
 
-type FilterKind = "all" | "calculators" | "guides" | "glossary";
+const KIND_LABELS: Record<SearchKind, string> = {
+  calculator: "Calculator",
+  guide: "Guide",
+  glossary: "Glossary",
+};
+
+const RESULT_LIMIT = 50;
 
 export function SearchClient() {
   const params = useSearchParams();
@@ -30,7 +39,10 @@ export function SearchClient() {
   const hasPendingCanonical =
     pendingCanonical !== null && urlQuery !== pendingCanonical;
   const displayedQuery = isEditing || hasPendingCanonical ? draftQuery : urlQuery;
-  const needle = useMemo(() => normalize(displayedQuery), [displayedQuery]);
+  const needle = displayedQuery.trim();
+  const searchIndex = useSearchIndex();
+  // Snippets fall back to page descriptions until the passages arrive.
+  const searchPassages = useSearchPassages();
 
   useEffect(() => {
     if (pendingCanonical === null || urlQuery !== pendingCanonical) return;
@@ -42,44 +54,50 @@ export function SearchClient() {
     return () => window.clearTimeout(timeoutId);
   }, [pendingCanonical, urlQuery]);
 
-  const calculatorResults = useMemo(() => {
-    if (!needle) return [];
-    return calculators.filter((c) => {
-      return (
-        includesText(c.title, needle) ||
-        includesText(c.description, needle) ||
-        includesText(c.category, needle)
-      );
-    });
-  }, [needle]);
+  const results = useMemo(() => {
+    if (!needle || searchIndex.status !== "ready") return [];
+    return searchDocuments(searchIndex.index, displayedQuery, {
+      kinds: kind === "all" ? undefined : [FILTER_KINDS[kind]],
+      limit: RESULT_LIMIT,
+    }).map((hit) => ({
+      ...hit,
+      snippet: searchSnippet(
+        hit,
+        searchPassages.status === "ready"
+          ? searchPassages.passages[hit.document.href]
+          : undefined,
+      ),
+    }));
+  }, [needle, displayedQuery, kind, searchIndex, searchPassages]);
 
-  const guideResults = useMemo(() => {
-    if (!needle) return [];
-    return guides.filter((g) => {
-      return (
-        includesText(g.title, needle) ||
-        includesText(g.description, needle) ||
-        includesText(g.category, needle)
-      );
-    });
-  }, [needle]);
+  // Other spellings the query was expanded to, e.g. "CLV" -> "LTV".
+  const aliases = useMemo(() => {
+    if (!needle || searchIndex.status !== "ready") return [];
+    return expandQuery(searchIndex.index, displayedQuery).flatMap(
+      (clause) => clause.aliases,
+    );
+  }, [needle, displayedQuery, searchIndex]);
 
-  const glossaryResults = useMemo(() => {
-    if (!needle) return [];
-    return glossaryTerms.filter((t) => {
-      return (
-        includesText(t.title, needle) ||
-        includesText(t.description, needle) ||
-        includesText(t.category, needle)
-      );
-    });
-  }, [needle]);
+  // Offered only when nothing matched the query as typed.
+  const suggestion = useMemo(() => {
+    if (!needle || searchIndex.status !== "ready") return null;
+    if (results.some((hit) => !hit.corrected)) return null;
+    return correctQuery(searchIndex.index, displayedQuery);
+  }, [needle, displayedQuery, searchIndex, results]);
 
-  const visibleCalculators =
-    kind === "guides" || kind === "glossary" ? [] : calculatorResults;
-  const visibleGuides = kind === "calculators" || kind === "glossary" ? [] : guideResults;
-  const visibleGlossary =
-    kind === "calculators" || kind === "guides" ? [] : glossaryResults;
+  const suggestionButton = suggestion ? (
+    <button
+      type="button"
+      onClick={() => {
+        setDraftQuery(suggestion);
+        setPendingCanonical(suggestion);
+        router.replace(buildSearchHref(suggestion));
+      }}
+      className="font-medium text-zinc-900 underline dark:text-zinc-100"
+    >
+      {suggestion}
+    </button>
+  ) : null;
 
   return (
     <div className="space-y-8">
@@ -88,7 +106,7 @@ export function SearchClient() {
           Search
         </h1>
         <p className="max-w-2xl text-pretty text-zinc-600 dark:text-zinc-400">
-          Search calculators and guides.
+          Search calculators, guides, and glossary definitions.
         </p>
       </header>
 
@@ -147,7 +165,7 @@ export function SearchClient() {
           </div>
         </div>
         <div className="mt-3 text-xs text-zinc-500">
-          Tip: results update as you type.
+          Tip: results update as you type, best matches first.
         </div>
       </div>
 
@@ -167,101 +185,87 @@ export function SearchClient() {
       ) : null}
 
       {needle ? (
-        <div className="grid gap-6 lg:grid-cols-2">
-          <section className="space-y-3">
-            <h2 className="text-lg font-semibold tracking-tight">Calculators</h2>
-            {visibleCalculators.length ? (
+        <section className="space-y-3" aria-live="polite">
+          {searchIndex.status === "loading" ? (
+            <div className="text-sm text-zinc-600 dark:text-zinc-400">
+              Loading search...
+            </div>
+          ) : searchIndex.status === "error" ? (
+            <div className="text-sm text-zinc-600 dark:text-zinc-400">
+              Search is unavailable right now. Try reloading the page.
+            </div>
+          ) : results.length ? (
+            <>
+              {suggestion ? (
+                <div className="text-sm text-zinc-600 dark:text-zinc-400">
+                  No exact matches. Did you mean{" "}
+                  {suggestionButton}
+                  ? Showing results for it below.
+                </div>
+              ) : null}
+              <h2 className="text-lg font-semibold tracking-tight">
+                {results.length === RESULT_LIMIT
+                  ? `Top ${RESULT_LIMIT} results`
+                  : `${results.length} result${results.length === 1 ? "" : "s"}`}
+              </h2>
+              {aliases.length ? (
+                <div className="text-sm text-zinc-600 dark:text-zinc-400">
+                  Also matching: {aliases.join(", ")}
+                </div>
+              ) : null}
               <div className="space-y-2">
-                {visibleCalculators.map((c) => (
+                {results.map(({ document: d, snippet }) => (
                   <Link
-                    key={c.slug}
-                    href={`/${c.category}/${c.slug}`}
+                    key={`${d.kind}:${d.slug}`}
+                    href={snippet.href}
                     className="block rounded-2xl border border-zinc-200 bg-white p-4 hover:bg-zinc-50 dark:border-zinc-800 dark:bg-black dark:hover:bg-zinc-950"
                   >
-                    <div className="text-sm text-zinc-500">
-                      {categories.find((x) => x.slug === c.category)?.title ??
-                        c.category}
+                    <div className="flex flex-wrap items-center gap-2 text-sm text-zinc-500">
+                      <span className="rounded-full border border-zinc-200 px-2 py-0.5 text-xs font-medium text-zinc-700 dark:border-zinc-800 dark:text-zinc-300">
+                        {KIND_LABELS[d.kind]}
+                      </span>
+                      <span>{d.category}</span>
                     </div>
                     <div className="mt-1 font-semibold tracking-tight">
-                      {c.title}
+                      {d.title}
                     </div>
                     <div className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
-                      {c.description}
+                      {snippet.segments.map((segment, i) =>
+                        segment.match ? (
+                          <mark
+                            key={i}
+                            className="rounded bg-zinc-200 px-0.5 text-zinc-900 dark:bg-zinc-700 dark:text-zinc-100"
+                          >
+                            {segment.text}
+                          </mark>
+                        ) : (
+                          segment.text
+                        ),
+                      )}
                     </div>
+                    {d.updatedAt ? (
+                      <div className="mt-2 text-xs text-zinc-500">
+                        Updated {d.updatedAt}
+                      </div>
+                    ) : null}
                   </Link>
                 ))}
               </div>
-            ) : (
-              <div className="text-sm text-zinc-600 dark:text-zinc-400">
-                No calculator results.
-              </div>
-            )}
-          </section>
-
-          <section className="space-y-3">
-            <h2 className="text-lg font-semibold tracking-tight">Guides</h2>
-            {visibleGuides.length ? (
-              <div className="space-y-2">
-                {visibleGuides.map((g) => (
-                  <Link
-                    key={g.slug}
-                    href={`/guides/${g.slug}`}
-                    className="block rounded-2xl border border-zinc-200 bg-white p-4 hover:bg-zinc-50 dark:border-zinc-800 dark:bg-black dark:hover:bg-zinc-950"
-                  >
-                    <div className="text-sm text-zinc-500">
-                      {g.category.replace("-", " ")}
-                    </div>
-                    <div className="mt-1 font-semibold tracking-tight">
-                      {g.title}
-                    </div>
-                    <div className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
-                      {g.description}
-                    </div>
-                    <div className="mt-2 text-xs text-zinc-500">
-                      Updated {g.updatedAt}
-                    </div>
-                  </Link>
-                ))}
-              </div>
-            ) : (
-              <div className="text-sm text-zinc-600 dark:text-zinc-400">
-                No guide results.
-              </div>
-            )}
-          </section>
-
-          <section className="space-y-3 lg:col-span-2">
-            <h2 className="text-lg font-semibold tracking-tight">Glossary</h2>
-            {visibleGlossary.length ? (
-              <div className="grid gap-2 sm:grid-cols-2">
-                {visibleGlossary.map((t) => (
-                  <Link
-                    key={t.slug}
-                    href={`/glossary/${t.slug}`}
-                    className="block rounded-2xl border border-zinc-200 bg-white p-4 hover:bg-zinc-50 dark:border-zinc-800 dark:bg-black dark:hover:bg-zinc-950"
-                  >
-                    <div className="text-sm text-zinc-500">
-                      {t.category.replace("-", " ")}
-                    </div>
-                    <div className="mt-1 font-semibold tracking-tight">
-                      {t.title}
-                    </div>
-                    <div className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
-                      {t.description}
-                    </div>
-                    <div className="mt-2 text-xs text-zinc-500">
-                      Updated {t.updatedAt}
-                    </div>
-                  </Link>
-                ))}
-              </div>
-            ) : (
-              <div className="text-sm text-zinc-600 dark:text-zinc-400">
-                No glossary results.
-              </div>
-            )}
-          </section>
-        </div>
+            </>
+          ) : (
+            <div className="text-sm text-zinc-600 dark:text-zinc-400">
+              No results.
+              {suggestion ? (
+                <>
+                  {" "}
+                  Did you mean{" "}
+                  {suggestionButton}
+                  ?
+                </>
+              ) : null}
+            </div>
+          )}
+        </section>
       ) : null}
     </div>
   );
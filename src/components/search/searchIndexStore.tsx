@@ -0,0 +1,78 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import type { SearchIndex, SearchPassages } from "@/lib/search/types";
+
+export type SearchIndexState =
+  | { status: "loading" }
+  | { status: "ready"; index: SearchIndex }
+  | { status: "error" };
+
+export type SearchPassagesState =
+  | { status: "loading" }
+  | { status: "ready"; passages: SearchPassages }
+  | { status: "error" };
+
+const LOADING = { status: "loading" } as const;
+
+// One static JSON file, fetched once per page load on first subscribe and
+// shared by every component on the page.
+function createJsonStore<T, S>(url: string, ready: (data: T) => S) {
+  let state: S | typeof LOADING | { status: "error" } = LOADING;
+  let request: Promise<void> | null = null;
+  const listeners = new Set<() => void>();
+
+  const setState = (next: typeof state) => {
+    state = next;
+    for (const listener of listeners) listener();
+  };
+
+  const load = () => {
+    if (request) return;
+    request = fetch(url)
+      .then((res) => {
+        if (!res.ok) throw new Error(`${url}: HTTP ${res.status}`);
+        return res.json() as Promise<T>;
+      })
+      .then((data) => setState(ready(data)))
+      .catch(() => {
+        request = null; // let the next subscriber retry
+        setState({ status: "error" });
+      });
+  };
+
+  const subscribe = (onStoreChange: () => void) => {
+    listeners.add(onStoreChange);
+    load();
+    return () => {
+      listeners.delete(onStoreChange);
+    };
+  };
+
+  return function useJsonStore() {
+    return useSyncExternalStore(
+      subscribe,
+      () => state,
+      () => LOADING,
+    );
+  };
+}
+
+const useIndexStore = createJsonStore(
+  "/search/index.json",
+  (index: SearchIndex) => ({ status: "ready", index }) as const,
+);
+
+const usePassagesStore = createJsonStore(
+  "/search/passages.json",
+  (passages: SearchPassages) => ({ status: "ready", passages }) as const,
+);
+
+export function useSearchIndex(): SearchIndexState {
+  return useIndexStore();
+}
+
+// Only for result snippets; search boxes that show titles alone skip it.
+export function useSearchPassages(): SearchPassagesState {
+  return usePassagesStore();
+}
@@ -3,9 +3,12 @@
 import Link from "next/link";
 import { useEffect, useRef, useState } from "react";
 import { categories } from "@/lib/calculators";
+import { CurrencySelect } from "@/components/currency/CurrencySelect";
+import { LocaleSelect } from "@/components/locale/LocaleSelect";
 
 const secondaryMobileNavLinks = [
   { href: "/guides", label: "Guides" },
+  { href: "/workflows", label: "Workflows" },
   { href: "/glossary", label: "Glossary" },
   { href: "/search", label: "Search" },
   { href: "/about", label: "About" },
@@ -137,6 +140,10 @@ export function MobileNav() {
                 </Link>
               ))}
             </nav>
+            <div className="mt-4 flex items-center gap-2 border-t border-zinc-200 pt-4 dark:border-zinc-700">
+              <LocaleSelect id="mobile-site-locale" />
+              <CurrencySelect id="mobile-site-currency" />
+            </div>
           </div>
         </div>
       ) : null}
@@ -0,0 +1,38 @@
+"use client";
+
+import { usePathname } from "next/navigation";
+
+type SiteChromeProps = {
+  header: React.ReactNode;
+  footer: React.ReactNode;
+  // Ads, analytics and the consent banner; partners' pages own those for embeds.
+  thirdParty: React.ReactNode;
+  children: React.ReactNode;
+};
+
+function isEmbedPath(pathname: string | null): boolean {
+  return !!pathname?.startsWith("/embed/");
+}
+
+export function SiteChrome({
+  header,
+  footer,
+  thirdParty,
+  children,
+}: SiteChromeProps) {
+  const pathname = usePathname();
+  if (isEmbedPath(pathname)) return <>{children}</>;
+
+  return (
+    <>
+      {thirdParty}
+      <div className="flex min-h-dvh flex-col">
+        {header}
+        <main className="mx-auto w-full max-w-6xl flex-1 px-4 py-10 print:max-w-none print:p-0">
+          {children}
+        </main>
+        {footer}
+      </div>
+    </>
+  );
+}
@@ -5,7 +5,7 @@ import { CookieSettingsButton } from "@/components/consent/CookieSettingsButton"
 
 export function SiteFooter() {
   return (
-    <footer className="border-t border-zinc-200 dark:border-zinc-800">
+    <footer className="border-t border-zinc-200 print:hidden dark:border-zinc-800">
       <div className="mx-auto w-full max-w-6xl px-4 py-10">
         <div className="flex flex-col gap-6 sm:flex-row sm:items-start sm:justify-between">
           <div className="space-y-2">
@@ -32,6 +32,9 @@ export function SiteFooter() {
             <Link href="/guides" className="hover:underline">
               Guides
             </Link>
+            <Link href="/workflows" className="hover:underline">
+              Workflows
+            </Link>
             <Link href="/glossary" className="hover:underline">
               Glossary
             </Link>
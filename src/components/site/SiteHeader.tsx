@@ -2,12 +2,14 @@ import Link from "next/link";
 import { categories } from "@/lib/calculators";
 import { siteConfig } from "@/lib/site";
 import { LogoMark } from "@/components/site/LogoMark";
-import { HeaderSearch } from "@/components/search/HeaderSearch";
+import { CommandPalette } from "@/components/search/CommandPalette";
 import { MobileNav } from "@/components/site/MobileNav";
+import { CurrencySelect } from "@/components/currency/CurrencySelect";
+import { LocaleSelect } from "@/components/locale/LocaleSelect";
 
 export function SiteHeader() {
   return (
-    <header className="border-b border-zinc-200 bg-white/80 backdrop-blur dark:border-zinc-800 dark:bg-black/60">
+    <header className="border-b border-zinc-200 bg-white/80 backdrop-blur print:hidden dark:border-zinc-800 dark:bg-black/60">
       <div className="mx-auto flex w-full max-w-6xl items-center justify-between gap-4 px-4 py-4">
         <Link
           href="/"
@@ -48,7 +50,11 @@ export function SiteHeader() {
           </Link>
         </nav>
         <div className="flex items-center gap-2">
-          <HeaderSearch />
+          <CommandPalette />
+          <div className="hidden items-center gap-2 sm:flex">
+            <LocaleSelect />
+            <CurrencySelect />
+          </div>
           <Link
             href="/saas-metrics"
             className="inline-flex rounded-full bg-black px-3 py-1.5 text-sm font-medium text-white hover:bg-zinc-800 sm:hidden dark:bg-white dark:text-black dark:hover:bg-zinc-200"
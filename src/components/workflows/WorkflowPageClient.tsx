@@ -0,0 +1,297 @@
+"use client";
+
+import { useMemo } from "react";
+import Link from "next/link";
+import { NumberInput } from "@/components/calculators/NumberInput";
+import { SeriesInput } from "@/components/calculators/SeriesInput";
+import { useShareableInputs } from "@/components/calculators/useShareableInputs";
+import { usePageCurrency } from "@/components/currency/currencyStore";
+import { SharedCurrencyNote } from "@/components/currency/SharedCurrencyNote";
+import { withDisplayCurrency } from "@/lib/calculators/currency";
+import { formatResultValue } from "@/lib/calculators/formatResult";
+import { toParamValue } from "@/lib/calculators/handoff";
+import {
+  buildDefaultRawInputs,
+  expandRawInputs,
+  parseRawInputs,
+} from "@/lib/calculators/inputs";
+import { serializeSeries } from "@/lib/calculators/series";
+import { formatNumber, numberSeparators } from "@/lib/format";
+import { getWorkflow } from "@/lib/workflows";
+import {
+  buildWorkflowForm,
+  resolveWorkflowSteps,
+  runWorkflow,
+  summarizeWorkflow,
+} from "@/lib/workflows/run";
+
+type WorkflowPageClientProps = {
+  slug: string;
+  // Flat share-link params from the page URL (see flattenRawInputs).
+  initialInputs: Record<string, string>;
+};
+
+export function WorkflowPageClient({
+  slug,
+  initialInputs,
+}: WorkflowPageClientProps) {
+  const pageCurrency = usePageCurrency(`workflow/${slug}`);
+  const { currency } = pageCurrency;
+  const workflow = getWorkflow(slug);
+  const steps = useMemo(
+    () =>
+      workflow
+        ? resolveWorkflowSteps(workflow).map((s) => ({
+            ...s,
+            calc: withDisplayCurrency(s.calc, currency),
+          }))
+        : [],
+    [workflow, currency],
+  );
+  const form = useMemo(
+    () => (workflow ? buildWorkflowForm(workflow, steps) : { inputs: [] }),
+    [workflow, steps],
+  );
+
+  const {
+    locale,
+    rawInputs,
+    setRawInputs,
+    rawSeries,
+    setRawSeries,
+    rawLocale,
+    replaceRawInputs,
+    copyStatus,
+    copyShareLink,
+  } = useShareableInputs({
+    page: `workflow/${slug}`,
+    currency,
+    initial: () => expandRawInputs(form, initialInputs),
+  });
+
+  const parsed = useMemo(
+    () =>
+      parseRawInputs(form, { values: rawInputs, series: rawSeries }, rawLocale),
+    [form, rawInputs, rawSeries, rawLocale],
+  );
+  // Fields that did not parse are left out, so only the steps reading them
+  // fail, each with its own errors.
+  const runs = useMemo(
+    () => runWorkflow(steps, parsed.values, parsed.series),
+    [steps, parsed],
+  );
+
+  if (!workflow) {
+    return (
+      <div className="space-y-2">
+        <h1 className="text-2xl font-semibold tracking-tight">
+          Workflow not found
+        </h1>
+        <p className="text-zinc-600 dark:text-zinc-400">
+          This workflow does not exist.
+        </p>
+      </div>
+    );
+  }
+
+  const summary = summarizeWorkflow(workflow, runs);
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <h1 className="text-balance text-3xl font-semibold tracking-tight sm:text-4xl">
+          {workflow.title}
+        </h1>
+        <p className="max-w-3xl text-pretty text-zinc-600 dark:text-zinc-400">
+          {workflow.description}
+        </p>
+        <div className="max-w-3xl space-y-3 text-pretty text-zinc-700 dark:text-zinc-300">
+          {workflow.intro.map((p) => (
+            <p key={p}>{p}</p>
+          ))}
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-5 dark:border-zinc-800 dark:bg-black">
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {form.inputs.map((input) =>
+            input.kind === "series" ? (
+              <SeriesInput
+                key={input.key}
+                input={input}
+                rows={rawSeries[input.key] ?? []}
+                invalidRows={parsed.invalidSeriesRows[input.key] ?? []}
+                error={parsed.errors[input.key]}
+                locale={locale}
+                onChange={(rows) =>
+                  setRawSeries((prev) => ({ ...prev, [input.key]: rows }))
+                }
+              />
+            ) : (
+              <NumberInput
+                key={input.key}
+                input={input}
+                value={rawInputs[input.key] ?? ""}
+                error={parsed.errors[input.key]}
+                locale={locale}
+                onChange={(value) =>
+                  setRawInputs((prev) => ({ ...prev, [input.key]: value }))
+                }
+              />
+            ),
+          )}
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+          <div className="text-xs text-zinc-500">
+            Tip: you can type{" "}
+            {numberSeparators(locale).group === ","
+              ? "commas"
+              : "thousands separators"}{" "}
+            (e.g., {formatNumber(10000, 0, locale)}).
+            <SharedCurrencyNote pageCurrency={pageCurrency} />
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                replaceRawInputs(buildDefaultRawInputs(form, rawLocale));
+              }}
+              className="rounded-full border border-zinc-200 px-3 py-1.5 text-sm hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900"
+            >
+              Reset
+            </button>
+            <button
+              type="button"
+              onClick={() => copyShareLink(`/workflows/${slug}`, form)}
+              className="rounded-full border border-zinc-200 px-3 py-1.5 text-sm hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900"
+            >
+              {copyStatus === "copied"
+                ? "Copied"
+                : copyStatus === "failed"
+                  ? "Copy failed"
+                  : "Copy link"}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold tracking-tight">Summary</h2>
+        {runs.length ? (
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {summary.map(({ calc, value }) => (
+              <div
+                key={`${calc.slug}-${value?.key ?? "missing"}`}
+                className="rounded-2xl border border-zinc-200 bg-white p-5 dark:border-zinc-800 dark:bg-black"
+              >
+                <div className="text-sm text-zinc-600 dark:text-zinc-400">
+                  {value?.label ?? calc.title}
+                </div>
+                <div className="mt-2 text-2xl font-semibold tracking-tight">
+                  {value ? formatResultValue(value, locale) : "-"}
+                </div>
+                <div className="mt-1 text-xs text-zinc-500">{calc.title}</div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="rounded-2xl border border-zinc-200 bg-white p-5 text-sm text-zinc-600 dark:border-zinc-800 dark:bg-black dark:text-zinc-400">
+            Enter valid numbers to calculate.
+          </div>
+        )}
+      </section>
+
+      {runs.length ? (
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold tracking-tight">Steps</h2>
+          <ol className="space-y-4">
+            {runs.map((run, index) => {
+              const params = new URLSearchParams();
+              for (const [key, value] of Object.entries(run.values)) {
+                params.set(key, toParamValue(value));
+              }
+              for (const [key, rows] of Object.entries(run.series)) {
+                params.set(key, serializeSeries(rows.map(toParamValue)));
+              }
+              params.set("currency", currency);
+              return (
+                <li
+                  key={run.calc.slug}
+                  className="rounded-2xl border border-zinc-200 bg-white p-5 dark:border-zinc-800 dark:bg-black"
+                >
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div>
+                      <div className="text-xs text-zinc-500">
+                        Step {index + 1}
+                      </div>
+                      <h3 className="text-lg font-semibold tracking-tight">
+                        {run.calc.title}
+                      </h3>
+                    </div>
+                    <Link
+                      href={`/${run.calc.category}/${run.calc.slug}?${params.toString()}`}
+                      className="rounded-full border border-zinc-200 px-3 py-1.5 text-sm hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-900"
+                    >
+                      Open in calculator
+                    </Link>
+                  </div>
+                  {run.result ? (
+                    <>
+                      <div className="mt-3 text-sm text-zinc-600 dark:text-zinc-400">
+                        {run.result.headline.label}
+                      </div>
+                      <div className="mt-1 text-2xl font-semibold tracking-tight">
+                        {formatResultValue(run.result.headline, locale)}
+                      </div>
+                      {run.result.headline.detail ? (
+                        <div className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+                          {run.result.headline.detail}
+                        </div>
+                      ) : null}
+                      {run.result.secondary?.length ? (
+                        <dl className="mt-4 grid gap-3 sm:grid-cols-2">
+                          {run.result.secondary.map((r) => (
+                            <div
+                              key={r.key}
+                              className="flex items-start justify-between gap-4"
+                            >
+                              <dt className="text-sm text-zinc-600 dark:text-zinc-400">
+                                {r.label}
+                              </dt>
+                              <dd className="text-sm font-medium">
+                                {formatResultValue(r, locale)}
+                              </dd>
+                            </div>
+                          ))}
+                        </dl>
+                      ) : null}
+                      {run.result.warnings?.length ? (
+                        <ul className="mt-3 list-disc space-y-1 pl-5 text-sm text-red-600">
+                          {run.result.warnings.map((w) => (
+                            <li key={w}>{w}</li>
+                          ))}
+                        </ul>
+                      ) : null}
+                    </>
+                  ) : (
+                    <ul className="mt-3 list-disc space-y-1 pl-5 text-sm text-red-600">
+                      {run.errors.map((e) => (
+                        <li key={e}>{e}</li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </section>
+      ) : null}
+
+      <div className="rounded-2xl border border-zinc-200 bg-white p-5 text-xs text-zinc-600 dark:border-zinc-800 dark:bg-black dark:text-zinc-400">
+        Disclaimer: This tool provides estimates for informational purposes only
+        and does not constitute financial, accounting, or legal advice.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  handleApiRequest,
+  readJsonRequest,
+  readQueryRequest,
+  type ApiResponse,
+} from "./calculators/api.ts";
+
+function errorCode(response: ApiResponse) {
+  return "error" in response.body ? response.body.error.code : null;
+}
+
+const query = (search: string) => readQueryRequest(new URLSearchParams(search));
+
+test("a valid GET runs the calculator", () => {
+  const response = handleApiRequest(
+    "roas-calculator",
+    query("revenue=5000&adSpend=1000&defaults=true&currency=EUR"),
+  );
+  assert.equal(response.status, 200);
+  assert.ok("result" in response.body);
+  assert.equal(response.body.calculator.url, "/paid-ads/roas-calculator");
+  assert.equal(response.body.result.headline.value, 5);
+  assert.equal(response.body.inputs.values.revenue, 5000);
+});
+
+test("unknown calculators are 404s", () => {
+  const response = handleApiRequest("no-such-calculator", query(""));
+  assert.equal(response.status, 404);
+  assert.equal(errorCode(response), "unknown-calculator");
+});
+
+test("bodies that are not a JSON object are invalid-json", () => {
+  for (const text of ["{", "", "[1, 2]", "null", "5"]) {
+    const read = readJsonRequest(text);
+    assert.ok("status" in read, text);
+    assert.equal(read.status, 400);
+    assert.equal(errorCode(read), "invalid-json", text);
+  }
+});
+
+test("inputs the calculator does not have are unknown-inputs", () => {
+  const response = handleApiRequest(
+    "roas-calculator",
+    query("revenue=5000&adSpend=1000&spend=1000&defaults=1"),
+  );
+  assert.equal(response.status, 400);
+  assert.equal(errorCode(response), "unknown-inputs");
+  assert.ok("error" in response.body);
+  assert.deepEqual(response.body.error.fields, {
+    spend: "Not an input of this calculator.",
+  });
+});
+
+test("bad, missing and wrongly typed values are invalid-inputs", () => {
+  const bad = handleApiRequest(
+    "roas-calculator",
+    query("revenue=abc&adSpend=0&defaults=true"),
+  );
+  assert.equal(bad.status, 400);
+  assert.equal(errorCode(bad), "invalid-inputs");
+  assert.ok("error" in bad.body);
+  assert.equal(bad.body.error.message, "Some inputs are invalid.");
+  assert.equal(bad.body.error.fields?.revenue, "Enter a valid number.");
+
+  // Without defaults=true every input is required, and the message says so.
+  const missing = handleApiRequest(
+    "roas-calculator",
+    query("revenue=5000&adSpend=1000"),
+  );
+  assert.equal(errorCode(missing), "invalid-inputs");
+  assert.ok("error" in missing.body);
+  assert.match(missing.body.error.message, /defaults=true/);
+  assert.equal(missing.body.error.fields?.grossMarginPercent, "Missing value.");
+
+  // Series length is capped for API callers too.
+  const tooLong = readJsonRequest(
+    JSON.stringify({ cashFlows: Array(51).fill(1000), defaults: true }),
+  );
+  assert.ok(!("status" in tooLong));
+  const capped = handleApiRequest("npv-calculator", tooLong);
+  assert.equal(errorCode(capped), "invalid-inputs");
+  assert.ok("error" in capped.body);
+  assert.equal(capped.body.error.fields?.cashFlows, "Use at most 50 years.");
+
+  const typed = readJsonRequest(
+    '{"revenue": {"value": 5000}, "adSpend": 1000}',
+  );
+  assert.ok("status" in typed);
+  assert.equal(errorCode(typed), "invalid-inputs");
+});
+
+test("unsupported locales and currencies are invalid-option", () => {
+  for (const search of [
+    "revenue=5000&locale=xx-XX",
+    "revenue=5000&currency=XYZ",
+  ]) {
+    const response = handleApiRequest("roas-calculator", query(search));
+    assert.equal(response.status, 400);
+    assert.equal(errorCode(response), "invalid-option", search);
+  }
+  const read = readJsonRequest('{"revenue": 5000, "locale": 5}');
+  assert.ok(!("status" in read));
+  assert.equal(
+    errorCode(handleApiRequest("roas-calculator", read)),
+    "invalid-option",
+  );
+});
+
+test("a JSON body takes numbers, locale strings and series arrays", () => {
+  const read = readJsonRequest(
+    '{"initialInvestment": "100.000", "cashFlows": [30000, "30.000"], "locale": "de-DE", "defaults": true}',
+  );
+  assert.ok(!("status" in read));
+  const response = handleApiRequest("npv-calculator", read);
+  assert.equal(response.status, 200);
+  assert.ok("result" in response.body);
+  assert.deepEqual(response.body.inputs.series, { cashFlows: [30000, 30000] });
+  assert.equal(response.body.inputs.values.initialInvestment, 100000);
+});
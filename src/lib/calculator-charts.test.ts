@@ -0,0 +1,70 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { calculators } from "./calculators/definitions.ts";
+import { calculatorFixtures } from "./calculators/fixtures.ts";
+import type { CalculatorDefinition, ResultChart } from "./calculators/types";
+
+const CHARTED = [
+  "cohort-ltv-forecast-calculator",
+  "cohort-payback-curve-calculator",
+  "mrr-forecast-calculator",
+  "retention-curve-calculator",
+  "two-stage-retention-curve-calculator",
+];
+
+function defaultInputs(calc: CalculatorDefinition) {
+  const values: Record<string, number> = {};
+  const series: Record<string, number[]> = {};
+  for (const input of calc.inputs) {
+    if (input.kind === "series") {
+      series[input.key] = input.defaultValue.map(Number);
+    } else {
+      values[input.key] = Number(input.defaultValue);
+    }
+  }
+  return { name: "defaults", values, series };
+}
+
+test("the charted calculators are the ones that return a chart", () => {
+  const charted = calculators
+    .filter((calc) => {
+      const { values, series } = defaultInputs(calc);
+      return calc.compute(values, series).chart !== undefined;
+    })
+    .map((calc) => calc.slug)
+    .sort();
+  assert.deepEqual(charted, CHARTED);
+});
+
+for (const slug of CHARTED) {
+  test(`${slug} charts one finite point per x value on every line`, () => {
+    const calc = calculators.find((c) => c.slug === slug);
+    assert.ok(calc);
+    const cases = [
+      defaultInputs(calc),
+      ...(calculatorFixtures[slug] ?? []).filter((f) => !f.rejected),
+    ];
+    for (const { name, values, series } of cases) {
+      const label = `${slug} [${name}]`;
+      const chart: ResultChart | undefined = calc.compute(
+        values,
+        series ?? {},
+      ).chart;
+      assert.ok(chart, `${label}: no chart`);
+      assert.ok(chart.x.length > 0, `${label}: empty x axis`);
+      assert.ok(chart.lines.length > 0, `${label}: no lines`);
+      assert.ok(chart.x.every(Number.isFinite), `${label}: non-finite x`);
+      for (const line of chart.lines) {
+        assert.equal(
+          line.values.length,
+          chart.x.length,
+          `${label} ${line.key}: one value per x`,
+        );
+        assert.ok(
+          line.values.every(Number.isFinite),
+          `${label} ${line.key}: non-finite value`,
+        );
+      }
+    }
+  });
+}
@@ -0,0 +1,137 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { withDisplayCurrency } from "./calculators/currency.ts";
+import type { CalculatorDefinition } from "./calculators/types";
+
+const margin: CalculatorDefinition = {
+  slug: "margin-test",
+  title: "Margin",
+  description: "Gross profit from revenue and cost.",
+  category: "finance",
+  inputs: [
+    {
+      key: "revenue",
+      label: "Revenue ($)",
+      help: "Monthly revenue in $.",
+      prefix: "$",
+      defaultValue: "1000",
+    },
+    { key: "marginPercent", label: "Margin", suffix: "%", defaultValue: "40" },
+  ],
+  compute: (values) => {
+    const profit = values.revenue * (values.marginPercent / 100);
+    return {
+      headline: {
+        key: "profit",
+        label: "Gross profit ($)",
+        value: profit,
+        format: "currency",
+        currency: "USD",
+        detail: `On $${values.revenue} of revenue`,
+      },
+      secondary: [
+        {
+          key: "margin",
+          label: "Margin",
+          value: values.marginPercent / 100,
+          format: "percent",
+        },
+      ],
+      breakdown: [
+        {
+          key: "cost",
+          label: "Cost",
+          value: values.revenue - profit,
+          format: "currency",
+          currency: "USD",
+        },
+      ],
+      chart: {
+        title: "Profit ($) by month",
+        xLabel: "Month",
+        x: [1, 2],
+        format: "currency",
+        currency: "USD",
+        lines: [
+          { key: "profit", label: "Profit ($)", values: [profit, profit] },
+        ],
+      },
+      matrix: {
+        title: "Profit ($) sensitivity",
+        rowLabel: "Revenue",
+        columnLabel: "Margin",
+        rows: [values.revenue],
+        rowFormat: { format: "currency", currency: "USD" },
+        columns: [0.4],
+        columnFormat: { format: "percent" },
+        values: [[profit]],
+        format: "currency",
+        currency: "USD",
+        baseRow: 0,
+        baseColumn: 0,
+        higherIsBetter: true,
+      },
+      warnings: ["Profit is under $500."],
+    };
+  },
+  formula: "Gross profit = revenue x margin",
+  assumptions: [],
+  faqs: [],
+};
+
+const values = { revenue: 1000, marginPercent: 40 };
+
+test("the default currency leaves the definition as it is", () => {
+  assert.equal(withDisplayCurrency(margin, "USD"), margin);
+});
+
+test("inputs and labels that mention $ take the display currency", () => {
+  const euro = withDisplayCurrency(margin, "EUR");
+  const [revenue, marginPercent] = euro.inputs;
+  assert.equal(revenue.label, "Revenue (\u20ac)");
+  assert.equal(revenue.help, "Monthly revenue in \u20ac.");
+  assert.equal(revenue.prefix, "\u20ac");
+  assert.equal(marginPercent.label, "Margin");
+  assert.equal(marginPercent.prefix, undefined);
+  assert.equal(marginPercent.suffix, "%");
+  // Everything else about the definition is kept.
+  assert.equal(euro.slug, margin.slug);
+  assert.equal(euro.formula, margin.formula);
+});
+
+test("currency results are relabelled and other results keep their format", () => {
+  const result = withDisplayCurrency(margin, "EUR").compute(values, {});
+  assert.equal(result.headline.label, "Gross profit (\u20ac)");
+  assert.equal(result.headline.detail, "On \u20ac1000 of revenue");
+  assert.equal(result.headline.currency, "EUR");
+  assert.equal(result.breakdown?.[0].currency, "EUR");
+  assert.equal(result.secondary?.[0].currency, undefined);
+  assert.equal(result.chart?.title, "Profit (\u20ac) by month");
+  assert.equal(result.chart?.currency, "EUR");
+  assert.equal(result.chart?.lines[0].label, "Profit (\u20ac)");
+  assert.equal(result.matrix?.title, "Profit (\u20ac) sensitivity");
+  assert.equal(result.matrix?.currency, "EUR");
+  assert.equal(result.matrix?.rowFormat.currency, "EUR");
+  assert.equal(result.matrix?.columnFormat.currency, undefined);
+  assert.deepEqual(result.warnings, ["Profit is under \u20ac500."]);
+});
+
+test("display currency changes labels only, never the amounts", () => {
+  const original = margin.compute(values, {});
+  const result = withDisplayCurrency(margin, "JPY").compute(values, {});
+  assert.equal(result.headline.value, original.headline.value);
+  assert.deepEqual(
+    result.breakdown?.map((r) => r.value),
+    original.breakdown?.map((r) => r.value),
+  );
+  assert.deepEqual(
+    result.secondary?.map((r) => r.value),
+    original.secondary?.map((r) => r.value),
+  );
+  assert.deepEqual(
+    result.chart?.lines[0].values,
+    original.chart?.lines[0].values,
+  );
+  assert.deepEqual(result.matrix?.rows, original.matrix?.rows);
+  assert.deepEqual(result.matrix?.values, original.matrix?.values);
+});
@@ -0,0 +1,170 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { calculators } from "./calculators/definitions.ts";
+import {
+  formatResult,
+  getInputSchema,
+  listCalculators,
+  runCalculator,
+} from "./calculators/engine.ts";
+
+const roasInputs = {
+  revenue: 5000,
+  adSpend: 1000,
+  grossMarginPercent: 60,
+  paymentFeesPercent: 3,
+  shippingPercent: 0,
+  returnsPercent: 0,
+  targetProfitPercent: 10,
+};
+
+// Intl puts (narrow) no-break spaces in some locales.
+const spaced = (text: string) => text.replace(/\s/g, " ");
+
+test("listCalculators and getInputSchema describe every definition", () => {
+  const summaries = listCalculators();
+  assert.equal(summaries.length, calculators.length);
+  assert.deepEqual(Object.keys(summaries[0]).sort(), [
+    "category",
+    "description",
+    "slug",
+    "title",
+  ]);
+  assert.deepEqual(
+    getInputSchema("roas-calculator")?.map((input) => input.key),
+    Object.keys(roasInputs),
+  );
+  assert.equal(getInputSchema("no-such-calculator"), undefined);
+});
+
+test("runCalculator takes numbers as-is and strings in the locale", () => {
+  const fromNumbers = runCalculator("roas-calculator", roasInputs);
+  const fromStrings = runCalculator(
+    "roas-calculator",
+    { ...roasInputs, revenue: "5.000", adSpend: "1000,0" },
+    { locale: "de-DE" },
+  );
+  assert.equal(fromNumbers.status, "ok");
+  assert.equal(fromStrings.status, "ok");
+  if (fromNumbers.status !== "ok" || fromStrings.status !== "ok") return;
+  assert.deepEqual(fromStrings.values, fromNumbers.values);
+  assert.equal(fromNumbers.result.headline.value, 5);
+  assert.equal(fromNumbers.result.headline.formatted, "5x");
+});
+
+test("runCalculator falls back to the default locale for unsupported ones", () => {
+  for (const locale of ["not a locale", "xx-YY", ""]) {
+    const outcome = runCalculator(
+      "roas-calculator",
+      { ...roasInputs, revenue: "5,000" },
+      { locale },
+    );
+    assert.equal(outcome.status, "ok", locale);
+    if (outcome.status !== "ok") return;
+    assert.equal(outcome.values.revenue, 5000);
+    assert.equal(outcome.result.headline.formatted, "5x");
+  }
+});
+
+test("runCalculator reads series as arrays or share-link strings", () => {
+  const base = { initialInvestment: 100000, discountRatePercent: 10 };
+  const fromArray = runCalculator(
+    "npv-calculator",
+    { ...base, cashFlows: [30000, "30000", 30000] },
+    { useDefaults: true },
+  );
+  const fromString = runCalculator(
+    "npv-calculator",
+    { ...base, cashFlows: "30000;30000;30000" },
+    { useDefaults: true },
+  );
+  assert.equal(fromArray.status, "ok");
+  assert.equal(fromString.status, "ok");
+  if (fromArray.status !== "ok" || fromString.status !== "ok") return;
+  assert.deepEqual(fromArray.series, { cashFlows: [30000, 30000, 30000] });
+  assert.deepEqual(fromString.series, fromArray.series);
+});
+
+test("runCalculator ignores unknown keys and fills defaults only on request", () => {
+  const withExtra = runCalculator("roas-calculator", {
+    ...roasInputs,
+    notAnInput: "42",
+  });
+  assert.equal(withExtra.status, "ok");
+
+  const partial = { revenue: 5000, adSpend: 1000 };
+  const missing = runCalculator("roas-calculator", partial);
+  assert.equal(missing.status, "invalid-inputs");
+  if (missing.status === "invalid-inputs") {
+    assert.equal(missing.errors.grossMarginPercent, "Missing value.");
+    assert.equal(missing.errors.revenue, undefined);
+  }
+  const defaulted = runCalculator("roas-calculator", partial, {
+    useDefaults: true,
+  });
+  assert.equal(defaulted.status, "ok");
+});
+
+test("runCalculator reports unknown calculators and invalid values", () => {
+  assert.deepEqual(runCalculator("no-such-calculator", {}), {
+    status: "unknown-calculator",
+    slug: "no-such-calculator",
+  });
+  const unparsable = runCalculator("roas-calculator", {
+    ...roasInputs,
+    revenue: "abc",
+    adSpend: [1, 2],
+    grossMarginPercent: Number.NaN,
+  });
+  assert.equal(unparsable.status, "invalid-inputs");
+  if (unparsable.status === "invalid-inputs") {
+    assert.deepEqual(unparsable.errors, {
+      revenue: "Enter a valid number.",
+      adSpend: "Expected a single number.",
+      grossMarginPercent: "Enter a valid number.",
+    });
+  }
+  // Parsed values still go through the definition's constraints.
+  const outOfRange = runCalculator("roas-calculator", {
+    ...roasInputs,
+    adSpend: 0,
+  });
+  assert.equal(outOfRange.status, "invalid-inputs");
+  if (outOfRange.status === "invalid-inputs") {
+    assert.deepEqual(outOfRange.errors, {
+      adSpend: "Must be greater than $0.",
+    });
+  }
+});
+
+test("results are formatted in the locale and labelled in the currency", () => {
+  const euro = runCalculator("roas-calculator", roasInputs, {
+    currency: "EUR",
+  });
+  assert.equal(euro.status, "ok");
+  if (euro.status !== "ok") return;
+  const profit = euro.result.secondary.find(
+    (value) => value.key === "profitAfterAds",
+  );
+  assert.equal(profit?.currency, "EUR");
+  assert.equal(profit?.formatted, "\u20ac1,850.00");
+
+  const german = formatResult(
+    {
+      headline: {
+        key: "profit",
+        label: "Profit",
+        value: 1850,
+        format: "currency",
+      },
+      secondary: [
+        { key: "margin", label: "Margin", value: 0.37, format: "percent" },
+      ],
+    },
+    "de-DE",
+  );
+  assert.equal(spaced(german.headline.formatted), "1.850,00 $");
+  assert.equal(spaced(german.secondary[0].formatted), "37 %");
+  assert.deepEqual(german.breakdown, []);
+  assert.deepEqual(german.warnings, []);
+});
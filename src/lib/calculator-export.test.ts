@@ -0,0 +1,185 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildExportRows,
+  spreadsheetNumberFormat,
+} from "./calculators/export.ts";
+import type { CalculatorDefinition } from "./calculators/types";
+
+const payback: CalculatorDefinition = {
+  slug: "payback-test",
+  title: "Payback",
+  description: "Months to recover an investment.",
+  category: "finance",
+  inputs: [
+    {
+      key: "investment",
+      label: "Investment",
+      help: "Paid up front.",
+      prefix: "$",
+      defaultValue: "1000",
+    },
+    {
+      key: "margin",
+      label: "Gross margin",
+      suffix: "%",
+      defaultValue: "50",
+    },
+    {
+      key: "revenue",
+      kind: "series",
+      label: "Monthly revenue",
+      rowLabel: "Month",
+      prefix: "$",
+      defaultValue: ["100", "200"],
+    },
+  ],
+  compute: () => ({
+    headline: { key: "x", label: "X", value: 0, format: "number" },
+  }),
+  formula: "Payback = investment / monthly gross profit",
+  assumptions: ["Revenue is recognised monthly."],
+  faqs: [],
+};
+
+const inputs = {
+  values: { investment: 1200, margin: 50 },
+  series: { revenue: [1000.5, 200] },
+};
+
+const result = {
+  headline: {
+    key: "months",
+    label: "Payback",
+    value: 8,
+    format: "months" as const,
+    maxFractionDigits: 1,
+  },
+  secondary: [
+    {
+      key: "marginShare",
+      label: "Margin",
+      value: 0.5,
+      format: "percent" as const,
+      detail: "Of revenue",
+    },
+  ],
+  breakdown: [
+    { key: "cost", label: "Cost", value: 1200, format: "currency" as const },
+  ],
+  warnings: ["Revenue is uneven."],
+};
+
+test("export rows list inputs, series rows, results and notes", () => {
+  assert.deepEqual(buildExportRows(payback, inputs, result), [
+    ["Section", "Label", "Value", "Formatted", "Detail"],
+    ["Calculator", "Payback", null, null, "Months to recover an investment."],
+    ["Input", "Investment", 1200, "$1,200", "Paid up front."],
+    ["Input", "Gross margin", 50, "50%", null],
+    ["Input", "Monthly revenue - Month 1", 1000.5, "$1,000.5", null],
+    ["Input", "Monthly revenue - Month 2", 200, "$200", null],
+    ["Result", "Payback", 8, "8 months", null],
+    ["Detail", "Margin", 0.5, "50%", "Of revenue"],
+    ["Breakdown", "Cost", 1200, "$1,200.00", null],
+    ["Warning", "Revenue is uneven.", null, null, null],
+    [
+      "Formula",
+      "Payback = investment / monthly gross profit",
+      null,
+      null,
+      null,
+    ],
+    ["Assumption", "Revenue is recognised monthly.", null, null, null],
+  ]);
+});
+
+test("typed export rows carry number formats and follow the locale", () => {
+  const rows = buildExportRows(payback, inputs, result, {
+    locale: "de-DE",
+    typed: true,
+  });
+  assert.deepEqual(rows[4], [
+    "Input",
+    "Monthly revenue - Month 1",
+    1000.5,
+    "$1.000,5",
+    null,
+  ]);
+  assert.deepEqual(rows[6].slice(2), [
+    { value: 8, numberFormat: '#,##0.0" months"' },
+    "8 months",
+    null,
+  ]);
+  assert.deepEqual(rows[8][2], {
+    value: 1200,
+    numberFormat: spreadsheetNumberFormat(result.breakdown[0]),
+  });
+  assert.equal(spreadsheetNumberFormat(result.breakdown[0]), '"$"#,##0.00');
+  assert.equal(
+    spreadsheetNumberFormat({ format: "currency", currency: "JPY" }),
+    '"\u00a5"#,##0',
+  );
+});
+
+test("sensitivity grids export one row per cell", () => {
+  const rows = buildExportRows(
+    payback,
+    inputs,
+    {
+      ...result,
+      matrix: {
+        title: "Payback sensitivity",
+        rowLabel: "Margin",
+        columnLabel: "Investment",
+        rows: [0.4, 0.5],
+        rowFormat: { format: "percent", maxFractionDigits: 0 },
+        columns: [1000, 1200],
+        columnFormat: { format: "currency", currency: "USD" },
+        values: [
+          [10, null],
+          [6.5, 8],
+        ],
+        format: "months",
+        maxFractionDigits: 1,
+        baseRow: 1,
+        baseColumn: 1,
+        higherIsBetter: false,
+      },
+    },
+    { typed: true },
+  );
+  assert.deepEqual(
+    rows.filter((row) => row[0] === "Sensitivity"),
+    [
+      [
+        "Sensitivity",
+        "Payback sensitivity",
+        null,
+        null,
+        "Margin by Investment",
+      ],
+      [
+        "Sensitivity",
+        "Margin 40%, Investment $1,000.00",
+        { value: 10, numberFormat: '#,##0.0" months"' },
+        "10 months",
+        null,
+      ],
+      ["Sensitivity", "Margin 40%, Investment $1,200.00", null, "n/a", null],
+      [
+        "Sensitivity",
+        "Margin 50%, Investment $1,000.00",
+        { value: 6.5, numberFormat: '#,##0.0" months"' },
+        "6.5 months",
+        null,
+      ],
+      [
+        "Sensitivity",
+        "Margin 50%, Investment $1,200.00",
+        { value: 8, numberFormat: '#,##0.0" months"' },
+        "8 months",
+        "Base case",
+      ],
+    ],
+  );
+});
@@ -0,0 +1,90 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { calculators } from "./calculators/definitions.ts";
+import {
+  calculatorFixtures,
+  DEFAULT_FIXTURE_TOLERANCE,
+} from "./calculators/fixtures.ts";
+import { validateValues } from "./calculators/validation.ts";
+
+function assertClose(
+  actual: number,
+  expected: number,
+  tolerance: number,
+  message: string,
+) {
+  const allowed = tolerance * Math.max(1, Math.abs(expected));
+  assert.ok(
+    Math.abs(actual - expected) <= allowed,
+    `${message}: expected ${expected}, got ${actual}`,
+  );
+}
+
+test("every fixture belongs to a known calculator", () => {
+  const slugs = new Set(calculators.map((calc) => calc.slug));
+  const unknown = Object.keys(calculatorFixtures).filter(
+    (slug) => !slugs.has(slug),
+  );
+  assert.deepEqual(unknown, []);
+});
+
+for (const calc of calculators) {
+  test(`${calc.slug} matches its golden values`, () => {
+    const fixtures = calculatorFixtures[calc.slug] ?? [];
+    assert.ok(
+      fixtures.length > 0,
+      `${calc.slug} has no fixtures; add cases to src/lib/calculators/fixtures.part*.ts`,
+    );
+
+    const numberKeys = calc.inputs
+      .filter((input) => input.kind !== "series")
+      .map((input) => input.key)
+      .sort();
+    const seriesKeys = calc.inputs
+      .filter((input) => input.kind === "series")
+      .map((input) => input.key)
+      .sort();
+
+    for (const fixture of fixtures) {
+      const label = `${calc.slug} [${fixture.name}]`;
+      assert.deepEqual(
+        Object.keys(fixture.values).sort(),
+        numberKeys,
+        `${label}: values must list every number input`,
+      );
+      assert.deepEqual(
+        Object.keys(fixture.series ?? {}).sort(),
+        seriesKeys,
+        `${label}: series must list every series input`,
+      );
+
+      const errors = validateValues(calc, fixture.values, fixture.series ?? {});
+      assert.equal(
+        Object.keys(errors).length > 0,
+        fixture.rejected ?? false,
+        fixture.rejected
+          ? `${label}: expected the inputs to fail validation`
+          : `${label}: inputs fail validation: ${JSON.stringify(errors)}`,
+      );
+
+      const result = calc.compute(fixture.values, fixture.series ?? {});
+      const tolerance = fixture.tolerance ?? DEFAULT_FIXTURE_TOLERANCE;
+      assertClose(
+        result.headline.value,
+        fixture.headline,
+        tolerance,
+        `${label} headline`,
+      );
+      for (const [key, expected] of Object.entries(fixture.secondary ?? {})) {
+        const value = result.secondary?.find((r) => r.key === key);
+        assert.ok(value, `${label}: missing secondary value "${key}"`);
+        assertClose(value.value, expected, tolerance, `${label} ${key}`);
+      }
+      assert.equal(
+        (result.warnings?.length ?? 0) > 0,
+        fixture.warns ?? false,
+        `${label}: ${fixture.warns ? "expected" : "unexpected"} warnings`,
+      );
+    }
+  });
+}
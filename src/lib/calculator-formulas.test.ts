@@ -0,0 +1,96 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { calculators } from "./calculators/definitions.ts";
+import {
+  describeExpression,
+  evaluateExpression,
+  expressionInputKeys,
+  substituteExpression,
+} from "./calculators/expression.ts";
+import { calculatorFixtures } from "./calculators/fixtures.ts";
+import {
+  approxEqual,
+  sampleInputs,
+  seededRandom,
+} from "./calculators/invariants.ts";
+import { isValidPoint } from "./calculators/validation.ts";
+
+const SEED = 20240601;
+const RUNS = 200;
+
+test("formulas are written and substituted with minimal brackets", () => {
+  const nrr = calculators.find((c) => c.slug === "nrr-calculator");
+  assert.ok(nrr?.formulaExpression);
+  assert.equal(
+    describeExpression(nrr.formulaExpression, nrr.inputs),
+    "(Starting MRR + Expansion MRR - Contraction MRR - Churned MRR) / Starting MRR",
+  );
+
+  const roas = calculators.find((c) => c.slug === "roas-calculator");
+  assert.ok(roas?.formulaExpression);
+  assert.equal(
+    substituteExpression(roas.formulaExpression, {
+      revenue: 5000,
+      adSpend: 1000,
+    }),
+    "5,000 / 1,000",
+  );
+
+  const target = calculators.find((c) => c.slug === "target-roas-calculator");
+  assert.ok(target?.formulaExpression);
+  assert.match(
+    substituteExpression(target.formulaExpression, {
+      grossMarginPercent: 60,
+      paymentFeesPercent: 3,
+      shippingPercent: 0,
+      returnsPercent: 0,
+      fixedCostPercent: 10,
+      desiredProfitPercent: 10,
+    }),
+    /^1 \/ \(60% - 3% - 0% - 0% - 10% - 10%\)$/,
+  );
+});
+
+for (const calc of calculators) {
+  const expression = calc.formulaExpression;
+  if (!expression) continue;
+
+  test(`${calc.slug} formula matches its headline`, () => {
+    for (const key of expressionInputKeys(expression)) {
+      assert.ok(
+        calc.inputs.some((i) => i.key === key && i.kind !== "series"),
+        `${calc.slug}: formula reads unknown input ${key}`,
+      );
+    }
+
+    const random = seededRandom(SEED);
+    const points = [
+      ...(calculatorFixtures[calc.slug] ?? []).map((f) => ({
+        name: f.name,
+        values: f.values,
+        series: f.series ?? {},
+      })),
+      ...Array.from({ length: RUNS }, (_, run) => ({
+        name: `seed ${SEED}, run ${run}`,
+        ...sampleInputs(calc, random),
+      })),
+    ];
+    let checked = 0;
+
+    for (const { name, values, series } of points) {
+      if (!isValidPoint(calc, values, series)) continue;
+      const result = calc.compute(values, series);
+      // Warnings mark inputs outside the model, where compute falls back.
+      if (result.warnings?.length) continue;
+      const expected = evaluateExpression(expression, values);
+      if (!Number.isFinite(expected)) continue;
+      checked += 1;
+      assert.ok(
+        approxEqual(result.headline.value, expected),
+        `${calc.slug} (${name}): headline ${result.headline.value}, formula ${expected} for ${JSON.stringify(values)}`,
+      );
+    }
+
+    assert.ok(checked > 0, `${calc.slug}: no inputs exercised the formula`);
+  });
+}
@@ -0,0 +1,197 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { goalSeek } from "./calculators/goalSeek.ts";
+import type { CalculatorDefinition } from "./calculators/types";
+
+const profit: CalculatorDefinition = {
+  slug: "profit-test",
+  title: "Profit",
+  description: "Revenue less fixed costs, with a fee that is waived.",
+  category: "finance",
+  inputs: [
+    { key: "price", label: "Price", defaultValue: "10", min: 0 },
+    {
+      key: "units",
+      label: "Units",
+      defaultValue: "100",
+      min: 0,
+      max: 105,
+      integer: true,
+    },
+    { key: "fixed", label: "Fixed cost", defaultValue: "100" },
+    {
+      key: "costs",
+      kind: "series",
+      label: "Monthly costs",
+      rowLabel: "Month",
+      defaultValue: ["0"],
+    },
+  ],
+  compute: (values) => {
+    const revenue = values.price * values.units;
+    return {
+      headline: {
+        key: "profit",
+        label: "Profit",
+        value: revenue - values.fixed,
+        format: "currency",
+      },
+      secondary: [
+        {
+          key: "fee",
+          label: "Fee",
+          // Waived from a price of 20: jumps straight from 5 to 0.
+          value: values.price >= 20 ? 0 : 5,
+          format: "currency",
+        },
+      ],
+    };
+  },
+  formula: "Profit = price x units - fixed",
+  assumptions: [],
+  faqs: [],
+};
+
+const values = { price: 10, units: 100, fixed: 100 };
+
+test("goal seek solves for a continuous input", () => {
+  const outcome = goalSeek(
+    profit,
+    values,
+    {},
+    {
+      targetKey: "profit",
+      targetValue: 1500,
+      inputKey: "price",
+    },
+  );
+  assert.ok(outcome.status === "solved", JSON.stringify(outcome));
+  assert.ok(Math.abs(outcome.inputValue - 16) < 1e-6);
+  assert.ok(Math.abs(outcome.resultValue - 1500) < 0.01);
+});
+
+test("goal seek rounds whole-number inputs to the closest value", () => {
+  const outcome = goalSeek(
+    profit,
+    values,
+    {},
+    {
+      targetKey: "profit",
+      targetValue: 907,
+      inputKey: "units",
+    },
+  );
+  assert.deepEqual(outcome, {
+    status: "solved",
+    inputValue: 101,
+    resultValue: 910,
+  });
+});
+
+test("goal seek explains targets it cannot reach", () => {
+  // 105 units at most, so profit tops out at 950.
+  const outOfRange = goalSeek(
+    profit,
+    values,
+    {},
+    {
+      targetKey: "profit",
+      targetValue: 2000,
+      inputKey: "units",
+    },
+  );
+  assert.equal(outOfRange.status, "no-solution");
+  assert.match(
+    outOfRange.status === "no-solution" ? outOfRange.reason : "",
+    /between 0 and 105/,
+  );
+
+  const jump = goalSeek(
+    profit,
+    values,
+    {},
+    {
+      targetKey: "fee",
+      targetValue: 2,
+      inputKey: "price",
+    },
+  );
+  assert.equal(jump.status, "no-solution");
+  assert.match(
+    jump.status === "no-solution" ? jump.reason : "",
+    /jumps past the target/,
+  );
+
+  for (const inputKey of ["costs", "missing"]) {
+    assert.deepEqual(
+      goalSeek(
+        profit,
+        values,
+        {},
+        {
+          targetKey: "profit",
+          targetValue: 1000,
+          inputKey,
+        },
+      ),
+      { status: "no-solution", reason: "Pick a single numeric input to vary." },
+    );
+  }
+  assert.equal(
+    goalSeek(
+      profit,
+      values,
+      {},
+      {
+        targetKey: "profit",
+        targetValue: Number.NaN,
+        inputKey: "price",
+      },
+    ).status,
+    "no-solution",
+  );
+});
+
+test("goal seek states the searched range in the locale", () => {
+  const bounded: CalculatorDefinition = {
+    ...profit,
+    inputs: [
+      {
+        key: "price",
+        label: "Price",
+        prefix: "$",
+        defaultValue: "10",
+        min: 0,
+        exclusiveMin: true,
+      },
+      {
+        key: "units",
+        label: "Units",
+        defaultValue: "100",
+        min: 0,
+        max: 1500,
+        integer: true,
+      },
+      { key: "fixed", label: "Fixed cost", defaultValue: "100" },
+    ],
+  };
+  const reason = (inputKey: string, targetValue: number) => {
+    const outcome = goalSeek(
+      bounded,
+      values,
+      {},
+      { targetKey: "profit", targetValue, inputKey },
+      "de-DE",
+    );
+    return outcome.status === "no-solution" ? outcome.reason : "";
+  };
+  // Profit stays above -100 while the price is above 0.
+  assert.equal(
+    reason("price", -200),
+    "No value of Price above $0 reaches the target.",
+  );
+  assert.equal(
+    reason("units", 100000),
+    "No value of Units between 0 and 1.500 reaches the target.",
+  );
+});
@@ -0,0 +1,131 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { calculators } from "./calculators/definitions.ts";
+import { buildHandoffParams } from "./calculators/handoff.ts";
+import { findResultValue } from "./calculators/shared.ts";
+import type { CalculatorResult } from "./calculators/types";
+
+test("every handoff maps to real inputs and result values", () => {
+  for (const calc of calculators) {
+    if (!calc.sendTo) continue;
+    const values = Object.fromEntries(
+      calc.inputs.flatMap((input) =>
+        input.kind === "series"
+          ? []
+          : [[input.key, Number(input.defaultValue)]],
+      ),
+    );
+    const result = calc.compute(values, {});
+    const resultKeys = new Set(
+      [
+        result.headline,
+        ...(result.secondary ?? []),
+        ...(result.breakdown ?? []),
+      ].map((r) => r.key),
+    );
+    for (const handoff of calc.sendTo) {
+      const target = calculators.find((c) => c.slug === handoff.calculatorSlug);
+      assert.ok(
+        target,
+        `${calc.slug} sends to missing ${handoff.calculatorSlug}`,
+      );
+      for (const [key, source] of Object.entries(handoff.inputs)) {
+        const label = `${calc.slug} -> ${handoff.calculatorSlug}.${key}`;
+        assert.ok(
+          target.inputs.some((input) => input.key === key),
+          `${label}: no such input`,
+        );
+        if ("input" in source) {
+          assert.ok(
+            calc.inputs.some((input) => input.key === source.input),
+            `${label}: source input ${source.input} does not exist`,
+          );
+        } else {
+          assert.ok(
+            resultKeys.has(source.result),
+            `${label}: result ${source.result} does not exist`,
+          );
+        }
+      }
+    }
+  }
+});
+
+test("CAC results pre-fill LTV:CAC", () => {
+  const cac = calculators.find((c) => c.slug === "cac-calculator");
+  assert.ok(cac?.sendTo);
+  const handoff = cac.sendTo.find(
+    (h) => h.calculatorSlug === "ltv-to-cac-calculator",
+  );
+  assert.ok(handoff);
+  const inputs = {
+    spend: "50000",
+    newCustomers: "100",
+    arpaMonthly: "200",
+    grossMarginPercent: "80",
+    targetPaybackMonths: "12",
+  };
+  const result = cac.compute(
+    Object.fromEntries(Object.entries(inputs).map(([k, v]) => [k, Number(v)])),
+    {},
+  );
+  assert.deepEqual(buildHandoffParams(handoff, inputs, result), {
+    cac: "500",
+    arpaMonthly: "200",
+    grossMarginPercent: "80",
+  });
+});
+
+test("percent results become whole percents and non-finite values are skipped", () => {
+  const params = buildHandoffParams(
+    {
+      calculatorSlug: "ltv-calculator",
+      inputs: {
+        churnPercent: { result: "churn" },
+        cac: { result: "missing" },
+        arpaMonthly: { result: "arpa" },
+      },
+    },
+    {},
+    {
+      headline: {
+        key: "churn",
+        label: "Churn",
+        value: 0.035,
+        format: "percent",
+      },
+      secondary: [
+        { key: "arpa", label: "ARPA", value: Number.NaN, format: "currency" },
+      ],
+    },
+  );
+  assert.deepEqual(params, { churnPercent: "3.5" });
+});
+
+test("result values are found in breakdown rows only on request", () => {
+  const result: CalculatorResult = {
+    headline: { key: "ltv", label: "LTV", value: 900, format: "currency" },
+    secondary: [
+      { key: "months", label: "Months", value: 30, format: "months" },
+    ],
+    breakdown: [{ key: "arpa", label: "ARPA", value: 50, format: "currency" }],
+  };
+  assert.equal(findResultValue(result, "ltv")?.value, 900);
+  assert.equal(findResultValue(result, "months")?.value, 30);
+  assert.equal(findResultValue(result, "arpa"), undefined);
+  assert.equal(
+    findResultValue(result, "arpa", { includeBreakdown: true })?.value,
+    50,
+  );
+  assert.deepEqual(
+    buildHandoffParams(
+      {
+        calculatorSlug: "cac-calculator",
+        inputs: { arpa: { result: "arpa" } },
+      },
+      {},
+      result,
+    ),
+    { arpa: "50" },
+  );
+});
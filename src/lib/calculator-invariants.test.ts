@@ -0,0 +1,56 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { calculators } from "./calculators/definitions.ts";
+import {
+  calculatorInvariants,
+  genericInvariants,
+  sampleInputs,
+  seededRandom,
+} from "./calculators/invariants.ts";
+import { isValidPoint } from "./calculators/validation.ts";
+
+// Override with INVARIANT_SEED / INVARIANT_RUNS to replay a failure or search
+// harder, e.g. INVARIANT_SEED=123 INVARIANT_RUNS=2000.
+const SEED = Number(process.env.INVARIANT_SEED ?? 20240601);
+const RUNS = Number(process.env.INVARIANT_RUNS ?? 100);
+
+test("every invariant belongs to a known calculator", () => {
+  const slugs = new Set(calculators.map((calc) => calc.slug));
+  const unknown = Object.keys(calculatorInvariants).filter(
+    (slug) => !slugs.has(slug),
+  );
+  assert.deepEqual(unknown, []);
+});
+
+for (const calc of calculators) {
+  test(`${calc.slug} holds its invariants at random inputs`, () => {
+    const random = seededRandom(SEED);
+    const invariants = [
+      ...genericInvariants,
+      ...(calculatorInvariants[calc.slug] ?? []),
+    ];
+    let checked = 0;
+
+    for (let run = 0; run < RUNS; run += 1) {
+      const { values, series } = sampleInputs(calc, random);
+      // Cross-field rules reject some samples, just like the form would.
+      if (!isValidPoint(calc, values, series)) continue;
+      checked += 1;
+
+      const result = calc.compute(values, series);
+      const rerun = (changes: Record<string, number>) =>
+        calc.compute({ ...values, ...changes }, series);
+      for (const invariant of invariants) {
+        assert.ok(
+          invariant.holds({ values, series, result, rerun }),
+          `${calc.slug}: "${invariant.name}" failed (seed ${SEED}, run ${run}) for ${JSON.stringify({ values, series })}`,
+        );
+      }
+    }
+
+    assert.ok(
+      checked > 0,
+      `${calc.slug}: no sampled inputs passed validation (seed ${SEED})`,
+    );
+  });
+}
@@ -0,0 +1,221 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  baselineColumn,
+  compareScenarios,
+  createScenarioStore,
+  CURRENT_SCENARIO_ID,
+  formatScenarioDelta,
+  parseScenarioMap,
+  scenarioDelta,
+  type SavedScenario,
+} from "./calculators/scenarios.ts";
+import type { CalculatorDefinition, ResultValue } from "./calculators/types";
+
+function memoryStore() {
+  const items = new Map<string, string>();
+  let changes = 0;
+  const store = createScenarioStore(
+    () => ({
+      getItem: (key) => items.get(key) ?? null,
+      setItem: (key, value) => void items.set(key, value),
+    }),
+    "scenarios",
+    () => changes++,
+  );
+  return { store, items, changes: () => changes };
+}
+
+const inputs = { revenue: "1000", margin: "40" };
+
+test("scenarios save, duplicate and delete per calculator", () => {
+  const { store, items, changes } = memoryStore();
+  const base = store.saveScenario("margin", "Base", inputs);
+  const copy = store.duplicateScenario("margin", base);
+  store.saveScenario("roas", "Other", { spend: "5" });
+  assert.equal(changes(), 3);
+
+  assert.deepEqual(
+    store.getScenarios("margin").map((s) => [s.name, s.inputs]),
+    [
+      ["Base", inputs],
+      ["Base (copy)", inputs],
+    ],
+  );
+  assert.notEqual(copy.id, base.id);
+  // One stored string for every calculator, read back as written.
+  assert.deepEqual(
+    parseScenarioMap(items.get("scenarios") ?? null).margin,
+    store.getScenarios("margin"),
+  );
+  // Unchanged storage gives the same snapshot.
+  assert.equal(store.getScenarios("margin"), store.getScenarios("margin"));
+
+  store.deleteScenario("margin", base.id);
+  assert.deepEqual(
+    store.getScenarios("margin").map((s) => s.id),
+    [copy.id],
+  );
+  store.deleteScenario("margin", copy.id);
+  assert.deepEqual(store.getScenarios("margin"), []);
+  assert.deepEqual(Object.keys(JSON.parse(items.get("scenarios") ?? "")), [
+    "roas",
+  ]);
+});
+
+test("a guide example is saved once per name and inputs", () => {
+  const { store } = memoryStore();
+  const first = store.saveExampleScenario("margin", "Example", inputs);
+  assert.equal(
+    store.saveExampleScenario("margin", "Example", { ...inputs }).id,
+    first.id,
+  );
+  store.saveExampleScenario("margin", "Example", { ...inputs, margin: "50" });
+  store.saveExampleScenario("margin", "Another", inputs);
+  assert.deepEqual(
+    store.getScenarios("margin").map((s) => s.name),
+    ["Example", "Example", "Another"],
+  );
+  // Once deleted, saving the example again makes a new scenario.
+  store.deleteScenario("margin", first.id);
+  assert.notEqual(
+    store.saveExampleScenario("margin", "Example", inputs).id,
+    first.id,
+  );
+});
+
+test("malformed stored scenarios are dropped", () => {
+  const valid: SavedScenario = {
+    id: "a",
+    name: "A",
+    inputs,
+    savedAt: "2026-01-01T00:00:00.000Z",
+  };
+  assert.deepEqual(
+    parseScenarioMap(
+      JSON.stringify({
+        margin: [valid, { id: "b", name: "B" }, { ...valid, inputs: { x: 1 } }],
+        roas: "not a list",
+      }),
+    ),
+    { margin: [valid] },
+  );
+  assert.deepEqual(parseScenarioMap("{not json"), {});
+  assert.deepEqual(parseScenarioMap(null), {});
+});
+
+const margin: CalculatorDefinition = {
+  slug: "margin",
+  title: "Margin",
+  description: "Gross profit from revenue and margin.",
+  category: "finance",
+  inputs: [
+    { key: "revenue", label: "Revenue", prefix: "$", defaultValue: "1000" },
+    {
+      key: "margin",
+      label: "Margin",
+      suffix: "%",
+      defaultValue: "40",
+      min: 0,
+      max: 100,
+    },
+  ],
+  compute: (values) => ({
+    headline: {
+      key: "profit",
+      label: "Gross profit",
+      value: values.revenue * (values.margin / 100),
+      format: "currency",
+    },
+    secondary: [
+      {
+        key: "marginRate",
+        label: "Margin",
+        value: values.margin / 100,
+        format: "percent",
+      },
+      // Only defined for large revenue, so some columns lack it.
+      ...(values.revenue >= 2000
+        ? [
+            {
+              key: "bonus",
+              label: "Bonus",
+              value: 100,
+              format: "currency" as const,
+            },
+          ]
+        : []),
+    ],
+  }),
+  formula: "Gross profit = revenue x margin",
+  assumptions: [],
+  faqs: [],
+};
+
+const scenario = (id: string, scenarioInputs: Record<string, string>) => ({
+  id,
+  name: id,
+  inputs: scenarioInputs,
+  savedAt: "2026-01-01T00:00:00.000Z",
+});
+
+test("scenarios compare against the chosen baseline", () => {
+  const { columns, rows } = compareScenarios(
+    margin,
+    { values: { revenue: "1.000", margin: "40" }, series: {} },
+    "de-DE",
+    [
+      scenario("big", { revenue: "2000", margin: "50" }),
+      scenario("broken", { revenue: "1000", margin: "150" }),
+    ],
+  );
+  assert.deepEqual(
+    columns.map((c) => c.id),
+    [CURRENT_SCENARIO_ID, "big", "broken"],
+  );
+  assert.equal(columns[0].result?.headline.value, 400);
+  assert.equal(columns[2].result, null);
+  assert.deepEqual(
+    rows.map((r) => r.key),
+    ["profit", "marginRate", "bonus"],
+  );
+
+  const current = baselineColumn(columns, CURRENT_SCENARIO_ID);
+  const big = columns[1];
+  assert.equal(scenarioDelta(big, current, "profit"), 600);
+  assert.ok(
+    Math.abs((scenarioDelta(big, current, "marginRate") ?? 0) - 0.1) < 1e-12,
+  );
+  // No delta against a missing row or invalid inputs.
+  assert.equal(scenarioDelta(big, current, "bonus"), undefined);
+  assert.equal(scenarioDelta(columns[2], current, "profit"), undefined);
+
+  // Against another baseline the signs flip; a deleted one falls back.
+  assert.equal(
+    scenarioDelta(current, baselineColumn(columns, "big"), "profit"),
+    -600,
+  );
+  assert.equal(baselineColumn(columns, "deleted"), current);
+});
+
+test("deltas read as signed amounts, and percent rows in points", () => {
+  const format = (value: ResultValue) => `$${value.value.toFixed(2)}`;
+  const profit: ResultValue = {
+    key: "profit",
+    label: "Gross profit",
+    value: 400,
+    format: "currency",
+  };
+  const rate: ResultValue = {
+    key: "marginRate",
+    label: "Margin",
+    value: 0.4,
+    format: "percent",
+    maxFractionDigits: 1,
+  };
+  assert.equal(formatScenarioDelta(profit, 600, format), "+$600.00");
+  assert.equal(formatScenarioDelta(profit, -25.5, format), "-$25.50");
+  assert.equal(formatScenarioDelta(profit, 1e-13, format), "No change");
+  assert.equal(formatScenarioDelta(rate, 0.125, format), "+12.5 pts");
+  assert.equal(formatScenarioDelta(rate, -0.125, format, "de-DE"), "-12,5 pts");
+});
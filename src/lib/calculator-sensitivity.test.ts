@@ -0,0 +1,194 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { calculators } from "./calculators/definitions.ts";
+import { computeTornado } from "./calculators/sensitivity.ts";
+import type {
+  CalculatorDefinition,
+  CalculatorResult,
+} from "./calculators/types";
+import { validateValues } from "./calculators/validation.ts";
+
+const profit: CalculatorDefinition = {
+  slug: "profit-test",
+  title: "Profit",
+  description: "Revenue less fixed and monthly costs.",
+  category: "finance",
+  inputs: [
+    { key: "price", label: "Price", defaultValue: "10", min: 0 },
+    {
+      key: "units",
+      label: "Units",
+      defaultValue: "100",
+      min: 0,
+      max: 105,
+      integer: true,
+    },
+    { key: "fixed", label: "Fixed cost", defaultValue: "0" },
+    {
+      key: "costs",
+      kind: "series",
+      label: "Monthly costs",
+      rowLabel: "Month",
+      defaultValue: ["50", "50"],
+    },
+  ],
+  compute: (values, series) => ({
+    headline: {
+      key: "profit",
+      label: "Profit",
+      value:
+        values.price * values.units -
+        values.fixed -
+        (series.costs ?? []).reduce((sum, row) => sum + row, 0),
+      format: "currency",
+    },
+  }),
+  formula: "Profit = price x units - fixed - costs",
+  assumptions: [],
+  faqs: [],
+};
+
+const values = { price: 10, units: 100, fixed: 0 };
+const series = { costs: [50, 50] };
+
+test("tornado ranks inputs by how far they swing the headline", () => {
+  const tornado = computeTornado(profit, values, series, 0.1);
+  assert.ok(tornado);
+  assert.equal(tornado.baseResult, 900);
+  // Fixed cost is 0, so a percentage move cannot change it.
+  assert.deepEqual(
+    tornado.bars.map((bar) => bar.key),
+    ["price", "units", "costs"],
+  );
+  const [price, units, costs] = tornado.bars;
+  assert.equal(price.lowResult, 800);
+  assert.ok(Math.abs(price.highResult - 1000) < 1e-9);
+  // Moves stop at the input's bounds.
+  assert.equal(units.highInput, 105);
+  assert.equal(units.swing, 150);
+  // A series moves as a whole.
+  assert.equal(costs.baseInput, 100);
+  assert.ok(Math.abs(costs.lowResult - 910) < 1e-9);
+  assert.ok(Math.abs(costs.highResult - 890) < 1e-9);
+});
+
+test("tornado skips moves that break a rule, and invalid base inputs", () => {
+  const capped: CalculatorDefinition = {
+    ...profit,
+    rules: [
+      {
+        keys: ["units"],
+        message: "At most 100 units.",
+        isValid: (v) => v.units <= 100,
+      },
+    ],
+  };
+  const tornado = computeTornado(capped, values, series, 0.1);
+  assert.deepEqual(
+    tornado?.bars.map((bar) => bar.key),
+    ["price", "costs"],
+  );
+  assert.equal(
+    computeTornado(profit, { ...values, price: -1 }, series, 0.1),
+    null,
+  );
+});
+
+// Inputs (over the defaults) that push part of each grid out of the model's
+// range, and the [row, column] cells that should come back null. The LTV grid
+// clamps churn above 0, so every one of its cells stays valid.
+const matrixCases: Record<
+  string,
+  { overrides: Record<string, number>; nullCells: Array<[number, number]> }
+> = {
+  "ltv-sensitivity-calculator": { overrides: {}, nullCells: [] },
+  "cac-payback-sensitivity-calculator": {
+    overrides: { grossMarginPercent: 5, grossMarginStepPercent: 5 },
+    nullCells: [
+      [0, 0],
+      [1, 0],
+      [2, 0],
+    ],
+  },
+  "arr-valuation-sensitivity-calculator": {
+    overrides: { baseMultiple: 1, multipleStep: 1 },
+    nullCells: [
+      [0, 0],
+      [1, 0],
+      [2, 0],
+    ],
+  },
+  "dcf-sensitivity-calculator": {
+    overrides: {
+      baseDiscountRatePercent: 5,
+      discountRateStepPercent: 3,
+      baseTerminalGrowthPercent: 3,
+      terminalGrowthStepPercent: 0.5,
+    },
+    nullCells: [
+      [0, 0],
+      [0, 1],
+      [0, 2],
+    ],
+  },
+};
+
+function defaultInputs(calc: CalculatorDefinition) {
+  const values: Record<string, number> = {};
+  const series: Record<string, number[]> = {};
+  for (const input of calc.inputs) {
+    if (input.kind === "series") {
+      series[input.key] = input.defaultValue.map(Number);
+    } else {
+      values[input.key] = Number(input.defaultValue);
+    }
+  }
+  return { values, series };
+}
+
+test("the sensitivity calculators are the ones that return a grid", () => {
+  const withMatrix = calculators
+    .filter((calc) => {
+      const { values, series } = defaultInputs(calc);
+      return calc.compute(values, series).matrix !== undefined;
+    })
+    .map((calc) => calc.slug)
+    .sort();
+  assert.deepEqual(withMatrix, Object.keys(matrixCases).sort());
+});
+
+for (const [slug, { overrides, nullCells }] of Object.entries(matrixCases)) {
+  test(`${slug} fills its grid around the headline`, () => {
+    const calc = calculators.find((c) => c.slug === slug);
+    assert.ok(calc);
+    const defaults = defaultInputs(calc).values;
+    for (const [name, values, expectedNulls] of [
+      ["defaults", defaults, []],
+      ["edge", { ...defaults, ...overrides }, nullCells],
+    ] as const) {
+      const label = `${slug} [${name}]`;
+      assert.deepEqual(validateValues(calc, values, {}), {}, label);
+      const result: CalculatorResult = calc.compute(values, {});
+      const matrix = result.matrix;
+      assert.ok(matrix, `${label}: no matrix`);
+      assert.equal(matrix.values.length, matrix.rows.length, label);
+      for (const row of matrix.values) {
+        assert.equal(row.length, matrix.columns.length, label);
+      }
+      assert.equal(
+        matrix.values[matrix.baseRow][matrix.baseColumn],
+        result.headline.value,
+        `${label}: base cell`,
+      );
+
+      const nulls: Array<[number, number]> = [];
+      matrix.values.forEach((row, rowIndex) =>
+        row.forEach((cell, columnIndex) => {
+          if (cell === null) nulls.push([rowIndex, columnIndex]);
+          else assert.ok(Number.isFinite(cell), `${label}: non-finite cell`);
+        }),
+      );
+      assert.deepEqual(nulls, expectedNulls, `${label}: null cells`);
+    }
+  });
+}
@@ -0,0 +1,150 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { calculators } from "./calculators/definitions.ts";
+import {
+  expandRawInputs,
+  flattenRawInputs,
+  parseRawInputs,
+} from "./calculators/inputs.ts";
+import {
+  clampSeriesRows,
+  parseSeriesParam,
+  parseSeriesRows,
+  serializeSeries,
+  splitPastedSeries,
+  upgradeLegacyParams,
+} from "./calculators/series.ts";
+import type { InputForm, SeriesInputField } from "./calculators/types";
+
+const cashFlows: SeriesInputField = {
+  key: "cashFlows",
+  kind: "series",
+  label: "Annual cash flows",
+  rowLabel: "Year",
+  defaultValue: ["30000", "30000"],
+  maxRows: 4,
+};
+
+const form: InputForm = {
+  inputs: [
+    { key: "rate", label: "Discount rate", defaultValue: "10" },
+    cashFlows,
+  ],
+};
+
+test("series params split and join on semicolons", () => {
+  assert.deepEqual(parseSeriesParam("1000;2000.5; 3000 "), [
+    "1000",
+    "2000.5",
+    "3000",
+  ]);
+  assert.deepEqual(parseSeriesParam("   "), []);
+  // Empty cells are kept, so the form can flag them rather than shift rows.
+  assert.deepEqual(parseSeriesParam("1;;3"), ["1", "", "3"]);
+  assert.equal(serializeSeries([" 1000", "2000 ", "-5"]), "1000;2000;-5");
+  assert.deepEqual(parseSeriesParam(serializeSeries(["1", "2.5", "3"])), [
+    "1",
+    "2.5",
+    "3",
+  ]);
+});
+
+test("pasted columns split on tabs, newlines and semicolons", () => {
+  assert.deepEqual(splitPastedSeries("1000\t2000\t3000"), [
+    "1000",
+    "2000",
+    "3000",
+  ]);
+  assert.deepEqual(splitPastedSeries("1000\r\n2000\n\n3000\n"), [
+    "1000",
+    "2000",
+    "3000",
+  ]);
+  assert.deepEqual(splitPastedSeries("1;2\t 3 "), ["1", "2", "3"]);
+  // Empty spreadsheet cells are dropped.
+  assert.deepEqual(splitPastedSeries("1\t\t2\t"), ["1", "2"]);
+  assert.deepEqual(
+    clampSeriesRows(cashFlows, splitPastedSeries("1\n2\n3\n4\n5\n6")),
+    ["1", "2", "3", "4"],
+  );
+});
+
+test("series rows parse in the locale and report the bad rows", () => {
+  assert.deepEqual(parseSeriesRows(["1.000,5", "2", "x", ""], "de-DE"), {
+    values: [1000.5, 2],
+    invalidRows: [2, 3],
+  });
+  const parsed = parseRawInputs(form, {
+    values: { rate: "10" },
+    series: { cashFlows: ["100", "", "300"] },
+  });
+  assert.deepEqual(parsed.invalidSeriesRows.cashFlows, [1]);
+  assert.equal(parsed.errors.cashFlows, "Enter a valid number in every row.");
+});
+
+test("series round-trip through share params in another locale", () => {
+  const flat = { rate: "7.5", cashFlows: "1000.5;-200;30000" };
+  const raw = expandRawInputs(form, flat, "de-DE");
+  assert.deepEqual(raw.series.cashFlows, ["1000,5", "-200", "30000"]);
+  assert.equal(raw.values.rate, "7,5");
+  assert.deepEqual(flattenRawInputs(form, raw, "de-DE"), flat);
+
+  const parsed = parseRawInputs(form, raw, "de-DE");
+  assert.deepEqual(parsed.series.cashFlows, [1000.5, -200, 30000]);
+  // Missing params keep the defaults.
+  assert.deepEqual(expandRawInputs(form, {}, "de-DE").series.cashFlows, [
+    "30000",
+    "30000",
+  ]);
+});
+
+const getCalculator = (slug: string) =>
+  calculators.find((calc) => calc.slug === slug)!;
+
+test("pre-series share links fill the cash-flow series", () => {
+  const npv = getCalculator("npv-calculator");
+  assert.equal(
+    upgradeLegacyParams(npv, { annualCashFlow: "1000", years: "3" }).cashFlows,
+    "1000;1000;1000",
+  );
+  // A missing count takes the old default, and counts are capped at maxRows.
+  assert.equal(
+    upgradeLegacyParams(npv, { annualCashFlow: "1000" }).cashFlows,
+    "1000;1000;1000;1000;1000",
+  );
+  assert.equal(
+    parseSeriesParam(upgradeLegacyParams(npv, { years: "500" }).cashFlows ?? "")
+      .length,
+    50,
+  );
+  // The series param wins, and links without old params are left alone.
+  assert.deepEqual(
+    upgradeLegacyParams(npv, { cashFlows: "1;2", annualCashFlow: "9" }),
+    { cashFlows: "1;2", annualCashFlow: "9" },
+  );
+  assert.deepEqual(upgradeLegacyParams(npv, { discountRatePercent: "8" }), {
+    discountRatePercent: "8",
+  });
+
+  const irr = getCalculator("irr-calculator");
+  const raw = expandRawInputs(
+    irr,
+    { cashFlow1: "1000", cashFlow3: "3000.5" },
+    "de-DE",
+  );
+  assert.deepEqual(raw.series.cashFlows, [
+    "1000",
+    "30000",
+    "3000,5",
+    "40000",
+    "45000",
+  ]);
+
+  const payback = getCalculator("discounted-payback-period-calculator");
+  assert.equal(
+    parseSeriesParam(
+      upgradeLegacyParams(payback, { annualCashFlow: "500" }).cashFlows ?? "",
+    ).length,
+    10,
+  );
+});
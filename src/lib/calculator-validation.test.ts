@@ -0,0 +1,169 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { calculators } from "./calculators/definitions.ts";
+import type { InputField, InputForm } from "./calculators/types";
+import {
+  checkInputValue,
+  isValidPoint,
+  rangeMessage,
+  validateValues,
+} from "./calculators/validation.ts";
+
+const form: InputForm = {
+  inputs: [
+    {
+      key: "start",
+      label: "Customers at start",
+      defaultValue: "100",
+      min: 0,
+      integer: true,
+    },
+    {
+      key: "lost",
+      label: "Customers lost",
+      defaultValue: "5",
+      min: 0,
+      integer: true,
+    },
+    {
+      key: "churn",
+      label: "Churn",
+      defaultValue: "5",
+      suffix: "%",
+      min: 0,
+      max: 100,
+      exclusiveMax: true,
+    },
+    {
+      key: "revenue",
+      kind: "series",
+      label: "Revenue",
+      rowLabel: "Year",
+      defaultValue: ["100", "200"],
+      maxRows: 3,
+      prefix: "$",
+      exclusiveMin: true,
+      min: 0,
+    },
+  ],
+  rules: [
+    {
+      keys: ["start", "lost"],
+      message: "Customers lost cannot exceed customers at start.",
+      isValid: (values) => values.lost <= values.start,
+    },
+  ],
+};
+
+const [start, , churn, revenue] = form.inputs;
+
+test("range messages describe inclusive and exclusive bounds", () => {
+  assert.equal(rangeMessage(start), "Must be 0 or greater.");
+  assert.equal(rangeMessage(churn), "Must be at least 0% and less than 100%.");
+  assert.equal(rangeMessage(revenue), "Must be greater than $0.");
+  const both: InputField = {
+    key: "x",
+    label: "X",
+    defaultValue: "1",
+    min: 1,
+    max: 12,
+  };
+  assert.equal(rangeMessage(both), "Must be between 1 and 12.");
+  assert.equal(
+    rangeMessage({ ...both, min: undefined }),
+    "Must be 12 or less.",
+  );
+  assert.equal(rangeMessage({ key: "y", label: "Y", defaultValue: "0" }), null);
+  assert.equal(
+    rangeMessage({ ...both, min: 1000, max: 2000 }, "de-DE"),
+    "Must be between 1.000 and 2.000.",
+  );
+});
+
+test("input values are checked for whole numbers and bounds", () => {
+  assert.equal(checkInputValue(start, 10), null);
+  assert.equal(checkInputValue(start, 10.5), "Must be a whole number.");
+  assert.equal(checkInputValue(start, -1), "Must be 0 or greater.");
+  assert.equal(checkInputValue(churn, 0), null);
+  assert.equal(
+    checkInputValue(churn, 100),
+    "Must be at least 0% and less than 100%.",
+  );
+  assert.equal(checkInputValue(revenue, 0), "Must be greater than $0.");
+});
+
+test("validateValues reports fields, series rows and rules", () => {
+  const series = { revenue: [100, 200] };
+  assert.deepEqual(
+    validateValues(form, { start: 100, lost: 5, churn: 5 }, series),
+    {},
+  );
+  assert.deepEqual(
+    validateValues(
+      form,
+      { start: 100, lost: 5, churn: 5 },
+      { revenue: [100, 0, -1] },
+    ),
+    { revenue: "Year 2: Must be greater than $0." },
+  );
+  // Row counts are checked wherever values come from, not just in the form.
+  assert.deepEqual(
+    validateValues(
+      form,
+      { start: 100, lost: 5, churn: 5 },
+      { revenue: [1, 2, 3, 4] },
+    ),
+    { revenue: "Use at most 3 years." },
+  );
+  assert.deepEqual(
+    validateValues(form, { start: 100, lost: 5, churn: 5 }, { revenue: [] }),
+    { revenue: "Add at least 1 year." },
+  );
+  // A broken rule marks every field it names.
+  assert.deepEqual(
+    validateValues(form, { start: 3, lost: 5, churn: 5 }, series),
+    {
+      start: "Customers lost cannot exceed customers at start.",
+      lost: "Customers lost cannot exceed customers at start.",
+    },
+  );
+  // Rules wait until every field is valid on its own.
+  assert.deepEqual(
+    validateValues(form, { start: 3, lost: 5, churn: 100 }, series),
+    {
+      churn: "Must be at least 0% and less than 100%.",
+    },
+  );
+  // Missing values are left to the parser, and skip the rules they feed.
+  assert.deepEqual(validateValues(form, { lost: 5, churn: 5 }, {}), {});
+});
+
+test("every calculator's rules name its inputs, and its defaults are valid", () => {
+  for (const calc of calculators) {
+    const keys = new Set(calc.inputs.map((input) => input.key));
+    for (const rule of calc.rules ?? []) {
+      for (const key of rule.keys) {
+        assert.ok(
+          keys.has(key),
+          `${calc.slug}: rule names unknown input "${key}"`,
+        );
+      }
+    }
+
+    const values: Record<string, number> = {};
+    const series: Record<string, number[]> = {};
+    for (const input of calc.inputs) {
+      if (input.kind === "series") {
+        series[input.key] = input.defaultValue.map(Number);
+      } else {
+        values[input.key] = Number(input.defaultValue);
+      }
+    }
+    assert.deepEqual(
+      validateValues(calc, values, series),
+      {},
+      `${calc.slug}: defaults`,
+    );
+    assert.ok(isValidPoint(calc, values, series), calc.slug);
+  }
+});
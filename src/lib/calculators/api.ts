@@ -0,0 +1,173 @@
+// Request handling for /api/calculators/[slug], kept free of Next so the
+// status codes and error bodies can be tested directly.
+import { SUPPORTED_CURRENCIES, isSupportedCurrency } from "../currency.ts";
+import { SUPPORTED_LOCALES, isSupportedLocale } from "../locale.ts";
+import {
+  getDefinition,
+  runCalculator,
+  type EngineInputs,
+  type EngineResult,
+  type RunOptions,
+} from "./engine.ts";
+
+export type ApiErrorCode =
+  | "unknown-calculator"
+  | "invalid-json"
+  | "unknown-inputs"
+  | "invalid-inputs"
+  | "invalid-option";
+
+export type ApiError = {
+  error: { code: ApiErrorCode; message: string; fields?: Record<string, string> };
+};
+
+export type ApiSuccess = {
+  calculator: { slug: string; title: string; category: string; url: string };
+  inputs: { values: Record<string, number>; series: Record<string, number[]> };
+  result: EngineResult;
+};
+
+export type ApiResponse =
+  | { status: 200; body: ApiSuccess }
+  | { status: 400 | 404; body: ApiError };
+
+// Inputs and run options read from a query string or a JSON body.
+export type ApiRequest = {
+  inputs: EngineInputs;
+  options: Record<string, unknown>;
+};
+
+// Keys that configure the run rather than feed the calculator.
+const OPTION_KEYS = new Set(["locale", "currency", "defaults"]);
+
+function errorResponse(
+  status: 400 | 404,
+  code: ApiErrorCode,
+  message: string,
+  fields?: Record<string, string>,
+): ApiResponse {
+  return { status, body: { error: { code, message, ...(fields ? { fields } : {}) } } };
+}
+
+function isTruthyFlag(value: unknown): boolean {
+  return value === true || value === "true" || value === "1" || value === 1;
+}
+
+// GET: every parameter is a string; series inputs are ";"-separated.
+export function readQueryRequest(params: Iterable<[string, string]>): ApiRequest {
+  const inputs: EngineInputs = {};
+  const options: Record<string, unknown> = {};
+  for (const [key, value] of params) {
+    if (OPTION_KEYS.has(key)) options[key] = value;
+    else inputs[key] = value;
+  }
+  return { inputs, options };
+}
+
+// POST: a flat JSON object whose inputs are numbers, strings or arrays of them.
+export function readJsonRequest(text: string): ApiRequest | ApiResponse {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return errorResponse(400, "invalid-json", "Request body must be a JSON object.");
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return errorResponse(400, "invalid-json", "Request body must be a JSON object.");
+  }
+
+  const inputs: EngineInputs = {};
+  const options: Record<string, unknown> = {};
+  const fields: Record<string, string> = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (OPTION_KEYS.has(key)) {
+      options[key] = value;
+    } else if (
+      value === null ||
+      typeof value === "string" ||
+      typeof value === "number" ||
+      (Array.isArray(value) &&
+        value.every((row) => typeof row === "string" || typeof row === "number"))
+    ) {
+      inputs[key] = value;
+    } else {
+      fields[key] = "Expected a number, a string, or an array of numbers.";
+    }
+  }
+  if (Object.keys(fields).length > 0) {
+    return errorResponse(400, "invalid-inputs", "Some inputs are invalid.", fields);
+  }
+  return { inputs, options };
+}
+
+export function handleApiRequest(slug: string, { inputs, options }: ApiRequest): ApiResponse {
+  const calc = getDefinition(slug);
+  if (!calc) {
+    return errorResponse(404, "unknown-calculator", `No calculator named "${slug}".`);
+  }
+
+  const { locale, currency } = options;
+  if (locale !== undefined && (typeof locale !== "string" || !isSupportedLocale(locale))) {
+    return errorResponse(
+      400,
+      "invalid-option",
+      `Unsupported locale. Use one of: ${SUPPORTED_LOCALES.join(", ")}.`,
+    );
+  }
+  if (
+    currency !== undefined &&
+    (typeof currency !== "string" || !isSupportedCurrency(currency))
+  ) {
+    return errorResponse(
+      400,
+      "invalid-option",
+      `Unsupported currency. Use one of: ${SUPPORTED_CURRENCIES.join(", ")}.`,
+    );
+  }
+
+  const known = new Set(calc.inputs.map((input) => input.key));
+  const unknown = Object.keys(inputs).filter((key) => !known.has(key));
+  if (unknown.length > 0) {
+    return errorResponse(
+      400,
+      "unknown-inputs",
+      `Unknown inputs for ${slug}: ${unknown.join(", ")}. Expected: ${[...known].join(", ")}.`,
+      Object.fromEntries(unknown.map((key) => [key, "Not an input of this calculator."])),
+    );
+  }
+
+  const runOptions: RunOptions = {
+    locale: locale as string | undefined,
+    currency: currency as string | undefined,
+    useDefaults: isTruthyFlag(options.defaults),
+  };
+  const outcome = runCalculator(slug, inputs, runOptions);
+  if (outcome.status === "unknown-calculator") {
+    return errorResponse(404, "unknown-calculator", `No calculator named "${slug}".`);
+  }
+  if (outcome.status === "invalid-inputs") {
+    const missing = Object.values(outcome.errors).includes("Missing value.");
+    return errorResponse(
+      400,
+      "invalid-inputs",
+      missing
+        ? "Some inputs are missing or invalid. Pass defaults=true to fill missing inputs from the calculator's defaults."
+        : "Some inputs are invalid.",
+      outcome.errors,
+    );
+  }
+
+  return {
+    status: 200,
+    body: {
+      calculator: {
+        slug: calc.slug,
+        title: calc.title,
+        category: calc.category,
+        url: `/${calc.category}/${calc.slug}`,
+      },
+      inputs: { values: outcome.values, series: outcome.series },
+      result: outcome.result,
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import { DEFAULT_CURRENCY, currencySymbol } from "../currency.ts";
+import type {
+  CalculatorDefinition,
+  CalculatorResult,
+  InputField,
+  ResultMatrixAxis,
+  ResultValue,
+} from "./types";
+
+// Display-only: amounts are not converted, only labelled in another currency.
+// Definitions mark money with "$" prefixes/labels and currency: "USD".
+export function withDisplayCurrency(
+  calc: CalculatorDefinition,
+  currency: string,
+): CalculatorDefinition {
+  if (currency === DEFAULT_CURRENCY) return calc;
+  const symbol = currencySymbol(currency);
+  const relabel = (text: string) => text.replaceAll("$", symbol);
+
+  const relabelInput = (input: InputField): InputField => ({
+    ...input,
+    label: relabel(input.label),
+    help: input.help === undefined ? undefined : relabel(input.help),
+    prefix: input.prefix === undefined ? undefined : relabel(input.prefix),
+  });
+
+  const relabelValue = (value: ResultValue): ResultValue => ({
+    ...value,
+    label: relabel(value.label),
+    detail: value.detail === undefined ? undefined : relabel(value.detail),
+    currency: value.format === "currency" ? currency : value.currency,
+  });
+
+  const relabelAxis = (axis: ResultMatrixAxis): ResultMatrixAxis => ({
+    ...axis,
+    currency: axis.format === "currency" ? currency : axis.currency,
+  });
+
+  const relabelResult = (result: CalculatorResult): CalculatorResult => ({
+    ...result,
+    headline: relabelValue(result.headline),
+    secondary: result.secondary?.map(relabelValue),
+    breakdown: result.breakdown?.map(relabelValue),
+    chart: result.chart && {
+      ...result.chart,
+      title: relabel(result.chart.title),
+      currency: result.chart.format === "currency" ? currency : result.chart.currency,
+      lines: result.chart.lines.map((line) => ({ ...line, label: relabel(line.label) })),
+    },
+    matrix: result.matrix && {
+      ...result.matrix,
+      title: relabel(result.matrix.title),
+      rowFormat: relabelAxis(result.matrix.rowFormat),
+      columnFormat: relabelAxis(result.matrix.columnFormat),
+      currency: result.matrix.format === "currency" ? currency : result.matrix.currency,
+    },
+    warnings: result.warnings?.map(relabel),
+  });
+
+  return {
+    ...calc,
+    inputs: calc.inputs.map(relabelInput),
+    compute: (values, series) => relabelResult(calc.compute(values, series)),
+  };
+}
@@ -1,5 +1,6 @@
 import type { CalculatorDefinition, ResultValue } from "./types";
-import { safeDivide } from "./shared";
+import { div, mul, num, pct, ref, sub } from "./expression.ts";
+import { safeDivide } from "./shared.ts";
 
 export const calculatorsPart1: CalculatorDefinition[] = [
   {
@@ -55,6 +56,8 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           placeholder: "1000",
           prefix: "$",
           defaultValue: "1000",
+          min: 0,
+          exclusiveMin: true,
         },
         {
           key: "grossMarginPercent",
@@ -99,10 +102,29 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           step: 0.1,
         },
       ],
+      sendTo: [
+        {
+          calculatorSlug: "break-even-roas-calculator",
+          inputs: {
+            grossMarginPercent: { input: "grossMarginPercent" },
+            paymentFeesPercent: { input: "paymentFeesPercent" },
+            shippingPercent: { input: "shippingPercent" },
+            returnsPercent: { input: "returnsPercent" },
+          },
+        },
+        {
+          calculatorSlug: "target-roas-calculator",
+          inputs: {
+            grossMarginPercent: { input: "grossMarginPercent" },
+            paymentFeesPercent: { input: "paymentFeesPercent" },
+            shippingPercent: { input: "shippingPercent" },
+            returnsPercent: { input: "returnsPercent" },
+          },
+        },
+      ],
       compute(values) {
         const warnings: string[] = [];
         const roasMultiple = safeDivide(values.revenue, values.adSpend);
-        if (values.adSpend <= 0) warnings.push("Ad spend must be greater than 0.");
   
         const contributionMargin =
           (values.grossMarginPercent -
@@ -285,6 +307,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
         };
       },
       formula: "ROAS = Revenue / Ad Spend",
+      formulaExpression: div(ref("revenue"), ref("adSpend")),
       assumptions: [
         "Revenue and spend are measured over the same time window.",
         "Revenue is net of refunds/returns if you want ROAS to reflect reality.",
@@ -409,6 +432,19 @@ export const calculatorsPart1: CalculatorDefinition[] = [
             step: 0.1,
           },
         ],
+        sendTo: [
+          {
+            calculatorSlug: "target-roas-calculator",
+            inputs: {
+              grossMarginPercent: { input: "grossMarginPercent" },
+              paymentFeesPercent: { input: "paymentFeesPercent" },
+              shippingPercent: { input: "shippingPercent" },
+              returnsPercent: { input: "returnsPercent" },
+              aov: { input: "aov" },
+              cvrPercent: { input: "cvrPercent" },
+            },
+          },
+        ],
         compute(values) {
           const warnings: string[] = [];
           const contributionMargin =
@@ -524,6 +560,15 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           };
         },
       formula: "Break-even ROAS = 1 / (Contribution margin)",
+      formulaExpression: div(
+        num(1),
+        sub(
+          pct("grossMarginPercent"),
+          pct("paymentFeesPercent"),
+          pct("shippingPercent"),
+          pct("returnsPercent"),
+        ),
+      ),
       assumptions: [
         "This is a simplified contribution-margin model (not a full P&L).",
         "All inputs are expressed as a percent of revenue and are additive.",
@@ -770,6 +815,17 @@ export const calculatorsPart1: CalculatorDefinition[] = [
         },
       formula:
         "Target ROAS = 1 / (Contribution margin - Fixed cost allocation - Desired profit margin)",
+      formulaExpression: div(
+        num(1),
+        sub(
+          pct("grossMarginPercent"),
+          pct("paymentFeesPercent"),
+          pct("shippingPercent"),
+          pct("returnsPercent"),
+          pct("fixedCostPercent"),
+          pct("desiredProfitPercent"),
+        ),
+      ),
       assumptions: [
         "All inputs are expressed as a percent of revenue.",
         "Fixed costs are represented as an allocation; this is a planning model (not a full P&L).",
@@ -849,6 +905,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           suffix: "%",
           defaultValue: "1.5",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "cvrPercent",
@@ -857,6 +914,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           suffix: "%",
           defaultValue: "3",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "aov",
@@ -912,8 +970,6 @@ export const calculatorsPart1: CalculatorDefinition[] = [
         if (contributionMargin <= 0) {
           warnings.push("Contribution margin must be greater than 0.");
         }
-        if (ctr <= 0) warnings.push("CTR must be greater than 0.");
-        if (cvr <= 0) warnings.push("CVR must be greater than 0.");
   
         const clicksPer1000 = 1000 * ctr;
         const spendPer1000 = values.cpm;
@@ -1099,6 +1155,8 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           placeholder: "3000",
           prefix: "$",
           defaultValue: "3000",
+          min: 0,
+          exclusiveMin: true,
         },
         {
           key: "horizonMonths",
@@ -1108,18 +1166,15 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           defaultValue: "12",
           min: 1,
           step: 1,
+          integer: true,
         },
       ],
       compute(values) {
         const warnings: string[] = [];
         const horizonMonths = Math.max(1, Math.floor(values.horizonMonths));
-        if (values.horizonMonths !== horizonMonths) {
-          warnings.push("Horizon months was rounded down to a whole number.");
-        }
   
           const profit = values.revenue - values.cost;
           const roi = safeDivide(profit, values.cost);
-          if (values.cost <= 0) warnings.push("Total cost must be greater than 0.");
           if (roi === null) {
             return {
             headline: {
@@ -1221,6 +1276,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
         },
       formula:
         "ROI = (Revenue - Cost) / Cost; Annualized ROI = (1 + ROI)^(12 / months) - 1",
+      formulaExpression: div(sub(ref("revenue"), ref("cost")), ref("cost")),
       assumptions: [
         "Revenue and cost are measured over the same time window.",
         "Cost includes all incremental costs you attribute to the initiative.",
@@ -1289,6 +1345,8 @@ export const calculatorsPart1: CalculatorDefinition[] = [
             label: "New customers acquired",
             placeholder: "40",
             defaultValue: "40",
+            min: 0,
+            exclusiveMin: true,
           },
           {
             key: "arpaMonthly",
@@ -1315,13 +1373,39 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           defaultValue: "12",
           min: 0,
           step: 1,
+          integer: true,
+        },
+      ],
+      sendTo: [
+        {
+          calculatorSlug: "ltv-to-cac-calculator",
+          inputs: {
+            cac: { result: "cac" },
+            arpaMonthly: { input: "arpaMonthly" },
+            grossMarginPercent: { input: "grossMarginPercent" },
+          },
+        },
+        {
+          calculatorSlug: "ltv-calculator",
+          inputs: {
+            cac: { result: "cac" },
+            arpaMonthly: { input: "arpaMonthly" },
+            grossMarginPercent: { input: "grossMarginPercent" },
+          },
+        },
+        {
+          calculatorSlug: "cac-payback-period-calculator",
+          inputs: {
+            cac: { result: "cac" },
+            arpaMonthly: { input: "arpaMonthly" },
+            grossMarginPercent: { input: "grossMarginPercent" },
+            targetPaybackMonths: { input: "targetPaybackMonths" },
+          },
         },
       ],
       compute(values) {
         const warnings: string[] = [];
         const cac = safeDivide(values.spend, values.newCustomers);
-        if (values.newCustomers <= 0)
-          warnings.push("New customers must be greater than 0.");
           const grossMargin = values.grossMarginPercent / 100;
         const grossProfitPerMonth =
           values.arpaMonthly > 0 && grossMargin > 0
@@ -1340,8 +1424,6 @@ export const calculatorsPart1: CalculatorDefinition[] = [
             ? cac / annualGrossProfit
             : null;
         const targetPayback = Math.max(0, Math.floor(values.targetPaybackMonths));
-        if (values.targetPaybackMonths !== targetPayback)
-          warnings.push("Target payback was rounded down to a whole number.");
         const maxCacForTargetPayback =
           grossProfitPerMonth && targetPayback > 0
             ? grossProfitPerMonth * targetPayback
@@ -1473,6 +1555,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           };
         },
       formula: "CAC = Sales & Marketing Spend / New Customers",
+      formulaExpression: div(ref("spend"), ref("newCustomers")),
       assumptions: [
         "Spend and new customers are measured over the same time window.",
         "New customers means net new paying customers (not leads or trials).",
@@ -1592,8 +1675,9 @@ export const calculatorsPart1: CalculatorDefinition[] = [
             label: "New paying customers acquired",
             placeholder: "120",
             defaultValue: "120",
-            min: 0,
+            min: 1,
             step: 1,
+            integer: true,
           },
           {
             key: "arpaMonthly",
@@ -1616,10 +1700,6 @@ export const calculatorsPart1: CalculatorDefinition[] = [
         compute(values) {
           const warnings: string[] = [];
           const customers = Math.floor(values.newCustomers);
-          if (values.newCustomers !== customers)
-          warnings.push("New customers was rounded down to a whole number.");
-        if (customers <= 0)
-          warnings.push("New customers must be greater than 0 to compute CAC.");
   
           const total =
             values.paidSpend + values.salaries + values.tools + values.otherCosts;
@@ -1821,6 +1901,8 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           placeholder: "80",
           suffix: "%",
           defaultValue: "80",
+          min: 0,
+          exclusiveMin: true,
         },
         {
           key: "churnPercent",
@@ -1828,6 +1910,8 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           placeholder: "3",
           suffix: "%",
           defaultValue: "3",
+          min: 0,
+          exclusiveMin: true,
         },
           {
             key: "annualDiscountRatePercent",
@@ -1858,12 +1942,32 @@ export const calculatorsPart1: CalculatorDefinition[] = [
             step: 0.1,
           },
         ],
+        sendTo: [
+          {
+            calculatorSlug: "ltv-to-cac-calculator",
+            inputs: {
+              cac: { input: "cac" },
+              arpaMonthly: { input: "arpaMonthly" },
+              grossMarginPercent: { input: "grossMarginPercent" },
+              churnPercent: { input: "churnPercent" },
+              targetRatio: { input: "targetLtvToCac" },
+            },
+          },
+          {
+            calculatorSlug: "cac-payback-period-calculator",
+            inputs: {
+              cac: { input: "cac" },
+              arpaMonthly: { input: "arpaMonthly" },
+              grossMarginPercent: { input: "grossMarginPercent" },
+              annualDiscountRatePercent: { input: "annualDiscountRatePercent" },
+              monthlyChurnPercent: { input: "churnPercent" },
+            },
+          },
+        ],
         compute(values) {
           const warnings: string[] = [];
           const grossMargin = values.grossMarginPercent / 100;
           const churn = values.churnPercent / 100;
-          if (grossMargin <= 0) warnings.push("Gross margin must be greater than 0.");
-          if (churn <= 0) warnings.push("Churn must be greater than 0.");
   
         const ltv = safeDivide(values.arpaMonthly * grossMargin, churn);
         if (ltv === null) {
@@ -1967,6 +2071,10 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           };
         },
       formula: "LTV = (ARPA * Gross Margin) / Churn Rate",
+      formulaExpression: div(
+        mul(ref("arpaMonthly"), pct("grossMarginPercent")),
+        pct("churnPercent"),
+      ),
       assumptions: [
         "Churn is steady over time (a simplifying assumption).",
         "ARPA and churn use the same time unit (monthly).",
@@ -2029,6 +2137,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "200",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "grossMarginPercent",
@@ -2038,6 +2147,8 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           defaultValue: "80",
           min: 0,
           step: 0.1,
+          max: 100,
+          exclusiveMin: true,
         },
         {
           key: "marginStepPercent",
@@ -2057,6 +2168,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           defaultValue: "3",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
         {
           key: "churnStepPercent",
@@ -2071,17 +2183,12 @@ export const calculatorsPart1: CalculatorDefinition[] = [
       ],
       compute(values) {
         const warnings: string[] = [];
-        if (values.arpaMonthly <= 0) warnings.push("ARPA must be greater than 0.");
   
         const baseMargin = values.grossMarginPercent / 100;
         const marginStep = values.marginStepPercent / 100;
-        if (baseMargin <= 0) warnings.push("Gross margin must be greater than 0%.");
-        if (baseMargin > 1) warnings.push("Gross margin must be 100% or less.");
   
         const baseChurn = values.monthlyChurnPercent / 100;
         const churnStep = values.churnStepPercent / 100;
-        if (baseChurn <= 0)
-          warnings.push("Monthly churn must be greater than 0% for LTV.");
   
         const marginLow = Math.max(0, baseMargin - marginStep);
         const marginMid = baseMargin;
@@ -2099,35 +2206,16 @@ export const calculatorsPart1: CalculatorDefinition[] = [
         const baseLtv = ltvAt(marginMid, churnMid);
         if (baseLtv === null) warnings.push("Base inputs are invalid for LTV.");
   
-        const grid: Array<{ key: string; label: string; value: number }> = [];
-        const points: Array<[string, number, number]> = [
-          ["ltv_marginLow_churnLow", marginLow, churnLow],
-          ["ltv_marginLow_churnMid", marginLow, churnMid],
-          ["ltv_marginLow_churnHigh", marginLow, churnHigh],
-          ["ltv_marginMid_churnLow", marginMid, churnLow],
-          ["ltv_marginMid_churnMid", marginMid, churnMid],
-          ["ltv_marginMid_churnHigh", marginMid, churnHigh],
-          ["ltv_marginHigh_churnLow", marginHigh, churnLow],
-          ["ltv_marginHigh_churnMid", marginHigh, churnMid],
-          ["ltv_marginHigh_churnHigh", marginHigh, churnHigh],
-        ];
-  
-        for (const [key, margin, churn] of points) {
-          const ltv = ltvAt(margin, churn);
-          if (ltv === null) continue;
-          grid.push({
-            key,
-            label: `LTV @ ${(margin * 100).toFixed(1)}% / ${(churn * 100).toFixed(1)}% churn`,
-            value: ltv,
-          });
-        }
+        const margins = [marginLow, marginMid, marginHigh];
+        const churns = [churnLow, churnMid, churnHigh];
+        const grid = margins.map((margin) => churns.map((churn) => ltvAt(margin, churn)));
+        const valuesOnly = grid.flat().filter((ltv): ltv is number => ltv !== null);
   
-          if (grid.length < 5) {
+          if (valuesOnly.length < 5) {
             warnings.push(
               "Many grid points are invalid because churn is too close to 0%. Increase churn or adjust steps.",
             );
           }
-          const valuesOnly = grid.map((g) => g.value);
           const bestLtv = valuesOnly.length > 0 ? Math.max(...valuesOnly) : null;
           const worstLtv = valuesOnly.length > 0 ? Math.min(...valuesOnly) : null;
           const ltvRange =
@@ -2158,27 +2246,33 @@ export const calculatorsPart1: CalculatorDefinition[] = [
               currency: "USD",
               detail: ltvRange === null ? "No valid grid values" : "Sensitivity spread",
             },
-            ...grid.map(
-              (g): ResultValue => ({
-                key: g.key,
-                label: g.label,
-                value: g.value,
-                format: "currency",
-                currency: "USD",
-              }),
-            ),
           ];
   
           return {
             headline: {
               key: "ltvBase",
               label: "Gross profit LTV (base case)",
-              value: baseLtv ?? (grid[0]?.value ?? 0),
+              value: baseLtv ?? (valuesOnly[0] ?? 0),
               format: "currency",
               currency: "USD",
               detail: `Base: ${values.grossMarginPercent.toFixed(1)}% / ${values.monthlyChurnPercent.toFixed(1)}% churn`,
             },
             secondary,
+            matrix: {
+              title: "LTV sensitivity",
+              rowLabel: "Gross margin",
+              columnLabel: "Monthly churn",
+              rows: margins,
+              rowFormat: { format: "percent", maxFractionDigits: 1 },
+              columns: churns,
+              columnFormat: { format: "percent", maxFractionDigits: 1 },
+              values: grid,
+              format: "currency",
+              currency: "USD",
+              baseRow: 1,
+              baseColumn: 1,
+              higherIsBetter: true,
+            },
             warnings,
           };
         },
@@ -2260,6 +2354,8 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           placeholder: "500",
           prefix: "$",
           defaultValue: "500",
+          min: 0,
+          exclusiveMin: true,
         },
         {
           key: "arpaMonthly",
@@ -2268,6 +2364,8 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           placeholder: "200",
           prefix: "$",
           defaultValue: "200",
+          min: 0,
+          exclusiveMin: true,
         },
         {
           key: "grossMarginPercent",
@@ -2275,6 +2373,8 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           placeholder: "80",
           suffix: "%",
           defaultValue: "80",
+          min: 0,
+          exclusiveMin: true,
         },
           {
             key: "churnPercent",
@@ -2282,6 +2382,8 @@ export const calculatorsPart1: CalculatorDefinition[] = [
             placeholder: "3",
             suffix: "%",
             defaultValue: "3",
+            min: 0,
+            exclusiveMin: true,
           },
           {
             key: "targetRatio",
@@ -2292,15 +2394,22 @@ export const calculatorsPart1: CalculatorDefinition[] = [
             step: 0.1,
           },
         ],
+        sendTo: [
+          {
+            calculatorSlug: "cac-payback-period-calculator",
+            inputs: {
+              cac: { input: "cac" },
+              arpaMonthly: { input: "arpaMonthly" },
+              grossMarginPercent: { input: "grossMarginPercent" },
+              monthlyChurnPercent: { input: "churnPercent" },
+            },
+          },
+        ],
         compute(values) {
           const warnings: string[] = [];
-          if (values.cac <= 0) warnings.push("CAC must be greater than 0.");
   
         const grossMargin = values.grossMarginPercent / 100;
         const churn = values.churnPercent / 100;
-        if (values.arpaMonthly <= 0) warnings.push("ARPA must be greater than 0.");
-        if (grossMargin <= 0) warnings.push("Gross margin must be greater than 0%.");
-        if (churn <= 0) warnings.push("Churn must be greater than 0%.");
   
           const grossProfitPerMonth = values.arpaMonthly * Math.max(grossMargin, 0);
           const ltv = safeDivide(grossProfitPerMonth, churn) ?? 0;
@@ -2402,6 +2511,10 @@ export const calculatorsPart1: CalculatorDefinition[] = [
       },
       formula:
         "LTV = (ARPA * gross margin) / churn; LTV:CAC = LTV / CAC; Payback = CAC / (ARPA * gross margin)",
+      formulaExpression: div(
+        mul(ref("arpaMonthly"), pct("grossMarginPercent")),
+        mul(pct("churnPercent"), ref("cac")),
+      ),
       assumptions: [
         "Uses a constant-churn shortcut model (planning).",
         "LTV is modeled as gross profit to align with CAC and payback.",
@@ -2484,6 +2597,8 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           placeholder: "500",
           prefix: "$",
           defaultValue: "500",
+          min: 0,
+          exclusiveMin: true,
         },
         {
           key: "arpaMonthly",
@@ -2527,13 +2642,13 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           defaultValue: "12",
           min: 0,
           step: 1,
+          integer: true,
         },
       ],
       compute(values) {
         const warnings: string[] = [];
         const grossMargin = values.grossMarginPercent / 100;
         const grossProfitPerMonth = values.arpaMonthly * grossMargin;
-        if (values.cac <= 0) warnings.push("CAC must be greater than 0.");
         if (grossProfitPerMonth <= 0)
           warnings.push("Gross profit per month must be greater than 0.");
   
@@ -2566,9 +2681,6 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           warnings.push("Payback exceeds expected lifetime (check churn or ARPA).");
         }
         const targetPayback = Math.max(0, Math.floor(values.targetPaybackMonths));
-        if (values.targetPaybackMonths !== targetPayback) {
-          warnings.push("Target payback was rounded down to a whole number.");
-        }
         const maxCacForTargetPayback =
           targetPayback > 0 ? grossProfitPerMonth * targetPayback : null;
         const requiredArpaForTargetPayback =
@@ -2689,6 +2801,10 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           };
         },
       formula: "Payback (months) = CAC / (ARPA * Gross Margin)",
+      formulaExpression: div(
+        ref("cac"),
+        mul(ref("arpaMonthly"), pct("grossMarginPercent")),
+      ),
       assumptions: [
         "ARPA and gross margin remain stable over the payback period.",
       ],
@@ -2770,6 +2886,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "6000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "arpaMonthly",
@@ -2778,6 +2895,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "800",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "grossMarginPercent",
@@ -2787,6 +2905,8 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           defaultValue: "80",
           min: 0,
           step: 0.1,
+          max: 100,
+          exclusiveMin: true,
         },
         {
           key: "arpaStepPercent",
@@ -2812,17 +2932,10 @@ export const calculatorsPart1: CalculatorDefinition[] = [
       compute(values) {
         const warnings: string[] = [];
   
-        if (values.cac <= 0) warnings.push("CAC must be greater than 0.");
-        if (values.arpaMonthly <= 0) warnings.push("ARPA must be greater than 0.");
-  
         const baseMargin = values.grossMarginPercent / 100;
-        if (baseMargin <= 0) warnings.push("Gross margin must be greater than 0%.");
-        if (baseMargin > 1) warnings.push("Gross margin must be 100% or less.");
   
         const arpaStep = values.arpaStepPercent / 100;
         const marginStep = values.grossMarginStepPercent / 100;
-        if (arpaStep < 0) warnings.push("ARPA step must be 0% or greater.");
-        if (marginStep < 0) warnings.push("Margin step must be 0% or greater.");
   
         const paybackAt = (arpa: number, margin: number) => {
           const grossProfitPerMonth = arpa * margin;
@@ -2840,37 +2953,18 @@ export const calculatorsPart1: CalculatorDefinition[] = [
         const basePayback = paybackAt(arpaMid, marginMid);
         if (basePayback === null) warnings.push("Base inputs are invalid for payback.");
   
-        const grid: Array<{ key: string; label: string; value: number }> = [];
-        const points: Array<[string, number, number]> = [
-          ["payback_arpaLow_marginLow", arpaLow, marginLow],
-          ["payback_arpaLow_marginMid", arpaLow, marginMid],
-          ["payback_arpaLow_marginHigh", arpaLow, marginHigh],
-          ["payback_arpaMid_marginLow", arpaMid, marginLow],
-          ["payback_arpaMid_marginMid", arpaMid, marginMid],
-          ["payback_arpaMid_marginHigh", arpaMid, marginHigh],
-          ["payback_arpaHigh_marginLow", arpaHigh, marginLow],
-          ["payback_arpaHigh_marginMid", arpaHigh, marginMid],
-          ["payback_arpaHigh_marginHigh", arpaHigh, marginHigh],
-        ];
+        const arpas = [arpaLow, arpaMid, arpaHigh];
+        const margins = [marginLow, marginMid, marginHigh];
+        const grid = arpas.map((arpa) => margins.map((margin) => paybackAt(arpa, margin)));
+        const valuesOnly = grid.flat().filter((payback): payback is number => payback !== null);
   
-        for (const [key, arpa, margin] of points) {
-          const payback = paybackAt(arpa, margin);
-          if (payback === null) continue;
-          grid.push({
-            key,
-            label: `Payback @ $${arpa.toFixed(0)} / ${(margin * 100).toFixed(1)}%`,
-            value: payback,
-          });
-        }
-  
-        if (grid.length < 5) {
+        if (valuesOnly.length < 5) {
           warnings.push(
             "Many grid points are invalid (gross profit/month is too close to 0). Increase ARPA/margin or reduce steps.",
           );
         }
   
-          const headlinePayback = basePayback ?? (grid[0]?.value ?? 0);
-          const valuesOnly = grid.map((g) => g.value);
+          const headlinePayback = basePayback ?? (valuesOnly[0] ?? 0);
           const bestPayback =
             valuesOnly.length > 0 ? Math.min(...valuesOnly) : null;
           const worstPayback =
@@ -2905,15 +2999,6 @@ export const calculatorsPart1: CalculatorDefinition[] = [
               maxFractionDigits: 1,
               detail: paybackRange === null ? "No valid grid values" : "Sensitivity spread",
             },
-            ...grid.map(
-              (g): ResultValue => ({
-                key: g.key,
-                label: g.label,
-                value: g.value,
-                format: "months",
-                maxFractionDigits: 1,
-              }),
-            ),
           ];
   
           return {
@@ -2926,6 +3011,21 @@ export const calculatorsPart1: CalculatorDefinition[] = [
               detail: `Base: $${values.arpaMonthly.toFixed(0)} / ${values.grossMarginPercent.toFixed(1)}%`,
             },
             secondary,
+            matrix: {
+              title: "CAC payback sensitivity",
+              rowLabel: "ARPA per month",
+              columnLabel: "Gross margin",
+              rows: arpas,
+              rowFormat: { format: "currency", currency: "USD" },
+              columns: margins,
+              columnFormat: { format: "percent", maxFractionDigits: 1 },
+              values: grid,
+              format: "months",
+              maxFractionDigits: 1,
+              baseRow: 1,
+              baseColumn: 1,
+              higherIsBetter: false,
+            },
             warnings,
           };
         },
@@ -3000,12 +3100,15 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           label: "Customers at start",
           placeholder: "1000",
           defaultValue: "1000",
+          min: 0,
+          exclusiveMin: true,
         },
         {
           key: "lostCustomers",
           label: "Customers lost",
           placeholder: "30",
           defaultValue: "30",
+          min: 0,
         },
         {
           key: "periodsPerYear",
@@ -3015,6 +3118,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           defaultValue: "12",
           min: 1,
           step: 1,
+          integer: true,
         },
         {
           key: "forecastPeriods",
@@ -3024,24 +3128,21 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           defaultValue: "12",
           min: 1,
           step: 1,
+          integer: true,
+        },
+      ],
+      rules: [
+        {
+          keys: ["lostCustomers", "startingCustomers"],
+          message: "Customers lost cannot exceed customers at start.",
+          isValid: (v) => v.lostCustomers <= v.startingCustomers,
         },
       ],
       compute(values) {
         const warnings: string[] = [];
-        if (values.startingCustomers <= 0)
-          warnings.push("Customers at start must be greater than 0.");
-        if (values.lostCustomers < 0) warnings.push("Customers lost must be 0 or greater.");
-        if (values.lostCustomers > values.startingCustomers)
-          warnings.push("Customers lost cannot exceed customers at start.");
   
         const periodsPerYear = Math.max(1, Math.floor(values.periodsPerYear));
-        if (values.periodsPerYear !== periodsPerYear) {
-          warnings.push("Periods per year was rounded down to a whole number.");
-        }
         const forecastPeriods = Math.max(1, Math.floor(values.forecastPeriods));
-        if (values.forecastPeriods !== forecastPeriods) {
-          warnings.push("Forecast periods was rounded down to a whole number.");
-        }
   
         const churn = safeDivide(values.lostCustomers, values.startingCustomers);
         if (churn === null) {
@@ -3160,6 +3261,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
         };
       },
       formula: "Churn Rate = Customers Lost / Customers at Start",
+      formulaExpression: div(ref("lostCustomers"), ref("startingCustomers")),
       assumptions: ["Inputs represent the same period (e.g., month, quarter)."],
       faqs: [
         {
@@ -3214,18 +3316,22 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           label: "Customers at start",
           placeholder: "1000",
           defaultValue: "1000",
+          min: 0,
+          exclusiveMin: true,
         },
         {
           key: "endingCustomers",
           label: "Customers at end",
           placeholder: "1050",
           defaultValue: "1050",
+          min: 0,
         },
         {
           key: "newCustomers",
           label: "New customers",
           placeholder: "80",
           defaultValue: "80",
+          min: 0,
         },
         {
           key: "periodsPerYear",
@@ -3235,6 +3341,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           defaultValue: "12",
           min: 1,
           step: 1,
+          integer: true,
         },
         {
           key: "forecastPeriods",
@@ -3244,23 +3351,14 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           defaultValue: "12",
           min: 1,
           step: 1,
+          integer: true,
         },
       ],
       compute(values) {
         const warnings: string[] = [];
-        if (values.startingCustomers <= 0)
-          warnings.push("Customers at start must be greater than 0.");
-        if (values.endingCustomers < 0) warnings.push("Customers at end must be 0 or greater.");
-        if (values.newCustomers < 0) warnings.push("New customers must be 0 or greater.");
   
         const periodsPerYear = Math.max(1, Math.floor(values.periodsPerYear));
-        if (values.periodsPerYear !== periodsPerYear) {
-          warnings.push("Periods per year was rounded down to a whole number.");
-        }
         const forecastPeriods = Math.max(1, Math.floor(values.forecastPeriods));
-        if (values.forecastPeriods !== forecastPeriods) {
-          warnings.push("Forecast periods was rounded down to a whole number.");
-        }
   
         const retained = values.endingCustomers - values.newCustomers;
         const retention = safeDivide(retained, values.startingCustomers);
@@ -3285,10 +3383,12 @@ export const calculatorsPart1: CalculatorDefinition[] = [
         }
   
         const churn = 1 - retention;
-        const annualRetention = Math.pow(Math.max(0, retention), periodsPerYear);
+        // Retention above 100% is an input error (warned above); cap it so
+        // compounding cannot overflow.
+        const cappedRetention = Math.min(1, Math.max(0, retention));
+        const annualRetention = Math.pow(cappedRetention, periodsPerYear);
         const annualChurn = 1 - annualRetention;
-        const expectedRetention =
-          retention > 0 ? Math.pow(retention, forecastPeriods) : 0;
+        const expectedRetention = Math.pow(cappedRetention, forecastPeriods);
         const expectedRemaining =
           values.startingCustomers * expectedRetention;
         const lifetimePeriods = churn > 0 ? 1 / churn : null;
@@ -3401,6 +3501,10 @@ export const calculatorsPart1: CalculatorDefinition[] = [
       },
       formula:
         "Retention Rate = (Customers at End - New Customers) / Customers at Start",
+      formulaExpression: div(
+        sub(ref("endingCustomers"), ref("newCustomers")),
+        ref("startingCustomers"),
+      ),
       assumptions: ["Inputs represent the same period (e.g., month, quarter)."],
       faqs: [
         {
@@ -3470,6 +3574,8 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           label: "Average active users (period)",
           placeholder: "2000",
           defaultValue: "2000",
+          min: 0,
+          exclusiveMin: true,
         },
         {
           key: "grossMarginPercent",
@@ -3480,6 +3586,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           defaultValue: "80",
           min: 0,
           step: 0.1,
+          max: 100,
         },
         {
           key: "targetArpu",
@@ -3493,12 +3600,6 @@ export const calculatorsPart1: CalculatorDefinition[] = [
       ],
       compute(values) {
         const warnings: string[] = [];
-        if (values.avgUsers <= 0) warnings.push("Average users must be greater than 0.");
-        if (values.periodMonths <= 0) warnings.push("Period length must be greater than 0.");
-        if (values.grossMarginPercent < 0 || values.grossMarginPercent > 100) {
-          warnings.push("Gross margin must be between 0% and 100%.");
-        }
-        if (values.targetArpu < 0) warnings.push("Target ARPU must be 0 or greater.");
         const arpu = safeDivide(values.revenue, values.avgUsers);
         const monthlyArpu =
           arpu !== null && values.periodMonths > 0
@@ -3647,6 +3748,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
         };
       },
       formula: "ARPU = Revenue / Average Active Users",
+      formulaExpression: div(ref("revenue"), ref("avgUsers")),
       assumptions: [
         "Revenue, users, and period length use the same time window.",
         "Annualized ARPU scales linearly by period length.",
@@ -3735,6 +3837,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           placeholder: "60",
           defaultValue: "60",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "grossMarginPercent",
@@ -3745,6 +3848,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           defaultValue: "80",
           min: 0,
           step: 0.1,
+          max: 100,
         },
         {
           key: "targetArpa",
@@ -3758,13 +3862,6 @@ export const calculatorsPart1: CalculatorDefinition[] = [
       ],
       compute(values) {
         const warnings: string[] = [];
-        if (values.avgAccounts <= 0)
-          warnings.push("Average accounts must be greater than 0.");
-        if (values.periodMonths <= 0) warnings.push("Period length must be greater than 0.");
-        if (values.grossMarginPercent < 0 || values.grossMarginPercent > 100) {
-          warnings.push("Gross margin must be between 0% and 100%.");
-        }
-        if (values.targetArpa < 0) warnings.push("Target ARPA must be 0 or greater.");
   
         const arpa = safeDivide(values.revenue, values.avgAccounts);
         const monthlyArpa =
@@ -3915,6 +4012,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
         };
       },
       formula: "ARPA = Revenue / Average Paying Accounts",
+      formulaExpression: div(ref("revenue"), ref("avgAccounts")),
       assumptions: [
         "Revenue, accounts, and period length use the same time window.",
         "Annualized ARPA scales linearly by period length.",
@@ -3981,6 +4079,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           placeholder: "2000",
           defaultValue: "2000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "endRevenue",
@@ -3996,12 +4095,11 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           placeholder: "2300",
           defaultValue: "2300",
           min: 0,
+          exclusiveMin: true,
         },
       ],
       compute(values) {
         const warnings: string[] = [];
-        if (values.startUsers <= 0) warnings.push("Start users must be greater than 0.");
-        if (values.endUsers <= 0) warnings.push("End users must be greater than 0.");
   
         const startArpu = safeDivide(values.startRevenue, values.startUsers);
         const endArpu = safeDivide(values.endRevenue, values.endUsers);
@@ -4184,6 +4282,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
             label: "Paying customers",
             placeholder: "250",
             defaultValue: "250",
+            min: 0,
           },
           {
             key: "arpaMonthly",
@@ -4191,6 +4290,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
             placeholder: "200",
             prefix: "$",
             defaultValue: "200",
+            min: 0,
           },
           {
             key: "targetCustomers",
@@ -4208,12 +4308,17 @@ export const calculatorsPart1: CalculatorDefinition[] = [
             min: 0,
           },
         ],
+        sendTo: [
+          {
+            calculatorSlug: "arr-calculator",
+            inputs: {
+              customers: { input: "customers" },
+              arpaMonthly: { input: "arpaMonthly" },
+            },
+          },
+        ],
         compute(values) {
           const warnings: string[] = [];
-          if (values.customers < 0) warnings.push("Customers must be 0 or greater.");
-          if (values.arpaMonthly < 0) warnings.push("ARPA must be 0 or greater.");
-          if (values.targetCustomers < 0)
-            warnings.push("Target customers must be 0 or greater.");
           const mrr = values.customers * values.arpaMonthly;
           const arr = mrr * 12;
           const requiredCustomers =
@@ -4319,6 +4424,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           };
         },
         formula: "MRR = Paying Customers x ARPA (monthly)",
+        formulaExpression: mul(ref("customers"), ref("arpaMonthly")),
       assumptions: ["This is a simplified estimate; real MRR sums subscription amounts."],
       faqs: [
         {
@@ -4369,6 +4475,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "200000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "endMrr",
@@ -4385,6 +4492,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
             defaultValue: "6",
             min: 1,
             step: 1,
+            integer: true,
           },
           {
             key: "targetPeriodGrowthPercent",
@@ -4399,12 +4507,6 @@ export const calculatorsPart1: CalculatorDefinition[] = [
         compute(values) {
           const warnings: string[] = [];
           const months = Math.max(1, Math.floor(values.months));
-          if (values.months !== months)
-          warnings.push("Months was rounded down to a whole number.");
-  
-        if (values.startMrr <= 0)
-          warnings.push("Start MRR must be greater than 0 to compute growth rates.");
-        if (values.endMrr < 0) warnings.push("End MRR must be 0 or greater.");
   
           const netNewMrr = values.endMrr - values.startMrr;
           const periodGrowth = safeDivide(netNewMrr, values.startMrr);
@@ -4596,6 +4698,7 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "200000",
           min: 0,
+          exclusiveMin: true,
         },
           {
             key: "churnedMrr",
@@ -4622,18 +4725,13 @@ export const calculatorsPart1: CalculatorDefinition[] = [
           defaultValue: "1",
           min: 1,
           step: 1,
+          integer: true,
         },
       ],
       compute(values) {
         const warnings: string[] = [];
         const months = Math.max(1, Math.floor(values.periodMonths));
-        if (values.periodMonths !== months)
-          warnings.push("Period months was rounded down to a whole number.");
   
-          if (values.startingMrr <= 0)
-            warnings.push("Starting MRR must be greater than 0 to compute churn rate.");
-          if (values.churnedMrr < 0) warnings.push("Churned MRR must be 0 or greater.");
-          if (values.contractionMrr < 0) warnings.push("Contraction MRR must be 0 or greater.");
           if (values.churnedMrr > values.startingMrr && values.startingMrr > 0)
             warnings.push("Churned MRR is greater than starting MRR (check inputs).");
   
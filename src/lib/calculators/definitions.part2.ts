@@ -1,5 +1,6 @@
 import type { CalculatorDefinition } from "./types";
-import { safeDivide } from "./shared";
+import { add, div, mul, num, pct, ref, sub } from "./expression.ts";
+import { safeDivide } from "./shared.ts";
 
 export const calculatorsPart2: CalculatorDefinition[] = [
   {
@@ -168,6 +169,7 @@ export const calculatorsPart2: CalculatorDefinition[] = [
           };
         },
         formula: "ARR = MRR x 12",
+        formulaExpression: mul(ref("customers"), ref("arpaMonthly"), num(12)),
       assumptions: ["Assumes revenue stays stable for a year."],
       faqs: [
         {
@@ -288,6 +290,7 @@ export const calculatorsPart2: CalculatorDefinition[] = [
         };
       },
       formula: "ARR = MRR x 12; MRR = ARR / 12",
+      formulaExpression: mul(ref("mrr"), num(12)),
       assumptions: [
         "Assumes you are converting a recurring run-rate (not recognized revenue).",
         "Assumes ARR is annualized from monthly run-rate (12x) rather than a contracted total.",
@@ -601,6 +604,13 @@ export const calculatorsPart2: CalculatorDefinition[] = [
           step: 0.1,
         },
       ],
+      rules: [
+        {
+          keys: ["multipleLow", "multipleHigh"],
+          message: "Low multiple cannot exceed high multiple.",
+          isValid: (v) => v.multipleLow <= 0 || v.multipleHigh <= 0 || v.multipleLow <= v.multipleHigh,
+        },
+      ],
       compute(values) {
         const warnings: string[] = [];
         if (values.arr < 0) warnings.push("ARR must be 0 or greater.");
@@ -609,9 +619,6 @@ export const calculatorsPart2: CalculatorDefinition[] = [
         const valuation = values.arr * values.multiple;
         const low = values.multipleLow > 0 ? values.arr * values.multipleLow : null;
         const high = values.multipleHigh > 0 ? values.arr * values.multipleHigh : null;
-        if (values.multipleLow > 0 && values.multipleHigh > 0 && values.multipleLow > values.multipleHigh) {
-          warnings.push("Low multiple exceeds high multiple (swap the inputs).");
-        }
         if (!Number.isFinite(valuation)) {
           return {
             headline: {
@@ -680,6 +687,7 @@ export const calculatorsPart2: CalculatorDefinition[] = [
         };
       },
       formula: "Valuation = ARR * multiple",
+      formulaExpression: mul(ref("arr"), ref("multiple")),
       assumptions: [
         "Multiples vary widely by growth, margins, retention, and market conditions.",
         "This is a simple heuristic, not investment advice.",
@@ -787,27 +795,11 @@ export const calculatorsPart2: CalculatorDefinition[] = [
         const evAt = (arr: number, multiple: number) => arr * multiple;
         const baseEv = evAt(arrMid, mMid);
   
-        const grid: Array<{ key: string; label: string; value: number }> = [];
-        const points: Array<[string, number, number]> = [
-          ["ev_arrLow_mLow", arrLow, mLow],
-          ["ev_arrLow_mMid", arrLow, mMid],
-          ["ev_arrLow_mHigh", arrLow, mHigh],
-          ["ev_arrMid_mLow", arrMid, mLow],
-          ["ev_arrMid_mMid", arrMid, mMid],
-          ["ev_arrMid_mHigh", arrMid, mHigh],
-          ["ev_arrHigh_mLow", arrHigh, mLow],
-          ["ev_arrHigh_mMid", arrHigh, mMid],
-          ["ev_arrHigh_mHigh", arrHigh, mHigh],
-        ];
-  
-        for (const [key, arr, multiple] of points) {
-          if (multiple <= 0) continue;
-          grid.push({
-            key,
-            label: `EV @ $${arr.toFixed(0)} / ${multiple.toFixed(1)}x`,
-            value: evAt(arr, multiple),
-          });
-        }
+        const arrs = [arrLow, arrMid, arrHigh];
+        const multiples = [mLow, mMid, mHigh];
+        const grid = arrs.map((arr) =>
+          multiples.map((multiple) => (multiple > 0 ? evAt(arr, multiple) : null)),
+        );
   
         if (mLow <= 0)
           warnings.push(
@@ -823,13 +815,21 @@ export const calculatorsPart2: CalculatorDefinition[] = [
             currency: "USD",
             detail: `Base: $${values.baseArr.toFixed(0)} / ${values.baseMultiple.toFixed(1)}x`,
           },
-          secondary: grid.map((g) => ({
-            key: g.key,
-            label: g.label,
-            value: g.value,
+          matrix: {
+            title: "Enterprise value sensitivity",
+            rowLabel: "ARR",
+            columnLabel: "Multiple",
+            rows: arrs,
+            rowFormat: { format: "currency", currency: "USD" },
+            columns: multiples,
+            columnFormat: { format: "multiple", maxFractionDigits: 1 },
+            values: grid,
             format: "currency",
             currency: "USD",
-          })),
+            baseRow: 1,
+            baseColumn: 1,
+            higherIsBetter: true,
+          },
           warnings,
         };
       },
@@ -1128,6 +1128,14 @@ export const calculatorsPart2: CalculatorDefinition[] = [
       },
       formula:
         "NRR = (Starting MRR + Expansion - Contraction - Churn) / Starting MRR",
+      formulaExpression: div(
+        sub(
+          add(ref("startingMrr"), ref("expansionMrr")),
+          ref("contractionMrr"),
+          ref("churnedMrr"),
+        ),
+        ref("startingMrr"),
+      ),
       assumptions: [
         "NRR measures an existing cohort only; exclude new customers in the period.",
         "All components use the same MRR definition and time window.",
@@ -1235,7 +1243,7 @@ export const calculatorsPart2: CalculatorDefinition[] = [
           const grr = safeDivide(endingGrossMrr, values.startingMrr);
           const grossChurn = grr !== null ? 1 - grr : null;
           const monthlyEquivalentGrr =
-            grr !== null && months > 0 ? Math.pow(grr, 1 / months) : null;
+            grr !== null && months > 0 ? Math.pow(Math.max(0, grr), 1 / months) : null;
           const monthlyEquivalentChurn =
             monthlyEquivalentGrr !== null ? 1 - monthlyEquivalentGrr : null;
           const targetGrr = values.targetGrrPercent / 100;
@@ -1368,6 +1376,10 @@ export const calculatorsPart2: CalculatorDefinition[] = [
         };
       },
         formula: "GRR = (Starting MRR - Contraction - Churn) / Starting MRR",
+        formulaExpression: div(
+          sub(ref("startingMrr"), ref("contractionMrr"), ref("churnedMrr")),
+          ref("startingMrr"),
+        ),
       assumptions: [
         "GRR excludes expansion by definition.",
         "All components use the same MRR definition and time window.",
@@ -1674,7 +1686,7 @@ export const calculatorsPart2: CalculatorDefinition[] = [
               ? 1 - Math.pow(1 - Math.min(1, Math.max(0, periodChurn)), 1 / months)
               : null;
           const monthlyEquivalentGrr =
-            grr !== null && months > 0 ? Math.pow(grr, 1 / months) : null;
+            grr !== null && months > 0 ? Math.pow(Math.max(0, grr), 1 / months) : null;
   
           return {
             headline: {
@@ -1733,6 +1745,10 @@ export const calculatorsPart2: CalculatorDefinition[] = [
         },
         formula:
           "Gross revenue churn = (contraction + churned MRR) / starting MRR; Monthly-equivalent = 1 - (1 - period churn)^(1/period months)",
+        formulaExpression: div(
+          add(ref("contractionMrr"), ref("churnedMrr")),
+          ref("startingMrr"),
+        ),
       assumptions: [
         "Uses starting MRR as the denominator (standard for churn rates).",
         "Gross churn excludes expansion by definition.",
@@ -1957,6 +1973,11 @@ export const calculatorsPart2: CalculatorDefinition[] = [
         };
       },
       formula: "Net new MRR = new + expansion - contraction - churn",
+      formulaExpression: sub(
+        add(ref("newMrr"), ref("expansionMrr")),
+        ref("contractionMrr"),
+        ref("churnedMrr"),
+      ),
       assumptions: [
         "All components are measured over the same time window.",
         "New MRR excludes expansions from existing customers.",
@@ -2169,6 +2190,11 @@ export const calculatorsPart2: CalculatorDefinition[] = [
       },
       formula:
         "Ending MRR = starting MRR + new + expansion - contraction - churn; Net new MRR = new + expansion - contraction - churn",
+      formulaExpression: sub(
+        add(ref("startingMrr"), ref("newMrr"), ref("expansionMrr")),
+        ref("contractionMrr"),
+        ref("churnedMrr"),
+      ),
       assumptions: [
         "All inputs represent the same period and use the same MRR definition.",
         "This is a reporting bridge; it does not model cohorts or timing within the period.",
@@ -2354,6 +2380,10 @@ export const calculatorsPart2: CalculatorDefinition[] = [
         };
       },
       formula: "Quick ratio = (New MRR + Expansion MRR) / (Contraction MRR + Churned MRR)",
+      formulaExpression: div(
+        add(ref("newMrr"), ref("expansionMrr")),
+        add(ref("contractionMrr"), ref("churnedMrr")),
+      ),
       assumptions: [
         "All movements are measured for the same period.",
         "Use MRR movements (not billings/cash) to keep the metric consistent.",
@@ -2483,6 +2513,7 @@ export const calculatorsPart2: CalculatorDefinition[] = [
         };
       },
       formula: "Rule of 40 = Growth rate (%) + Profit margin (%)",
+      formulaExpression: add(pct("growthPercent"), pct("marginPercent")),
       assumptions: [
         "This is a heuristic and depends on stage, market, and go-to-market motion.",
         "Use consistent growth and margin definitions across time.",
@@ -2646,6 +2677,11 @@ export const calculatorsPart2: CalculatorDefinition[] = [
           };
         },
       formula: "Net new ARR = new ARR + expansion ARR - contraction ARR - churned ARR",
+      formulaExpression: sub(
+        add(ref("newArr"), ref("expansionArr")),
+        ref("contractionArr"),
+        ref("churnedArr"),
+      ),
       assumptions: [
         "All movements are measured for the same period using a consistent ARR definition.",
         "ARR is treated as recurring run-rate (not recognized revenue).",
@@ -2875,6 +2911,11 @@ export const calculatorsPart2: CalculatorDefinition[] = [
       },
       formula:
         "Ending ARR = starting ARR + new + expansion - contraction - churn; Net new ARR = new + expansion - contraction - churn",
+      formulaExpression: sub(
+        add(ref("startingArr"), ref("newArr"), ref("expansionArr")),
+        ref("contractionArr"),
+        ref("churnedArr"),
+      ),
       assumptions: [
         "All inputs represent the same period and use the same ARR definition (clean recurring run-rate).",
         "This is a reporting bridge; it does not model intra-period timing or cohort curves.",
@@ -3010,6 +3051,7 @@ export const calculatorsPart2: CalculatorDefinition[] = [
           };
         },
       formula: "Burn multiple = Net burn / Net new ARR",
+      formulaExpression: div(ref("netBurn"), ref("netNewArr")),
       assumptions: [
         "Use the same time window for burn and net new ARR (often quarterly).",
         "Net burn is net cash outflow (cash out - cash in) for the period.",
@@ -3182,6 +3224,10 @@ export const calculatorsPart2: CalculatorDefinition[] = [
       },
       formula:
         "Payback = CAC / (ARPA x gross margin); LTV ~ (ARPA x gross margin) / churn; LTV:CAC = LTV / CAC",
+      formulaExpression: div(
+        ref("cac"),
+        mul(ref("arpaMonthly"), pct("grossMarginPercent")),
+      ),
       assumptions: [
         "Uses a simple constant-churn model (lifetime ~ 1 / churn).",
         "LTV is modeled as gross profit (revenue x gross margin) to align with CAC.",
@@ -3642,6 +3688,10 @@ export const calculatorsPart2: CalculatorDefinition[] = [
         };
       },
       formula: "Ending deferred = beginning deferred + billings - recognized revenue",
+      formulaExpression: sub(
+        add(ref("beginningDeferred"), ref("billings")),
+        ref("recognizedRevenue"),
+      ),
       assumptions: [
         "Billings are invoices issued in the period (simplified).",
         "Recognized revenue reflects what was earned/delivered in the period.",
@@ -3707,6 +3757,8 @@ export const calculatorsPart2: CalculatorDefinition[] = [
           placeholder: "400000",
           prefix: "$",
           defaultValue: "400000",
+          min: 0,
+          exclusiveMin: true,
         },
           {
             key: "periodsPerYear",
@@ -3716,6 +3768,7 @@ export const calculatorsPart2: CalculatorDefinition[] = [
             defaultValue: "4",
             min: 1,
             step: 1,
+            integer: true,
           },
           {
             key: "targetMagicNumber",
@@ -3729,13 +3782,8 @@ export const calculatorsPart2: CalculatorDefinition[] = [
         ],
         compute(values) {
           const warnings: string[] = [];
-          if (values.salesMarketingSpend <= 0)
-            warnings.push("Sales & marketing spend must be greater than 0.");
   
         const periodsPerYear = Math.max(1, Math.floor(values.periodsPerYear));
-        if (values.periodsPerYear !== periodsPerYear) {
-          warnings.push("Periods per year was rounded down to a whole number.");
-        }
   
           const annualizedNetNewArr = values.netNewArr * periodsPerYear;
           const magic = safeDivide(annualizedNetNewArr, values.salesMarketingSpend);
@@ -3836,6 +3884,10 @@ export const calculatorsPart2: CalculatorDefinition[] = [
       },
       formula:
         "Magic Number ~= (Net new ARR in period * periods per year) / prior-period S&M spend",
+      formulaExpression: div(
+        mul(ref("netNewArr"), ref("periodsPerYear")),
+        ref("salesMarketingSpend"),
+      ),
       assumptions: [
         "Uses a lag: prior-period S&M spend is compared to current revenue output.",
         "Works best as a trend metric and when measured consistently (often quarterly).",
@@ -1,5 +1,6 @@
 import type { CalculatorDefinition } from "./types";
-import { safeDivide } from "./shared";
+import { div, num, pct, pow, ref, sub } from "./expression.ts";
+import { safeDivide } from "./shared.ts";
 
 export const calculatorsPart3: CalculatorDefinition[] = [
   {
@@ -113,6 +114,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
         };
       },
       formula: "Customer lifetime (months) ~= 1 / monthly churn rate",
+      formulaExpression: div(num(1), pct("monthlyChurnPercent")),
       assumptions: [
         "Assumes churn is roughly constant over time (often untrue early vs late).",
         "Useful as a planning shortcut; cohort curves are more accurate.",
@@ -214,7 +216,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           const revenueGap =
             values.currentRevenue > 0 ? breakevenRevenue - values.currentRevenue : null;
           const percentToBreakeven =
-            values.currentRevenue > 0 ? values.currentRevenue / breakevenRevenue : null;
+            values.currentRevenue > 0 ? safeDivide(values.currentRevenue, breakevenRevenue) : null;
           return {
             headline: {
               key: "breakeven",
@@ -260,7 +262,12 @@ export const calculatorsPart3: CalculatorDefinition[] = [
                 value: percentToBreakeven ?? 0,
                 format: "percent",
                 maxFractionDigits: 1,
-                detail: percentToBreakeven === null ? "Add current revenue" : "Current / break-even",
+                detail:
+                  percentToBreakeven !== null
+                    ? "Current / break-even"
+                    : values.currentRevenue > 0
+                      ? "No fixed costs to cover"
+                      : "Add current revenue",
               },
             ],
             breakdown: [
@@ -290,6 +297,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           };
         },
       formula: "Break-even Revenue = Fixed Costs / Gross Margin",
+      formulaExpression: div(ref("fixedCosts"), pct("grossMarginPercent")),
       assumptions: ["Gross margin is expressed as a percent of revenue."],
       faqs: [
         {
@@ -313,7 +321,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
       slug: "npv-calculator",
       title: "NPV Calculator",
       description:
-        "Calculate net present value (NPV) from initial investment, annual cash flow, years, and discount rate.",
+        "Calculate net present value (NPV) from initial investment, yearly cash flows, and discount rate.",
       category: "finance",
       guideSlug: "npv-guide",
       relatedGlossarySlugs: ["npv", "discount-rate", "marr"],
@@ -324,7 +332,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
         ],
         steps: [
           "Enter the upfront investment (time 0 cash outflow).",
-          "Enter annual cash flow, the number of years, and a discount rate (required return).",
+          "Enter the cash flow for each year (add years or paste a column for longer projects) and a discount rate (required return).",
           "Review NPV and the present value (PV) of cash flows.",
           "Use sensitivity: the same project can flip from positive to negative as the discount rate changes.",
         ],
@@ -349,19 +357,21 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           min: 0,
         },
         {
-          key: "annualCashFlow",
-          label: "Annual cash flow",
+          key: "cashFlows",
+          kind: "series",
+          label: "Annual cash flows",
+          help: "End-of-year cash flows after the upfront investment.",
+          rowLabel: "Year",
           placeholder: "30000",
           prefix: "$",
-          defaultValue: "30000",
-        },
-        {
-          key: "years",
-          label: "Years",
-          placeholder: "5",
-          defaultValue: "5",
-          min: 1,
-          step: 1,
+          minRows: 1,
+          maxRows: 50,
+          defaultValue: ["30000", "30000", "30000", "30000", "30000"],
+
+          legacyParams: {
+            value: { key: "annualCashFlow", defaultValue: "30000" },
+            count: { key: "years", defaultValue: "5" },
+          },
         },
           {
             key: "discountRatePercent",
@@ -374,26 +384,26 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           {
             key: "targetNpv",
             label: "Target NPV (optional)",
-            help: "Used to estimate required annual cash flow.",
+            help: "Used to estimate the level annual cash flow required.",
             placeholder: "0",
             prefix: "$",
             defaultValue: "0",
             min: 0,
           },
         ],
-        compute(values) {
+        compute(values, series) {
           const warnings: string[] = [];
           const r = values.discountRatePercent / 100;
-          if (values.years <= 0) warnings.push("Years must be greater than 0.");
+          const cashFlows = series.cashFlows ?? [];
+          const years = cashFlows.length;
+          if (years <= 0) warnings.push("Add at least one year of cash flow.");
     
           let pv = 0;
           let annuityFactor = 0;
-          if (r === 0) {
-            annuityFactor = values.years;
-            pv = values.annualCashFlow * annuityFactor;
-          } else {
-            annuityFactor = (1 - Math.pow(1 + r, -values.years)) / r;
-            pv = values.annualCashFlow * annuityFactor;
+          for (let t = 1; t <= years; t++) {
+            const discountFactor = 1 / Math.pow(1 + r, t);
+            annuityFactor += discountFactor;
+            pv += cashFlows[t - 1] * discountFactor;
           }
     
           const npv = pv - values.initialInvestment;
@@ -433,11 +443,11 @@ export const calculatorsPart3: CalculatorDefinition[] = [
                 value: annuityFactor,
                 format: "number",
                 maxFractionDigits: 3,
-                detail: "PV per $1 annual cash flow",
+                detail: `PV per $1 of annual cash flow over ${years} years`,
               },
               {
                 key: "requiredCashFlow",
-                label: "Required annual cash flow for target NPV",
+                label: "Required level annual cash flow for target NPV",
                 value: requiredCashFlow ?? 0,
                 format: "currency",
                 currency: "USD",
@@ -451,9 +461,9 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           };
         },
       formula:
-        "NPV = sum_{t=1..n} cash_flow_t / (1 + r)^t - initial investment (annuity PV for constant cash flow)",
+        "NPV = sum_{t=1..n} cash_flow_t / (1 + r)^t - initial investment",
       assumptions: [
-        "Assumes constant annual cash flow (real projects vary).",
+        "Cash flows occur at the end of each year; the upfront investment is at t=0.",
         "Discount rate reflects required return (hurdle rate / MARR).",
       ],
       faqs: [
@@ -485,8 +495,8 @@ export const calculatorsPart3: CalculatorDefinition[] = [
         ],
         steps: [
           "Enter the upfront investment (cash outflow).",
-          "Enter expected annual cash flows for years 1-5.",
-          "Optionally include a terminal value in year 5.",
+          "Enter expected annual cash flows, adding or removing years as needed (you can paste a column from a spreadsheet).",
+          "Optionally include a terminal value in the final year.",
           "Calculate IRR and compare to your required return (MARR).",
         ],
         pitfalls: [
@@ -505,43 +515,30 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           min: 0,
         },
         {
-          key: "cashFlow1",
-          label: "Cash flow (year 1)",
+          key: "cashFlows",
+          kind: "series",
+          label: "Annual cash flows",
+          help: "End-of-year cash flows after the upfront investment.",
+          rowLabel: "Year",
           placeholder: "25000",
           prefix: "$",
-          defaultValue: "25000",
-        },
-        {
-          key: "cashFlow2",
-          label: "Cash flow (year 2)",
-          placeholder: "30000",
-          prefix: "$",
-          defaultValue: "30000",
-        },
-        {
-          key: "cashFlow3",
-          label: "Cash flow (year 3)",
-          placeholder: "35000",
-          prefix: "$",
-          defaultValue: "35000",
-        },
-        {
-          key: "cashFlow4",
-          label: "Cash flow (year 4)",
-          placeholder: "40000",
-          prefix: "$",
-          defaultValue: "40000",
-        },
-        {
-          key: "cashFlow5",
-          label: "Cash flow (year 5)",
-          placeholder: "45000",
-          prefix: "$",
-          defaultValue: "45000",
+          minRows: 1,
+          maxRows: 50,
+          defaultValue: ["25000", "30000", "35000", "40000", "45000"],
+
+          legacyParams: {
+            rows: [
+              { key: "cashFlow1", defaultValue: "25000" },
+              { key: "cashFlow2", defaultValue: "30000" },
+              { key: "cashFlow3", defaultValue: "35000" },
+              { key: "cashFlow4", defaultValue: "40000" },
+              { key: "cashFlow5", defaultValue: "45000" },
+            ],
+          },
         },
         {
           key: "terminalValue",
-          label: "Terminal value (optional, year 5)",
+          label: "Terminal value (optional, final year)",
           placeholder: "0",
           prefix: "$",
           defaultValue: "0",
@@ -556,37 +553,21 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           min: 0,
         },
       ],
-      compute(values) {
+      compute(values, series) {
         const warnings: string[] = [];
         const r = values.discountRatePercent / 100;
-          const cashFlows = [
-            -values.initialInvestment,
-            values.cashFlow1,
-            values.cashFlow2,
-            values.cashFlow3,
-            values.cashFlow4,
-            values.cashFlow5 + values.terminalValue,
-          ];
-          const totalInflows =
-            values.cashFlow1 +
-            values.cashFlow2 +
-            values.cashFlow3 +
-            values.cashFlow4 +
-            values.cashFlow5 +
-            values.terminalValue;
+          const inflows = (series.cashFlows ?? []).map((flow, i, all) =>
+            i === all.length - 1 ? flow + values.terminalValue : flow,
+          );
+          if (inflows.length === 0) warnings.push("Add at least one year of cash flow.");
+          const cashFlows = [-values.initialInvestment, ...inflows];
+          const totalInflows = inflows.reduce((sum, flow) => sum + flow, 0);
           const netCash = totalInflows - values.initialInvestment;
           const cashMultiple =
             values.initialInvestment > 0 ? totalInflows / values.initialInvestment : null;
           let simplePaybackYears: number | null = null;
           if (values.initialInvestment > 0) {
             let cumulative = 0;
-            const inflows = [
-              values.cashFlow1,
-              values.cashFlow2,
-              values.cashFlow3,
-              values.cashFlow4,
-              values.cashFlow5 + values.terminalValue,
-            ];
             for (let i = 0; i < inflows.length; i++) {
               const flow = inflows[i];
               const next = cumulative + flow;
@@ -729,7 +710,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
                 maxFractionDigits: 1,
                 detail:
                   simplePaybackYears === null
-                    ? "Not reached in 5 years"
+                    ? `Not reached in ${inflows.length} years`
                     : "Undiscounted payback",
               },
             ],
@@ -758,7 +739,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
       slug: "discounted-payback-period-calculator",
       title: "Discounted Payback Period Calculator",
       description:
-        "Estimate discounted payback period using a discount rate (and compare to simple payback).",
+        "Estimate discounted payback period from yearly cash flows and a discount rate (and compare to simple payback).",
       category: "finance",
       guideSlug: "discounted-payback-period-guide",
       relatedGlossarySlugs: ["payback-period", "discount-rate", "npv", "marr"],
@@ -769,7 +750,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
         ],
         steps: [
           "Enter the initial investment (upfront cash outflow).",
-          "Enter annual cash flow, a discount rate, and a max evaluation horizon.",
+          "Enter the cash flow for each year you want to evaluate (the number of years is the horizon) and a discount rate.",
           "Review discounted payback vs simple payback (undiscounted).",
           "If discounted payback is not reached, the project may still have positive NPV depending on the horizon and discount rate.",
         ],
@@ -794,19 +775,31 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           min: 0,
         },
         {
-          key: "annualCashFlow",
-          label: "Annual cash flow",
+          key: "cashFlows",
+          kind: "series",
+          label: "Annual cash flows",
+          help: "End-of-year cash flows; the number of years sets the evaluation horizon.",
+          rowLabel: "Year",
           placeholder: "30000",
           prefix: "$",
-          defaultValue: "30000",
-        },
-        {
-          key: "years",
-          label: "Max years to evaluate",
-          placeholder: "10",
-          defaultValue: "10",
-          min: 1,
-          step: 1,
+          minRows: 1,
+          maxRows: 50,
+          defaultValue: [
+            "30000",
+            "30000",
+            "30000",
+            "30000",
+            "30000",
+            "30000",
+            "30000",
+            "30000",
+            "30000",
+            "30000",
+          ],
+          legacyParams: {
+            value: { key: "annualCashFlow", defaultValue: "30000" },
+            count: { key: "years", defaultValue: "10" },
+          },
         },
         {
           key: "discountRatePercent",
@@ -817,24 +810,33 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           min: 0,
         },
       ],
-      compute(values) {
+      compute(values, series) {
         const warnings: string[] = [];
         const r = values.discountRatePercent / 100;
-        const years = Math.max(1, Math.floor(values.years));
-        if (values.years !== years) warnings.push("Years was rounded down to a whole number.");
+        const cashFlows = series.cashFlows ?? [];
+        const years = cashFlows.length;
+        if (years === 0) warnings.push("Add at least one year of cash flow.");
   
-        if (values.annualCashFlow <= 0)
-          warnings.push("Annual cash flow must be greater than 0.");
+        if (cashFlows.every((flow) => flow <= 0))
+          warnings.push("At least one annual cash flow must be greater than 0.");
   
-        const simplePaybackYears = safeDivide(
-          values.initialInvestment,
-          values.annualCashFlow,
-        );
+        let simplePaybackYears: number | null = null;
+        let undiscounted = 0;
+        for (let year = 1; year <= years; year++) {
+          const flow = cashFlows[year - 1];
+          const next = undiscounted + flow;
+          if (next >= values.initialInvestment && flow > 0) {
+            simplePaybackYears =
+              year - 1 + (values.initialInvestment - undiscounted) / flow;
+            break;
+          }
+          undiscounted = next;
+        }
   
-          const pvTotal =
-            r === 0
-              ? values.annualCashFlow * years
-              : values.annualCashFlow * ((1 - Math.pow(1 + r, -years)) / r);
+          let pvTotal = 0;
+          for (let year = 1; year <= years; year++) {
+            pvTotal += cashFlows[year - 1] / Math.pow(1 + r, year);
+          }
           const npv = pvTotal - values.initialInvestment;
           const pvCoverage =
             values.initialInvestment > 0 ? pvTotal / values.initialInvestment : null;
@@ -842,7 +844,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           let cumulative = 0;
           let paybackYears: number | null = null;
         for (let year = 1; year <= years; year++) {
-          const pv = values.annualCashFlow / Math.pow(1 + r, year);
+          const pv = cashFlows[year - 1] / Math.pow(1 + r, year);
           const next = cumulative + pv;
           if (next >= values.initialInvestment && pv > 0) {
             const remaining = values.initialInvestment - cumulative;
@@ -873,6 +875,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
                 value: (simplePaybackYears ?? 0) * 12,
                 format: "months",
                 maxFractionDigits: 1,
+                detail: simplePaybackYears === null ? "Not reached in horizon" : undefined,
               },
               {
                 key: "discountedPaybackYears",
@@ -916,7 +919,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
         "Discounted payback is the earliest time where cumulative discounted cash flows >= initial investment",
       assumptions: [
         "Cash flows occur at the end of each year (discounted by year index).",
-        "Uses a constant annual cash flow for simplicity.",
+        "Simple payback is measured on the same yearly cash flows without discounting.",
       ],
       faqs: [
         {
@@ -986,6 +989,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "100000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "newMrrPerMonth",
@@ -1030,6 +1034,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           defaultValue: "12",
           min: 1,
           step: 1,
+          integer: true,
         },
       ],
       compute(values) {
@@ -1040,9 +1045,6 @@ export const calculatorsPart3: CalculatorDefinition[] = [
         const contractionRate = values.contractionRatePercent / 100;
         const churnRate = values.churnRatePercent / 100;
   
-        if (values.startingMrr <= 0) warnings.push("Starting MRR must be greater than 0.");
-        if (values.months !== months)
-          warnings.push("Months was rounded down to a whole number.");
         if (values.churnRatePercent > 100 || values.contractionRatePercent > 100)
           warnings.push("Churn/contraction rates above 100% are not realistic.");
   
@@ -1057,6 +1059,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           let mrrAt12 = 0;
   
         const baseMrr = mrr;
+        const mrrByMonth = [mrr];
   
           for (let month = 1; month <= months; month++) {
             sumMrr += mrr;
@@ -1074,6 +1077,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           if (month === 3) mrrAt3 = mrr;
           if (month === 6) mrrAt6 = mrr;
           if (month === 12) mrrAt12 = mrr;
+          mrrByMonth.push(mrr);
           if (next < 0) warnings.push("Your assumptions drive MRR below $0; the forecast is floored at $0.");
         }
   
@@ -1277,6 +1281,14 @@ export const calculatorsPart3: CalculatorDefinition[] = [
               currency: "USD",
             },
           ],
+          chart: {
+            title: "MRR by month",
+            xLabel: "Month",
+            x: mrrByMonth.map((_, month) => month),
+            format: "currency",
+            currency: "USD",
+            lines: [{ key: "mrr", label: "MRR", values: mrrByMonth }],
+          },
           warnings,
         };
       },
@@ -1359,6 +1371,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           defaultValue: "80",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
         {
           key: "monthlyOperatingExpenses",
@@ -1383,6 +1396,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
             defaultValue: "24",
             min: 1,
             step: 1,
+            integer: true,
           },
           {
             key: "targetRunwayMonths",
@@ -1397,12 +1411,8 @@ export const calculatorsPart3: CalculatorDefinition[] = [
         compute(values) {
           const warnings: string[] = [];
           const months = Math.max(1, Math.floor(values.monthsToSimulate));
-          if (values.monthsToSimulate !== months)
-          warnings.push("Months to simulate was rounded down to a whole number.");
   
         const grossMargin = values.grossMarginPercent / 100;
-        if (grossMargin <= 0)
-          warnings.push("Gross margin must be greater than 0 to compute break-even revenue.");
   
         const currentGrossProfit = values.monthlyRevenue * grossMargin;
         const currentNetBurn = values.monthlyOperatingExpenses - currentGrossProfit;
@@ -1612,6 +1622,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "60000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "creativeAgency",
@@ -1642,8 +1653,9 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           label: "New paying customers acquired",
           placeholder: "120",
           defaultValue: "120",
-          min: 0,
+          min: 1,
           step: 1,
+          integer: true,
         },
         {
           key: "arpaMonthly",
@@ -1653,6 +1665,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "800",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "grossMarginPercent",
@@ -1667,9 +1680,6 @@ export const calculatorsPart3: CalculatorDefinition[] = [
       compute(values) {
         const warnings: string[] = [];
         const customers = Math.floor(values.newCustomers);
-        if (values.newCustomers !== customers)
-          warnings.push("New customers was rounded down to a whole number.");
-        if (customers <= 0) warnings.push("New customers must be greater than 0.");
   
         const variableSpend = values.adSpend + values.creativeAgency;
         const fixedSpend = values.salesMarketingSalaries + values.toolsOverhead;
@@ -1844,6 +1854,8 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           defaultValue: "2",
           min: 0,
           step: 0.1,
+          max: 100,
+          exclusiveMax: true,
         },
         {
           key: "monthlyExpansionPercent",
@@ -1877,19 +1889,12 @@ export const calculatorsPart3: CalculatorDefinition[] = [
       compute(values) {
         const warnings: string[] = [];
         const months = Math.max(1, Math.floor(values.months));
-        if (values.months !== months)
-          warnings.push("Months was rounded down to a whole number.");
   
         const grossMargin = values.grossMarginPercent / 100;
         const churn = values.monthlyChurnPercent / 100;
         const expansion = values.monthlyExpansionPercent / 100;
         const annualDiscountRate = values.annualDiscountRatePercent / 100;
   
-        if (values.arpaMonthly <= 0) warnings.push("ARPA must be greater than 0.");
-        if (grossMargin <= 0) warnings.push("Gross margin must be greater than 0%.");
-        if (churn < 0 || churn >= 1)
-          warnings.push("Monthly churn must be between 0% and 99.9%.");
-  
         const retention = 1 - churn;
         const monthlyDiscount = annualDiscountRate > 0 ? Math.pow(1 + annualDiscountRate, 1 / 12) - 1 : 0;
   
@@ -1897,6 +1902,8 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           let discounted = 0;
           let month12GrossProfit = 0;
           let retentionMonth12 = 0;
+          const cumulativeUndiscounted: number[] = [0];
+          const cumulativeDiscounted: number[] = [0];
     
           for (let t = 1; t <= months; t++) {
             const expectedRevenue =
@@ -1907,6 +1914,8 @@ export const calculatorsPart3: CalculatorDefinition[] = [
             discounted += gp / df;
             if (t === 12) month12GrossProfit = gp;
             if (t === 12) retentionMonth12 = Math.pow(retention, t);
+            cumulativeUndiscounted.push(undiscounted);
+            cumulativeDiscounted.push(discounted);
           }
     
           const retentionAtHorizon = Math.pow(retention, months);
@@ -2016,6 +2025,25 @@ export const calculatorsPart3: CalculatorDefinition[] = [
               maxFractionDigits: 1,
             },
           ],
+          chart: {
+            title: "Cumulative gross profit per customer",
+            xLabel: "Month",
+            x: cumulativeUndiscounted.map((_, t) => t),
+            format: "currency",
+            currency: "USD",
+            lines: [
+              {
+                key: "undiscounted",
+                label: "Undiscounted LTV",
+                values: cumulativeUndiscounted,
+              },
+              {
+                key: "discounted",
+                label: "Discounted LTV",
+                values: cumulativeDiscounted,
+              },
+            ],
+          },
           warnings,
         };
       },
@@ -2145,6 +2173,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           defaultValue: "40",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
       ],
       compute(values) {
@@ -2191,9 +2220,6 @@ export const calculatorsPart3: CalculatorDefinition[] = [
             "Incremental conversions are negative (treatment underperformed control). Verify test setup and sample sizes.",
           );
         }
-        if (values.adSpend <= 0) {
-          warnings.push("Ad spend must be greater than 0 to compute incremental ROAS.");
-        }
   
         return {
           headline: {
@@ -2375,13 +2401,12 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           defaultValue: "1200",
           min: 0,
           step: 1,
+          integer: true,
         },
       ],
       compute(values) {
         const warnings: string[] = [];
         const unitsSold = Math.floor(values.unitsSold);
-        if (values.unitsSold !== unitsSold)
-          warnings.push("Units sold was rounded down to a whole number.");
   
         const contributionPerUnit = values.pricePerUnit - values.variableCostPerUnit;
         if (contributionPerUnit <= 0) {
@@ -2592,6 +2617,8 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           defaultValue: "1.5",
           min: 0,
           step: 0.1,
+          max: 100,
+          exclusiveMax: true,
         },
         {
           key: "horizonMonths",
@@ -2600,6 +2627,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           defaultValue: "12",
           min: 1,
           step: 1,
+          integer: true,
         },
         {
           key: "immediateChurnPercent",
@@ -2610,6 +2638,8 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           defaultValue: "0",
           min: 0,
           step: 0.1,
+          max: 100,
+          exclusiveMax: true,
         },
         {
           key: "ongoingChurnIncreasePercent",
@@ -2620,27 +2650,19 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           defaultValue: "0",
           min: 0,
           step: 0.1,
+          max: 100,
+          exclusiveMax: true,
         },
       ],
       compute(values) {
         const warnings: string[] = [];
         const horizon = Math.max(1, Math.floor(values.horizonMonths));
-        if (values.horizonMonths !== horizon)
-          warnings.push("Horizon was rounded down to a whole number.");
   
         const u = values.priceIncreasePercent / 100;
         const baselineChurn = values.baselineMonthlyChurnPercent / 100;
         const shock = values.immediateChurnPercent / 100;
         const churnIncrease = values.ongoingChurnIncreasePercent / 100;
   
-        if (values.startingMrr <= 0) warnings.push("Starting MRR must be greater than 0.");
-        if (baselineChurn < 0 || baselineChurn >= 1)
-          warnings.push("Baseline churn must be between 0% and 99.9%.");
-        if (shock < 0 || shock >= 1)
-          warnings.push("Immediate churn must be between 0% and 99.9%.");
-        if (churnIncrease < 0 || churnIncrease >= 1)
-          warnings.push("Ongoing churn increase must be between 0% and 99.9%.");
-  
         const starting = Math.max(0, values.startingMrr);
   
         const mrrNoChange = (month: number) =>
@@ -2829,6 +2851,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "50000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "currentRevenue",
@@ -2838,6 +2861,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "200000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "contributionMarginPercent",
@@ -2874,9 +2898,6 @@ export const calculatorsPart3: CalculatorDefinition[] = [
         const margin = values.contributionMarginPercent / 100;
         const b = values.diminishingReturnsExponent;
   
-        if (spend0 <= 0) warnings.push("Current spend must be greater than 0.");
-        if (rev0 <= 0) warnings.push("Current revenue must be greater than 0.");
-        if (margin <= 0) warnings.push("Contribution margin must be greater than 0% to optimize profit.");
         if (b <= 0 || b >= 1)
           warnings.push("Exponent should be between 0 and 1 (exclusive) for diminishing returns.");
   
@@ -3080,11 +3101,11 @@ export const calculatorsPart3: CalculatorDefinition[] = [
       seo: {
         intro: [
           "A DCF (discounted cash flow) values a business by discounting expected future cash flows back to today and adding a terminal value for cash flows beyond the forecast period.",
-          "This calculator uses a simple constant growth forecast and either a perpetuity (terminal growth) terminal value.",
+          "This calculator uses a simple constant growth forecast (or your own year-by-year FCF) and a perpetuity (terminal growth) terminal value.",
         ],
         steps: [
           "Enter current annual free cash flow (FCF).",
-          "Set forecast years and annual growth during the forecast period.",
+          "Set forecast years and annual growth during the forecast period, or enter explicit FCF for each forecast year.",
           "Set a discount rate (often WACC as a proxy).",
           "Set terminal growth (must be lower than discount rate).",
         ],
@@ -3136,6 +3157,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           defaultValue: "12",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
         {
           key: "terminalGrowthPercent",
@@ -3146,11 +3168,27 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           min: -50,
           step: 0.1,
         },
+        {
+          key: "forecastFcf",
+          kind: "series",
+          label: "Explicit forecast FCF (optional)",
+          help: "When filled, replaces forecast years and growth with your own yearly FCF.",
+          rowLabel: "Year",
+          placeholder: "5750000",
+          prefix: "$",
+          minRows: 0,
+          maxRows: 30,
+          defaultValue: [],
+        },
       ],
-      compute(values) {
+      compute(values, series) {
         const warnings: string[] = [];
-        const years = Math.max(1, Math.floor(values.forecastYears));
-        if (values.forecastYears !== years)
+        const explicitFcf = series.forecastFcf ?? [];
+        const hasExplicitFcf = explicitFcf.length > 0;
+        const years = hasExplicitFcf
+          ? explicitFcf.length
+          : Math.max(1, Math.floor(values.forecastYears));
+        if (!hasExplicitFcf && values.forecastYears !== years)
           warnings.push("Forecast years was rounded down to a whole number.");
   
         const g = values.forecastGrowthPercent / 100;
@@ -3158,14 +3196,13 @@ export const calculatorsPart3: CalculatorDefinition[] = [
         const tg = values.terminalGrowthPercent / 100;
   
         if (values.annualFcf <= 0) warnings.push("FCF should be greater than 0 for valuation.");
-        if (r <= 0) warnings.push("Discount rate must be greater than 0%.");
         if (tg >= r) warnings.push("Terminal growth should be less than the discount rate.");
         if (years < 3) warnings.push("Short forecast horizons can over-weight terminal value.");
   
         let pvForecast = 0;
         let fcf = values.annualFcf;
         for (let t = 1; t <= years; t++) {
-          fcf = fcf * (1 + g);
+          fcf = hasExplicitFcf ? explicitFcf[t - 1] : fcf * (1 + g);
           const pv = fcf / Math.pow(1 + r, t);
           pvForecast += pv;
         }
@@ -3311,7 +3348,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
       formula:
         "EV = sum (FCF_t / (1+r)^t) + (FCF_(n+1) / (r - g_terminal)) / (1+r)^n",
       assumptions: [
-        "FCF grows at a constant rate during the forecast period.",
+        "FCF grows at a constant rate during the forecast period unless explicit yearly FCF is entered.",
         "Terminal value uses a perpetuity growth model.",
         "Discount rate is constant and represents risk (e.g., WACC as a proxy).",
       ],
@@ -3372,6 +3409,8 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           defaultValue: "2",
           min: 0,
           step: 0.1,
+          max: 100,
+          exclusiveMax: true,
         },
         {
           key: "arpaMonthly",
@@ -3402,17 +3441,11 @@ export const calculatorsPart3: CalculatorDefinition[] = [
       compute(values) {
         const warnings: string[] = [];
         const months = Math.max(1, Math.floor(values.months));
-        if (values.months !== months)
-          warnings.push("Months was rounded down to a whole number.");
   
         const churn = values.monthlyLogoChurnPercent / 100;
-        if (churn < 0 || churn >= 1)
-          warnings.push("Monthly churn must be between 0% and 99.9%.");
   
         const retention = 1 - churn;
         const margin = values.grossMarginPercent / 100;
-        if (values.arpaMonthly <= 0) warnings.push("ARPA must be greater than 0.");
-        if (margin <= 0) warnings.push("Gross margin must be greater than 0%.");
   
         const retainedAt = (m: number) => Math.pow(retention, m);
   
@@ -3439,6 +3472,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
               ? Math.log(0.5) / Math.log(retention)
               : null;
           const averageRetention = expectedActiveMonths / months;
+          const curveMonths = Array.from({ length: months + 1 }, (_, m) => m);
   
         return {
           headline: {
@@ -3549,10 +3583,28 @@ export const calculatorsPart3: CalculatorDefinition[] = [
               maxFractionDigits: 1,
             },
           ],
+          chart: {
+            title: "Logo retention curve",
+            xLabel: "Month",
+            x: curveMonths,
+            format: "percent",
+            maxFractionDigits: 0,
+            lines: [
+              {
+                key: "retention",
+                label: "Customers retained",
+                values: curveMonths.map(retainedAt),
+              },
+            ],
+          },
           warnings,
         };
       },
       formula: "Retention after m months = (1 - monthly churn)^m",
+      formulaExpression: pow(
+        sub(num(1), pct("monthlyLogoChurnPercent")),
+        num(12),
+      ),
       assumptions: [
         "Uses constant monthly logo churn (simplification).",
         "ARPA and gross margin are constant over the horizon.",
@@ -3611,6 +3663,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "3000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "contributionMarginPercent",
@@ -3645,8 +3698,6 @@ export const calculatorsPart3: CalculatorDefinition[] = [
       compute(values) {
         const warnings: string[] = [];
         const margin = values.contributionMarginPercent / 100;
-        if (values.ltvRevenue <= 0) warnings.push("Revenue LTV must be greater than 0.");
-        if (margin <= 0) warnings.push("Contribution margin must be greater than 0%.");
   
         const grossProfitLtv = values.ltvRevenue * margin;
         const breakEvenCpa = grossProfitLtv;
@@ -3791,6 +3842,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "100000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "annualCashFlow",
@@ -3798,6 +3850,8 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           placeholder: "30000",
           prefix: "$",
           defaultValue: "30000",
+          min: 0,
+          exclusiveMin: true,
         },
         {
           key: "years",
@@ -3806,6 +3860,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           defaultValue: "10",
           min: 1,
           step: 1,
+          integer: true,
         },
         {
           key: "discountRatePercent",
@@ -3820,11 +3875,8 @@ export const calculatorsPart3: CalculatorDefinition[] = [
       compute(values) {
         const warnings: string[] = [];
         const years = Math.max(1, Math.floor(values.years));
-        if (values.years !== years) warnings.push("Years was rounded down to a whole number.");
   
         const r = values.discountRatePercent / 100;
-        if (values.annualCashFlow <= 0) warnings.push("Annual cash flow must be greater than 0.");
-        if (values.initialInvestment <= 0) warnings.push("Initial investment must be greater than 0.");
   
         const npvAt = (rate: number) => {
           let sum = -values.initialInvestment;
@@ -4093,10 +4145,6 @@ export const calculatorsPart3: CalculatorDefinition[] = [
       compute(values) {
         const warnings: string[] = [];
         const years = Math.max(1, Math.floor(values.years));
-        if (values.years !== years) warnings.push("Years was rounded down to a whole number.");
-        if (values.annualCashFlow <= 0) warnings.push("Annual cash flow must be greater than 0.");
-        if (values.initialInvestment <= 0)
-          warnings.push("Initial investment must be greater than 0 to compute PI.");
   
         const r = values.discountRatePercent / 100;
         const pvInflows = (() => {
@@ -4472,6 +4520,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "100000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "targetMer",
@@ -4514,11 +4563,8 @@ export const calculatorsPart3: CalculatorDefinition[] = [
         ],
         compute(values) {
           const warnings: string[] = [];
-          if (values.totalMarketingSpend <= 0)
-            warnings.push("Marketing spend must be greater than 0.");
   
         const mer = safeDivide(values.totalRevenue, values.totalMarketingSpend) ?? 0;
-        if (values.targetMer < 0) warnings.push("Target MER must be 0 or greater.");
         const maxSpendAtTargetMer =
           values.targetMer > 0 ? values.totalRevenue / values.targetMer : null;
   
@@ -4688,6 +4734,7 @@ export const calculatorsPart3: CalculatorDefinition[] = [
       },
       formula:
         "MER = revenue / marketing spend; Profit ~ revenuexmargin - spend; Break-even MER = 1 / margin",
+      formulaExpression: div(ref("totalRevenue"), ref("totalMarketingSpend")),
       assumptions: [
         "Uses contribution margin as a simplified proxy for gross profit after variable costs.",
         "Revenue and spend are measured over the same period and on the same attribution basis.",
@@ -1,5 +1,6 @@
 import type { CalculatorDefinition } from "./types";
-import { safeDivide } from "./shared";
+import { add, div, mul, pct, ref, sub } from "./expression.ts";
+import { safeDivide } from "./shared.ts";
 
 export const calculatorsPart4: CalculatorDefinition[] = [
   {
@@ -43,6 +44,8 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "6",
           min: 0,
           step: 0.1,
+          max: 100,
+          exclusiveMax: true,
         },
         {
           key: "earlyMonths",
@@ -51,6 +54,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "3",
           min: 1,
           step: 1,
+          integer: true,
         },
         {
           key: "steadyMonthlyChurnPercent",
@@ -60,6 +64,8 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "1",
           min: 0,
           step: 0.1,
+          max: 100,
+          exclusiveMax: true,
         },
         {
           key: "arpaMonthly",
@@ -68,6 +74,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "800",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "grossMarginPercent",
@@ -77,6 +84,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "80",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
         {
           key: "months",
@@ -85,27 +93,18 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "36",
           min: 1,
           step: 1,
+          integer: true,
         },
       ],
       compute(values) {
         const warnings: string[] = [];
         const horizon = Math.max(1, Math.floor(values.months));
         const earlyMonths = Math.max(1, Math.floor(values.earlyMonths));
-        if (values.months !== horizon)
-          warnings.push("Months was rounded down to a whole number.");
-        if (values.earlyMonths !== earlyMonths)
-          warnings.push("Early phase months was rounded down to a whole number.");
   
         const churnEarly = values.earlyMonthlyChurnPercent / 100;
         const churnSteady = values.steadyMonthlyChurnPercent / 100;
-        if (churnEarly < 0 || churnEarly >= 1)
-          warnings.push("Early churn must be between 0% and 99.9%.");
-        if (churnSteady < 0 || churnSteady >= 1)
-          warnings.push("Steady churn must be between 0% and 99.9%.");
   
         const margin = values.grossMarginPercent / 100;
-        if (values.arpaMonthly <= 0) warnings.push("ARPA must be greater than 0.");
-        if (margin <= 0) warnings.push("Gross margin must be greater than 0%.");
   
         const retentionAt = (m: number) => {
           const early = Math.min(m, earlyMonths);
@@ -134,6 +133,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
     
           const retentionAfterEarly = retentionAt(earlyMonths);
           const averageRetention = expectedActiveMonths / horizon;
+          const curveMonths = Array.from({ length: horizon + 1 }, (_, m) => m);
           let halfLifeMonths: number | null = null;
           for (let m = 1; m <= horizon; m++) {
             if (retentionAt(m) <= 0.5) {
@@ -250,6 +250,20 @@ export const calculatorsPart4: CalculatorDefinition[] = [
               maxFractionDigits: 2,
             },
           ],
+          chart: {
+            title: "Two-stage retention curve",
+            xLabel: "Month",
+            x: curveMonths,
+            format: "percent",
+            maxFractionDigits: 0,
+            lines: [
+              {
+                key: "retention",
+                label: "Customers retained",
+                values: curveMonths.map(retentionAt),
+              },
+            ],
+          },
           warnings,
         };
       },
@@ -314,6 +328,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "100000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "monthlyExpansionPercent",
@@ -323,6 +338,8 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "2",
           min: 0,
           step: 0.1,
+          max: 100,
+          exclusiveMax: true,
         },
         {
           key: "monthlyContractionPercent",
@@ -332,6 +349,8 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "0.5",
           min: 0,
           step: 0.1,
+          max: 100,
+          exclusiveMax: true,
         },
         {
           key: "monthlyChurnPercent",
@@ -341,6 +360,8 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "1.5",
           min: 0,
           step: 0.1,
+          max: 100,
+          exclusiveMax: true,
         },
         {
           key: "months",
@@ -349,21 +370,16 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "24",
           min: 1,
           step: 1,
+          integer: true,
         },
       ],
       compute(values) {
         const warnings: string[] = [];
         const months = Math.max(1, Math.floor(values.months));
-        if (values.months !== months)
-          warnings.push("Months was rounded down to a whole number.");
   
         const e = values.monthlyExpansionPercent / 100;
         const c = values.monthlyContractionPercent / 100;
         const ch = values.monthlyChurnPercent / 100;
-        if (values.startingMrr <= 0) warnings.push("Starting MRR must be greater than 0.");
-        if (e < 0 || e >= 1) warnings.push("Expansion rate must be between 0% and 99.9%.");
-        if (c < 0 || c >= 1) warnings.push("Contraction rate must be between 0% and 99.9%.");
-        if (ch < 0 || ch >= 1) warnings.push("Churn rate must be between 0% and 99.9%.");
   
         const starting = Math.max(0, values.startingMrr);
   
@@ -593,6 +609,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "80",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "contributionMarginPercent",
@@ -602,6 +619,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "40",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
         {
           key: "conversionRatePercent",
@@ -612,6 +630,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "2.5",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
         {
           key: "profitBufferPercent",
@@ -652,10 +671,6 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           const ctr = values.ctrPercent / 100;
           const leadToCustomerRate = values.leadToCustomerRatePercent / 100;
   
-        if (values.aov <= 0) warnings.push("AOV must be greater than 0.");
-        if (margin <= 0) warnings.push("Contribution margin must be greater than 0%.");
-        if (cvr <= 0) warnings.push("CVR must be greater than 0%.");
-  
         const contributionPerConversion = values.aov * margin;
         const breakEvenCpa = contributionPerConversion;
         const targetCpa = contributionPerConversion * Math.max(0, 1 - buffer);
@@ -877,6 +892,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "0",
           min: 0,
           step: 1,
+          integer: true,
         },
       ],
         compute(values) {
@@ -890,8 +906,6 @@ export const calculatorsPart4: CalculatorDefinition[] = [
   
         let perShare: number | null = null;
         const shares = Math.floor(values.sharesOutstanding);
-        if (values.sharesOutstanding !== shares)
-          warnings.push("Shares outstanding was rounded down to a whole number.");
         if (shares > 0) perShare = equityValue / shares;
   
         if (equityValue < 0)
@@ -981,6 +995,15 @@ export const calculatorsPart4: CalculatorDefinition[] = [
         };
       },
       formula: "Equity value = enterprise value + cash - debt - preferred - minority + other adjustments",
+      formulaExpression: add(
+        sub(
+          add(ref("enterpriseValue"), ref("cash")),
+          ref("debt"),
+          ref("preferredStock"),
+          ref("minorityInterest"),
+        ),
+        ref("otherAdjustments"),
+      ),
       assumptions: [
         "Treats cash and debt as the primary bridge from EV to equity value.",
         "Preferred stock and minority interest are modeled as claims ahead of common equity (simplified).",
@@ -1031,6 +1054,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "20000000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "investment",
@@ -1050,8 +1074,6 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           const postMoneyMultiple =
             values.preMoney > 0 ? postMoney / values.preMoney : null;
   
-        if (values.preMoney <= 0) warnings.push("Pre-money valuation must be greater than 0.");
-        if (values.investment < 0) warnings.push("Investment must be 0 or greater.");
         if (investorOwnership === null)
           warnings.push("Post-money valuation must be greater than 0.");
   
@@ -1110,6 +1132,10 @@ export const calculatorsPart4: CalculatorDefinition[] = [
         };
       },
       formula: "Post-money = pre-money + investment; investor % ~ investment / post-money",
+      formulaExpression: div(
+        ref("investment"),
+        add(ref("preMoney"), ref("investment")),
+      ),
       assumptions: [
         "Simplified equity financing model; ignores option pool changes, SAFEs/notes, and fees.",
         "Uses valuation-based ownership approximation rather than a full cap table.",
@@ -1175,6 +1201,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "5",
           min: 0,
           step: 0.01,
+          max: 100,
         },
         {
           key: "preMoney",
@@ -1183,6 +1210,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "20000000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "investment",
@@ -1205,10 +1233,6 @@ export const calculatorsPart4: CalculatorDefinition[] = [
             : null;
         const shareOfRound = values.investment > 0 ? proRataInvestment / values.investment : null;
   
-        if (values.ownershipPercent < 0 || values.ownershipPercent > 100)
-          warnings.push("Ownership must be between 0% and 100%.");
-        if (values.preMoney <= 0) warnings.push("Pre-money valuation must be greater than 0.");
-        if (values.investment < 0) warnings.push("Investment must be 0 or greater.");
         if (ownershipNoParticipate === null)
           warnings.push("Post-money valuation must be greater than 0.");
   
@@ -1312,6 +1336,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "20000000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "investment",
@@ -1330,6 +1355,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "10",
           min: 0,
           step: 0.1,
+          max: 100,
         },
         {
           key: "targetPoolPercent",
@@ -1340,16 +1366,11 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "15",
           min: 0,
           step: 0.1,
+          max: 100,
         },
       ],
       compute(values) {
         const warnings: string[] = [];
-        if (values.preMoney <= 0) warnings.push("Pre-money valuation must be greater than 0.");
-        if (values.investment < 0) warnings.push("Investment must be 0 or greater.");
-        if (values.currentPoolPercent < 0 || values.currentPoolPercent > 100)
-          warnings.push("Current option pool must be between 0% and 100%.");
-        if (values.targetPoolPercent < 0 || values.targetPoolPercent > 100)
-          warnings.push("Target option pool must be between 0% and 100%.");
   
         const p0 = values.currentPoolPercent / 100;
         const pt = values.targetPoolPercent / 100;
@@ -1515,6 +1536,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "20",
           min: 0,
           step: 0.1,
+          max: 100,
         },
         {
           key: "pricedRoundPreMoney",
@@ -1523,14 +1545,16 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "20000000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "existingShares",
           label: "Existing fully diluted shares",
           placeholder: "10000000",
           defaultValue: "10000000",
-          min: 0,
+          min: 1,
           step: 1,
+          integer: true,
         },
         {
           key: "newMoney",
@@ -1544,15 +1568,6 @@ export const calculatorsPart4: CalculatorDefinition[] = [
       compute(values) {
         const warnings: string[] = [];
         const shares = Math.floor(values.existingShares);
-        if (values.existingShares !== shares)
-          warnings.push("Existing shares was rounded down to a whole number.");
-        if (values.safeAmount < 0) warnings.push("SAFE amount must be 0 or greater.");
-        if (values.pricedRoundPreMoney <= 0)
-          warnings.push("Priced round pre-money valuation must be greater than 0.");
-        if (shares <= 0) warnings.push("Existing shares must be greater than 0.");
-        if (values.newMoney < 0) warnings.push("New money must be 0 or greater.");
-        if (values.discountPercent < 0 || values.discountPercent > 100)
-          warnings.push("Discount must be between 0% and 100%.");
   
         const roundPrice = safeDivide(values.pricedRoundPreMoney, shares);
         if (roundPrice === null) {
@@ -1732,6 +1747,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "6",
           min: 0,
           step: 0.1,
+          max: 100,
         },
         {
           key: "monthsOutstanding",
@@ -1759,6 +1775,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "20",
           min: 0,
           step: 0.1,
+          max: 100,
         },
         {
           key: "pricedRoundPreMoney",
@@ -1767,14 +1784,16 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "20000000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "existingShares",
           label: "Existing fully diluted shares",
           placeholder: "10000000",
           defaultValue: "10000000",
-          min: 0,
+          min: 1,
           step: 1,
+          integer: true,
         },
         {
           key: "newMoney",
@@ -1788,17 +1807,6 @@ export const calculatorsPart4: CalculatorDefinition[] = [
       compute(values) {
         const warnings: string[] = [];
         const shares = Math.floor(values.existingShares);
-        if (values.existingShares !== shares)
-          warnings.push("Existing shares was rounded down to a whole number.");
-        if (values.pricedRoundPreMoney <= 0)
-          warnings.push("Priced round pre-money valuation must be greater than 0.");
-        if (shares <= 0) warnings.push("Existing shares must be greater than 0.");
-        if (values.principal < 0) warnings.push("Principal must be 0 or greater.");
-        if (values.newMoney < 0) warnings.push("New money must be 0 or greater.");
-        if (values.annualInterestPercent < 0 || values.annualInterestPercent > 100)
-          warnings.push("Interest rate must be between 0% and 100%.");
-        if (values.discountPercent < 0 || values.discountPercent > 100)
-          warnings.push("Discount must be between 0% and 100%.");
   
         const interest =
           values.principal *
@@ -2004,6 +2012,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "20",
           min: 0,
           step: 0.01,
+          max: 100,
         },
         {
           key: "preferenceMultiple",
@@ -2018,12 +2027,6 @@ export const calculatorsPart4: CalculatorDefinition[] = [
       compute(values) {
         const warnings: string[] = [];
         const ownership = values.ownershipPercent / 100;
-        if (values.ownershipPercent < 0 || values.ownershipPercent > 100)
-          warnings.push("Ownership must be between 0% and 100%.");
-        if (values.exitValue < 0) warnings.push("Exit value must be 0 or greater.");
-        if (values.investment < 0) warnings.push("Investment must be 0 or greater.");
-        if (values.preferenceMultiple < 0)
-          warnings.push("Preference multiple must be 0 or greater.");
   
         const preference = values.investment * values.preferenceMultiple;
         const asConverted = ownership * values.exitValue;
@@ -2133,6 +2136,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "800",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "grossMarginPercent",
@@ -2142,6 +2146,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "80",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
         {
           key: "monthlyLogoChurnPercent",
@@ -2152,6 +2157,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "2",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
         {
           key: "cac",
@@ -2160,6 +2166,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "6000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "targetPaybackMonths",
@@ -2169,6 +2176,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "12",
           min: 0,
           step: 1,
+          integer: true,
         },
       ],
       compute(values) {
@@ -2176,11 +2184,6 @@ export const calculatorsPart4: CalculatorDefinition[] = [
         const margin = values.grossMarginPercent / 100;
         const churn = values.monthlyLogoChurnPercent / 100;
   
-        if (values.arpaMonthly <= 0) warnings.push("ARPA must be greater than 0.");
-        if (margin <= 0) warnings.push("Gross margin must be greater than 0%.");
-        if (churn <= 0) warnings.push("Monthly churn must be greater than 0% to estimate lifetime from churn.");
-        if (values.cac <= 0) warnings.push("CAC must be greater than 0.");
-  
         const grossProfitPerMonth = values.arpaMonthly * margin;
         const lifetimeMonths = churn > 0 ? 1 / churn : null;
         const grossProfitLtv = lifetimeMonths ? grossProfitPerMonth * lifetimeMonths : null;
@@ -2197,8 +2200,6 @@ export const calculatorsPart4: CalculatorDefinition[] = [
             : null;
   
         const targetPayback = Math.floor(values.targetPaybackMonths);
-        if (values.targetPaybackMonths !== targetPayback)
-          warnings.push("Target payback was rounded down to a whole number.");
   
         const maxCacForTargetPayback =
           targetPayback > 0 ? grossProfitPerMonth * targetPayback : null;
@@ -2409,6 +2410,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "1.5",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
         {
           key: "cvrPercent",
@@ -2418,6 +2420,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "2.5",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
         {
           key: "aov",
@@ -2426,6 +2429,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "80",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "contributionMarginPercent",
@@ -2435,6 +2439,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "40",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
         {
           key: "profitBufferPercent",
@@ -2453,11 +2458,6 @@ export const calculatorsPart4: CalculatorDefinition[] = [
         const margin = values.contributionMarginPercent / 100;
         const buffer = values.profitBufferPercent / 100;
   
-        if (ctr <= 0) warnings.push("CTR must be greater than 0%.");
-        if (cvr <= 0) warnings.push("CVR must be greater than 0%.");
-        if (values.aov <= 0) warnings.push("AOV must be greater than 0.");
-        if (margin <= 0) warnings.push("Contribution margin must be greater than 0%.");
-  
         const clicksPerThousand = 1000 * ctr;
         const conversionsPerThousand = clicksPerThousand * cvr;
           const contributionPerConversion = values.aov * margin;
@@ -2642,6 +2642,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "5000000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "multiple",
@@ -2650,6 +2651,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "6",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
         {
           key: "cash",
@@ -2670,8 +2672,6 @@ export const calculatorsPart4: CalculatorDefinition[] = [
       ],
       compute(values) {
         const warnings: string[] = [];
-        if (values.metricValue <= 0) warnings.push("Metric value must be greater than 0.");
-        if (values.multiple <= 0) warnings.push("Multiple must be greater than 0.");
   
         const enterpriseValue = values.metricValue * values.multiple;
         const netDebt = values.debt - values.cash;
@@ -2767,6 +2767,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
         };
       },
       formula: "EV = metric x multiple; Equity value = EV + cash - debt",
+      formulaExpression: mul(ref("metricValue"), ref("multiple")),
       assumptions: [
         "Multiple is applied to a single metric definition (be consistent).",
         "Uses a simplified EV-to-equity bridge (cash and debt only).",
@@ -2827,6 +2828,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "6000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "arpaMonthly",
@@ -2835,6 +2837,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "800",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "grossMarginPercent",
@@ -2844,6 +2847,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "80",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
         {
           key: "earlyMonthlyChurnPercent",
@@ -2853,6 +2857,8 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "6",
           min: 0,
           step: 0.1,
+          max: 100,
+          exclusiveMax: true,
         },
         {
           key: "earlyMonths",
@@ -2861,6 +2867,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "3",
           min: 1,
           step: 1,
+          integer: true,
         },
         {
           key: "steadyMonthlyChurnPercent",
@@ -2870,6 +2877,8 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "1",
           min: 0,
           step: 0.1,
+          max: 100,
+          exclusiveMax: true,
         },
         {
           key: "monthlyExpansionPercent",
@@ -2880,6 +2889,8 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "0.5",
           min: 0,
           step: 0.1,
+          max: 100,
+          exclusiveMax: true,
         },
         {
           key: "months",
@@ -2888,32 +2899,19 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "36",
           min: 1,
           step: 1,
+          integer: true,
         },
       ],
       compute(values) {
         const warnings: string[] = [];
         const horizon = Math.max(1, Math.floor(values.months));
         const earlyMonths = Math.max(1, Math.floor(values.earlyMonths));
-        if (values.months !== horizon)
-          warnings.push("Months was rounded down to a whole number.");
-        if (values.earlyMonths !== earlyMonths)
-          warnings.push("Early phase months was rounded down to a whole number.");
   
         const churnEarly = values.earlyMonthlyChurnPercent / 100;
         const churnSteady = values.steadyMonthlyChurnPercent / 100;
         const expansion = values.monthlyExpansionPercent / 100;
         const margin = values.grossMarginPercent / 100;
   
-        if (values.cac <= 0) warnings.push("CAC must be greater than 0.");
-        if (values.arpaMonthly <= 0) warnings.push("ARPA must be greater than 0.");
-        if (margin <= 0) warnings.push("Gross margin must be greater than 0%.");
-        if (churnEarly < 0 || churnEarly >= 1)
-          warnings.push("Early churn must be between 0% and 99.9%.");
-        if (churnSteady < 0 || churnSteady >= 1)
-          warnings.push("Steady churn must be between 0% and 99.9%.");
-        if (expansion < 0 || expansion >= 1)
-          warnings.push("Expansion must be between 0% and 99.9%.");
-  
         const retentionAt = (m: number) => {
           const early = Math.min(m, earlyMonths);
           const late = Math.max(0, m - earlyMonths);
@@ -2931,6 +2929,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           const retention24 = retentionAt(24);
           const arpaMonth12 =
             values.arpaMonthly * Math.pow(1 + expansion, 11);
+          const cumulativeByMonth: number[] = [0];
   
         for (let month = 1; month <= horizon; month++) {
             const active = retentionAt(month - 1);
@@ -2938,6 +2937,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
             const grossProfit = active * arpa * margin;
             if (month === 1) gpMonth1 = grossProfit;
             cumulativeGrossProfit += grossProfit;
+            cumulativeByMonth.push(cumulativeGrossProfit);
   
           if (month === 12) gp12 = cumulativeGrossProfit;
           if (month === 24) gp24 = cumulativeGrossProfit;
@@ -3097,6 +3097,25 @@ export const calculatorsPart4: CalculatorDefinition[] = [
               maxFractionDigits: 2,
             },
           ],
+          chart: {
+            title: "Cumulative gross profit vs CAC",
+            xLabel: "Month",
+            x: cumulativeByMonth.map((_, month) => month),
+            format: "currency",
+            currency: "USD",
+            lines: [
+              {
+                key: "cumulativeGrossProfit",
+                label: "Cumulative gross profit",
+                values: cumulativeByMonth,
+              },
+              {
+                key: "cac",
+                label: "CAC",
+                values: cumulativeByMonth.map(() => values.cac),
+              },
+            ],
+          },
           warnings,
         };
       },
@@ -3160,6 +3179,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "12",
           min: 0,
           step: 0.01,
+          exclusiveMin: true,
         },
         {
           key: "cvrPercent",
@@ -3169,6 +3189,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "2.5",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
         {
           key: "aov",
@@ -3177,6 +3198,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "80",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "contributionMarginPercent",
@@ -3186,6 +3208,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "40",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
           {
             key: "profitBufferPercent",
@@ -3214,11 +3237,6 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           const buffer = values.profitBufferPercent / 100;
           const currentCtr = values.currentCtrPercent / 100;
   
-          if (values.cpm <= 0) warnings.push("CPM must be greater than 0.");
-          if (cvr <= 0) warnings.push("CVR must be greater than 0%.");
-          if (values.aov <= 0) warnings.push("AOV must be greater than 0.");
-          if (margin <= 0) warnings.push("Contribution margin must be greater than 0%.");
-  
           const denom = 1000 * cvr * values.aov * margin;
           const breakEvenCtr = denom > 0 ? values.cpm / denom : 0;
           const targetCtr =
@@ -3377,6 +3395,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "5",
           min: 1,
           step: 1,
+          integer: true,
         },
         {
           key: "forecastGrowthPercent",
@@ -3395,6 +3414,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "12",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
         {
           key: "discountRateStepPercent",
@@ -3427,8 +3447,6 @@ export const calculatorsPart4: CalculatorDefinition[] = [
       compute(values) {
         const warnings: string[] = [];
         const years = Math.max(1, Math.floor(values.forecastYears));
-        if (values.forecastYears !== years)
-          warnings.push("Forecast years was rounded down to a whole number.");
   
         const g = values.forecastGrowthPercent / 100;
         const baseR = values.baseDiscountRatePercent / 100;
@@ -3437,7 +3455,6 @@ export const calculatorsPart4: CalculatorDefinition[] = [
         const tgStep = values.terminalGrowthStepPercent / 100;
   
         if (values.annualFcf <= 0) warnings.push("FCF should be greater than 0 for valuation.");
-        if (baseR <= 0) warnings.push("Discount rate must be greater than 0%.");
   
         const evAt = (r: number, tg: number) => {
           let pvForecast = 0;
@@ -3465,36 +3482,18 @@ export const calculatorsPart4: CalculatorDefinition[] = [
         if (baseEv === null) warnings.push("Base inputs are invalid: terminal growth must be less than discount rate.");
         const baseGap = rMid - tgMid;
   
-        const grid: Array<{ key: string; label: string; value: number }> = [];
-        const points: Array<[string, number, number]> = [
-          ["ev_rLow_tgLow", rLow, tgLow],
-          ["ev_rLow_tgMid", rLow, tgMid],
-          ["ev_rLow_tgHigh", rLow, tgHigh],
-          ["ev_rMid_tgLow", rMid, tgLow],
-          ["ev_rMid_tgMid", rMid, tgMid],
-          ["ev_rMid_tgHigh", rMid, tgHigh],
-          ["ev_rHigh_tgLow", rHigh, tgLow],
-          ["ev_rHigh_tgMid", rHigh, tgMid],
-          ["ev_rHigh_tgHigh", rHigh, tgHigh],
-        ];
-  
-        for (const [key, r, tg] of points) {
-          const ev = evAt(r, tg);
-          if (ev === null) continue;
-          grid.push({
-            key,
-            label: `EV @ ${(r * 100).toFixed(1)}% / ${(tg * 100).toFixed(1)}%`,
-            value: ev,
-          });
-        }
+        const discountRates = [rLow, rMid, rHigh];
+        const terminalGrowths = [tgLow, tgMid, tgHigh];
+        const grid = discountRates.map((r) => terminalGrowths.map((tg) => evAt(r, tg)));
+        const validEvs = grid.flat().filter((ev): ev is number => ev !== null);
   
-        if (grid.length < 5) {
+        if (validEvs.length < 5) {
           warnings.push(
             "Many grid points are invalid because terminal growth is too close to or above the discount rate. Reduce terminal growth or increase discount rate.",
           );
         }
   
-        const headlineEv = baseEv ?? (grid[0]?.value ?? 0);
+        const headlineEv = baseEv ?? (validEvs[0] ?? 0);
   
         return {
           headline: {
@@ -3505,13 +3504,21 @@ export const calculatorsPart4: CalculatorDefinition[] = [
             currency: "USD",
             detail: `Base: ${values.baseDiscountRatePercent}% / ${values.baseTerminalGrowthPercent}%`,
           },
-          secondary: grid.map((g) => ({
-            key: g.key,
-            label: g.label,
-            value: g.value,
+          matrix: {
+            title: "Enterprise value sensitivity",
+            rowLabel: "Discount rate",
+            columnLabel: "Terminal growth",
+            rows: discountRates,
+            rowFormat: { format: "percent", maxFractionDigits: 1 },
+            columns: terminalGrowths,
+            columnFormat: { format: "percent", maxFractionDigits: 1 },
+            values: grid,
             format: "currency",
             currency: "USD",
-          })),
+            baseRow: 1,
+            baseColumn: 1,
+            higherIsBetter: true,
+          },
           breakdown: [
             {
               key: "baseGap",
@@ -3578,6 +3585,8 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "2.5",
           min: 0.01,
           step: 0.01,
+          max: 100,
+          exclusiveMax: true,
         },
         {
           key: "mdePercentPoints",
@@ -3597,6 +3606,8 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "5",
           min: 0.1,
           step: 0.1,
+          max: 100,
+          exclusiveMax: true,
         },
         {
           key: "powerPercent",
@@ -3606,6 +3617,15 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "80",
           min: 50,
           step: 1,
+          max: 100,
+          exclusiveMax: true,
+        },
+      ],
+      rules: [
+        {
+          keys: ["mdePercentPoints", "baselineCvrPercent"],
+          message: "Baseline + MDE must be below 100%.",
+          isValid: (v) => v.baselineCvrPercent + v.mdePercentPoints < 100,
         },
       ],
       compute(values) {
@@ -3616,11 +3636,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
         const alpha = values.alphaPercent / 100;
         const power = values.powerPercent / 100;
   
-        if (p1 <= 0 || p1 >= 1) warnings.push("Baseline CVR must be between 0% and 100%.");
-        if (delta <= 0) warnings.push("MDE must be greater than 0.");
         if (p2 <= 0 || p2 >= 1) warnings.push("Baseline + MDE must be between 0% and 100%.");
-        if (alpha <= 0 || alpha >= 1) warnings.push("Alpha must be between 0% and 100%.");
-        if (power <= 0 || power >= 1) warnings.push("Power must be between 0% and 100%.");
   
         const z = (p: number) => {
           // Acklam's inverse normal approximation for p in (0,1)
@@ -3786,6 +3802,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "80",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "leadToCustomerRatePercent",
@@ -3818,8 +3835,6 @@ export const calculatorsPart4: CalculatorDefinition[] = [
         compute(values) {
           const warnings: string[] = [];
           const rate = values.leadToCustomerRatePercent / 100;
-          if (values.cpl <= 0) warnings.push("CPL must be greater than 0.");
-          if (rate <= 0) warnings.push("Lead-to-customer rate must be greater than 0%.");
   
           const cac = rate > 0 ? values.cpl / rate : 0;
           const allInCpl = values.cpl + Math.max(0, values.salesCostPerLead);
@@ -3896,6 +3911,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
         };
       },
       formula: "CAC = CPL / (lead-to-customer rate)",
+      formulaExpression: div(ref("cpl"), pct("leadToCustomerRatePercent")),
       assumptions: [
         "Lead-to-customer rate reflects final paying customers (not MQLs).",
         "CPL and close rate are measured over consistent time windows.",
@@ -3947,6 +3963,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "12",
           min: 0,
           step: 0.01,
+          exclusiveMin: true,
         },
         {
           key: "ctrPercent",
@@ -3964,6 +3981,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "80",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "contributionMarginPercent",
@@ -3973,6 +3991,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           defaultValue: "40",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
           {
             key: "profitBufferPercent",
@@ -4001,11 +4020,6 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           const buffer = values.profitBufferPercent / 100;
           const currentCvr = values.currentCvrPercent / 100;
   
-        if (values.cpm <= 0) warnings.push("CPM must be greater than 0.");
-        if (ctr <= 0) warnings.push("CTR must be greater than 0%.");
-        if (values.aov <= 0) warnings.push("AOV must be greater than 0.");
-        if (margin <= 0) warnings.push("Contribution margin must be greater than 0%.");
-  
         const denom = 1000 * ctr * values.aov * margin;
           const breakEvenCvr = denom > 0 ? values.cpm / denom : 0;
           const targetCvr =
@@ -4185,6 +4199,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           placeholder: "12000",
           defaultValue: "12000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "conversions",
@@ -4219,12 +4234,15 @@ export const calculatorsPart4: CalculatorDefinition[] = [
             min: 0,
           },
         ],
+        rules: [
+          {
+            keys: ["conversions", "clicks"],
+            message: "Conversions cannot exceed clicks.",
+            isValid: (v) => v.conversions <= v.clicks,
+          },
+        ],
         compute(values) {
           const warnings: string[] = [];
-          if (values.clicks <= 0) warnings.push("Clicks must be greater than 0.");
-          if (values.conversions < 0) warnings.push("Conversions must be 0 or greater.");
-          if (values.conversions > values.clicks)
-            warnings.push("Conversions exceed clicks (check inputs).");
   
           const cvr = safeDivide(values.conversions, values.clicks);
           const clicksPerConversion =
@@ -4323,6 +4341,7 @@ export const calculatorsPart4: CalculatorDefinition[] = [
           };
         },
       formula: "Click-through CVR = conversions / clicks",
+      formulaExpression: div(ref("conversions"), ref("clicks")),
       assumptions: [
         "Clicks and conversions are measured over the same window and attribution rules.",
         "Uses click-based CVR (not session-based).",
@@ -1,5 +1,6 @@
 import type { CalculatorDefinition } from "./types";
-import { safeDivide } from "./shared";
+import { add, div, mul, num, pct, pow, ref, sub } from "./expression.ts";
+import { safeDivide } from "./shared.ts";
 
 export const calculatorsPart5: CalculatorDefinition[] = [
   {
@@ -61,6 +62,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           defaultValue: "102",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
           {
             key: "targetMonthlyGrrPercent",
@@ -70,6 +72,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
             defaultValue: "98",
             min: 0,
             step: 0.1,
+            exclusiveMin: true,
           },
           {
             key: "currentMonthlyExpansionPercent",
@@ -79,6 +82,8 @@ export const calculatorsPart5: CalculatorDefinition[] = [
             defaultValue: "2",
             min: 0,
             step: 0.1,
+            max: 100,
+            exclusiveMax: true,
           },
         ],
         compute(values) {
@@ -89,11 +94,6 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           const targetGrr = values.targetMonthlyGrrPercent / 100;
           const currentExpansion = values.currentMonthlyExpansionPercent / 100;
   
-          if (targetNrr <= 0) warnings.push("Target NRR must be greater than 0%.");
-          if (targetGrr <= 0) warnings.push("Target GRR must be greater than 0%.");
-          if (currentExpansion < 0 || currentExpansion >= 1)
-            warnings.push("Current expansion must be between 0% and 99.9%.");
-  
           const requiredExpansion = targetNrr - 1 + contraction + churn;
           const maxChurnPlusContraction = 1 - targetGrr;
           const currentChurnPlusContraction = churn + contraction;
@@ -291,6 +291,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "500000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "bookedToDate",
@@ -317,18 +318,18 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           step: 1,
         },
       ],
+      rules: [
+        {
+          keys: ["daysElapsed", "daysInPeriod"],
+          message: "Days elapsed cannot exceed days in period.",
+          isValid: (v) => v.daysElapsed <= v.daysInPeriod,
+        },
+      ],
       compute(values) {
         const warnings: string[] = [];
         const daysElapsed = Math.floor(values.daysElapsed);
         const daysInPeriod = Math.floor(values.daysInPeriod);
   
-        if (values.quota <= 0) warnings.push("Quota must be greater than 0.");
-        if (values.bookedToDate < 0) warnings.push("Booked to date must be 0 or greater.");
-        if (daysElapsed <= 0) warnings.push("Days elapsed must be greater than 0.");
-        if (daysInPeriod <= 0) warnings.push("Days in period must be greater than 0.");
-        if (daysElapsed > daysInPeriod)
-          warnings.push("Days elapsed cannot be greater than total days in period.");
-  
         const attainment = safeDivide(values.bookedToDate, values.quota);
         const projectedBookings =
           daysElapsed > 0 ? (values.bookedToDate / daysElapsed) * daysInPeriod : 0;
@@ -444,6 +445,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
       },
       formula:
         "Attainment = booked / quota; projected bookings ~ (booked / days elapsed) x days in period",
+      formulaExpression: div(ref("bookedToDate"), ref("quota")),
       assumptions: [
         "Uses a simple linear pace projection (deal timing is often lumpy).",
         "Uses calendar-day pacing; use business days if that matches your process.",
@@ -539,6 +541,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           defaultValue: "70",
           min: 0,
           step: 0.1,
+          max: 100,
         },
         {
           key: "rampingProductivityPercent",
@@ -549,6 +552,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           defaultValue: "40",
           min: 0,
           step: 0.1,
+          max: 100,
         },
         {
           key: "currentQuotaPerRep",
@@ -567,6 +571,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           defaultValue: "25",
           min: 0,
           step: 0.1,
+          max: 100,
         },
         {
           key: "slippagePercent",
@@ -587,16 +592,8 @@ export const calculatorsPart5: CalculatorDefinition[] = [
         const winRate = values.winRatePercent / 100;
         const slippage = values.slippagePercent / 100;
   
-        if (values.teamTarget <= 0) warnings.push("Team target must be greater than 0.");
-        if (reps < 0) warnings.push("Total reps must be 0 or greater.");
         if (attainment < 0 || attainment > 2)
           warnings.push("Expected attainment should be between 0% and 200%.");
-        if (ramped < 0 || ramped > 1) warnings.push("Ramped % must be between 0% and 100%.");
-        if (rampingProd < 0 || rampingProd > 1)
-          warnings.push("Ramping productivity must be between 0% and 100%.");
-        if (values.currentQuotaPerRep < 0)
-          warnings.push("Current quota per rep must be 0 or greater.");
-        if (winRate < 0 || winRate > 1) warnings.push("Win rate must be between 0% and 100%.");
         if (slippage < 0 || slippage > 2)
           warnings.push("Slippage buffer should be between 0% and 200%.");
   
@@ -812,6 +809,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "500000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "pipelineAmount",
@@ -829,6 +827,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           defaultValue: "25",
           min: 0,
           step: 0.1,
+          max: 100,
         },
         {
           key: "slippagePercent",
@@ -845,9 +844,6 @@ export const calculatorsPart5: CalculatorDefinition[] = [
         const warnings: string[] = [];
         const winRate = values.winRatePercent / 100;
         const slippage = values.slippagePercent / 100;
-        if (values.quota <= 0) warnings.push("Quota must be greater than 0.");
-        if (values.pipelineAmount < 0) warnings.push("Pipeline amount must be 0 or greater.");
-        if (winRate < 0 || winRate > 1) warnings.push("Win rate must be between 0% and 100%.");
         if (slippage < 0 || slippage > 2)
           warnings.push("Slippage buffer should be between 0% and 200%.");
   
@@ -991,6 +987,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
       },
       formula:
         "Coverage = pipeline / quota; expected bookings = pipeline x win rate; expected attainment = expected bookings / quota",
+      formulaExpression: div(ref("pipelineAmount"), ref("quota")),
       assumptions: [
         "Pipeline is for the same time window as quota (e.g., this quarter) and similarly staged.",
         "Win rate is applied as an average and assumes stable conversion.",
@@ -1041,6 +1038,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "500000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "winRatePercent",
@@ -1083,10 +1081,6 @@ export const calculatorsPart5: CalculatorDefinition[] = [
         const warnings: string[] = [];
         const winRate = values.winRatePercent / 100;
         const slippage = values.slippagePercent / 100;
-        if (values.target <= 0) warnings.push("Target must be greater than 0.");
-        if (winRate <= 0) warnings.push("Win rate must be greater than 0%.");
-        if (values.avgDealSize <= 0) warnings.push("Average deal size must be greater than 0.");
-        if (values.activeReps < 0) warnings.push("Active reps must be 0 or greater.");
         if (slippage < 0 || slippage > 2)
           warnings.push("Slippage buffer should be between 0% and 200%.");
   
@@ -1301,6 +1295,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           defaultValue: "70",
           min: 0,
           step: 0.1,
+          max: 100,
         },
         {
           key: "rampingProductivityPercent",
@@ -1311,6 +1306,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           defaultValue: "40",
           min: 0,
           step: 0.1,
+          max: 100,
         },
         {
           key: "targetBookings",
@@ -1330,14 +1326,8 @@ export const calculatorsPart5: CalculatorDefinition[] = [
         const rampedReps = reps * ramped;
         const rampingReps = reps - rampedReps;
   
-        if (reps < 0) warnings.push("Sales reps must be 0 or greater.");
-        if (values.quotaPerRep < 0) warnings.push("Quota per rep must be 0 or greater.");
         if (attainment < 0 || attainment > 2)
           warnings.push("Attainment should be between 0% and 200% (check input).");
-        if (ramped < 0 || ramped > 1) warnings.push("Ramped % must be between 0% and 100%.");
-        if (rampingProd < 0 || rampingProd > 1)
-          warnings.push("Ramping productivity must be between 0% and 100%.");
-        if (values.targetBookings < 0) warnings.push("Target bookings must be 0 or greater.");
   
         const effectiveReps = reps * (ramped + (1 - ramped) * rampingProd);
         const perRepCapacity = values.quotaPerRep * attainment;
@@ -1520,9 +1510,6 @@ export const calculatorsPart5: CalculatorDefinition[] = [
       ],
       compute(values) {
         const warnings: string[] = [];
-        if (values.quota <= 0) warnings.push("Quota must be greater than 0.");
-        if (values.basePay < 0) warnings.push("Base pay must be 0 or greater.");
-        if (values.variablePay < 0) warnings.push("Variable pay must be 0 or greater.");
         if (values.variablePay === 0)
           warnings.push("Variable pay is 0; commission rate and incentives will be 0.");
   
@@ -1663,6 +1650,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
         };
       },
       formula: "OTE = base + variable; commission rate ~ variable / quota",
+      formulaExpression: add(ref("basePay"), ref("variablePay")),
       assumptions: [
         "Assumes linear commission proportional to quota attainment (no accelerators/decels).",
         "Base and quota are for the same time unit (annual vs quarterly).",
@@ -1765,13 +1753,6 @@ export const calculatorsPart5: CalculatorDefinition[] = [
         const sqlToOpp = values.sqlToOppPercent / 100;
         const oppToWin = values.oppToWinPercent / 100;
   
-        if (values.revenueTarget <= 0) warnings.push("Revenue target must be greater than 0.");
-        if (values.avgDealSize <= 0) warnings.push("Average deal size must be greater than 0.");
-        if (leadToMql <= 0) warnings.push("Lead -> MQL must be greater than 0%.");
-        if (mqlToSql <= 0) warnings.push("MQL -> SQL must be greater than 0%.");
-        if (sqlToOpp <= 0) warnings.push("SQL -> Opportunity must be greater than 0%.");
-        if (oppToWin <= 0) warnings.push("Opportunity -> Win must be greater than 0%.");
-  
         const wins = safeDivide(values.revenueTarget, values.avgDealSize);
         const opps = wins !== null ? safeDivide(wins, oppToWin) : null;
         const sqls = opps !== null ? safeDivide(opps, sqlToOpp) : null;
@@ -1921,14 +1902,17 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           step: 0.1,
         },
       ],
+      rules: [
+        {
+          keys: ["activated", "signups"],
+          message: "Activated users cannot exceed signups.",
+          isValid: (v) => v.activated <= v.signups,
+        },
+      ],
       compute(values) {
         const warnings: string[] = [];
         const signups = Math.floor(values.signups);
         const activated = Math.floor(values.activated);
-        if (signups < 0) warnings.push("New signups must be 0 or greater.");
-        if (activated < 0) warnings.push("Activated users must be 0 or greater.");
-        if (activated > signups)
-          warnings.push("Activated users exceeds signups (check definitions/time window).");
   
         const rate = signups > 0 ? activated / signups : null;
         const target = values.targetActivationPercent / 100;
@@ -2066,13 +2050,17 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           step: 0.1,
         },
       ],
+      rules: [
+        {
+          keys: ["paidConversions", "trialsStarted"],
+          message: "Paid conversions cannot exceed trials started.",
+          isValid: (v) => v.paidConversions <= v.trialsStarted,
+        },
+      ],
       compute(values) {
         const warnings: string[] = [];
         const trials = Math.floor(values.trialsStarted);
         const paid = Math.floor(values.paidConversions);
-        if (trials < 0) warnings.push("Trials started must be 0 or greater.");
-        if (paid < 0) warnings.push("Paid conversions must be 0 or greater.");
-        if (paid > trials) warnings.push("Paid conversions exceeds trials (check inputs).");
   
         const rate = trials > 0 ? paid / trials : null;
         const target = values.targetPercent / 100;
@@ -2173,7 +2161,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           label: "MAU",
           placeholder: "8000",
           defaultValue: "8000",
-          min: 0.01,
+          min: 1,
           step: 1,
         },
         {
@@ -2187,13 +2175,17 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           step: 0.1,
         },
       ],
+      rules: [
+        {
+          keys: ["dau", "mau"],
+          message: "DAU cannot exceed MAU.",
+          isValid: (v) => v.dau <= v.mau,
+        },
+      ],
       compute(values) {
         const warnings: string[] = [];
         const dau = Math.floor(values.dau);
         const mau = Math.floor(values.mau);
-        if (dau < 0) warnings.push("DAU must be 0 or greater.");
-        if (mau <= 0) warnings.push("MAU must be greater than 0.");
-        if (dau > mau) warnings.push("DAU exceeds MAU (check measurement definitions).");
   
         const ratio = safeDivide(dau, mau);
         const activeDaysPerMonth = (ratio ?? 0) * 30;
@@ -2308,7 +2300,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           label: "MAU",
           placeholder: "8000",
           defaultValue: "8000",
-          min: 0.01,
+          min: 1,
           step: 1,
         },
         {
@@ -2322,13 +2314,17 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           step: 0.1,
         },
       ],
+      rules: [
+        {
+          keys: ["wau", "mau"],
+          message: "WAU cannot exceed MAU.",
+          isValid: (v) => v.wau <= v.mau,
+        },
+      ],
       compute(values) {
         const warnings: string[] = [];
         const wau = Math.floor(values.wau);
         const mau = Math.floor(values.mau);
-        if (wau < 0) warnings.push("WAU must be 0 or greater.");
-        if (mau <= 0) warnings.push("MAU must be greater than 0.");
-        if (wau > mau) warnings.push("WAU exceeds MAU (check measurement definitions).");
   
         const ratio = safeDivide(wau, mau);
         const weeksPerMonth = (ratio ?? 0) * 4.33;
@@ -2430,7 +2426,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           label: "Active users (window)",
           placeholder: "8000",
           defaultValue: "8000",
-          min: 0.01,
+          min: 1,
           step: 1,
         },
         {
@@ -2452,13 +2448,17 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           step: 0.1,
         },
       ],
+      rules: [
+        {
+          keys: ["usersUsedFeature", "activeUsers"],
+          message: "Feature users cannot exceed active users.",
+          isValid: (v) => v.usersUsedFeature <= v.activeUsers,
+        },
+      ],
       compute(values) {
         const warnings: string[] = [];
         const active = Math.floor(values.activeUsers);
         const used = Math.floor(values.usersUsedFeature);
-        if (active <= 0) warnings.push("Active users must be greater than 0.");
-        if (used < 0) warnings.push("Users who used feature must be 0 or greater.");
-        if (used > active) warnings.push("Users who used feature exceeds active users (check definitions).");
   
         const adoption = safeDivide(used, active);
         const target = values.targetPercent / 100;
@@ -2573,13 +2573,17 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           step: 1,
         },
       ],
+      rules: [
+        {
+          keys: ["paidCustomers", "pqls"],
+          message: "Paid customers cannot exceed PQLs.",
+          isValid: (v) => v.paidCustomers <= v.pqls,
+        },
+      ],
       compute(values) {
         const warnings: string[] = [];
         const pqls = Math.floor(values.pqls);
         const paid = Math.floor(values.paidCustomers);
-        if (pqls < 0) warnings.push("PQLs must be 0 or greater.");
-        if (paid < 0) warnings.push("Paid customers must be 0 or greater.");
-        if (paid > pqls) warnings.push("Paid customers exceeds PQLs (check definitions).");
   
         const rate = pqls > 0 ? paid / pqls : null;
         const requiredRate = values.targetPaid > 0 ? safeDivide(values.targetPaid, pqls) : null;
@@ -2674,6 +2678,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "800",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "monthlyChurnPercent",
@@ -2691,6 +2696,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "6000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "currentGrossMarginPercent",
@@ -2714,9 +2720,6 @@ export const calculatorsPart5: CalculatorDefinition[] = [
       compute(values) {
         const warnings: string[] = [];
         const churn = values.monthlyChurnPercent / 100;
-        if (values.arpaMonthly <= 0) warnings.push("ARPA must be greater than 0.");
-        if (churn <= 0) warnings.push("Churn must be greater than 0%.");
-        if (values.cac <= 0) warnings.push("CAC must be greater than 0.");
   
         const m0 = values.currentGrossMarginPercent / 100;
         const m1 = values.targetGrossMarginPercent / 100;
@@ -2859,6 +2862,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "800",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "cac",
@@ -2867,6 +2871,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "6000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "grossMarginPercent",
@@ -2876,6 +2881,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           defaultValue: "80",
           min: 0,
           step: 0.1,
+          exclusiveMin: true,
         },
         {
           key: "targetPaybackMonths",
@@ -2884,18 +2890,13 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           defaultValue: "12",
           min: 1,
           step: 1,
+          integer: true,
         },
       ],
       compute(values) {
         const warnings: string[] = [];
         const margin = values.grossMarginPercent / 100;
         const paybackMonths = Math.max(1, Math.floor(values.targetPaybackMonths));
-        if (values.targetPaybackMonths !== paybackMonths)
-          warnings.push("Target payback was rounded down to a whole number.");
-  
-        if (values.currentArpaMonthly <= 0) warnings.push("Current ARPA must be greater than 0.");
-        if (values.cac <= 0) warnings.push("CAC must be greater than 0.");
-        if (margin <= 0) warnings.push("Gross margin must be greater than 0%.");
   
         const requiredGrossProfitPerMonth = values.cac / paybackMonths;
         const minArpa = margin > 0 ? requiredGrossProfitPerMonth / margin : 0;
@@ -3014,6 +3015,7 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           prefix: "$",
           defaultValue: "300000",
           min: 0,
+          exclusiveMin: true,
         },
         {
           key: "aprPercent",
@@ -3031,18 +3033,16 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           defaultValue: "30",
           min: 1,
           step: 1,
+          integer: true,
         },
       ],
       compute(values) {
         const warnings: string[] = [];
         const years = Math.max(1, Math.floor(values.termYears));
-        if (values.termYears !== years)
-          warnings.push("Term years was rounded down to a whole number.");
   
         const n = years * 12;
         const r = values.aprPercent / 100 / 12;
   
-        if (values.principal <= 0) warnings.push("Principal must be greater than 0.");
         if (values.aprPercent < 0) warnings.push("APR must be >= 0%.");
   
         let payment = 0;
@@ -3152,6 +3152,23 @@ export const calculatorsPart5: CalculatorDefinition[] = [
       },
       formula:
         "Payment = Pxrx(1+r)^n / ((1+r)^n - 1) where r is monthly rate and n is months (for r>0)",
+      formulaExpression: div(
+        mul(
+          ref("principal"),
+          div(pct("aprPercent"), num(12)),
+          pow(
+            add(num(1), div(pct("aprPercent"), num(12))),
+            mul(ref("termYears"), num(12)),
+          ),
+        ),
+        sub(
+          pow(
+            add(num(1), div(pct("aprPercent"), num(12))),
+            mul(ref("termYears"), num(12)),
+          ),
+          num(1),
+        ),
+      ),
       assumptions: [
         "Fixed-rate, fully amortizing loan with constant monthly payments.",
         "Does not include taxes, insurance, or extra fees.",
@@ -3220,13 +3237,12 @@ export const calculatorsPart5: CalculatorDefinition[] = [
           defaultValue: "12",
           min: 1,
           step: 1,
+          integer: true,
         },
       ],
       compute(values) {
         const warnings: string[] = [];
         const n = Math.max(1, Math.floor(values.compoundsPerYear));
-        if (values.compoundsPerYear !== n)
-          warnings.push("Compounds per year was rounded down to a whole number.");
   
         const apr = values.aprPercent / 100;
         const apy = Math.pow(1 + apr / n, n) - 1;
@@ -3280,6 +3296,13 @@ export const calculatorsPart5: CalculatorDefinition[] = [
         };
       },
       formula: "APY = (1 + APR/n)^n - 1",
+      formulaExpression: sub(
+        pow(
+          add(num(1), div(pct("aprPercent"), ref("compoundsPerYear"))),
+          ref("compoundsPerYear"),
+        ),
+        num(1),
+      ),
       assumptions: [
         "Compounding frequency is constant.",
         "APR is nominal and evenly split across compounding periods.",
@@ -3409,6 +3432,13 @@ export const calculatorsPart5: CalculatorDefinition[] = [
         };
       },
       formula: "Real return = (1 + nominal) / (1 + inflation) - 1",
+      formulaExpression: sub(
+        div(
+          add(num(1), pct("nominalReturnPercent")),
+          add(num(1), pct("inflationPercent")),
+        ),
+        num(1),
+      ),
       assumptions: [
         "Inflation rate is an approximation (e.g., CPI).",
         "Uses annual rates; use consistent units for inputs.",
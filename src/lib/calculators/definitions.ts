@@ -1,9 +1,9 @@
 import type { CalculatorCategory, CalculatorDefinition } from "./types";
-import { calculatorsPart1 } from "./definitions.part1";
-import { calculatorsPart2 } from "./definitions.part2";
-import { calculatorsPart3 } from "./definitions.part3";
-import { calculatorsPart4 } from "./definitions.part4";
-import { calculatorsPart5 } from "./definitions.part5";
+import { calculatorsPart1 } from "./definitions.part1.ts";
+import { calculatorsPart2 } from "./definitions.part2.ts";
+import { calculatorsPart3 } from "./definitions.part3.ts";
+import { calculatorsPart4 } from "./definitions.part4.ts";
+import { calculatorsPart5 } from "./definitions.part5.ts";
 
 export const categories: CalculatorCategory[] = [
   {
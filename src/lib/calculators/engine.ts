@@ -0,0 +1,174 @@
+// Framework-free entry point to the calculator math, for dashboards, scripts
+// and API routes. Nothing here may import React or Next.
+import { DEFAULT_LOCALE, isSupportedLocale } from "../locale.ts";
+import { toLocaleInput, toNumber } from "../format.ts";
+import { isSupportedCurrency } from "../currency.ts";
+import { calculators } from "./definitions.ts";
+import { withDisplayCurrency } from "./currency.ts";
+import { formatResultValue } from "./formatResult.ts";
+import { expandRawInputs, parseRawInputs, type RawInputs } from "./inputs.ts";
+import { parseSeriesParam } from "./series.ts";
+import type {
+  CalculatorCategorySlug,
+  CalculatorDefinition,
+  CalculatorResult,
+  InputField,
+  ResultValue,
+} from "./types";
+
+export type { CalculatorResult, InputField, ResultValue } from "./types";
+
+export type CalculatorSummary = {
+  slug: string;
+  title: string;
+  description: string;
+  category: CalculatorCategorySlug;
+};
+
+// Numbers are used as-is; strings are parsed in `locale`. Series inputs take an
+// array or a ";"-separated string, as in share links.
+export type EngineInputValue = string | number | Array<string | number>;
+export type EngineInputs = Record<string, EngineInputValue | null | undefined>;
+
+export type RunOptions = {
+  // How string inputs are written and results are formatted; unsupported
+  // locales fall back to DEFAULT_LOCALE instead of reaching Intl.
+  locale?: string;
+  currency?: string; // display currency; amounts are not converted
+  useDefaults?: boolean; // fill missing inputs from the definition instead of failing
+};
+
+export type FormattedResultValue = ResultValue & { formatted: string };
+
+export type EngineResult = {
+  headline: FormattedResultValue;
+  secondary: FormattedResultValue[];
+  breakdown: FormattedResultValue[];
+  warnings: string[];
+  chart?: CalculatorResult["chart"];
+  matrix?: CalculatorResult["matrix"];
+};
+
+export type RunOutcome =
+  | {
+      status: "ok";
+      slug: string;
+      values: Record<string, number>;
+      series: Record<string, number[]>;
+      result: EngineResult;
+    }
+  | { status: "unknown-calculator"; slug: string }
+  | { status: "invalid-inputs"; slug: string; errors: Record<string, string> };
+
+function summarize(calc: CalculatorDefinition): CalculatorSummary {
+  return {
+    slug: calc.slug,
+    title: calc.title,
+    description: calc.description,
+    category: calc.category,
+  };
+}
+
+export function listCalculators(): CalculatorSummary[] {
+  return calculators.map(summarize);
+}
+
+export function getDefinition(slug: string): CalculatorDefinition | undefined {
+  return calculators.find((c) => c.slug === slug);
+}
+
+export function getInputSchema(slug: string): InputField[] | undefined {
+  return getDefinition(slug)?.inputs;
+}
+
+function toRawString(value: string | number, locale: string): string {
+  return typeof value === "number" ? toLocaleInput(String(value), locale) : value;
+}
+
+function toRawInputs(
+  calc: CalculatorDefinition,
+  inputs: EngineInputs,
+  locale: string,
+  useDefaults: boolean,
+): { raw: RawInputs; errors: Record<string, string> } {
+  const raw = expandRawInputs(calc, {}, locale);
+  const errors: Record<string, string> = {};
+  for (const input of calc.inputs) {
+    const value = inputs[input.key];
+    if (value === null || value === undefined || value === "") {
+      if (!useDefaults) errors[input.key] = "Missing value.";
+      continue;
+    }
+    if (typeof value === "number" && !Number.isFinite(value)) {
+      errors[input.key] = "Enter a valid number.";
+      continue;
+    }
+    if (input.kind === "series") {
+      const rows = Array.isArray(value)
+        ? value
+        : typeof value === "string"
+          ? parseSeriesParam(value)
+          : [value];
+      raw.series[input.key] = rows.map((row) => toRawString(row, locale));
+      if (raw.series[input.key].some((row) => toNumber(row, locale) === null)) {
+        errors[input.key] = "Enter a valid number in every row.";
+      }
+    } else if (Array.isArray(value)) {
+      errors[input.key] = "Expected a single number.";
+    } else {
+      raw.values[input.key] = toRawString(value, locale);
+      if (toNumber(raw.values[input.key], locale) === null) {
+        errors[input.key] = "Enter a valid number.";
+      }
+    }
+  }
+  return { raw, errors };
+}
+
+export function formatResult(
+  result: CalculatorResult,
+  locale: string = DEFAULT_LOCALE,
+): EngineResult {
+  const withFormatted = (value: ResultValue): FormattedResultValue => ({
+    ...value,
+    formatted: formatResultValue(value, locale),
+  });
+  return {
+    headline: withFormatted(result.headline),
+    secondary: (result.secondary ?? []).map(withFormatted),
+    breakdown: (result.breakdown ?? []).map(withFormatted),
+    warnings: result.warnings ?? [],
+    chart: result.chart,
+    matrix: result.matrix,
+  };
+}
+
+export function runCalculator(
+  slug: string,
+  inputs: EngineInputs,
+  options: RunOptions = {},
+): RunOutcome {
+  const found = getDefinition(slug);
+  if (!found) return { status: "unknown-calculator", slug };
+  const locale = isSupportedLocale(options.locale) ? options.locale : DEFAULT_LOCALE;
+  const calc =
+    options.currency && isSupportedCurrency(options.currency)
+      ? withDisplayCurrency(found, options.currency)
+      : found;
+
+  const { raw, errors } = toRawInputs(calc, inputs, locale, options.useDefaults ?? false);
+  if (Object.keys(errors).length > 0) {
+    return { status: "invalid-inputs", slug, errors };
+  }
+  const parsed = parseRawInputs(calc, raw, locale);
+  if (parsed.invalidKeys.length > 0) {
+    return { status: "invalid-inputs", slug, errors: parsed.errors };
+  }
+  return {
+    status: "ok",
+    slug,
+    values: parsed.values,
+    series: parsed.series,
+    result: formatResult(calc.compute(parsed.values, parsed.series), locale),
+  };
+}
@@ -0,0 +1,159 @@
+import { currencySymbol } from "../currency.ts";
+import { DEFAULT_LOCALE } from "../locale.ts";
+import type { SheetCell } from "../spreadsheet";
+import { formatInputValue, formatResultValue } from "./formatResult.ts";
+import { seriesRowLabel } from "./series.ts";
+import type {
+  CalculatorDefinition,
+  CalculatorResult,
+  ResultValue,
+} from "./types";
+
+const EXPORT_HEADER = ["Section", "Label", "Value", "Formatted", "Detail"];
+
+function fixedDigits(digits: number): string {
+  return digits > 0 ? `0.${"0".repeat(digits)}` : "0";
+}
+
+// Excel number format that renders like formatResultValue, so the cell stays
+// numeric but reads the same as on the page.
+export function spreadsheetNumberFormat(
+  spec: Pick<ResultValue, "format" | "currency" | "maxFractionDigits">,
+): string {
+  const digits = spec.maxFractionDigits ?? 2;
+  switch (spec.format) {
+    case "currency": {
+      const currency = spec.currency ?? "USD";
+      const currencyDigits =
+        new Intl.NumberFormat("en-US", {
+          style: "currency",
+          currency,
+        }).resolvedOptions().maximumFractionDigits ?? 2;
+      const symbol = currencySymbol(currency).replaceAll('"', "");
+      return `"${symbol}"#,##${fixedDigits(currencyDigits)}`;
+    }
+    case "percent":
+      return `${fixedDigits(digits)}%`;
+    case "multiple":
+      return `#,##${fixedDigits(digits)}"x"`;
+    case "months":
+      return `#,##${fixedDigits(digits)}" months"`;
+    case "ratio":
+      return `#,##${fixedDigits(digits)}":1"`;
+    case "number":
+    default:
+      return `#,##${fixedDigits(digits)}`;
+  }
+}
+
+// One row per input, result value, sensitivity cell, warning, formula and
+// assumption. With
+// `typed`, result values carry their number format for XLSX; otherwise they
+// are plain numbers (CSV).
+export function buildExportRows(
+  calc: CalculatorDefinition,
+  inputs: { values: Record<string, number>; series: Record<string, number[]> },
+  result: CalculatorResult,
+  options: { locale?: string; typed?: boolean } = {},
+): SheetCell[][] {
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const rows: SheetCell[][] = [
+    EXPORT_HEADER,
+    ["Calculator", calc.title, null, null, calc.description],
+  ];
+
+  for (const input of calc.inputs) {
+    if (input.kind === "series") {
+      (inputs.series[input.key] ?? []).forEach((value, index) => {
+        rows.push([
+          "Input",
+          `${input.label} - ${seriesRowLabel(input, index)}`,
+          value,
+          formatInputValue(input, value, locale),
+          null,
+        ]);
+      });
+      continue;
+    }
+    const value = inputs.values[input.key];
+    if (value === undefined) continue;
+    rows.push([
+      "Input",
+      input.label,
+      value,
+      formatInputValue(input, value, locale),
+      input.help ?? null,
+    ]);
+  }
+
+  const pushResult = (section: string, value: ResultValue) => {
+    rows.push([
+      section,
+      value.label,
+      options.typed
+        ? { value: value.value, numberFormat: spreadsheetNumberFormat(value) }
+        : value.value,
+      formatResultValue(value, locale),
+      value.detail ?? null,
+    ]);
+  };
+  pushResult("Result", result.headline);
+  for (const value of result.secondary ?? []) pushResult("Detail", value);
+  for (const value of result.breakdown ?? []) pushResult("Breakdown", value);
+
+  const matrix = result.matrix;
+  if (matrix) {
+    rows.push([
+      "Sensitivity",
+      matrix.title,
+      null,
+      null,
+      `${matrix.rowLabel} by ${matrix.columnLabel}`,
+    ]);
+    matrix.rows.forEach((row, rowIndex) => {
+      const rowText = formatResultValue(
+        { ...matrix.rowFormat, value: row },
+        locale,
+      );
+      matrix.columns.forEach((column, columnIndex) => {
+        const columnText = formatResultValue(
+          { ...matrix.columnFormat, value: column },
+          locale,
+        );
+        const value = matrix.values[rowIndex]?.[columnIndex] ?? null;
+        const isBase =
+          rowIndex === matrix.baseRow && columnIndex === matrix.baseColumn;
+        rows.push([
+          "Sensitivity",
+          `${matrix.rowLabel} ${rowText}, ${matrix.columnLabel} ${columnText}`,
+          value === null
+            ? null
+            : options.typed
+              ? { value, numberFormat: spreadsheetNumberFormat(matrix) }
+              : value,
+          value === null
+            ? "n/a"
+            : formatResultValue({ ...matrix, value }, locale),
+          isBase ? "Base case" : null,
+        ]);
+      });
+    });
+  }
+
+  for (const warning of result.warnings ?? []) {
+    rows.push(["Warning", warning, null, null, null]);
+  }
+  rows.push(["Formula", calc.formula, null, null, null]);
+  for (const assumption of calc.assumptions) {
+    rows.push(["Assumption", assumption, null, null, null]);
+  }
+  return rows;
+}
+
+export function exportFileName(
+  calc: CalculatorDefinition,
+  extension: string,
+  date = new Date(),
+): string {
+  return `${calc.slug}-${date.toISOString().slice(0, 10)}.${extension}`;
+}
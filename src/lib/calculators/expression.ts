@@ -0,0 +1,159 @@
+import { formatNumber } from "../format.ts";
+import { DEFAULT_LOCALE } from "../locale.ts";
+import type { FormulaExpression, InputField } from "./types";
+
+type BinaryKind = "add" | "subtract" | "multiply" | "divide" | "power";
+type BinaryExpression = Extract<FormulaExpression, { left: FormulaExpression }>;
+type LeafExpression = Exclude<FormulaExpression, BinaryExpression>;
+
+// Builders for definitions; variadic forms nest to the left (a - b - c).
+export const ref = (key: string, label?: string): FormulaExpression => ({
+  kind: "input",
+  key,
+  label,
+});
+export const pct = (key: string, label?: string): FormulaExpression => ({
+  kind: "percent",
+  key,
+  label,
+});
+export const num = (value: number): FormulaExpression => ({
+  kind: "number",
+  value,
+});
+
+function chain(kind: BinaryKind) {
+  return (
+    first: FormulaExpression,
+    ...rest: FormulaExpression[]
+  ): FormulaExpression =>
+    rest.reduce<FormulaExpression>(
+      (left, right) => ({ kind, left, right }),
+      first,
+    );
+}
+
+export const add = chain("add");
+export const sub = chain("subtract");
+export const mul = chain("multiply");
+export const div = chain("divide");
+export const pow = (
+  base: FormulaExpression,
+  exponent: FormulaExpression,
+): FormulaExpression => ({ kind: "power", left: base, right: exponent });
+
+const OPERATOR_SYMBOLS: Record<BinaryKind, string> = {
+  add: "+",
+  subtract: "-",
+  multiply: "x",
+  divide: "/",
+  power: "^",
+};
+
+const PRECEDENCE: Record<BinaryKind, number> = {
+  add: 1,
+  subtract: 1,
+  multiply: 2,
+  divide: 2,
+  power: 3,
+};
+
+// Whether `child` needs brackets as the `side` operand of `parent` when both
+// are written inline.
+export function needsParentheses(
+  parent: BinaryKind,
+  child: FormulaExpression,
+  side: "left" | "right",
+): boolean {
+  if (!("left" in child)) return false;
+  const outer = PRECEDENCE[parent];
+  const inner = PRECEDENCE[child.kind];
+  if (inner !== outer) return inner < outer;
+  // a - (b - c), a / (b * c) and (a ^ b) ^ c keep their brackets.
+  if (parent === "power") return side === "left";
+  if (side === "left") return false;
+  return parent === "subtract" || parent === "divide";
+}
+
+export function evaluateExpression(
+  expr: FormulaExpression,
+  values: Record<string, number>,
+): number {
+  switch (expr.kind) {
+    case "input":
+      return values[expr.key] ?? NaN;
+    case "percent":
+      return (values[expr.key] ?? NaN) / 100;
+    case "number":
+      return expr.value;
+    default: {
+      const left = evaluateExpression(expr.left, values);
+      const right = evaluateExpression(expr.right, values);
+      if (expr.kind === "add") return left + right;
+      if (expr.kind === "subtract") return left - right;
+      if (expr.kind === "multiply") return left * right;
+      if (expr.kind === "divide") return left / right;
+      return Math.pow(left, right);
+    }
+  }
+}
+
+export function expressionInputKeys(expr: FormulaExpression): string[] {
+  if (expr.kind === "number") return [];
+  if (expr.kind === "input" || expr.kind === "percent") return [expr.key];
+  return [
+    ...new Set([
+      ...expressionInputKeys(expr.left),
+      ...expressionInputKeys(expr.right),
+    ]),
+  ];
+}
+
+// Plain-text form with the minimum brackets, e.g. "(a + b) / c".
+export function formatExpression(
+  expr: FormulaExpression,
+  leaf: (node: LeafExpression) => string,
+): string {
+  if (!("left" in expr)) return leaf(expr);
+  const side = (child: FormulaExpression, which: "left" | "right") => {
+    const text = formatExpression(child, leaf);
+    return needsParentheses(expr.kind, child, which) ? `(${text})` : text;
+  };
+  return `${side(expr.left, "left")} ${OPERATOR_SYMBOLS[expr.kind]} ${side(expr.right, "right")}`;
+}
+
+// An input's label without trailing notes such as "(optional)".
+export function expressionLabel(
+  node: Extract<FormulaExpression, { key: string }>,
+  inputs: InputField[],
+): string {
+  if (node.label) return node.label;
+  const input = inputs.find((i) => i.key === node.key);
+  return (input?.label ?? node.key).replace(/\s*\([^)]*\)/g, "").trim();
+}
+
+export function describeExpression(
+  expr: FormulaExpression,
+  inputs: InputField[],
+  locale: string = DEFAULT_LOCALE,
+): string {
+  return formatExpression(expr, (node) =>
+    node.kind === "number"
+      ? formatNumber(node.value, 4, locale)
+      : expressionLabel(node, inputs),
+  );
+}
+
+// The formula with the current values in place of the labels, e.g.
+// "5,000 / 1,000". Percent inputs keep their % sign.
+export function substituteExpression(
+  expr: FormulaExpression,
+  values: Record<string, number>,
+  locale: string = DEFAULT_LOCALE,
+): string {
+  return formatExpression(expr, (node) => {
+    if (node.kind === "number") return formatNumber(node.value, 4, locale);
+    const text = formatNumber(values[node.key] ?? NaN, 2, locale);
+    return node.kind === "percent" ? `${text}%` : text;
+  });
+}
@@ -0,0 +1,797 @@
+import type { CalculatorFixture } from "./fixtures.ts";
+
+export const fixturesPart1: Record<string, CalculatorFixture[]> = {
+  "roas-calculator": [
+    {
+      name: "defaults",
+      values: {
+        revenue: 5000,
+        adSpend: 1000,
+        grossMarginPercent: 60,
+        paymentFeesPercent: 3,
+        shippingPercent: 0,
+        returnsPercent: 0,
+        targetProfitPercent: 10,
+      },
+      headline: 5,
+      secondary: {
+        roasPercent: 5,
+        profitAfterAds: 1850,
+        profitMarginAfterAds: 0.37,
+        profitPerDollar: 1.85,
+        contributionMargin: 0.57,
+        breakEvenRoas: 1.754385965,
+        requiredRevenueBreakEven: 1754.385965,
+        requiredRevenueTargetProfit: 2127.659574,
+      },
+    },
+    {
+      name: "zero ad spend",
+      rejected: true,
+      values: {
+        revenue: 5000,
+        adSpend: 0,
+        grossMarginPercent: 60,
+        paymentFeesPercent: 3,
+        shippingPercent: 0,
+        returnsPercent: 0,
+        targetProfitPercent: 10,
+      },
+      headline: 0,
+    },
+  ],
+  "break-even-roas-calculator": [
+    {
+      name: "defaults",
+      values: {
+        grossMarginPercent: 60,
+        paymentFeesPercent: 3,
+        shippingPercent: 0,
+        returnsPercent: 0,
+        aov: 80,
+        cvrPercent: 2.5,
+      },
+      headline: 1.754385965,
+      secondary: {
+        contributionMargin: 0.57,
+        breakevenCpa: 45.6,
+        breakevenCpc: 1.14,
+      },
+    },
+    {
+      name: "zero average order value",
+      values: {
+        grossMarginPercent: 60,
+        paymentFeesPercent: 3,
+        shippingPercent: 0,
+        returnsPercent: 0,
+        aov: 0,
+        cvrPercent: 2.5,
+      },
+      headline: 1.754385965,
+      secondary: { contributionMargin: 0.57, breakevenCpa: 0, breakevenCpc: 0 },
+    },
+  ],
+  "target-roas-calculator": [
+    {
+      name: "defaults",
+      values: {
+        grossMarginPercent: 60,
+        paymentFeesPercent: 3,
+        shippingPercent: 0,
+        returnsPercent: 0,
+        fixedCostPercent: 10,
+        desiredProfitPercent: 10,
+        aov: 80,
+        cvrPercent: 2.5,
+      },
+      headline: 2.702702703,
+      secondary: {
+        availableForAds: 0.37,
+        contributionMargin: 0.57,
+        maxCpa: 29.6,
+        maxCpc: 0.74,
+      },
+    },
+    {
+      name: "zero average order value",
+      values: {
+        grossMarginPercent: 60,
+        paymentFeesPercent: 3,
+        shippingPercent: 0,
+        returnsPercent: 0,
+        fixedCostPercent: 10,
+        desiredProfitPercent: 10,
+        aov: 0,
+        cvrPercent: 2.5,
+      },
+      headline: 2.702702703,
+      secondary: {
+        availableForAds: 0.37,
+        contributionMargin: 0.57,
+        maxCpa: 0,
+        maxCpc: 0,
+      },
+    },
+  ],
+  "paid-ads-funnel-calculator": [
+    {
+      name: "defaults",
+      values: {
+        cpm: 12,
+        ctrPercent: 1.5,
+        cvrPercent: 3,
+        aov: 80,
+        grossMarginPercent: 60,
+        paymentFeesPercent: 3,
+        shippingPercent: 0,
+        returnsPercent: 0,
+      },
+      headline: 8.52,
+      secondary: {
+        cpa: 26.66666667,
+        roas: 3,
+        breakEvenRoas: 1.754385965,
+        breakEvenCpa: 45.6,
+        profitPerOrder: 45.6,
+      },
+    },
+    {
+      name: "zero ctr",
+      rejected: true,
+      values: {
+        cpm: 12,
+        ctrPercent: 0,
+        cvrPercent: 3,
+        aov: 80,
+        grossMarginPercent: 60,
+        paymentFeesPercent: 3,
+        shippingPercent: 0,
+        returnsPercent: 0,
+      },
+      headline: -12,
+      secondary: {
+        cpa: 0,
+        roas: 0,
+        breakEvenRoas: 1.754385965,
+        breakEvenCpa: 45.6,
+        profitPerOrder: 45.6,
+      },
+    },
+  ],
+  "roi-calculator": [
+    {
+      name: "defaults",
+      values: { revenue: 5000, cost: 3000, horizonMonths: 12 },
+      headline: 0.6666666667,
+      secondary: {
+        annualizedRoi: 0.6666666667,
+        profit: 2000,
+        multiple: 1.666666667,
+        profitMargin: 0.4,
+        breakEvenRevenue: 3000,
+        monthlyProfit: 166.6666667,
+        paybackMonths: 18,
+      },
+    },
+    {
+      name: "zero total cost",
+      rejected: true,
+      values: { revenue: 5000, cost: 0, horizonMonths: 12 },
+      headline: 0,
+    },
+  ],
+  "cac-calculator": [
+    {
+      name: "defaults",
+      values: {
+        spend: 20000,
+        newCustomers: 40,
+        arpaMonthly: 200,
+        grossMarginPercent: 80,
+        targetPaybackMonths: 12,
+      },
+      headline: 500,
+      secondary: {
+        grossProfitPerMonth: 160,
+        annualGrossProfit: 1920,
+        paybackMonths: 3.125,
+        cacToAnnualGrossProfit: 0.2604166667,
+        maxCacForTargetPayback: 1920,
+        requiredArpaForTargetPayback: 52.08333333,
+      },
+    },
+    {
+      name: "zero new customers acquired",
+      rejected: true,
+      values: {
+        spend: 20000,
+        newCustomers: 0,
+        arpaMonthly: 200,
+        grossMarginPercent: 80,
+        targetPaybackMonths: 12,
+      },
+      headline: 0,
+    },
+  ],
+  "fully-loaded-cac-calculator": [
+    {
+      name: "defaults",
+      values: {
+        paidSpend: 60000,
+        salaries: 90000,
+        tools: 12000,
+        otherCosts: 8000,
+        newCustomers: 120,
+        arpaMonthly: 500,
+        grossMarginPercent: 80,
+      },
+      headline: 1416.666667,
+      secondary: {
+        total: 170000,
+        paidShare: 0.3529411765,
+        nonPaidShare: 0.6470588235,
+        paybackMonths: 3.541666667,
+      },
+    },
+    {
+      name: "zero paid media spend",
+      values: {
+        paidSpend: 0,
+        salaries: 90000,
+        tools: 12000,
+        otherCosts: 8000,
+        newCustomers: 120,
+        arpaMonthly: 500,
+        grossMarginPercent: 80,
+      },
+      headline: 916.6666667,
+      secondary: {
+        total: 110000,
+        paidShare: 0,
+        nonPaidShare: 1,
+        paybackMonths: 2.291666667,
+      },
+    },
+  ],
+  "ltv-calculator": [
+    {
+      name: "defaults",
+      values: {
+        arpaMonthly: 200,
+        grossMarginPercent: 80,
+        churnPercent: 3,
+        annualDiscountRatePercent: 0,
+        cac: 0,
+        targetLtvToCac: 3,
+      },
+      headline: 5333.333333,
+      secondary: {
+        grossProfitPerMonth: 160,
+        avgLifetimeMonths: 33.33333333,
+        discountedLtv: 5333.333333,
+        discountedLifetimeMonths: 33.33333333,
+        monthlyDiscountRate: 0,
+        ltvToCac: 0,
+        maxCacAtTarget: 1777.777778,
+      },
+    },
+    {
+      name: "zero gross margin",
+      rejected: true,
+      values: {
+        arpaMonthly: 200,
+        grossMarginPercent: 0,
+        churnPercent: 3,
+        annualDiscountRatePercent: 0,
+        cac: 0,
+        targetLtvToCac: 3,
+      },
+      headline: 0,
+      secondary: {
+        grossProfitPerMonth: 0,
+        avgLifetimeMonths: 33.33333333,
+        discountedLtv: 0,
+        discountedLifetimeMonths: 33.33333333,
+        monthlyDiscountRate: 0,
+        ltvToCac: 0,
+        maxCacAtTarget: 0,
+      },
+    },
+    {
+      name: "100% monthly churn",
+      values: {
+        arpaMonthly: 200,
+        grossMarginPercent: 80,
+        churnPercent: 100,
+        annualDiscountRatePercent: 0,
+        cac: 0,
+        targetLtvToCac: 3,
+      },
+      headline: 160,
+      secondary: {
+        grossProfitPerMonth: 160,
+        avgLifetimeMonths: 1,
+        discountedLtv: 160,
+        discountedLifetimeMonths: 1,
+        monthlyDiscountRate: 0,
+        ltvToCac: 0,
+        maxCacAtTarget: 53.33333333,
+      },
+    },
+  ],
+  "ltv-sensitivity-calculator": [
+    {
+      name: "defaults",
+      values: {
+        arpaMonthly: 200,
+        grossMarginPercent: 80,
+        marginStepPercent: 5,
+        monthlyChurnPercent: 3,
+        churnStepPercent: 1,
+      },
+      headline: 5333.333333,
+      secondary: { bestLtv: 8500, worstLtv: 3750, ltvRange: 4750 },
+    },
+    {
+      name: "zero arpa",
+      rejected: true,
+      values: {
+        arpaMonthly: 0,
+        grossMarginPercent: 80,
+        marginStepPercent: 5,
+        monthlyChurnPercent: 3,
+        churnStepPercent: 1,
+      },
+      headline: 0,
+      secondary: { bestLtv: 0, worstLtv: 0, ltvRange: 0 },
+    },
+    {
+      name: "100% monthly churn",
+      values: {
+        arpaMonthly: 200,
+        grossMarginPercent: 80,
+        marginStepPercent: 5,
+        monthlyChurnPercent: 100,
+        churnStepPercent: 1,
+      },
+      headline: 160,
+      secondary: {
+        bestLtv: 171.7171717,
+        worstLtv: 148.5148515,
+        ltvRange: 23.20232023,
+      },
+    },
+  ],
+  "ltv-to-cac-calculator": [
+    {
+      name: "defaults",
+      values: {
+        cac: 500,
+        arpaMonthly: 200,
+        grossMarginPercent: 80,
+        churnPercent: 3,
+        targetRatio: 3,
+      },
+      headline: 10.66666667,
+      secondary: {
+        ltv: 5333.333333,
+        paybackMonths: 3.125,
+        grossProfitPerMonth: 160,
+        maxCacAtTarget: 1777.777778,
+      },
+    },
+    {
+      name: "zero cac",
+      rejected: true,
+      values: {
+        cac: 0,
+        arpaMonthly: 200,
+        grossMarginPercent: 80,
+        churnPercent: 3,
+        targetRatio: 3,
+      },
+      headline: 0,
+    },
+    {
+      name: "100% monthly churn",
+      values: {
+        cac: 500,
+        arpaMonthly: 200,
+        grossMarginPercent: 80,
+        churnPercent: 100,
+        targetRatio: 3,
+      },
+      headline: 0.32,
+      secondary: {
+        ltv: 160,
+        paybackMonths: 3.125,
+        grossProfitPerMonth: 160,
+        maxCacAtTarget: 53.33333333,
+      },
+    },
+  ],
+  "cac-payback-period-calculator": [
+    {
+      name: "defaults",
+      values: {
+        cac: 500,
+        arpaMonthly: 200,
+        grossMarginPercent: 80,
+        annualDiscountRatePercent: 0,
+        monthlyChurnPercent: 3,
+        targetPaybackMonths: 12,
+      },
+      headline: 3.125,
+      secondary: {
+        grossProfitPerMonth: 160,
+        grossProfitPerYear: 1920,
+        paybackYears: 0.2604166667,
+        discountedPayback: 0,
+        monthlyDiscountRate: 0,
+        expectedLifetimeMonths: 33.33333333,
+        maxCacForTargetPayback: 1920,
+        requiredArpaForTargetPayback: 52.08333333,
+        paybackToLifetime: 0.09375,
+      },
+    },
+    {
+      name: "zero cac",
+      rejected: true,
+      values: {
+        cac: 0,
+        arpaMonthly: 200,
+        grossMarginPercent: 80,
+        annualDiscountRatePercent: 0,
+        monthlyChurnPercent: 3,
+        targetPaybackMonths: 12,
+      },
+      headline: 0,
+      secondary: {
+        grossProfitPerMonth: 160,
+        grossProfitPerYear: 1920,
+        paybackYears: 0,
+        discountedPayback: 0,
+        monthlyDiscountRate: 0,
+        expectedLifetimeMonths: 33.33333333,
+        maxCacForTargetPayback: 1920,
+        requiredArpaForTargetPayback: 0,
+        paybackToLifetime: 0,
+      },
+    },
+    {
+      name: "100% monthly churn",
+      values: {
+        cac: 500,
+        arpaMonthly: 200,
+        grossMarginPercent: 80,
+        annualDiscountRatePercent: 0,
+        monthlyChurnPercent: 100,
+        targetPaybackMonths: 12,
+      },
+      headline: 3.125,
+      secondary: {
+        grossProfitPerMonth: 160,
+        grossProfitPerYear: 1920,
+        paybackYears: 0.2604166667,
+        discountedPayback: 0,
+        monthlyDiscountRate: 0,
+        expectedLifetimeMonths: 1,
+        maxCacForTargetPayback: 1920,
+        requiredArpaForTargetPayback: 52.08333333,
+        paybackToLifetime: 3.125,
+      },
+      warns: true,
+    },
+  ],
+  "cac-payback-sensitivity-calculator": [
+    {
+      name: "defaults",
+      values: {
+        cac: 6000,
+        arpaMonthly: 800,
+        grossMarginPercent: 80,
+        arpaStepPercent: 10,
+        grossMarginStepPercent: 5,
+      },
+      headline: 9.375,
+      secondary: {
+        bestPayback: 8.021390374,
+        worstPayback: 11.11111111,
+        paybackRange: 3.089720737,
+      },
+    },
+    {
+      name: "zero cac",
+      rejected: true,
+      values: {
+        cac: 0,
+        arpaMonthly: 800,
+        grossMarginPercent: 80,
+        arpaStepPercent: 10,
+        grossMarginStepPercent: 5,
+      },
+      headline: 0,
+      secondary: { bestPayback: 0, worstPayback: 0, paybackRange: 0 },
+    },
+  ],
+  "churn-rate-calculator": [
+    {
+      name: "defaults",
+      values: {
+        startingCustomers: 1000,
+        lostCustomers: 30,
+        periodsPerYear: 12,
+        forecastPeriods: 12,
+      },
+      headline: 0.03,
+      secondary: {
+        retention: 0.97,
+        retainedCustomers: 970,
+        annualChurn: 0.306157639,
+        expectedRemaining: 693.842361,
+        expectedRetention: 0.693842361,
+        lifetimePeriods: 33.33333333,
+        halfLifePeriods: 22.75657306,
+      },
+    },
+    {
+      name: "zero customers at start",
+      rejected: true,
+      values: {
+        startingCustomers: 0,
+        lostCustomers: 30,
+        periodsPerYear: 12,
+        forecastPeriods: 12,
+      },
+      headline: 0,
+    },
+  ],
+  "retention-rate-calculator": [
+    {
+      name: "defaults",
+      values: {
+        startingCustomers: 1000,
+        endingCustomers: 1050,
+        newCustomers: 80,
+        periodsPerYear: 12,
+        forecastPeriods: 12,
+      },
+      headline: 0.97,
+      secondary: {
+        retainedCustomers: 970,
+        churn: 0.03,
+        annualRetention: 0.693842361,
+        annualChurn: 0.306157639,
+        expectedRemaining: 693.842361,
+        expectedRetention: 0.693842361,
+        lifetimePeriods: 33.33333333,
+        halfLifePeriods: 22.75657306,
+      },
+    },
+    {
+      name: "zero customers at start",
+      rejected: true,
+      values: {
+        startingCustomers: 0,
+        endingCustomers: 1050,
+        newCustomers: 80,
+        periodsPerYear: 12,
+        forecastPeriods: 12,
+      },
+      headline: 0,
+    },
+  ],
+  "arpu-calculator": [
+    {
+      name: "defaults",
+      values: {
+        revenue: 50000,
+        periodMonths: 1,
+        avgUsers: 2000,
+        grossMarginPercent: 80,
+        targetArpu: 0,
+      },
+      headline: 25,
+      secondary: {
+        monthlyArpu: 25,
+        annualizedArpu: 300,
+        grossProfitPerUser: 20,
+        grossProfitPerUserMonthly: 20,
+        grossProfitPerUserAnnual: 240,
+        requiredRevenueForTarget: 0,
+        gapToTarget: 0,
+      },
+    },
+    {
+      name: "zero average active users",
+      rejected: true,
+      values: {
+        revenue: 50000,
+        periodMonths: 1,
+        avgUsers: 0,
+        grossMarginPercent: 80,
+        targetArpu: 0,
+      },
+      headline: 0,
+    },
+  ],
+  "arpa-calculator": [
+    {
+      name: "defaults",
+      values: {
+        revenue: 120000,
+        periodMonths: 1,
+        avgAccounts: 60,
+        grossMarginPercent: 80,
+        targetArpa: 0,
+      },
+      headline: 2000,
+      secondary: {
+        monthlyArpa: 2000,
+        annualizedArpa: 24000,
+        grossProfitPerAccount: 1600,
+        grossProfitPerAccountMonthly: 1600,
+        grossProfitPerAccountAnnual: 19200,
+        requiredRevenueForTarget: 0,
+        gapToTarget: 0,
+      },
+    },
+    {
+      name: "zero average paying accounts",
+      rejected: true,
+      values: {
+        revenue: 120000,
+        periodMonths: 1,
+        avgAccounts: 0,
+        grossMarginPercent: 80,
+        targetArpa: 0,
+      },
+      headline: 0,
+    },
+  ],
+  "arpu-growth-decomposition-calculator": [
+    {
+      name: "defaults",
+      values: {
+        startRevenue: 50000,
+        startUsers: 2000,
+        endRevenue: 65000,
+        endUsers: 2300,
+      },
+      headline: 15000,
+      secondary: {
+        startArpu: 25,
+        endArpu: 28.26086957,
+        userEffect: 7500,
+        arpuEffect: 6521.73913,
+        interaction: 978.2608696,
+        userGrowth: 0.15,
+        arpuGrowth: 0.1304347826,
+      },
+    },
+    {
+      name: "zero average active users",
+      rejected: true,
+      values: {
+        startRevenue: 50000,
+        startUsers: 0,
+        endRevenue: 65000,
+        endUsers: 2300,
+      },
+      headline: 0,
+    },
+  ],
+  "mrr-calculator": [
+    {
+      name: "defaults",
+      values: {
+        customers: 250,
+        arpaMonthly: 200,
+        targetCustomers: 0,
+        targetMrr: 0,
+      },
+      headline: 50000,
+      secondary: {
+        arr: 600000,
+        requiredCustomers: 0,
+        requiredArpa: 0,
+        requiredCustomersLowArpa: 0,
+        requiredCustomersHighArpa: 0,
+      },
+    },
+    {
+      name: "zero paying customers",
+      values: {
+        customers: 0,
+        arpaMonthly: 200,
+        targetCustomers: 0,
+        targetMrr: 0,
+      },
+      headline: 0,
+      secondary: {
+        arr: 0,
+        requiredCustomers: 0,
+        requiredArpa: 0,
+        requiredCustomersLowArpa: 0,
+        requiredCustomersHighArpa: 0,
+      },
+    },
+  ],
+  "mrr-growth-rate-calculator": [
+    {
+      name: "defaults",
+      values: {
+        startMrr: 200000,
+        endMrr: 240000,
+        months: 6,
+        targetPeriodGrowthPercent: 0,
+      },
+      headline: 0.2,
+      secondary: {
+        netNewMrr: 40000,
+        avgNetNewPerMonth: 6666.666667,
+        growthMultiple: 1.2,
+        cmgr: 0.03085332089,
+        annualized: 0.44,
+        requiredEndMrr: 0,
+        requiredNetNew: 0,
+      },
+    },
+    {
+      name: "zero start mrr",
+      rejected: true,
+      values: {
+        startMrr: 0,
+        endMrr: 240000,
+        months: 6,
+        targetPeriodGrowthPercent: 0,
+      },
+      headline: 0,
+      secondary: {
+        netNewMrr: 240000,
+        avgNetNewPerMonth: 40000,
+        growthMultiple: 0,
+        cmgr: 0,
+        annualized: 0,
+        requiredEndMrr: 0,
+        requiredNetNew: 0,
+      },
+    },
+  ],
+  "mrr-churn-rate-calculator": [
+    {
+      name: "defaults",
+      values: {
+        startingMrr: 200000,
+        churnedMrr: 8000,
+        contractionMrr: 0,
+        periodMonths: 1,
+      },
+      headline: 0.04,
+      secondary: {
+        monthlyEquivalent: 0.04,
+        grossChurn: 0.04,
+        monthlyEquivalentGross: 0.04,
+        endingGrossMrr: 192000,
+      },
+    },
+    {
+      name: "zero starting mrr",
+      rejected: true,
+      values: {
+        startingMrr: 0,
+        churnedMrr: 8000,
+        contractionMrr: 0,
+        periodMonths: 1,
+      },
+      headline: 0,
+      secondary: {
+        monthlyEquivalent: 0,
+        grossChurn: 0,
+        monthlyEquivalentGross: 0,
+        endingGrossMrr: 0,
+      },
+    },
+  ],
+};
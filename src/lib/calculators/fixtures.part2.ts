@@ -0,0 +1,648 @@
+import type { CalculatorFixture } from "./fixtures.ts";
+
+export const fixturesPart2: Record<string, CalculatorFixture[]> = {
+  "arr-calculator": [
+    {
+      name: "defaults",
+      values: {
+        customers: 250,
+        arpaMonthly: 200,
+        targetCustomers: 0,
+        targetArr: 0,
+      },
+      headline: 600000,
+      secondary: {
+        mrr: 50000,
+        requiredCustomers: 0,
+        requiredArpa: 0,
+        requiredCustomersLowArpa: 0,
+        requiredCustomersHighArpa: 0,
+      },
+    },
+    {
+      name: "zero customers",
+      values: {
+        customers: 0,
+        arpaMonthly: 200,
+        targetCustomers: 0,
+        targetArr: 0,
+      },
+      headline: 0,
+      secondary: {
+        mrr: 0,
+        requiredCustomers: 0,
+        requiredArpa: 0,
+        requiredCustomersLowArpa: 0,
+        requiredCustomersHighArpa: 0,
+      },
+    },
+  ],
+  "arr-vs-mrr-calculator": [
+    {
+      name: "defaults",
+      values: { mrr: 200000, arr: 2400000 },
+      headline: 2400000,
+      secondary: { mrrFromArr: 200000, mismatch: 0, mismatchPct: 0 },
+    },
+    {
+      name: "zero mrr",
+      values: { mrr: 0, arr: 2400000 },
+      headline: 0,
+      secondary: { mrrFromArr: 200000, mismatch: 2400000, mismatchPct: 0 },
+    },
+  ],
+  "arr-growth-rate-calculator": [
+    {
+      name: "defaults",
+      values: {
+        startArr: 1200000,
+        endArr: 1800000,
+        months: 12,
+        targetPeriodGrowthPercent: 0,
+      },
+      headline: 0.5,
+      secondary: {
+        netNewArr: 600000,
+        avgNetNewPerMonth: 50000,
+        growthMultiple: 1.5,
+        cmgr: 0.03436608313,
+        annualized: 0.5,
+        requiredEndArr: 0,
+        requiredNetNew: 0,
+      },
+    },
+    {
+      name: "zero start arr",
+      values: {
+        startArr: 0,
+        endArr: 1800000,
+        months: 12,
+        targetPeriodGrowthPercent: 0,
+      },
+      headline: 0,
+      secondary: {
+        netNewArr: 1800000,
+        avgNetNewPerMonth: 150000,
+        growthMultiple: 0,
+        cmgr: 0,
+        annualized: 0,
+        requiredEndArr: 0,
+        requiredNetNew: 0,
+      },
+      warns: true,
+    },
+  ],
+  "arr-valuation-calculator": [
+    {
+      name: "defaults",
+      values: { arr: 2400000, multiple: 6, multipleLow: 4, multipleHigh: 10 },
+      headline: 14400000,
+      secondary: {
+        valuationLow: 9600000,
+        valuationHigh: 24000000,
+        valuationPer1m: 6000000,
+      },
+    },
+    {
+      name: "zero multiple",
+      values: { arr: 2400000, multiple: 6, multipleLow: 0, multipleHigh: 10 },
+      headline: 14400000,
+      secondary: {
+        valuationLow: 0,
+        valuationHigh: 24000000,
+        valuationPer1m: 6000000,
+      },
+    },
+  ],
+  "arr-valuation-sensitivity-calculator": [
+    {
+      name: "defaults",
+      values: {
+        baseArr: 2400000,
+        arrStepPercent: 15,
+        baseMultiple: 6,
+        multipleStep: 1,
+      },
+      headline: 14400000,
+    },
+    {
+      name: "zero base arr",
+      values: {
+        baseArr: 0,
+        arrStepPercent: 15,
+        baseMultiple: 6,
+        multipleStep: 1,
+      },
+      headline: 0,
+    },
+  ],
+  "nrr-calculator": [
+    {
+      name: "defaults",
+      values: {
+        startingMrr: 100000,
+        expansionMrr: 15000,
+        contractionMrr: 5000,
+        churnedMrr: 8000,
+        targetNrrPercent: 0,
+      },
+      headline: 1.02,
+      secondary: {
+        endingMrr: 102000,
+        netExpansionMrr: 2000,
+        netChange: 2000,
+        grossRetention: 0.87,
+        netChangePercent: 0.02,
+        expansionRate: 0.15,
+        contractionRate: 0.05,
+        churnRate: 0.08,
+        nrrMultiple: 1.02,
+        requiredExpansionMrr: 0,
+        expansionGap: 0,
+      },
+    },
+    {
+      name: "zero starting mrr",
+      values: {
+        startingMrr: 0,
+        expansionMrr: 15000,
+        contractionMrr: 5000,
+        churnedMrr: 8000,
+        targetNrrPercent: 0,
+      },
+      headline: 0,
+      warns: true,
+    },
+  ],
+  "grr-calculator": [
+    {
+      name: "defaults",
+      values: {
+        startingMrr: 100000,
+        contractionMrr: 5000,
+        churnedMrr: 8000,
+        periodMonths: 1,
+        targetGrrPercent: 0,
+      },
+      headline: 0.87,
+      secondary: {
+        endingGrossMrr: 87000,
+        grossChurn: 0.13,
+        monthlyEquivalentGrr: 0.87,
+        monthlyEquivalentChurn: 0.13,
+        requiredGrossLoss: 0,
+        lossReductionNeeded: 0,
+      },
+    },
+    {
+      name: "zero starting mrr",
+      values: {
+        startingMrr: 0,
+        contractionMrr: 5000,
+        churnedMrr: 8000,
+        periodMonths: 1,
+        targetGrrPercent: 0,
+      },
+      headline: 0,
+      warns: true,
+    },
+  ],
+  "nrr-vs-grr-calculator": [
+    {
+      name: "defaults",
+      values: {
+        startingMrr: 100000,
+        expansionMrr: 12000,
+        contractionMrr: 5000,
+        churnedMrr: 8000,
+      },
+      headline: 0.99,
+      secondary: {
+        grr: 0.87,
+        gap: 0.12,
+        endingNrrMrr: 99000,
+        endingGrrMrr: 87000,
+        expansionShare: 0.12,
+        lossesShare: 0.13,
+      },
+    },
+    {
+      name: "zero starting mrr",
+      values: {
+        startingMrr: 0,
+        expansionMrr: 12000,
+        contractionMrr: 5000,
+        churnedMrr: 8000,
+      },
+      headline: 0,
+      warns: true,
+    },
+  ],
+  "gross-revenue-churn-calculator": [
+    {
+      name: "defaults",
+      values: {
+        startingMrr: 100000,
+        contractionMrr: 5000,
+        churnedMrr: 8000,
+        periodMonths: 1,
+      },
+      headline: 0.13,
+      secondary: {
+        monthlyEquivalent: 0.13,
+        monthlyEquivalentGrr: 0.87,
+        losses: 13000,
+        endingGrossMrr: 87000,
+        grr: 0.87,
+      },
+    },
+    {
+      name: "zero starting mrr",
+      values: {
+        startingMrr: 0,
+        contractionMrr: 5000,
+        churnedMrr: 8000,
+        periodMonths: 1,
+      },
+      headline: 0,
+      secondary: {
+        monthlyEquivalent: 0,
+        monthlyEquivalentGrr: 0,
+        losses: 13000,
+        endingGrossMrr: -13000,
+        grr: 0,
+      },
+      warns: true,
+    },
+  ],
+  "net-new-mrr-calculator": [
+    {
+      name: "defaults",
+      values: {
+        newMrr: 12000,
+        expansionMrr: 8000,
+        contractionMrr: 3000,
+        churnedMrr: 5000,
+        startingMrr: 0,
+        periodMonths: 1,
+        targetNetNewMrr: 0,
+      },
+      headline: 12000,
+      secondary: {
+        grossAdditions: 20000,
+        grossLosses: 8000,
+        endingMrr: 0,
+        growthRate: 0,
+        avgNetNewPerMonth: 12000,
+        requiredAdditions: 0,
+        requiredNetNewPerMonth: 0,
+      },
+    },
+    {
+      name: "no churn or contraction",
+      values: {
+        newMrr: 12000,
+        expansionMrr: 8000,
+        contractionMrr: 0,
+        churnedMrr: 0,
+        startingMrr: 0,
+        periodMonths: 1,
+        targetNetNewMrr: 0,
+      },
+      headline: 20000,
+      secondary: {
+        grossAdditions: 20000,
+        grossLosses: 0,
+        endingMrr: 0,
+        growthRate: 0,
+        avgNetNewPerMonth: 20000,
+        requiredAdditions: 0,
+        requiredNetNewPerMonth: 0,
+      },
+    },
+  ],
+  "mrr-waterfall-calculator": [
+    {
+      name: "defaults",
+      values: {
+        startingMrr: 200000,
+        newMrr: 12000,
+        expansionMrr: 8000,
+        contractionMrr: 3000,
+        churnedMrr: 5000,
+      },
+      headline: 212000,
+      secondary: {
+        netNewMrr: 12000,
+        growthRate: 0.06,
+        quickRatio: 2.5,
+        nrr: 1,
+        grr: 0.96,
+      },
+    },
+    {
+      name: "zero starting mrr",
+      values: {
+        startingMrr: 0,
+        newMrr: 12000,
+        expansionMrr: 8000,
+        contractionMrr: 3000,
+        churnedMrr: 5000,
+      },
+      headline: 12000,
+      secondary: {
+        netNewMrr: 12000,
+        growthRate: 0,
+        quickRatio: 2.5,
+        nrr: 0,
+        grr: 0,
+      },
+    },
+  ],
+  "saas-quick-ratio-calculator": [
+    {
+      name: "defaults",
+      values: {
+        newMrr: 12000,
+        expansionMrr: 8000,
+        contractionMrr: 3000,
+        churnedMrr: 5000,
+        targetQuickRatio: 0,
+      },
+      headline: 2.5,
+      secondary: { netNewMrr: 12000, requiredPositive: 0, maxNegative: 0 },
+    },
+    {
+      name: "no churn or contraction",
+      values: {
+        newMrr: 12000,
+        expansionMrr: 8000,
+        contractionMrr: 0,
+        churnedMrr: 0,
+        targetQuickRatio: 0,
+      },
+      headline: 0,
+      warns: true,
+    },
+  ],
+  "rule-of-40-calculator": [
+    {
+      name: "defaults",
+      values: {
+        growthPercent: 35,
+        marginPercent: 10,
+        targetRuleOf40Percent: 40,
+      },
+      headline: 0.45,
+      secondary: { requiredGrowth: 0.3, requiredMargin: 0.05 },
+    },
+    {
+      name: "zero target rule of 40",
+      values: {
+        growthPercent: 35,
+        marginPercent: 10,
+        targetRuleOf40Percent: 0,
+      },
+      headline: 0.45,
+      secondary: { requiredGrowth: -0.1, requiredMargin: -0.35 },
+    },
+  ],
+  "net-new-arr-calculator": [
+    {
+      name: "defaults",
+      values: {
+        newArr: 240000,
+        expansionArr: 160000,
+        contractionArr: 60000,
+        churnedArr: 100000,
+        startingArr: 0,
+      },
+      headline: 240000,
+      secondary: {
+        grossAdditions: 400000,
+        grossLosses: 160000,
+        netNewArrGrowth: 0,
+        netExpansionRate: 0,
+      },
+    },
+    {
+      name: "zero new arr",
+      values: {
+        newArr: 0,
+        expansionArr: 160000,
+        contractionArr: 60000,
+        churnedArr: 100000,
+        startingArr: 0,
+      },
+      headline: 0,
+      secondary: {
+        grossAdditions: 160000,
+        grossLosses: 160000,
+        netNewArrGrowth: 0,
+        netExpansionRate: 0,
+      },
+    },
+  ],
+  "arr-waterfall-calculator": [
+    {
+      name: "defaults",
+      values: {
+        startingArr: 2400000,
+        newArr: 240000,
+        expansionArr: 160000,
+        contractionArr: 60000,
+        churnedArr: 100000,
+      },
+      headline: 2640000,
+      secondary: {
+        netNewArr: 240000,
+        growthRate: 0.1,
+        ratio: 2.5,
+        nrr: 1,
+        grr: 0.9333333333,
+        netExpansionArr: 0,
+      },
+    },
+    {
+      name: "zero starting arr",
+      values: {
+        startingArr: 0,
+        newArr: 240000,
+        expansionArr: 160000,
+        contractionArr: 60000,
+        churnedArr: 100000,
+      },
+      headline: 240000,
+      secondary: {
+        netNewArr: 240000,
+        growthRate: 0,
+        ratio: 2.5,
+        nrr: 0,
+        grr: 0,
+        netExpansionArr: 0,
+      },
+      warns: true,
+    },
+  ],
+  "burn-multiple-calculator": [
+    {
+      name: "defaults",
+      values: { netBurn: 300000, netNewArr: 200000, targetMultiple: 1.5 },
+      headline: 1.5,
+      secondary: { requiredNetNewArr: 200000, maxBurnAtTarget: 300000 },
+    },
+    {
+      name: "zero target burn multiple",
+      values: { netBurn: 300000, netNewArr: 200000, targetMultiple: 0 },
+      headline: 1.5,
+      secondary: { requiredNetNewArr: 0, maxBurnAtTarget: 0 },
+    },
+  ],
+  "unit-economics-calculator": [
+    {
+      name: "defaults",
+      values: {
+        arpaMonthly: 200,
+        grossMarginPercent: 80,
+        monthlyChurnPercent: 3,
+        cac: 800,
+      },
+      headline: 5,
+      secondary: { ltv: 5333.333333, ltvToCac: 6.666666667 },
+    },
+    {
+      name: "zero gross margin",
+      values: {
+        arpaMonthly: 200,
+        grossMarginPercent: 0,
+        monthlyChurnPercent: 3,
+        cac: 800,
+      },
+      headline: 0,
+      secondary: { ltv: 0, ltvToCac: 0 },
+      warns: true,
+    },
+    {
+      name: "100% monthly churn rate",
+      values: {
+        arpaMonthly: 200,
+        grossMarginPercent: 80,
+        monthlyChurnPercent: 100,
+        cac: 800,
+      },
+      headline: 5,
+      secondary: { ltv: 160, ltvToCac: 0.2 },
+    },
+  ],
+  "bookings-vs-arr-calculator": [
+    {
+      name: "defaults",
+      values: {
+        contractValue: 120000,
+        termMonths: 12,
+        oneTimeFees: 10000,
+        prepaidPercent: 100,
+        billingFrequencyMonths: 12,
+        targetArr: 200000,
+      },
+      headline: 110000,
+      secondary: {
+        bookings: 120000,
+        recurringShare: 0.9166666667,
+        oneTimeShare: 0.08333333333,
+        upfrontCash: 120000,
+        upfrontCashShare: 1,
+        remainingCash: 0,
+        cashPerInvoice: 0,
+        requiredTcv: 210000,
+        arrToBookings: 0.9166666667,
+      },
+    },
+    {
+      name: "zero one-time fees / services",
+      values: {
+        contractValue: 120000,
+        termMonths: 12,
+        oneTimeFees: 0,
+        prepaidPercent: 100,
+        billingFrequencyMonths: 12,
+        targetArr: 200000,
+      },
+      headline: 120000,
+      secondary: {
+        bookings: 120000,
+        recurringShare: 1,
+        oneTimeShare: 0,
+        upfrontCash: 120000,
+        upfrontCashShare: 1,
+        remainingCash: 0,
+        cashPerInvoice: 0,
+        requiredTcv: 200000,
+        arrToBookings: 1,
+      },
+    },
+  ],
+  "deferred-revenue-rollforward-calculator": [
+    {
+      name: "defaults",
+      values: {
+        beginningDeferred: 250000,
+        billings: 400000,
+        recognizedRevenue: 350000,
+        periodMonths: 12,
+      },
+      headline: 300000,
+      secondary: {
+        change: 50000,
+        netBillings: 50000,
+        billingsToRevenue: 1.142857143,
+        deferredCoverageMonths: 10.28571429,
+      },
+    },
+    {
+      name: "zero beginning deferred revenue",
+      values: {
+        beginningDeferred: 0,
+        billings: 400000,
+        recognizedRevenue: 350000,
+        periodMonths: 12,
+      },
+      headline: 50000,
+      secondary: {
+        change: 50000,
+        netBillings: 50000,
+        billingsToRevenue: 1.142857143,
+        deferredCoverageMonths: 1.714285714,
+      },
+    },
+  ],
+  "saas-magic-number-calculator": [
+    {
+      name: "defaults",
+      values: {
+        netNewArr: 250000,
+        salesMarketingSpend: 400000,
+        periodsPerYear: 4,
+        targetMagicNumber: 1,
+      },
+      headline: 2.5,
+      secondary: {
+        annualizedNetNewArr: 1000000,
+        netNewArrPerDollar: 0.625,
+        requiredNetNewArrForTarget: 100000,
+        maxSpendAtTarget: 1000000,
+      },
+    },
+    {
+      name: "zero sales & marketing spend",
+      rejected: true,
+      values: {
+        netNewArr: 250000,
+        salesMarketingSpend: 0,
+        periodsPerYear: 4,
+        targetMagicNumber: 1,
+      },
+      headline: 0,
+    },
+  ],
+};
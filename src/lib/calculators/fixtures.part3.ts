@@ -0,0 +1,920 @@
+import type { CalculatorFixture } from "./fixtures.ts";
+
+export const fixturesPart3: Record<string, CalculatorFixture[]> = {
+  "customer-lifetime-calculator": [
+    {
+      name: "defaults",
+      values: { monthlyChurnPercent: 3, horizonMonths: 12 },
+      headline: 33.33333333,
+      secondary: {
+        medianLifetime: 22.75657306,
+        retentionAtHorizon: 0.693842361,
+      },
+    },
+    {
+      name: "zero monthly churn rate",
+      values: { monthlyChurnPercent: 0, horizonMonths: 12 },
+      headline: 0,
+      secondary: { medianLifetime: 0, retentionAtHorizon: 1 },
+      warns: true,
+    },
+    {
+      name: "100% monthly churn rate",
+      values: { monthlyChurnPercent: 100, horizonMonths: 12 },
+      headline: 1,
+      secondary: { medianLifetime: 0, retentionAtHorizon: 0 },
+      warns: true,
+    },
+  ],
+  "break-even-revenue-calculator": [
+    {
+      name: "defaults",
+      values: {
+        fixedCosts: 30000,
+        grossMarginPercent: 80,
+        daysInPeriod: 30,
+        currentRevenue: 0,
+      },
+      headline: 37500,
+      secondary: {
+        dailyBreakEven: 1250,
+        requiredGrossProfit: 30000,
+        revenueGap: 0,
+        percentToBreakeven: 0,
+      },
+    },
+    {
+      name: "zero gross margin",
+      values: {
+        fixedCosts: 30000,
+        grossMarginPercent: 0,
+        daysInPeriod: 30,
+        currentRevenue: 0,
+      },
+      headline: 0,
+      warns: true,
+    },
+  ],
+  "npv-calculator": [
+    {
+      name: "defaults",
+      values: {
+        initialInvestment: 100000,
+        discountRatePercent: 12,
+        targetNpv: 0,
+      },
+      series: { cashFlows: [30000, 30000, 30000, 30000, 30000] },
+      headline: 8143.28607,
+      secondary: {
+        pv: 108143.2861,
+        profitabilityIndex: 1.081432861,
+        annuityFactor: 3.604776202,
+        requiredCashFlow: 27740.97319,
+      },
+    },
+    {
+      name: "zero initial investment",
+      values: { initialInvestment: 0, discountRatePercent: 12, targetNpv: 0 },
+      series: { cashFlows: [30000, 30000, 30000, 30000, 30000] },
+      headline: 108143.2861,
+      secondary: {
+        pv: 108143.2861,
+        profitabilityIndex: 0,
+        annuityFactor: 3.604776202,
+        requiredCashFlow: 0,
+      },
+    },
+  ],
+  "irr-calculator": [
+    {
+      name: "defaults",
+      values: {
+        initialInvestment: 100000,
+        terminalValue: 0,
+        discountRatePercent: 12,
+      },
+      series: { cashFlows: [25000, 30000, 35000, 40000, 45000] },
+      headline: 0.1971110839,
+      secondary: {
+        npv: 22104.48521,
+        totalInflows: 175000,
+        netCash: 75000,
+        cashMultiple: 1.75,
+        simplePaybackYears: 3.25,
+      },
+    },
+    {
+      name: "zero initial investment",
+      values: {
+        initialInvestment: 0,
+        terminalValue: 0,
+        discountRatePercent: 12,
+      },
+      series: { cashFlows: [25000, 30000, 35000, 40000, 45000] },
+      headline: 0,
+      secondary: {
+        npv: 122104.4852,
+        totalInflows: 175000,
+        netCash: 175000,
+        cashMultiple: 0,
+        simplePaybackYears: 0,
+      },
+      warns: true,
+    },
+  ],
+  "discounted-payback-period-calculator": [
+    {
+      name: "defaults",
+      values: { initialInvestment: 100000, discountRatePercent: 12 },
+      series: {
+        cashFlows: [
+          30000, 30000, 30000, 30000, 30000, 30000, 30000, 30000, 30000, 30000,
+        ],
+      },
+      headline: 54.25949901,
+      secondary: {
+        simplePayback: 40,
+        discountedPaybackYears: 4.521624917,
+        npv: 69506.69085,
+        pvTotal: 169506.6909,
+        pvCoverage: 1.695066909,
+      },
+    },
+    {
+      name: "zero initial investment",
+      values: { initialInvestment: 0, discountRatePercent: 12 },
+      series: {
+        cashFlows: [
+          30000, 30000, 30000, 30000, 30000, 30000, 30000, 30000, 30000, 30000,
+        ],
+      },
+      headline: 0,
+      secondary: {
+        simplePayback: 0,
+        discountedPaybackYears: 0,
+        npv: 169506.6909,
+        pvTotal: 169506.6909,
+        pvCoverage: 0,
+      },
+    },
+  ],
+  "mrr-forecast-calculator": [
+    {
+      name: "defaults",
+      values: {
+        startingMrr: 100000,
+        newMrrPerMonth: 12000,
+        expansionRatePercent: 2,
+        contractionRatePercent: 0.5,
+        churnRatePercent: 1.5,
+        months: 12,
+      },
+      headline: 244000,
+      secondary: {
+        endingArrRunRate: 2928000,
+        netNewMrr: 144000,
+        netChangePercent: 1.44,
+        endingMultiple: 2.44,
+        cmgr: 0.07716562493,
+        impliedMonthlyNrr: 1,
+        impliedMonthlyGrr: 0.98,
+        averageMrr: 166000,
+        mrrAt3: 136000,
+        mrrAt6: 172000,
+        mrrAt12: 244000,
+        totalNew: 144000,
+        totalExpansion: 39840,
+        totalContraction: 9960,
+        totalChurn: 29880,
+        totalNetNew: 144000,
+      },
+    },
+    {
+      name: "zero starting mrr",
+      rejected: true,
+      values: {
+        startingMrr: 0,
+        newMrrPerMonth: 12000,
+        expansionRatePercent: 2,
+        contractionRatePercent: 0.5,
+        churnRatePercent: 1.5,
+        months: 12,
+      },
+      headline: 144000,
+      secondary: {
+        endingArrRunRate: 1728000,
+        netNewMrr: 144000,
+        netChangePercent: 0,
+        endingMultiple: 0,
+        cmgr: 0,
+        impliedMonthlyNrr: 0,
+        impliedMonthlyGrr: 0,
+        averageMrr: 66000,
+        mrrAt3: 36000,
+        mrrAt6: 72000,
+        mrrAt12: 144000,
+        totalNew: 144000,
+        totalExpansion: 15840,
+        totalContraction: 3960,
+        totalChurn: 11880,
+        totalNetNew: 144000,
+      },
+    },
+    {
+      name: "100% monthly churn rate",
+      values: {
+        startingMrr: 100000,
+        newMrrPerMonth: 12000,
+        expansionRatePercent: 2,
+        contractionRatePercent: 0.5,
+        churnRatePercent: 100,
+        months: 12,
+      },
+      headline: 12182.74112,
+      secondary: {
+        endingArrRunRate: 146192.8934,
+        netNewMrr: -87817.25888,
+        netChangePercent: -0.8781725888,
+        endingMultiple: 0.1218274112,
+        cmgr: -0.1609031618,
+        impliedMonthlyNrr: 0.015,
+        impliedMonthlyGrr: -0.005,
+        averageMrr: 19612.28925,
+        mrrAt3: 12183.0375,
+        mrrAt6: 12182.74112,
+        mrrAt12: 12182.74112,
+        totalNew: 144000,
+        totalExpansion: 4706.949419,
+        totalContraction: 1176.737355,
+        totalChurn: 235347.4709,
+        totalNetNew: -87817.25888,
+      },
+    },
+  ],
+  "cash-runway-calculator": [
+    {
+      name: "defaults",
+      values: {
+        cashBalance: 500000,
+        monthlyRevenue: 150000,
+        grossMarginPercent: 80,
+        monthlyOperatingExpenses: 220000,
+        monthlyRevenueGrowthPercent: 0,
+        monthsToSimulate: 24,
+        targetRunwayMonths: 0,
+      },
+      headline: 5,
+      secondary: {
+        netBurn: 100000,
+        grossProfit: 120000,
+        noGrowthRunway: 5,
+        breakevenRevenue: 275000,
+        breakevenMonth: 0,
+        cashEnd: 0,
+        requiredRevenueForTarget: 0,
+      },
+    },
+    {
+      name: "zero gross margin",
+      rejected: true,
+      values: {
+        cashBalance: 500000,
+        monthlyRevenue: 150000,
+        grossMarginPercent: 0,
+        monthlyOperatingExpenses: 220000,
+        monthlyRevenueGrowthPercent: 0,
+        monthsToSimulate: 24,
+        targetRunwayMonths: 0,
+      },
+      headline: 3,
+      secondary: {
+        netBurn: 220000,
+        grossProfit: 0,
+        noGrowthRunway: 2.272727273,
+        breakevenRevenue: 0,
+        breakevenMonth: 0,
+        cashEnd: 0,
+        requiredRevenueForTarget: 0,
+      },
+    },
+  ],
+  "blended-cac-calculator": [
+    {
+      name: "defaults",
+      values: {
+        adSpend: 60000,
+        creativeAgency: 10000,
+        salesMarketingSalaries: 80000,
+        toolsOverhead: 5000,
+        newCustomers: 120,
+        arpaMonthly: 800,
+        grossMarginPercent: 80,
+      },
+      headline: 1291.666667,
+      secondary: {
+        paidCac: 583.3333333,
+        paybackMonths: 2.018229167,
+        fixedShare: 0.5483870968,
+      },
+    },
+    {
+      name: "zero ad spend",
+      rejected: true,
+      values: {
+        adSpend: 0,
+        creativeAgency: 10000,
+        salesMarketingSalaries: 80000,
+        toolsOverhead: 5000,
+        newCustomers: 120,
+        arpaMonthly: 800,
+        grossMarginPercent: 80,
+      },
+      headline: 791.6666667,
+      secondary: {
+        paidCac: 83.33333333,
+        paybackMonths: 1.236979167,
+        fixedShare: 0.8947368421,
+      },
+    },
+  ],
+  "cohort-ltv-forecast-calculator": [
+    {
+      name: "defaults",
+      values: {
+        arpaMonthly: 800,
+        grossMarginPercent: 80,
+        monthlyChurnPercent: 2,
+        monthlyExpansionPercent: 1,
+        months: 60,
+        annualDiscountRatePercent: 12,
+      },
+      headline: 22535.2834,
+      secondary: {
+        undiscountedLtv: 28827.36866,
+        grossProfitMonth12: 571.7443982,
+        retentionMonth12: 0.7847167237,
+        retentionAtHorizon: 0.2975531427,
+        approxLifetime: 50,
+        averageGrossProfit: 480.4561443,
+        discountedRatio: 0.7817322373,
+      },
+    },
+    {
+      name: "zero arpa",
+      values: {
+        arpaMonthly: 0,
+        grossMarginPercent: 80,
+        monthlyChurnPercent: 2,
+        monthlyExpansionPercent: 1,
+        months: 60,
+        annualDiscountRatePercent: 12,
+      },
+      headline: 0,
+      secondary: {
+        undiscountedLtv: 0,
+        grossProfitMonth12: 0,
+        retentionMonth12: 0.7847167237,
+        retentionAtHorizon: 0.2975531427,
+        approxLifetime: 50,
+        averageGrossProfit: 0,
+        discountedRatio: 0,
+      },
+    },
+    {
+      name: "100% monthly logo churn",
+      rejected: true,
+      values: {
+        arpaMonthly: 800,
+        grossMarginPercent: 80,
+        monthlyChurnPercent: 100,
+        monthlyExpansionPercent: 1,
+        months: 60,
+        annualDiscountRatePercent: 12,
+      },
+      headline: 633.9842547,
+      secondary: {
+        undiscountedLtv: 640,
+        grossProfitMonth12: 0,
+        retentionMonth12: 0,
+        retentionAtHorizon: 0,
+        approxLifetime: 1,
+        averageGrossProfit: 10.66666667,
+        discountedRatio: 0.9906003979,
+      },
+    },
+  ],
+  "incrementality-lift-calculator": [
+    {
+      name: "defaults",
+      values: {
+        exposedUsers: 100000,
+        exposedConversions: 1200,
+        holdoutUsers: 100000,
+        holdoutConversions: 900,
+        adSpend: 50000,
+        aov: 80,
+        contributionMarginPercent: 40,
+      },
+      headline: -40400,
+      secondary: {
+        incrementalConversions: 300,
+        incrementalRevenue: 24000,
+        incrementalRoas: 0.48,
+        incrementalCpa: 166.6666667,
+        liftPercent: 0.3333333333,
+      },
+    },
+    {
+      name: "zero contribution margin",
+      rejected: true,
+      values: {
+        exposedUsers: 100000,
+        exposedConversions: 1200,
+        holdoutUsers: 100000,
+        holdoutConversions: 900,
+        adSpend: 50000,
+        aov: 80,
+        contributionMarginPercent: 0,
+      },
+      headline: -50000,
+      secondary: {
+        incrementalConversions: 300,
+        incrementalRevenue: 24000,
+        incrementalRoas: 0.48,
+        incrementalCpa: 166.6666667,
+        liftPercent: 0.3333333333,
+      },
+    },
+  ],
+  "break-even-pricing-calculator": [
+    {
+      name: "defaults",
+      values: {
+        pricePerUnit: 100,
+        variableCostPerUnit: 35,
+        fixedCosts: 50000,
+        unitsSold: 1200,
+      },
+      headline: 769.2307692,
+      secondary: {
+        profitAtVolume: 28000,
+        marginOfSafetyUnits: 430.7692308,
+        marginOfSafetyPercent: 0.358974359,
+        breakEvenRevenue: 76923.07692,
+        contributionPerUnit: 65,
+        contributionMarginPercent: 0.65,
+      },
+    },
+    {
+      name: "zero price per unit",
+      values: {
+        pricePerUnit: 0,
+        variableCostPerUnit: 35,
+        fixedCosts: 50000,
+        unitsSold: 1200,
+      },
+      headline: 0,
+      secondary: {
+        profitAtVolume: -92000,
+        marginOfSafetyUnits: 0,
+        marginOfSafetyPercent: 0,
+        breakEvenRevenue: 0,
+        contributionPerUnit: -35,
+        contributionMarginPercent: 0,
+      },
+      warns: true,
+    },
+  ],
+  "price-increase-break-even-calculator": [
+    {
+      name: "defaults",
+      values: {
+        startingMrr: 200000,
+        priceIncreasePercent: 10,
+        baselineMonthlyChurnPercent: 1.5,
+        horizonMonths: 12,
+        immediateChurnPercent: 0,
+        ongoingChurnIncreasePercent: 0,
+      },
+      headline: 221157.3755,
+      secondary: {
+        deltaPercent: 0.1,
+        breakEvenImmediateChurn: 0.09090909091,
+        breakEvenOngoingChurnIncrease: 0.01785074557,
+      },
+    },
+    {
+      name: "zero starting mrr",
+      values: {
+        startingMrr: 0,
+        priceIncreasePercent: 10,
+        baselineMonthlyChurnPercent: 1.5,
+        horizonMonths: 12,
+        immediateChurnPercent: 0,
+        ongoingChurnIncreasePercent: 0,
+      },
+      headline: 0,
+      secondary: {
+        deltaPercent: 0,
+        breakEvenImmediateChurn: 0.09090909091,
+        breakEvenOngoingChurnIncrease: 0.01785074557,
+      },
+    },
+    {
+      name: "100% baseline monthly churn",
+      rejected: true,
+      values: {
+        startingMrr: 200000,
+        priceIncreasePercent: 10,
+        baselineMonthlyChurnPercent: 100,
+        horizonMonths: 12,
+        immediateChurnPercent: 0,
+        ongoingChurnIncreasePercent: 0,
+      },
+      headline: 20220.22022,
+      secondary: {
+        deltaPercent: 0.1011011011,
+        breakEvenImmediateChurn: 0.09090909091,
+        breakEvenOngoingChurnIncrease: 0,
+      },
+    },
+  ],
+  "marginal-roas-calculator": [
+    {
+      name: "defaults",
+      values: {
+        currentSpend: 50000,
+        currentRevenue: 200000,
+        contributionMarginPercent: 40,
+        diminishingReturnsExponent: 0.75,
+        maxSpendCap: 0,
+      },
+      headline: 103680,
+      secondary: {
+        profitOpt: 34560,
+        spendGap: 53680,
+        profitDelta: 4560,
+        roasOpt: 3.333333333,
+        marginalRoas: 2.5,
+        marginalRoasCurrent: 3,
+        marginalProfit: -1.110223025e-16,
+        marginalProfitCurrent: 0.2,
+        currentRoas: 4,
+        currentProfit: 30000,
+      },
+    },
+    {
+      name: "zero current ad spend",
+      rejected: true,
+      values: {
+        currentSpend: 0,
+        currentRevenue: 200000,
+        contributionMarginPercent: 40,
+        diminishingReturnsExponent: 0.75,
+        maxSpendCap: 0,
+      },
+      headline: 0,
+      secondary: {
+        profitOpt: 0,
+        spendGap: 0,
+        profitDelta: -80000,
+        roasOpt: 0,
+        marginalRoas: 0,
+        marginalRoasCurrent: 0,
+        marginalProfit: -1,
+        marginalProfitCurrent: -1,
+        currentRoas: 0,
+        currentProfit: 80000,
+      },
+      warns: true,
+    },
+  ],
+  "dcf-valuation-calculator": [
+    {
+      name: "defaults",
+      values: {
+        annualFcf: 5000000,
+        netDebt: 0,
+        forecastYears: 5,
+        forecastGrowthPercent: 15,
+        discountRatePercent: 12,
+        terminalGrowthPercent: 3,
+      },
+      series: { forecastFcf: [] },
+      headline: 92389745.51,
+      secondary: {
+        pvForecast: 27082132.89,
+        pvTerminal: 65307612.62,
+        pvForecastShare: 0.2931292076,
+        terminalValue: 115094328,
+        equityValue: 92389745.51,
+        terminalShare: 0.7068707924,
+        terminalGrowthGap: 0.09,
+        fcfTerminal: 10056785.94,
+        evToFcf: 18.4779491,
+        terminalMultiple: 11.11111111,
+      },
+      warns: true,
+    },
+    {
+      name: "zero discount rate",
+      rejected: true,
+      values: {
+        annualFcf: 5000000,
+        netDebt: 0,
+        forecastYears: 5,
+        forecastGrowthPercent: 15,
+        discountRatePercent: 0,
+        terminalGrowthPercent: 3,
+      },
+      series: { forecastFcf: [] },
+      headline: 38768692.19,
+      secondary: {
+        pvForecast: 38768692.19,
+        pvTerminal: 0,
+        pvForecastShare: 1,
+        terminalValue: 0,
+        equityValue: 38768692.19,
+        terminalShare: 0,
+        terminalGrowthGap: -0.03,
+        fcfTerminal: 10056785.94,
+        evToFcf: 7.753738437,
+        terminalMultiple: 0,
+      },
+      warns: true,
+    },
+  ],
+  "retention-curve-calculator": [
+    {
+      name: "defaults",
+      values: {
+        monthlyLogoChurnPercent: 2,
+        arpaMonthly: 800,
+        grossMarginPercent: 80,
+        months: 36,
+      },
+      headline: 0.7847167237,
+      secondary: {
+        retention3: 0.941192,
+        retention6: 0.8858423809,
+        retention24: 0.6157803365,
+        retentionHorizon: 0.4832131282,
+        expectedRevenue: 20671.47487,
+        expectedGrossProfit: 16537.1799,
+        expectedActiveMonths: 25.83934359,
+        averageRetention: 0.7177595442,
+        lifetimeMonths: 50,
+        halfLifeMonths: 34.30961849,
+      },
+    },
+    {
+      name: "zero monthly logo churn",
+      values: {
+        monthlyLogoChurnPercent: 0,
+        arpaMonthly: 800,
+        grossMarginPercent: 80,
+        months: 36,
+      },
+      headline: 1,
+      secondary: {
+        retention3: 1,
+        retention6: 1,
+        retention24: 1,
+        retentionHorizon: 1,
+        expectedRevenue: 28800,
+        expectedGrossProfit: 23040,
+        expectedActiveMonths: 36,
+        averageRetention: 1,
+        lifetimeMonths: 0,
+        halfLifeMonths: 0,
+      },
+    },
+    {
+      name: "100% monthly logo churn",
+      rejected: true,
+      values: {
+        monthlyLogoChurnPercent: 100,
+        arpaMonthly: 800,
+        grossMarginPercent: 80,
+        months: 36,
+      },
+      headline: 0,
+      secondary: {
+        retention3: 0,
+        retention6: 0,
+        retention24: 0,
+        retentionHorizon: 0,
+        expectedRevenue: 800,
+        expectedGrossProfit: 640,
+        expectedActiveMonths: 1,
+        averageRetention: 0.02777777778,
+        lifetimeMonths: 1,
+        halfLifeMonths: 0,
+      },
+    },
+  ],
+  "target-cpa-ltv-calculator": [
+    {
+      name: "defaults",
+      values: {
+        ltvRevenue: 3000,
+        contributionMarginPercent: 60,
+        targetProfitBufferPercent: 20,
+        maxSpendSharePercent: 0,
+      },
+      headline: 1440,
+      secondary: {
+        breakEvenCpa: 1800,
+        grossProfitLtv: 1800,
+        targetByBuffer: 1440,
+        targetByShare: 0,
+      },
+    },
+    {
+      name: "zero revenue ltv",
+      rejected: true,
+      values: {
+        ltvRevenue: 0,
+        contributionMarginPercent: 60,
+        targetProfitBufferPercent: 20,
+        maxSpendSharePercent: 0,
+      },
+      headline: 0,
+      secondary: {
+        breakEvenCpa: 0,
+        grossProfitLtv: 0,
+        targetByBuffer: 0,
+        targetByShare: 0,
+      },
+    },
+  ],
+  "investment-decision-calculator": [
+    {
+      name: "defaults",
+      values: {
+        initialInvestment: 100000,
+        annualCashFlow: 30000,
+        years: 10,
+        discountRatePercent: 12,
+      },
+      headline: 69506.69085,
+      secondary: {
+        irr: 0.2731984241,
+        discountedPaybackYears: 4.521624917,
+        simplePaybackYears: 3.333333333,
+        pi: 1.695066909,
+        npvToInvestment: 0.6950669085,
+        annuityEquivalent: 12301.58358,
+      },
+    },
+    {
+      name: "zero initial investment",
+      rejected: true,
+      values: {
+        initialInvestment: 0,
+        annualCashFlow: 30000,
+        years: 10,
+        discountRatePercent: 12,
+      },
+      headline: 169506.6909,
+      secondary: {
+        irr: 0,
+        discountedPaybackYears: 0,
+        simplePaybackYears: 0,
+        pi: 0,
+        npvToInvestment: 0,
+        annuityEquivalent: 30000,
+      },
+    },
+  ],
+  "profitability-index-calculator": [
+    {
+      name: "defaults",
+      values: {
+        initialInvestment: 100000,
+        annualCashFlow: 30000,
+        years: 10,
+        discountRatePercent: 12,
+        targetPi: 1.2,
+      },
+      headline: 1.695066909,
+      secondary: {
+        pvInflows: 169506.6909,
+        npv: 69506.69085,
+        maxInvestment: 141255.5757,
+      },
+    },
+    {
+      name: "zero initial investment",
+      values: {
+        initialInvestment: 0,
+        annualCashFlow: 30000,
+        years: 10,
+        discountRatePercent: 12,
+        targetPi: 1.2,
+      },
+      headline: 0,
+      secondary: {
+        pvInflows: 169506.6909,
+        npv: 169506.6909,
+        maxInvestment: 141255.5757,
+      },
+    },
+  ],
+  "wacc-calculator": [
+    {
+      name: "defaults",
+      values: {
+        equityWeightPercent: 70,
+        debtWeightPercent: 30,
+        costOfEquityPercent: 15,
+        costOfDebtPercent: 7,
+        taxRatePercent: 25,
+      },
+      headline: 0.12075,
+      secondary: {
+        afterTaxDebt: 0.0525,
+        equityDebtSpread: 0.0975,
+        equityContribution: 0.105,
+        debtContribution: 0.01575,
+        taxShield: 0.0175,
+        equityWeight: 0.7,
+        debtWeight: 0.3,
+      },
+    },
+    {
+      name: "zero equity weight",
+      values: {
+        equityWeightPercent: 0,
+        debtWeightPercent: 30,
+        costOfEquityPercent: 15,
+        costOfDebtPercent: 7,
+        taxRatePercent: 25,
+      },
+      headline: 0.0525,
+      secondary: {
+        afterTaxDebt: 0.0525,
+        equityDebtSpread: 0.0975,
+        equityContribution: 0,
+        debtContribution: 0.0525,
+        taxShield: 0.0175,
+        equityWeight: 0,
+        debtWeight: 1,
+      },
+      warns: true,
+    },
+  ],
+  "mer-calculator": [
+    {
+      name: "defaults",
+      values: {
+        totalRevenue: 500000,
+        totalMarketingSpend: 100000,
+        targetMer: 3,
+        contributionMarginPercent: 40,
+        profitBufferPercent: 20,
+        targetProfit: 0,
+      },
+      headline: 5,
+      secondary: {
+        profitAfterSpend: 100000,
+        grossProfit: 200000,
+        profitMarginAfterSpend: 0.2,
+        spendShare: 0.2,
+        breakEvenMer: 2.5,
+        breakEvenRevenue: 250000,
+        revenueShortfall: -250000,
+        targetMer: 3.125,
+        maxSpendAtTargetMer: 166666.6667,
+        requiredRevenueForTargetProfit: 250000,
+        requiredMerForTargetProfit: 2.5,
+      },
+    },
+    {
+      name: "zero total marketing spend",
+      rejected: true,
+      values: {
+        totalRevenue: 500000,
+        totalMarketingSpend: 0,
+        targetMer: 3,
+        contributionMarginPercent: 40,
+        profitBufferPercent: 20,
+        targetProfit: 0,
+      },
+      headline: 0,
+      secondary: {
+        profitAfterSpend: 200000,
+        grossProfit: 200000,
+        profitMarginAfterSpend: 0.4,
+        spendShare: 0,
+        breakEvenMer: 2.5,
+        breakEvenRevenue: 0,
+        revenueShortfall: -500000,
+        targetMer: 3.125,
+        maxSpendAtTargetMer: 166666.6667,
+        requiredRevenueForTargetProfit: 0,
+        requiredMerForTargetProfit: 0,
+      },
+    },
+  ],
+};
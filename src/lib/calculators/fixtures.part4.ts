@@ -0,0 +1,872 @@
+import type { CalculatorFixture } from "./fixtures.ts";
+
+export const fixturesPart4: Record<string, CalculatorFixture[]> = {
+  "two-stage-retention-curve-calculator": [
+    {
+      name: "defaults",
+      values: {
+        earlyMonthlyChurnPercent: 6,
+        earlyMonths: 3,
+        steadyMonthlyChurnPercent: 1,
+        arpaMonthly: 800,
+        grossMarginPercent: 80,
+        months: 36,
+      },
+      headline: 0.7587528095,
+      secondary: {
+        retention3: 0.830584,
+        retention6: 0.8059148246,
+        retention24: 0.6725470117,
+        retentionHorizon: 0.5961354967,
+        retentionAfterEarly: 0.830584,
+        expectedRevenue: 21014.76026,
+        expectedGrossProfit: 16811.80821,
+        expectedActiveMonths: 26.26845033,
+        averageRetention: 0.7296791759,
+        halfLifeMonths: 0,
+      },
+    },
+    {
+      name: "zero arpa",
+      rejected: true,
+      values: {
+        earlyMonthlyChurnPercent: 6,
+        earlyMonths: 3,
+        steadyMonthlyChurnPercent: 1,
+        arpaMonthly: 0,
+        grossMarginPercent: 80,
+        months: 36,
+      },
+      headline: 0.7587528095,
+      secondary: {
+        retention3: 0.830584,
+        retention6: 0.8059148246,
+        retention24: 0.6725470117,
+        retentionHorizon: 0.5961354967,
+        retentionAfterEarly: 0.830584,
+        expectedRevenue: 0,
+        expectedGrossProfit: 0,
+        expectedActiveMonths: 26.26845033,
+        averageRetention: 0.7296791759,
+        halfLifeMonths: 0,
+      },
+    },
+    {
+      name: "100% early monthly churn",
+      rejected: true,
+      values: {
+        earlyMonthlyChurnPercent: 100,
+        earlyMonths: 3,
+        steadyMonthlyChurnPercent: 1,
+        arpaMonthly: 800,
+        grossMarginPercent: 80,
+        months: 36,
+      },
+      headline: 0,
+      secondary: {
+        retention3: 0,
+        retention6: 0,
+        retention24: 0,
+        retentionHorizon: 0,
+        retentionAfterEarly: 0,
+        expectedRevenue: 800,
+        expectedGrossProfit: 640,
+        expectedActiveMonths: 1,
+        averageRetention: 0.02777777778,
+        halfLifeMonths: 1,
+      },
+    },
+  ],
+  "revenue-retention-curve-calculator": [
+    {
+      name: "defaults",
+      values: {
+        startingMrr: 100000,
+        monthlyExpansionPercent: 2,
+        monthlyContractionPercent: 0.5,
+        monthlyChurnPercent: 1.5,
+        months: 24,
+      },
+      headline: 1,
+      secondary: {
+        grr: 0.6157803365,
+        endingNrrMrr: 100000,
+        endingGrrMrr: 61578.03365,
+        nrr12: 1,
+        grr12: 0.7847167237,
+        sumNrr: 2400000,
+        sumGrr: 1921098.317,
+        averageNrr: 1,
+        averageGrr: 0.8004576323,
+        nrrMultiplier: 1,
+        grrMultiplier: 0.98,
+      },
+    },
+    {
+      name: "zero starting mrr",
+      rejected: true,
+      values: {
+        startingMrr: 0,
+        monthlyExpansionPercent: 2,
+        monthlyContractionPercent: 0.5,
+        monthlyChurnPercent: 1.5,
+        months: 24,
+      },
+      headline: 0,
+      secondary: {
+        grr: 0,
+        endingNrrMrr: 0,
+        endingGrrMrr: 0,
+        nrr12: 0,
+        grr12: 0,
+        sumNrr: 0,
+        sumGrr: 0,
+        averageNrr: 0,
+        averageGrr: 0,
+        nrrMultiplier: 1,
+        grrMultiplier: 0.98,
+      },
+    },
+    {
+      name: "100% monthly churn rate",
+      rejected: true,
+      values: {
+        startingMrr: 100000,
+        monthlyExpansionPercent: 2,
+        monthlyContractionPercent: 0.5,
+        monthlyChurnPercent: 100,
+        months: 24,
+      },
+      headline: 1.68341122e-44,
+      secondary: {
+        grr: 0,
+        endingNrrMrr: 1.68341122e-39,
+        endingGrrMrr: 0,
+        nrr12: 1.297463379e-22,
+        grr12: 0,
+        sumNrr: 101522.8426,
+        sumGrr: 100000,
+        averageNrr: 0.04230118443,
+        averageGrr: 0.04166666667,
+        nrrMultiplier: 0.015,
+        grrMultiplier: -0.005,
+      },
+      warns: true,
+    },
+  ],
+  "max-cpc-calculator": [
+    {
+      name: "defaults",
+      values: {
+        aov: 80,
+        contributionMarginPercent: 40,
+        conversionRatePercent: 2.5,
+        profitBufferPercent: 20,
+        ctrPercent: 0,
+        leadToCustomerRatePercent: 0,
+      },
+      headline: 0.64,
+      secondary: {
+        breakEvenCpc: 0.8,
+        targetCpa: 25.6,
+        breakEvenCpa: 32,
+        breakEvenCpm: 0,
+        targetCpm: 0,
+        breakEvenCpl: 0,
+        targetCpl: 0,
+      },
+    },
+    {
+      name: "zero average order value",
+      rejected: true,
+      values: {
+        aov: 0,
+        contributionMarginPercent: 40,
+        conversionRatePercent: 2.5,
+        profitBufferPercent: 20,
+        ctrPercent: 0,
+        leadToCustomerRatePercent: 0,
+      },
+      headline: 0,
+      secondary: {
+        breakEvenCpc: 0,
+        targetCpa: 0,
+        breakEvenCpa: 0,
+        breakEvenCpm: 0,
+        targetCpm: 0,
+        breakEvenCpl: 0,
+        targetCpl: 0,
+      },
+    },
+  ],
+  "equity-value-calculator": [
+    {
+      name: "defaults",
+      values: {
+        enterpriseValue: 50000000,
+        cash: 8000000,
+        debt: 12000000,
+        preferredStock: 0,
+        minorityInterest: 0,
+        otherAdjustments: 0,
+        sharesOutstanding: 0,
+      },
+      headline: 46000000,
+      secondary: {
+        netDebt: 4000000,
+        netCash: -4000000,
+        perShare: 0,
+        equityToEv: 0.92,
+      },
+    },
+    {
+      name: "zero enterprise value",
+      values: {
+        enterpriseValue: 0,
+        cash: 8000000,
+        debt: 12000000,
+        preferredStock: 0,
+        minorityInterest: 0,
+        otherAdjustments: 0,
+        sharesOutstanding: 0,
+      },
+      headline: -4000000,
+      secondary: {
+        netDebt: 4000000,
+        netCash: -4000000,
+        perShare: 0,
+        equityToEv: 0,
+      },
+      warns: true,
+    },
+  ],
+  "pre-money-post-money-calculator": [
+    {
+      name: "defaults",
+      values: { preMoney: 20000000, investment: 5000000 },
+      headline: 0.2,
+      secondary: {
+        postMoney: 25000000,
+        existingOwnership: 0.8,
+        postMoneyMultiple: 1.25,
+      },
+    },
+    {
+      name: "zero pre-money valuation",
+      rejected: true,
+      values: { preMoney: 0, investment: 5000000 },
+      headline: 1,
+      secondary: {
+        postMoney: 5000000,
+        existingOwnership: 0,
+        postMoneyMultiple: 0,
+      },
+    },
+  ],
+  "pro-rata-investment-calculator": [
+    {
+      name: "defaults",
+      values: { ownershipPercent: 5, preMoney: 20000000, investment: 5000000 },
+      headline: 250000,
+      secondary: {
+        ownershipNoParticipate: 0.04,
+        dilutionPercent: 0.2,
+        shareOfRound: 0.05,
+        postMoney: 25000000,
+      },
+    },
+    {
+      name: "zero pre-money valuation",
+      rejected: true,
+      values: { ownershipPercent: 5, preMoney: 0, investment: 5000000 },
+      headline: 250000,
+      secondary: {
+        ownershipNoParticipate: 0,
+        dilutionPercent: 1,
+        shareOfRound: 0.05,
+        postMoney: 5000000,
+      },
+    },
+  ],
+  "option-pool-shuffle-calculator": [
+    {
+      name: "defaults",
+      values: {
+        preMoney: 20000000,
+        investment: 5000000,
+        currentPoolPercent: 10,
+        targetPoolPercent: 15,
+      },
+      headline: 0.65,
+      secondary: {
+        investorPost: 0.2,
+        poolPost: 0.15,
+        poolDilution: 0.05,
+        postMoney: 25000000,
+      },
+    },
+    {
+      name: "zero pre-money valuation",
+      rejected: true,
+      values: {
+        preMoney: 0,
+        investment: 5000000,
+        currentPoolPercent: 10,
+        targetPoolPercent: 15,
+      },
+      headline: 0,
+    },
+  ],
+  "safe-conversion-calculator": [
+    {
+      name: "defaults",
+      values: {
+        safeAmount: 500000,
+        valuationCap: 8000000,
+        discountPercent: 20,
+        pricedRoundPreMoney: 20000000,
+        existingShares: 10000000,
+        newMoney: 5000000,
+      },
+      headline: 0.04761904762,
+      secondary: {
+        conversionPrice: 0.8,
+        safeShares: 625000,
+        effectiveDiscount: 0.6,
+      },
+    },
+    {
+      name: "zero priced round pre-money valuation",
+      rejected: true,
+      values: {
+        safeAmount: 500000,
+        valuationCap: 8000000,
+        discountPercent: 20,
+        pricedRoundPreMoney: 0,
+        existingShares: 10000000,
+        newMoney: 5000000,
+      },
+      headline: 0,
+      secondary: { conversionPrice: 0, safeShares: 0, effectiveDiscount: 0 },
+    },
+  ],
+  "convertible-note-conversion-calculator": [
+    {
+      name: "defaults",
+      values: {
+        principal: 500000,
+        annualInterestPercent: 6,
+        monthsOutstanding: 18,
+        valuationCap: 8000000,
+        discountPercent: 20,
+        pricedRoundPreMoney: 20000000,
+        existingShares: 10000000,
+        newMoney: 5000000,
+      },
+      headline: 0.05168326221,
+      secondary: {
+        conversionPrice: 0.8,
+        total: 545000,
+        interest: 45000,
+        effectiveDiscount: 0.6,
+      },
+    },
+    {
+      name: "zero priced round pre-money valuation",
+      rejected: true,
+      values: {
+        principal: 500000,
+        annualInterestPercent: 6,
+        monthsOutstanding: 18,
+        valuationCap: 8000000,
+        discountPercent: 20,
+        pricedRoundPreMoney: 0,
+        existingShares: 10000000,
+        newMoney: 5000000,
+      },
+      headline: 0,
+      secondary: {
+        conversionPrice: 0,
+        total: 545000,
+        interest: 45000,
+        effectiveDiscount: 0,
+      },
+    },
+  ],
+  "liquidation-preference-calculator": [
+    {
+      name: "defaults",
+      values: {
+        exitValue: 50000000,
+        investment: 5000000,
+        ownershipPercent: 20,
+        preferenceMultiple: 1,
+      },
+      headline: 10000000,
+      secondary: { commonProceeds: 40000000, asConverted: 10000000 },
+    },
+    {
+      name: "zero exit equity value",
+      values: {
+        exitValue: 0,
+        investment: 5000000,
+        ownershipPercent: 20,
+        preferenceMultiple: 1,
+      },
+      headline: 5000000,
+      secondary: { commonProceeds: 0, asConverted: 0 },
+      warns: true,
+    },
+  ],
+  "unit-economics-dashboard-calculator": [
+    {
+      name: "defaults",
+      values: {
+        arpaMonthly: 800,
+        grossMarginPercent: 80,
+        monthlyLogoChurnPercent: 2,
+        cac: 6000,
+        targetPaybackMonths: 12,
+      },
+      headline: 5.333333333,
+      secondary: {
+        grossProfitLtv: 32000,
+        paybackMonths: 9.375,
+        grossProfitPerMonth: 640,
+        annualGrossProfit: 7680,
+        lifetimeMonths: 50,
+        ltvMinusCac: 26000,
+        maxCac: 7680,
+        requiredArpaForTargetPayback: 625,
+        paybackToLifetime: 0.1875,
+        breakEvenChurn: 0.02,
+      },
+    },
+    {
+      name: "zero arpa",
+      rejected: true,
+      values: {
+        arpaMonthly: 0,
+        grossMarginPercent: 80,
+        monthlyLogoChurnPercent: 2,
+        cac: 6000,
+        targetPaybackMonths: 12,
+      },
+      headline: 0,
+      secondary: {
+        grossProfitLtv: 0,
+        paybackMonths: 0,
+        grossProfitPerMonth: 0,
+        annualGrossProfit: 0,
+        lifetimeMonths: 50,
+        ltvMinusCac: -6000,
+        maxCac: 0,
+        requiredArpaForTargetPayback: 625,
+        paybackToLifetime: 0,
+        breakEvenChurn: 0.02,
+      },
+    },
+    {
+      name: "100% monthly churn",
+      values: {
+        arpaMonthly: 800,
+        grossMarginPercent: 80,
+        monthlyLogoChurnPercent: 100,
+        cac: 6000,
+        targetPaybackMonths: 12,
+      },
+      headline: 0.1066666667,
+      secondary: {
+        grossProfitLtv: 640,
+        paybackMonths: 9.375,
+        grossProfitPerMonth: 640,
+        annualGrossProfit: 7680,
+        lifetimeMonths: 1,
+        ltvMinusCac: -5360,
+        maxCac: 7680,
+        requiredArpaForTargetPayback: 625,
+        paybackToLifetime: 9.375,
+        breakEvenChurn: 1,
+      },
+      warns: true,
+    },
+  ],
+  "break-even-cpm-calculator": [
+    {
+      name: "defaults",
+      values: {
+        ctrPercent: 1.5,
+        cvrPercent: 2.5,
+        aov: 80,
+        contributionMarginPercent: 40,
+        profitBufferPercent: 20,
+      },
+      headline: 9.6,
+      secondary: {
+        breakEvenCpm: 12,
+        conversionsPerThousand: 0.375,
+        contributionPerConversion: 32,
+        breakEvenCpc: 0.8,
+        breakEvenCpa: 32,
+        targetCpc: 0.64,
+        targetCpa: 25.6,
+        clicksPerThousand: 15,
+      },
+    },
+    {
+      name: "zero ctr",
+      rejected: true,
+      values: {
+        ctrPercent: 0,
+        cvrPercent: 2.5,
+        aov: 80,
+        contributionMarginPercent: 40,
+        profitBufferPercent: 20,
+      },
+      headline: 0,
+      secondary: {
+        breakEvenCpm: 0,
+        conversionsPerThousand: 0,
+        contributionPerConversion: 32,
+        breakEvenCpc: 0,
+        breakEvenCpa: 0,
+        targetCpc: 0,
+        targetCpa: 0,
+        clicksPerThousand: 0,
+      },
+    },
+  ],
+  "multiple-valuation-calculator": [
+    {
+      name: "defaults",
+      values: {
+        metricValue: 5000000,
+        multiple: 6,
+        cash: 1000000,
+        debt: 2000000,
+      },
+      headline: 30000000,
+      secondary: {
+        equityValue: 29000000,
+        netDebt: 1000000,
+        equityToMetric: 5.8,
+        netDebtToEv: 0.03333333333,
+        cashToDebt: 0.5,
+      },
+    },
+    {
+      name: "zero metric value",
+      rejected: true,
+      values: { metricValue: 0, multiple: 6, cash: 1000000, debt: 2000000 },
+      headline: 0,
+      secondary: {
+        equityValue: -1000000,
+        netDebt: 1000000,
+        equityToMetric: 0,
+        netDebtToEv: 0,
+        cashToDebt: 0.5,
+      },
+      warns: true,
+    },
+  ],
+  "cohort-payback-curve-calculator": [
+    {
+      name: "defaults",
+      values: {
+        cac: 6000,
+        arpaMonthly: 800,
+        grossMarginPercent: 80,
+        earlyMonthlyChurnPercent: 6,
+        earlyMonths: 3,
+        steadyMonthlyChurnPercent: 1,
+        monthlyExpansionPercent: 0.5,
+        months: 36,
+      },
+      headline: 10.8906533,
+      secondary: {
+        cumulativeGrossProfit: 18255.72333,
+        ltvToCac: 3.042620556,
+        gp12: 6575.117112,
+        gp24: 12592.7752,
+        gpMonth1: 640,
+        retention12: 0.7587528095,
+        retention24: 0.6725470117,
+        arpaMonth12: 845.1166662,
+        ltvToCac12: 1.095852852,
+        ltvToCac24: 2.098795866,
+        paybackShare: 0.3025181472,
+        paybackGap: 25.1093467,
+      },
+    },
+    {
+      name: "zero cac",
+      rejected: true,
+      values: {
+        cac: 0,
+        arpaMonthly: 800,
+        grossMarginPercent: 80,
+        earlyMonthlyChurnPercent: 6,
+        earlyMonths: 3,
+        steadyMonthlyChurnPercent: 1,
+        monthlyExpansionPercent: 0.5,
+        months: 36,
+      },
+      headline: 0,
+      secondary: {
+        cumulativeGrossProfit: 18255.72333,
+        ltvToCac: 0,
+        gp12: 6575.117112,
+        gp24: 12592.7752,
+        gpMonth1: 640,
+        retention12: 0.7587528095,
+        retention24: 0.6725470117,
+        arpaMonth12: 845.1166662,
+        ltvToCac12: 0,
+        ltvToCac24: 0,
+        paybackShare: 0,
+        paybackGap: 36,
+      },
+    },
+    {
+      name: "100% early monthly churn",
+      rejected: true,
+      values: {
+        cac: 6000,
+        arpaMonthly: 800,
+        grossMarginPercent: 80,
+        earlyMonthlyChurnPercent: 100,
+        earlyMonths: 3,
+        steadyMonthlyChurnPercent: 1,
+        monthlyExpansionPercent: 0.5,
+        months: 36,
+      },
+      headline: 0,
+      secondary: {
+        cumulativeGrossProfit: 640,
+        ltvToCac: 0.1066666667,
+        gp12: 640,
+        gp24: 640,
+        gpMonth1: 640,
+        retention12: 0,
+        retention24: 0,
+        arpaMonth12: 845.1166662,
+        ltvToCac12: 0.1066666667,
+        ltvToCac24: 0.1066666667,
+        paybackShare: 0,
+        paybackGap: 0,
+      },
+      warns: true,
+    },
+  ],
+  "break-even-ctr-calculator": [
+    {
+      name: "defaults",
+      values: {
+        cpm: 12,
+        cvrPercent: 2.5,
+        aov: 80,
+        contributionMarginPercent: 40,
+        profitBufferPercent: 20,
+        currentCtrPercent: 1.2,
+      },
+      headline: 0.01875,
+      secondary: {
+        breakEvenCtr: 0.015,
+        breakEvenCpc: 0.8,
+        targetCpc: 0.64,
+        currentRoas: 2,
+        currentProfitPerThousand: -2.4,
+      },
+    },
+    {
+      name: "zero cpm",
+      rejected: true,
+      values: {
+        cpm: 0,
+        cvrPercent: 2.5,
+        aov: 80,
+        contributionMarginPercent: 40,
+        profitBufferPercent: 20,
+        currentCtrPercent: 1.2,
+      },
+      headline: 0,
+      secondary: {
+        breakEvenCtr: 0,
+        breakEvenCpc: 0,
+        targetCpc: 0,
+        currentRoas: 0,
+        currentProfitPerThousand: 9.6,
+      },
+    },
+  ],
+  "dcf-sensitivity-calculator": [
+    {
+      name: "defaults",
+      values: {
+        annualFcf: 5000000,
+        forecastYears: 5,
+        forecastGrowthPercent: 15,
+        baseDiscountRatePercent: 12,
+        discountRateStepPercent: 2,
+        baseTerminalGrowthPercent: 3,
+        terminalGrowthStepPercent: 1,
+      },
+      headline: 92389745.51,
+    },
+    {
+      name: "zero base discount rate",
+      rejected: true,
+      values: {
+        annualFcf: 5000000,
+        forecastYears: 5,
+        forecastGrowthPercent: 15,
+        baseDiscountRatePercent: 0,
+        discountRateStepPercent: 2,
+        baseTerminalGrowthPercent: 3,
+        terminalGrowthStepPercent: 1,
+      },
+      headline: 2.677924124e24,
+      warns: true,
+    },
+  ],
+  "ab-test-sample-size-calculator": [
+    {
+      name: "defaults",
+      values: {
+        baselineCvrPercent: 2.5,
+        mdePercentPoints: 0.5,
+        alphaPercent: 5,
+        powerPercent: 80,
+      },
+      headline: 16792,
+      secondary: { totalSample: 33584, p1: 0.025, p2: 0.03 },
+    },
+    {
+      name: "minimum power",
+      values: {
+        baselineCvrPercent: 2.5,
+        mdePercentPoints: 0.5,
+        alphaPercent: 5,
+        powerPercent: 50,
+      },
+      headline: 8219,
+      secondary: { totalSample: 16438, p1: 0.025, p2: 0.03 },
+    },
+  ],
+  "cpl-to-cac-calculator": [
+    {
+      name: "defaults",
+      values: {
+        cpl: 80,
+        leadToCustomerRatePercent: 5,
+        targetCac: 1500,
+        salesCostPerLead: 0,
+      },
+      headline: 1600,
+      secondary: {
+        rate: 0.05,
+        requiredRate: 0.05333333333,
+        allInCpl: 80,
+        allInCac: 1600,
+      },
+    },
+    {
+      name: "zero cost per lead",
+      rejected: true,
+      values: {
+        cpl: 0,
+        leadToCustomerRatePercent: 5,
+        targetCac: 1500,
+        salesCostPerLead: 0,
+      },
+      headline: 0,
+      secondary: { rate: 0.05, requiredRate: 0, allInCpl: 0, allInCac: 0 },
+    },
+  ],
+  "break-even-cvr-calculator": [
+    {
+      name: "defaults",
+      values: {
+        cpm: 12,
+        ctrPercent: 1.5,
+        aov: 80,
+        contributionMarginPercent: 40,
+        profitBufferPercent: 20,
+        currentCvrPercent: 2,
+      },
+      headline: 0.03125,
+      secondary: {
+        breakEvenCvr: 0.025,
+        breakEvenCpa: 32,
+        impliedCpc: 0.8,
+        targetCpa: 25.6,
+        breakEvenCpmAtCurrent: 9.6,
+        targetCpmAtCurrent: 7.68,
+        currentRoas: 2,
+        currentProfitPerThousand: -2.4,
+      },
+    },
+    {
+      name: "zero cpm",
+      rejected: true,
+      values: {
+        cpm: 0,
+        ctrPercent: 1.5,
+        aov: 80,
+        contributionMarginPercent: 40,
+        profitBufferPercent: 20,
+        currentCvrPercent: 2,
+      },
+      headline: 0,
+      secondary: {
+        breakEvenCvr: 0,
+        breakEvenCpa: 0,
+        impliedCpc: 0,
+        targetCpa: 0,
+        breakEvenCpmAtCurrent: 9.6,
+        targetCpmAtCurrent: 7.68,
+        currentRoas: 0,
+        currentProfitPerThousand: 9.6,
+      },
+    },
+  ],
+  "click-through-conversion-calculator": [
+    {
+      name: "defaults",
+      values: {
+        clicks: 12000,
+        conversions: 360,
+        targetConversions: 500,
+        spend: 0,
+        revenue: 0,
+      },
+      headline: 0.03,
+      secondary: {
+        clicksPerConversion: 33.33333333,
+        requiredClicks: 16666.66667,
+        cpc: 0,
+        cpa: 0,
+        roas: 0,
+      },
+    },
+    {
+      name: "zero clicks",
+      rejected: true,
+      values: {
+        clicks: 0,
+        conversions: 360,
+        targetConversions: 500,
+        spend: 0,
+        revenue: 0,
+      },
+      headline: 0,
+      secondary: {
+        clicksPerConversion: 0,
+        requiredClicks: 0,
+        cpc: 0,
+        cpa: 0,
+        roas: 0,
+      },
+    },
+  ],
+};
@@ -0,0 +1,650 @@
+import type { CalculatorFixture } from "./fixtures.ts";
+
+export const fixturesPart5: Record<string, CalculatorFixture[]> = {
+  "retention-targets-planner-calculator": [
+    {
+      name: "defaults",
+      values: {
+        monthlyChurnPercent: 1.5,
+        monthlyContractionPercent: 0.5,
+        targetMonthlyNrrPercent: 102,
+        targetMonthlyGrrPercent: 98,
+        currentMonthlyExpansionPercent: 2,
+      },
+      headline: 0.04,
+      secondary: {
+        maxChurnContraction: 0.02,
+        currentChurnContraction: 0.02,
+        gapToGrr: 0,
+        gapToNrr: 0.02,
+        annualizedNrr: 0.2682417946,
+        annualizedGrr: -0.2152832763,
+        currentMonthlyNrr: 1,
+        currentMonthlyGrr: 0.98,
+        annualizedCurrentNrr: 2.664535259e-15,
+        annualizedCurrentGrr: -0.2152832763,
+      },
+    },
+    {
+      name: "zero target monthly nrr",
+      rejected: true,
+      values: {
+        monthlyChurnPercent: 1.5,
+        monthlyContractionPercent: 0.5,
+        targetMonthlyNrrPercent: 0,
+        targetMonthlyGrrPercent: 98,
+        currentMonthlyExpansionPercent: 2,
+      },
+      headline: 0,
+      secondary: {
+        maxChurnContraction: 0.02,
+        currentChurnContraction: 0.02,
+        gapToGrr: 0,
+        gapToNrr: 0,
+        annualizedNrr: -1,
+        annualizedGrr: -0.2152832763,
+        currentMonthlyNrr: 1,
+        currentMonthlyGrr: 0.98,
+        annualizedCurrentNrr: 2.664535259e-15,
+        annualizedCurrentGrr: -0.2152832763,
+      },
+      warns: true,
+    },
+    {
+      name: "100% monthly churn rate",
+      values: {
+        monthlyChurnPercent: 100,
+        monthlyContractionPercent: 0.5,
+        targetMonthlyNrrPercent: 102,
+        targetMonthlyGrrPercent: 98,
+        currentMonthlyExpansionPercent: 2,
+      },
+      headline: 1.025,
+      secondary: {
+        maxChurnContraction: 0.02,
+        currentChurnContraction: 1.005,
+        gapToGrr: 0.985,
+        gapToNrr: 1.005,
+        annualizedNrr: 0.2682417946,
+        annualizedGrr: -0.2152832763,
+        currentMonthlyNrr: 0.015,
+        currentMonthlyGrr: -0.005,
+        annualizedCurrentNrr: -1,
+        annualizedCurrentGrr: -1,
+      },
+    },
+  ],
+  "quota-attainment-calculator": [
+    {
+      name: "defaults",
+      values: {
+        quota: 500000,
+        bookedToDate: 180000,
+        daysElapsed: 12,
+        daysInPeriod: 30,
+      },
+      headline: 0.36,
+      secondary: {
+        projected: 450000,
+        projectedAttainment: 0.9,
+        remaining: 320000,
+        onTrack: 200000,
+        paceRatio: 0.9,
+        requiredPerDay: 17777.77778,
+      },
+    },
+    {
+      name: "zero quota",
+      rejected: true,
+      values: {
+        quota: 0,
+        bookedToDate: 180000,
+        daysElapsed: 12,
+        daysInPeriod: 30,
+      },
+      headline: 0,
+      secondary: {
+        projected: 450000,
+        projectedAttainment: 0,
+        remaining: 0,
+        onTrack: 0,
+        paceRatio: 0,
+        requiredPerDay: 0,
+      },
+    },
+  ],
+  "sales-quota-calculator": [
+    {
+      name: "defaults",
+      values: {
+        teamTarget: 2000000,
+        reps: 10,
+        expectedAttainmentPercent: 85,
+        rampedPercent: 70,
+        rampingProductivityPercent: 40,
+        currentQuotaPerRep: 200000,
+        winRatePercent: 25,
+        slippagePercent: 15,
+      },
+      headline: 286944.0459,
+      secondary: {
+        quotaPerRepAt100: 243902.439,
+        targetPerRepFlat: 200000,
+        effectiveReps: 8.2,
+        capacityAtCurrentQuota: 1394000,
+        capacityGap: -606000,
+        requiredPipeline: 8000000,
+        pipelinePerRep: 975609.7561,
+        bufferedPipelinePerRep: 1121951.22,
+      },
+    },
+    {
+      name: "zero total reps",
+      values: {
+        teamTarget: 2000000,
+        reps: 0,
+        expectedAttainmentPercent: 85,
+        rampedPercent: 70,
+        rampingProductivityPercent: 40,
+        currentQuotaPerRep: 200000,
+        winRatePercent: 25,
+        slippagePercent: 15,
+      },
+      headline: 0,
+      secondary: {
+        quotaPerRepAt100: 0,
+        targetPerRepFlat: 0,
+        effectiveReps: 0,
+        capacityAtCurrentQuota: 0,
+        capacityGap: -2000000,
+        requiredPipeline: 8000000,
+        pipelinePerRep: 0,
+        bufferedPipelinePerRep: 0,
+      },
+    },
+  ],
+  "pipeline-coverage-calculator": [
+    {
+      name: "defaults",
+      values: {
+        quota: 500000,
+        pipelineAmount: 1500000,
+        winRatePercent: 25,
+        slippagePercent: 10,
+      },
+      headline: 3,
+      secondary: {
+        expectedBookings: 375000,
+        expectedAttainment: 0.75,
+        requiredPipeline: 2000000,
+        pipelineGap: -500000,
+        bufferedRequiredPipeline: 2200000,
+        bufferedGap: -700000,
+        requiredPipelineLowWin: 2500000,
+        requiredPipelineHighWin: 1666666.667,
+      },
+    },
+    {
+      name: "zero quota",
+      rejected: true,
+      values: {
+        quota: 0,
+        pipelineAmount: 1500000,
+        winRatePercent: 25,
+        slippagePercent: 10,
+      },
+      headline: 0,
+      secondary: {
+        expectedBookings: 375000,
+        expectedAttainment: 0,
+        requiredPipeline: 0,
+        pipelineGap: 1500000,
+        bufferedRequiredPipeline: 0,
+        bufferedGap: 1500000,
+        requiredPipelineLowWin: 0,
+        requiredPipelineHighWin: 0,
+      },
+    },
+  ],
+  "pipeline-required-calculator": [
+    {
+      name: "defaults",
+      values: {
+        target: 500000,
+        winRatePercent: 25,
+        avgDealSize: 25000,
+        activeReps: 5,
+        slippagePercent: 15,
+      },
+      headline: 2000000,
+      secondary: {
+        requiredOpps: 80,
+        requiredWins: 20,
+        impliedCoverage: 4,
+        pipelinePerRep: 400000,
+        oppsPerRep: 16,
+        bufferedPipeline: 2300000,
+        bufferedOpps: 92,
+        pipelineLowWin: 2500000,
+        pipelineHighWin: 1666666.667,
+      },
+    },
+    {
+      name: "zero target revenue",
+      rejected: true,
+      values: {
+        target: 0,
+        winRatePercent: 25,
+        avgDealSize: 25000,
+        activeReps: 5,
+        slippagePercent: 15,
+      },
+      headline: 0,
+      secondary: {
+        requiredOpps: 0,
+        requiredWins: 0,
+        impliedCoverage: 0,
+        pipelinePerRep: 0,
+        oppsPerRep: 0,
+        bufferedPipeline: 0,
+        bufferedOpps: 0,
+        pipelineLowWin: 0,
+        pipelineHighWin: 0,
+      },
+    },
+  ],
+  "sales-capacity-calculator": [
+    {
+      name: "defaults",
+      values: {
+        reps: 10,
+        quotaPerRep: 150000,
+        attainmentPercent: 85,
+        rampedPercent: 70,
+        rampingProductivityPercent: 40,
+        targetBookings: 1200000,
+      },
+      headline: 1045500,
+      secondary: {
+        effectiveReps: 8.2,
+        perRepCapacity: 127500,
+        requiredReps: 11.47776184,
+        capacityGap: -154500,
+      },
+    },
+    {
+      name: "zero sales reps",
+      values: {
+        reps: 0,
+        quotaPerRep: 150000,
+        attainmentPercent: 85,
+        rampedPercent: 70,
+        rampingProductivityPercent: 40,
+        targetBookings: 1200000,
+      },
+      headline: 0,
+      secondary: {
+        effectiveReps: 0,
+        perRepCapacity: 127500,
+        requiredReps: 11.47776184,
+        capacityGap: -1200000,
+      },
+    },
+  ],
+  "ote-commission-rate-calculator": [
+    {
+      name: "defaults",
+      values: { basePay: 90000, variablePay: 90000, quota: 900000 },
+      headline: 180000,
+      secondary: {
+        commissionRate: 0.1,
+        baseSplit: 0.5,
+        variableSplit: 0.5,
+        monthlyOte: 15000,
+        monthlyBase: 7500,
+        monthlyVariable: 7500,
+        oteToQuota: 0.2,
+      },
+    },
+    {
+      name: "zero base pay",
+      values: { basePay: 0, variablePay: 90000, quota: 900000 },
+      headline: 90000,
+      secondary: {
+        commissionRate: 0.1,
+        baseSplit: 0,
+        variableSplit: 1,
+        monthlyOte: 7500,
+        monthlyBase: 0,
+        monthlyVariable: 7500,
+        oteToQuota: 0.1,
+      },
+    },
+  ],
+  "sales-funnel-targets-calculator": [
+    {
+      name: "defaults",
+      values: {
+        revenueTarget: 500000,
+        avgDealSize: 25000,
+        leadToMqlPercent: 20,
+        mqlToSqlPercent: 30,
+        sqlToOppPercent: 40,
+        oppToWinPercent: 25,
+      },
+      headline: 3333.333333,
+      secondary: {
+        mqls: 666.6666667,
+        sqls: 200,
+        opps: 80,
+        wins: 20,
+        pipelineValue: 2000000,
+        pipelineCoverage: 4,
+      },
+    },
+    {
+      name: "100% win rate",
+      values: {
+        revenueTarget: 500000,
+        avgDealSize: 25000,
+        leadToMqlPercent: 20,
+        mqlToSqlPercent: 30,
+        sqlToOppPercent: 40,
+        oppToWinPercent: 100,
+      },
+      headline: 833.3333333,
+      secondary: {
+        mqls: 166.6666667,
+        sqls: 50,
+        opps: 20,
+        wins: 20,
+        pipelineValue: 500000,
+        pipelineCoverage: 1,
+      },
+    },
+  ],
+  "activation-rate-calculator": [
+    {
+      name: "defaults",
+      values: { signups: 5000, activated: 1200, targetActivationPercent: 30 },
+      headline: 0.24,
+      secondary: {
+        requiredActivated: 1500,
+        activationGap: 300,
+        gapPercent: 0.06,
+      },
+    },
+    {
+      name: "zero new signups",
+      rejected: true,
+      values: { signups: 0, activated: 1200, targetActivationPercent: 30 },
+      headline: 0,
+      secondary: { requiredActivated: 0, activationGap: -1200, gapPercent: 0 },
+    },
+  ],
+  "trial-to-paid-calculator": [
+    {
+      name: "defaults",
+      values: { trialsStarted: 2000, paidConversions: 180, targetPercent: 12 },
+      headline: 0.09,
+      secondary: { requiredPaid: 240, gapPaid: 60, gapPercent: 0.03 },
+    },
+    {
+      name: "zero trials started",
+      rejected: true,
+      values: { trialsStarted: 0, paidConversions: 180, targetPercent: 12 },
+      headline: 0,
+      secondary: { requiredPaid: 0, gapPaid: -180, gapPercent: 0 },
+    },
+  ],
+  "dau-mau-calculator": [
+    {
+      name: "defaults",
+      values: { dau: 1200, mau: 8000, targetPercent: 20 },
+      headline: 0.15,
+      secondary: {
+        activeDays: 4.5,
+        requiredDau: 1600,
+        dauGap: 400,
+        dauGapPercent: 0.05,
+      },
+    },
+    {
+      name: "zero dau",
+      values: { dau: 0, mau: 8000, targetPercent: 20 },
+      headline: 0,
+      secondary: {
+        activeDays: 0,
+        requiredDau: 1600,
+        dauGap: 1600,
+        dauGapPercent: 0.2,
+      },
+    },
+  ],
+  "wau-mau-calculator": [
+    {
+      name: "defaults",
+      values: { wau: 3000, mau: 8000, targetPercent: 50 },
+      headline: 0.375,
+      secondary: {
+        weeksPerMonth: 1.62375,
+        activeWeeks: 1.62375,
+        requiredWau: 4000,
+        wauGap: 1000,
+      },
+    },
+    {
+      name: "zero wau",
+      values: { wau: 0, mau: 8000, targetPercent: 50 },
+      headline: 0,
+      secondary: {
+        weeksPerMonth: 0,
+        activeWeeks: 0,
+        requiredWau: 4000,
+        wauGap: 4000,
+      },
+    },
+  ],
+  "feature-adoption-rate-calculator": [
+    {
+      name: "defaults",
+      values: { activeUsers: 8000, usersUsedFeature: 2400, targetPercent: 40 },
+      headline: 0.3,
+      secondary: {
+        requiredUsers: 3200,
+        adoptionGap: 800,
+        adoptionGapPercent: 0.1,
+      },
+    },
+    {
+      name: "zero users who used the feature",
+      values: { activeUsers: 8000, usersUsedFeature: 0, targetPercent: 40 },
+      headline: 0,
+      secondary: {
+        requiredUsers: 3200,
+        adoptionGap: 3200,
+        adoptionGapPercent: 0.4,
+      },
+    },
+  ],
+  "pql-to-paid-calculator": [
+    {
+      name: "defaults",
+      values: { pqls: 900, paidCustomers: 90, targetPaid: 120 },
+      headline: 0.1,
+      secondary: {
+        requiredRate: 0.1333333333,
+        paidGap: 30,
+        rateGap: 0.03333333333,
+      },
+    },
+    {
+      name: "zero pqls",
+      rejected: true,
+      values: { pqls: 0, paidCustomers: 90, targetPaid: 120 },
+      headline: 0,
+      secondary: { requiredRate: 0, paidGap: 30, rateGap: 0 },
+    },
+  ],
+  "gross-margin-impact-calculator": [
+    {
+      name: "defaults",
+      values: {
+        arpaMonthly: 800,
+        monthlyChurnPercent: 2,
+        cac: 6000,
+        currentGrossMarginPercent: 70,
+        targetGrossMarginPercent: 80,
+      },
+      headline: 1.339285714,
+      secondary: {
+        ltv0: 28000,
+        ltv1: 32000,
+        payback0: 10.71428571,
+        payback1: 9.375,
+        ratio0: 4.666666667,
+        ratio1: 5.333333333,
+      },
+    },
+    {
+      name: "zero arpa",
+      rejected: true,
+      values: {
+        arpaMonthly: 0,
+        monthlyChurnPercent: 2,
+        cac: 6000,
+        currentGrossMarginPercent: 70,
+        targetGrossMarginPercent: 80,
+      },
+      headline: 0,
+      secondary: {
+        ltv0: 0,
+        ltv1: 0,
+        payback0: 0,
+        payback1: 0,
+        ratio0: 0,
+        ratio1: 0,
+      },
+    },
+    {
+      name: "100% monthly churn",
+      values: {
+        arpaMonthly: 800,
+        monthlyChurnPercent: 100,
+        cac: 6000,
+        currentGrossMarginPercent: 70,
+        targetGrossMarginPercent: 80,
+      },
+      headline: 1.339285714,
+      secondary: {
+        ltv0: 560,
+        ltv1: 640,
+        payback0: 10.71428571,
+        payback1: 9.375,
+        ratio0: 0.09333333333,
+        ratio1: 0.1066666667,
+      },
+    },
+  ],
+  "pricing-packaging-guardrails-calculator": [
+    {
+      name: "defaults",
+      values: {
+        currentArpaMonthly: 800,
+        cac: 6000,
+        grossMarginPercent: 80,
+        targetPaybackMonths: 12,
+      },
+      headline: 625,
+      secondary: { requiredGrossProfitPerMonth: 500, maxDiscount: 0.21875 },
+    },
+    {
+      name: "zero current arpa",
+      rejected: true,
+      values: {
+        currentArpaMonthly: 0,
+        cac: 6000,
+        grossMarginPercent: 80,
+        targetPaybackMonths: 12,
+      },
+      headline: 625,
+      secondary: { requiredGrossProfitPerMonth: 500, maxDiscount: 0 },
+    },
+  ],
+  "loan-payment-calculator": [
+    {
+      name: "defaults",
+      values: { principal: 300000, aprPercent: 6.5, termYears: 30 },
+      headline: 1896.20407,
+      secondary: {
+        totalInterest: 382633.4654,
+        totalPaid: 682633.4654,
+        firstMonthInterest: 1625,
+        firstMonthPrincipal: 271.2040705,
+        interestShare: 0.8569752725,
+        totalInterestPercent: 1.275444885,
+      },
+    },
+    {
+      name: "zero loan principal",
+      rejected: true,
+      values: { principal: 0, aprPercent: 6.5, termYears: 30 },
+      headline: 0,
+      secondary: {
+        totalInterest: 0,
+        totalPaid: 0,
+        firstMonthInterest: 0,
+        firstMonthPrincipal: 0,
+        interestShare: 0,
+        totalInterestPercent: 0,
+      },
+    },
+  ],
+  "apr-to-apy-calculator": [
+    {
+      name: "defaults",
+      values: { aprPercent: 6, apyPercent: 0, compoundsPerYear: 12 },
+      headline: 0.06167781186,
+      secondary: { apr: 0.06, aprFromApy: 0, periodic: 0.005 },
+    },
+    {
+      name: "zero apr",
+      values: { aprPercent: 0, apyPercent: 0, compoundsPerYear: 12 },
+      headline: 0,
+      secondary: { apr: 0, aprFromApy: 0, periodic: 0 },
+      warns: true,
+    },
+  ],
+  "real-return-calculator": [
+    {
+      name: "defaults",
+      values: {
+        nominalReturnPercent: 10,
+        inflationPercent: 3,
+        targetRealPercent: 0,
+      },
+      headline: 0.06796116505,
+      secondary: {
+        nominal: 0.1,
+        inflation: 0.03,
+        drag: 0.03203883495,
+        requiredNominal: 0,
+      },
+    },
+    {
+      name: "zero inflation",
+      values: {
+        nominalReturnPercent: 10,
+        inflationPercent: 0,
+        targetRealPercent: 0,
+      },
+      headline: 0.1,
+      secondary: {
+        nominal: 0.1,
+        inflation: 0,
+        drag: -8.326672685e-17,
+        requiredNominal: 0,
+      },
+    },
+  ],
+};
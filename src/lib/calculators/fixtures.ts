@@ -0,0 +1,34 @@
+import { fixturesPart1 } from "./fixtures.part1.ts";
+import { fixturesPart2 } from "./fixtures.part2.ts";
+import { fixturesPart3 } from "./fixtures.part3.ts";
+import { fixturesPart4 } from "./fixtures.part4.ts";
+import { fixturesPart5 } from "./fixtures.part5.ts";
+
+// A known input/output case for one calculator's compute. Every number input
+// is listed explicitly so a changed default does not silently change the case.
+export type CalculatorFixture = {
+  name: string;
+  // Inputs validateValues rejects (e.g. a zero denominator); the case pins the
+  // finite fallback compute returns for them.
+  rejected?: boolean;
+  values: Record<string, number>;
+  series?: Record<string, number[]>;
+  headline: number;
+  // Secondary result values by key; keys left out are not checked.
+  secondary?: Record<string, number>;
+  // Whether compute should return at least one warning.
+  warns?: boolean;
+  // Allowed relative difference, scaled by max(1, |expected|).
+  tolerance?: number;
+};
+
+export const DEFAULT_FIXTURE_TOLERANCE = 1e-6;
+
+// Keyed by calculator slug, split like the definitions.
+export const calculatorFixtures: Record<string, CalculatorFixture[]> = {
+  ...fixturesPart1,
+  ...fixturesPart2,
+  ...fixturesPart3,
+  ...fixturesPart4,
+  ...fixturesPart5,
+};
@@ -0,0 +1,51 @@
+import {
+  formatCompactCurrency,
+  formatCurrency,
+  formatNumber,
+  formatPercent,
+} from "../format.ts";
+import { DEFAULT_LOCALE } from "../locale.ts";
+import type { InputField, ResultValue } from "./types";
+
+export function formatResultValue(
+  result: Pick<ResultValue, "value" | "format" | "currency" | "maxFractionDigits">,
+  locale: string = DEFAULT_LOCALE,
+): string {
+  const maxFractionDigits = result.maxFractionDigits ?? 2;
+  switch (result.format) {
+    case "currency":
+      return formatCurrency(result.value, result.currency ?? "USD", locale);
+    case "percent":
+      return formatPercent(result.value, maxFractionDigits, locale);
+    case "multiple":
+      return `${formatNumber(result.value, maxFractionDigits, locale)}x`;
+    case "months":
+      return `${formatNumber(result.value, maxFractionDigits, locale)} months`;
+    case "ratio":
+      return `${formatNumber(result.value, maxFractionDigits, locale)}:1`;
+    case "number":
+    default:
+      return formatNumber(result.value, maxFractionDigits, locale);
+  }
+}
+
+// Chart axes and grid cells have little room, so currency is abbreviated ($1.2M).
+export function formatCompactResultValue(
+  value: number,
+  spec: Pick<ResultValue, "format" | "currency" | "maxFractionDigits">,
+  locale: string = DEFAULT_LOCALE,
+): string {
+  if (spec.format === "currency") {
+    return formatCompactCurrency(value, spec.currency ?? "USD", locale);
+  }
+  return formatResultValue({ ...spec, value }, locale);
+}
+
+// Inputs carry their unit as prefix/suffix text ("$", "%", " months").
+export function formatInputValue(
+  input: Pick<InputField, "prefix" | "suffix">,
+  value: number,
+  locale: string = DEFAULT_LOCALE,
+): string {
+  return `${input.prefix ?? ""}${formatNumber(value, 2, locale)}${input.suffix ?? ""}`;
+}
@@ -0,0 +1,158 @@
+import { DEFAULT_LOCALE } from "../locale.ts";
+import { formatInputValue } from "./formatResult.ts";
+import { findResultValue } from "./shared.ts";
+import type { CalculatorDefinition, CalculatorResult, InputField, ResultValue } from "./types";
+import { isValidPoint } from "./validation.ts";
+
+export type GoalSeekRequest = {
+  targetKey: string; // headline key or any secondary ResultValue key
+  targetValue: number; // in ResultValue units (percent as a fraction)
+  inputKey: string;
+};
+
+export type GoalSeekOutcome =
+  | { status: "solved"; inputValue: number; resultValue: number }
+  | { status: "no-solution"; reason: string };
+
+// Probe distances from the current value, as multiples of its magnitude.
+const PROBE_OFFSETS = [
+  0.001, 0.01, 0.05, 0.1, 0.25, 0.5, 0.75, 0.9, 0.99, 1, 2, 5, 10, 100, 1000,
+  1e4, 1e6,
+];
+
+// Where the search looked, for "no value of X ... reaches the target".
+function boundNote(input: InputField, locale: string): string {
+  const { min, max } = input;
+  const lower = min === undefined ? "" : formatInputValue(input, min, locale);
+  const upper = max === undefined ? "" : formatInputValue(input, max, locale);
+  if (min !== undefined && max !== undefined) {
+    if (!input.exclusiveMin && !input.exclusiveMax) return ` between ${lower} and ${upper}`;
+    return ` ${input.exclusiveMin ? "above" : "at or above"} ${lower} and ${
+      input.exclusiveMax ? "below" : "at or below"
+    } ${upper}`;
+  }
+  if (min !== undefined) {
+    return input.exclusiveMin ? ` above ${lower}` : ` at or above its minimum of ${lower}`;
+  }
+  if (max !== undefined) {
+    return input.exclusiveMax ? ` below ${upper}` : ` at or below its maximum of ${upper}`;
+  }
+  return "";
+}
+
+export function goalSeekTargets(result: CalculatorResult): ResultValue[] {
+  const secondary = (result.secondary ?? []).filter(
+    (r) => r.key !== result.headline.key && Number.isFinite(r.value),
+  );
+  return [result.headline, ...secondary];
+}
+
+export function goalSeek(
+  calc: CalculatorDefinition,
+  values: Record<string, number>,
+  series: Record<string, number[]>,
+  request: GoalSeekRequest,
+  locale: string = DEFAULT_LOCALE,
+): GoalSeekOutcome {
+  const input = calc.inputs.find((i) => i.key === request.inputKey);
+  if (!input || input.kind === "series") {
+    return { status: "no-solution", reason: "Pick a single numeric input to vary." };
+  }
+  const current = values[input.key];
+  if (current === undefined) {
+    return { status: "no-solution", reason: `Enter a value for ${input.label} first.` };
+  }
+  if (!Number.isFinite(request.targetValue)) {
+    return { status: "no-solution", reason: "Enter a valid target value." };
+  }
+
+  // Whole-number inputs are evaluated at the nearest whole number.
+  const snap = (x: number) => (input.integer ? Math.round(x) : x);
+  const resultAt = (x: number): number | null => {
+    const point = { ...values, [input.key]: snap(x) };
+    if (!isValidPoint(calc, point, series)) return null;
+    const found = findResultValue(calc.compute(point, series), request.targetKey);
+    return found && Number.isFinite(found.value) ? found.value : null;
+  };
+  const gapAt = (x: number): number | null => {
+    const value = resultAt(x);
+    return value === null ? null : value - request.targetValue;
+  };
+  const solvedAt = (x: number, gap: number): GoalSeekOutcome => ({
+    status: "solved",
+    inputValue: snap(x),
+    resultValue: gap + request.targetValue,
+  });
+
+  const lowerBound = input.min ?? -Infinity;
+  const upperBound = input.max ?? Infinity;
+  const scale = Math.max(Math.abs(current), 1);
+  const probes = new Set<number>([Math.min(Math.max(current, lowerBound), upperBound)]);
+  if (Number.isFinite(lowerBound)) probes.add(lowerBound);
+  if (Number.isFinite(upperBound)) probes.add(upperBound);
+  for (const offset of PROBE_OFFSETS) {
+    const above = current + offset * scale;
+    if (above <= upperBound) probes.add(above);
+    const below = current - offset * scale;
+    if (below >= lowerBound) probes.add(below);
+  }
+
+  const samples = [...probes]
+    .sort((a, b) => a - b)
+    .map((x) => ({ x, gap: gapAt(x) }))
+    .filter((s): s is { x: number; gap: number } => s.gap !== null);
+
+  const tolerance = 1e-9 * Math.max(1, Math.abs(request.targetValue));
+  // Looser check once bisection has converged, to tell a root from a jump.
+  const acceptance = 1e-6 * Math.max(1, Math.abs(request.targetValue));
+  const exact = samples
+    .filter((s) => Math.abs(s.gap) <= tolerance)
+    .sort((a, b) => Math.abs(a.x - current) - Math.abs(b.x - current))[0];
+  if (exact) return solvedAt(exact.x, exact.gap);
+
+  // Prefer the sign change closest to the current input value.
+  const brackets: Array<[{ x: number; gap: number }, { x: number; gap: number }]> = [];
+  for (let i = 0; i < samples.length - 1; i++) {
+    if (samples[i].gap * samples[i + 1].gap < 0) {
+      brackets.push([samples[i], samples[i + 1]]);
+    }
+  }
+  brackets.sort(
+    (a, b) =>
+      Math.abs((a[0].x + a[1].x) / 2 - current) -
+      Math.abs((b[0].x + b[1].x) / 2 - current),
+  );
+
+  if (brackets.length === 0) {
+    return {
+      status: "no-solution",
+      reason: `No value of ${input.label}${boundNote(input, locale)} reaches the target.`,
+    };
+  }
+
+  for (const [left, right] of brackets) {
+    let lo = left;
+    let hi = right;
+    for (let i = 0; i < 200; i++) {
+      if (input.integer && Math.abs(hi.x - lo.x) <= 1) {
+        // Closest whole number; an exact match is rarely possible.
+        const best = Math.abs(lo.gap) <= Math.abs(hi.gap) ? lo : hi;
+        return solvedAt(best.x, best.gap);
+      }
+      const mid = (lo.x + hi.x) / 2;
+      const gap = gapAt(mid);
+      if (gap === null) break;
+      if (Math.abs(gap) <= tolerance || Math.abs(hi.x - lo.x) <= 1e-12 * scale) {
+        if (Math.abs(gap) > acceptance) break; // the result jumps past the target
+        return solvedAt(mid, gap);
+      }
+      if (lo.gap * gap < 0) hi = { x: mid, gap };
+      else lo = { x: mid, gap };
+    }
+  }
+
+  return {
+    status: "no-solution",
+    reason: `The result jumps past the target instead of reaching it; no exact value of ${input.label}${boundNote(input, locale)} works.`,
+  };
+}
@@ -0,0 +1,39 @@
+import { findResultValue } from "./shared.ts";
+import type { CalculatorHandoff, CalculatorResult } from "./types";
+
+// A result value as another calculator's input expects it: percents become
+// whole percents (0.03 -> 3). Undefined when missing or not finite.
+export function resultAsInput(
+  result: CalculatorResult,
+  key: string,
+): number | undefined {
+  const value = findResultValue(result, key, { includeBreakdown: true });
+  if (!value || !Number.isFinite(value.value)) return undefined;
+  return value.format === "percent" ? value.value * 100 : value.value;
+}
+
+// Locale-independent query param value, trimmed of float noise.
+export function toParamValue(value: number): string {
+  return String(Number(value.toPrecision(10)));
+}
+
+// Share-link params that pre-fill `handoff.calculatorSlug`. `inputs` are this
+// calculator's canonical flat inputs (see flattenRawInputs); values that are
+// missing or not finite are left out so the downstream default applies.
+export function buildHandoffParams(
+  handoff: CalculatorHandoff,
+  inputs: Record<string, string>,
+  result: CalculatorResult,
+): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [target, source] of Object.entries(handoff.inputs)) {
+    if ("input" in source) {
+      const raw = inputs[source.input];
+      if (raw) params[target] = raw;
+      continue;
+    }
+    const value = resultAsInput(result, source.result);
+    if (value !== undefined) params[target] = toParamValue(value);
+  }
+  return params;
+}
@@ -0,0 +1,154 @@
+import { fromLocaleInput, toLocaleInput, toNumber } from "../format.ts";
+import { DEFAULT_LOCALE } from "../locale.ts";
+import {
+  parseSeriesParam,
+  parseSeriesRows,
+  serializeSeries,
+  seriesRowCountMessage,
+  upgradeLegacyParams,
+} from "./series.ts";
+import type { InputForm } from "./types";
+import { validateValues } from "./validation.ts";
+
+// Raw inputs are the strings shown in the form, written in the user's locale.
+export type RawInputs = {
+  values: Record<string, string>;
+  series: Record<string, string[]>;
+};
+
+export type ParsedInputs = {
+  values: Record<string, number>;
+  series: Record<string, number[]>;
+  invalidKeys: string[];
+  invalidSeriesRows: Record<string, number[]>;
+  errors: Record<string, string>; // field-level message per invalid key
+};
+
+export function buildDefaultRawInputs(
+  calc: InputForm,
+  locale: string = DEFAULT_LOCALE,
+): RawInputs {
+  const raw: RawInputs = { values: {}, series: {} };
+  for (const input of calc.inputs) {
+    if (input.kind === "series") {
+      raw.series[input.key] = input.defaultValue.map((row) => toLocaleInput(row, locale));
+    } else {
+      raw.values[input.key] = toLocaleInput(input.defaultValue, locale);
+    }
+  }
+  return raw;
+}
+
+export function parseRawInputs(
+  calc: InputForm,
+  raw: RawInputs,
+  locale: string = DEFAULT_LOCALE,
+): ParsedInputs {
+  const parsed: ParsedInputs = {
+    values: {},
+    series: {},
+    invalidKeys: [],
+    invalidSeriesRows: {},
+    errors: {},
+  };
+  for (const input of calc.inputs) {
+    if (input.kind === "series") {
+      const rows = raw.series[input.key] ?? [];
+      const parsedRows = parseSeriesRows(rows, locale);
+      parsed.invalidSeriesRows[input.key] = parsedRows.invalidRows;
+      const countMessage = seriesRowCountMessage(input, rows.length);
+      if (countMessage) {
+        parsed.errors[input.key] = countMessage;
+      } else if (parsedRows.invalidRows.length > 0) {
+        parsed.errors[input.key] = "Enter a valid number in every row.";
+      } else {
+        parsed.series[input.key] = parsedRows.values;
+      }
+      continue;
+    }
+    const parsedValue = toNumber(raw.values[input.key] ?? "", locale);
+    if (parsedValue === null) parsed.errors[input.key] = "Enter a valid number.";
+    else parsed.values[input.key] = parsedValue;
+  }
+  if (Object.keys(parsed.errors).length === 0) {
+    parsed.errors = validateValues(calc, parsed.values, parsed.series, locale);
+  }
+  parsed.invalidKeys = calc.inputs
+    .map((input) => input.key)
+    .filter((key) => parsed.errors[key] !== undefined);
+  return parsed;
+}
+
+// Flat string form used by share links, guide example params and saved
+// scenarios. Numbers are written locale-independently so links work anywhere.
+export function flattenRawInputs(
+  calc: InputForm,
+  raw: RawInputs,
+  locale: string = DEFAULT_LOCALE,
+): Record<string, string> {
+  const flat: Record<string, string> = {};
+  for (const input of calc.inputs) {
+    const value =
+      input.kind === "series"
+        ? serializeSeries(
+            (raw.series[input.key] ?? []).map((row) => fromLocaleInput(row, locale)),
+          )
+        : fromLocaleInput(raw.values[input.key] ?? "", locale);
+    if (value) flat[input.key] = value;
+  }
+  return flat;
+}
+
+// Keys missing from `flat` keep their defaults.
+export function expandRawInputs(
+  calc: InputForm,
+  flat: Record<string, string | null | undefined>,
+  locale: string = DEFAULT_LOCALE,
+): RawInputs {
+  const raw = buildDefaultRawInputs(calc, locale);
+  const params = upgradeLegacyParams(calc, flat);
+  for (const input of calc.inputs) {
+    const value = params[input.key];
+    if (value === null || value === undefined) continue;
+    if (input.kind === "series") {
+      raw.series[input.key] = parseSeriesParam(value).map((row) =>
+        toLocaleInput(row, locale),
+      );
+    } else {
+      raw.values[input.key] = toLocaleInput(value, locale);
+    }
+  }
+  return raw;
+}
+
+// Rewrites what the user has typed when they switch locale mid-edit.
+export function convertRawInputs(raw: RawInputs, from: string, to: string): RawInputs {
+  if (from === to) return raw;
+  const convert = (value: string) => toLocaleInput(fromLocaleInput(value, from), to);
+  return {
+    values: Object.fromEntries(
+      Object.entries(raw.values).map(([key, value]) => [key, convert(value)]),
+    ),
+    series: Object.fromEntries(
+      Object.entries(raw.series).map(([key, rows]) => [key, rows.map(convert)]),
+    ),
+  };
+}
+
+// A guide example the page was opened with, as flat inputs.
+export type ExampleInputs = { name: string; inputs: Record<string, string> };
+
+// What a calculator page shows for its query string: the inputs it carries
+// over the defaults, and the guide example they came from, if any.
+export function readUrlInputs(
+  calc: InputForm,
+  params: URLSearchParams,
+  locale: string = DEFAULT_LOCALE,
+): { raw: RawInputs; example: ExampleInputs | null } {
+  const raw = expandRawInputs(calc, Object.fromEntries(params), locale);
+  const name = params.get("example");
+  return {
+    raw,
+    example: name ? { name, inputs: flattenRawInputs(calc, raw, locale) } : null,
+  };
+}
@@ -0,0 +1,243 @@
+import type {
+  CalculatorDefinition,
+  CalculatorResult,
+  InputField,
+} from "./types";
+
+// Properties a calculator should satisfy at any valid input, checked against
+// randomly sampled inputs by src/lib/calculator-invariants.test.ts.
+export type InvariantContext = {
+  values: Record<string, number>;
+  series: Record<string, number[]>;
+  result: CalculatorResult;
+  // Runs compute again with some number inputs changed.
+  rerun: (changes: Record<string, number>) => CalculatorResult;
+};
+
+export type CalculatorInvariant = {
+  name: string;
+  holds: (context: InvariantContext) => boolean;
+};
+
+// Deterministic PRNG (mulberry32) so a failing seed can be replayed.
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleValue(input: InputField, random: () => number): number {
+  const fallback =
+    input.kind === "series" ? input.defaultValue[0] : input.defaultValue;
+  const typical = Math.abs(Number(fallback ?? 0)) || 1;
+  const lower = input.min ?? 0;
+  const upper =
+    input.max ??
+    (input.suffix === "%" ? Math.max(lower, 100) : lower + typical * 10);
+  // Bounds are where division by zero and log(0) hide, so hit them often.
+  const roll = random();
+  let value: number;
+  if (roll < 0.1 && !input.exclusiveMin) value = lower;
+  else if (roll < 0.2 && input.max !== undefined && !input.exclusiveMax)
+    value = upper;
+  else value = lower + (upper - lower) * random();
+
+  if (input.exclusiveMin && value <= lower)
+    value = lower + (upper - lower) * 1e-6;
+  if (input.exclusiveMax && value >= upper)
+    value = upper - (upper - lower) * 1e-6;
+  if (input.integer) {
+    value = Math.round(value);
+    if (input.exclusiveMin ? value <= lower : value < lower)
+      value = Math.floor(lower) + 1;
+  }
+  return value;
+}
+
+// Random inputs drawn from each field's min/max. Fields without bounds are
+// sampled from zero up to ten times their default (or 0-100 for percents).
+export function sampleInputs(
+  calc: CalculatorDefinition,
+  random: () => number,
+): { values: Record<string, number>; series: Record<string, number[]> } {
+  const values: Record<string, number> = {};
+  const series: Record<string, number[]> = {};
+  for (const input of calc.inputs) {
+    if (input.kind === "series") {
+      const minRows = Math.max(1, input.minRows ?? 1);
+      const maxRows = Math.max(
+        minRows,
+        input.maxRows ?? input.defaultValue.length,
+      );
+      const rows = minRows + Math.floor(random() * (maxRows - minRows + 1));
+      series[input.key] = Array.from({ length: rows }, () =>
+        sampleValue(input, random),
+      );
+      continue;
+    }
+    values[input.key] = sampleValue(input, random);
+  }
+  return { values, series };
+}
+
+function resultValues(result: CalculatorResult) {
+  return [
+    result.headline,
+    ...(result.secondary ?? []),
+    ...(result.breakdown ?? []),
+  ];
+}
+
+// Undefined when compute returned early (e.g. a zero denominator) without
+// secondary values; invariants treat that as nothing to check.
+export function secondaryValue(
+  result: CalculatorResult,
+  key: string,
+): number | undefined {
+  return result.secondary?.find((r) => r.key === key)?.value;
+}
+
+export function approxEqual(a: number, b: number, tolerance = 1e-9): boolean {
+  return Math.abs(a - b) <= tolerance * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+// Checked for every calculator.
+export const genericInvariants: CalculatorInvariant[] = [
+  {
+    name: "result values are finite",
+    holds: ({ result }) =>
+      resultValues(result).every((r) => Number.isFinite(r.value)) &&
+      (result.chart?.lines ?? []).every((line) =>
+        line.values.every(Number.isFinite),
+      ),
+  },
+  {
+    name: "compute is deterministic",
+    holds: ({ result, rerun }) => {
+      const again = resultValues(rerun({}));
+      const first = resultValues(result);
+      return (
+        again.length === first.length &&
+        again.every(
+          (r, i) =>
+            r.key === first[i].key && Object.is(r.value, first[i].value),
+        )
+      );
+    },
+  },
+];
+
+// Extra properties for specific calculators, keyed by slug.
+export const calculatorInvariants: Record<string, CalculatorInvariant[]> = {
+  "roas-calculator": [
+    {
+      name: "ROAS scales linearly with revenue",
+      holds: ({ values, result, rerun }) =>
+        approxEqual(
+          rerun({ revenue: values.revenue * 2 }).headline.value,
+          result.headline.value * 2,
+        ),
+    },
+  ],
+  "break-even-roas-calculator": [
+    {
+      name: "break-even ROAS equals 1 / contribution margin",
+      holds: ({ result }) => {
+        const margin = secondaryValue(result, "contributionMargin");
+        return (
+          margin === undefined ||
+          margin <= 0 ||
+          approxEqual(result.headline.value, 1 / margin)
+        );
+      },
+    },
+  ],
+  "nrr-calculator": [
+    {
+      name: "NRR is at least GRR",
+      holds: ({ result }) => {
+        const grr = secondaryValue(result, "grossRetention");
+        return grr === undefined || result.headline.value >= grr - 1e-12;
+      },
+    },
+  ],
+  "nrr-vs-grr-calculator": [
+    {
+      name: "NRR is at least GRR",
+      holds: ({ result }) => {
+        const grr = secondaryValue(result, "grr");
+        return grr === undefined || result.headline.value >= grr - 1e-12;
+      },
+    },
+  ],
+  "ltv-calculator": [
+    {
+      name: "LTV does not rise with churn",
+      holds: ({ values, result, rerun }) =>
+        rerun({ churnPercent: values.churnPercent * 2 }).headline.value <=
+        result.headline.value + 1e-9,
+    },
+  ],
+  "ltv-to-cac-calculator": [
+    {
+      name: "ratio equals LTV / CAC",
+      holds: ({ values, result }) => {
+        const ltv = secondaryValue(result, "ltv");
+        return (
+          ltv === undefined ||
+          approxEqual(result.headline.value, ltv / values.cac)
+        );
+      },
+    },
+  ],
+  "cac-payback-period-calculator": [
+    {
+      name: "payback scales linearly with CAC",
+      holds: ({ values, result, rerun }) =>
+        approxEqual(
+          rerun({ cac: values.cac * 2 }).headline.value,
+          result.headline.value * 2,
+        ),
+    },
+  ],
+  "mrr-calculator": [
+    {
+      name: "ARR is 12 x MRR",
+      holds: ({ result }) => {
+        const arr = secondaryValue(result, "arr");
+        return (
+          arr === undefined || approxEqual(arr, result.headline.value * 12)
+        );
+      },
+    },
+  ],
+  "arr-calculator": [
+    {
+      name: "ARR is 12 x MRR",
+      holds: ({ result }) => {
+        const mrr = secondaryValue(result, "mrr");
+        return (
+          mrr === undefined || approxEqual(result.headline.value, mrr * 12)
+        );
+      },
+    },
+  ],
+  "gross-revenue-churn-calculator": [
+    {
+      name: "gross churn and GRR add up to 100%",
+      holds: ({ values, result }) => {
+        const grr = secondaryValue(result, "grr");
+        return (
+          values.startingMrr <= 0 ||
+          grr === undefined ||
+          approxEqual(result.headline.value + grr, 1)
+        );
+      },
+    },
+  ],
+};
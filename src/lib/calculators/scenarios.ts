@@ -0,0 +1,249 @@
+import { formatNumber } from "../format.ts";
+import { DEFAULT_LOCALE } from "../locale.ts";
+import { expandRawInputs, parseRawInputs, type RawInputs } from "./inputs.ts";
+import type {
+  CalculatorDefinition,
+  CalculatorResult,
+  ResultValue,
+} from "./types";
+
+export type SavedScenario = {
+  id: string;
+  name: string;
+  // Flat raw inputs, same shape as share-link params (series joined with ";").
+  inputs: Record<string, string>;
+  savedAt: string;
+};
+
+// Scenarios by calculator slug, as kept in localStorage.
+export type ScenarioMap = Record<string, SavedScenario[]>;
+
+function isSavedScenario(value: unknown): value is SavedScenario {
+  if (!value || typeof value !== "object") return false;
+  const v = value as Partial<SavedScenario>;
+  return (
+    typeof v.id === "string" &&
+    typeof v.name === "string" &&
+    typeof v.savedAt === "string" &&
+    !!v.inputs &&
+    typeof v.inputs === "object" &&
+    Object.values(v.inputs).every((x) => typeof x === "string")
+  );
+}
+
+// Drops anything that is not a well-formed scenario list, e.g. from an older
+// version or a hand-edited store.
+export function parseScenarioMap(raw: string | null): ScenarioMap {
+  const map: ScenarioMap = {};
+  if (!raw) return map;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (parsed && typeof parsed === "object") {
+      for (const [slug, list] of Object.entries(parsed)) {
+        if (Array.isArray(list)) map[slug] = list.filter(isSavedScenario);
+      }
+    }
+  } catch {
+    // ignore
+  }
+  return map;
+}
+
+function newScenarioId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function sameInputs(
+  a: Record<string, string>,
+  b: Record<string, string>,
+): boolean {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => a[key] === b[key])
+  );
+}
+
+// A scenario saved under this name with exactly these inputs.
+export function findScenario(
+  list: SavedScenario[],
+  name: string,
+  inputs: Record<string, string>,
+): SavedScenario | undefined {
+  return list.find((s) => s.name === name && sameInputs(s.inputs, inputs));
+}
+
+// The part of localStorage the store uses; null where there is none (server).
+export type ScenarioStorage = Pick<Storage, "getItem" | "setItem">;
+
+const NO_SCENARIOS: SavedScenario[] = [];
+
+// Saved scenarios for every calculator, kept as one JSON string in `storage`.
+// Snapshots are stable per stored string, as useSyncExternalStore needs.
+export function createScenarioStore(
+  storage: () => ScenarioStorage | null,
+  key: string,
+  onChange: () => void,
+) {
+  let cachedRaw: string | null = null;
+  let cachedMap: ScenarioMap = {};
+
+  const read = (): ScenarioMap => {
+    let raw: string | null = null;
+    try {
+      raw = storage()?.getItem(key) ?? null;
+    } catch {
+      return cachedMap;
+    }
+    if (raw === cachedRaw) return cachedMap;
+    cachedRaw = raw;
+    cachedMap = parseScenarioMap(raw);
+    return cachedMap;
+  };
+
+  const write = (slug: string, list: SavedScenario[]) => {
+    const next: ScenarioMap = { ...read() };
+    if (list.length > 0) next[slug] = list;
+    else delete next[slug];
+    try {
+      storage()?.setItem(key, JSON.stringify(next));
+    } catch {
+      // ignore
+    }
+    onChange();
+  };
+
+  const getScenarios = (slug: string): SavedScenario[] =>
+    read()[slug] ?? NO_SCENARIOS;
+
+  const saveScenario = (
+    slug: string,
+    name: string,
+    inputs: Record<string, string>,
+  ): SavedScenario => {
+    const scenario: SavedScenario = {
+      id: newScenarioId(),
+      name,
+      inputs,
+      savedAt: new Date().toISOString(),
+    };
+    write(slug, [...getScenarios(slug), scenario]);
+    return scenario;
+  };
+
+  return {
+    getScenarios,
+    saveScenario,
+    duplicateScenario: (slug: string, scenario: SavedScenario) =>
+      saveScenario(slug, `${scenario.name} (copy)`, scenario.inputs),
+    // Saving the same guide example again returns the first copy.
+    saveExampleScenario: (
+      slug: string,
+      name: string,
+      inputs: Record<string, string>,
+    ) =>
+      findScenario(getScenarios(slug), name, inputs) ??
+      saveScenario(slug, name, inputs),
+    deleteScenario: (slug: string, id: string) =>
+      write(
+        slug,
+        getScenarios(slug).filter((s) => s.id !== id),
+      ),
+  };
+}
+
+export type ComparisonColumn = {
+  id: string;
+  name: string;
+  result: CalculatorResult | null; // null when the inputs do not validate
+};
+
+export const CURRENT_SCENARIO_ID = "current";
+
+function computeScenario(
+  calc: CalculatorDefinition,
+  raw: RawInputs,
+  locale: string,
+): CalculatorResult | null {
+  const parsed = parseRawInputs(calc, raw, locale);
+  if (parsed.invalidKeys.length > 0) return null;
+  return calc.compute(parsed.values, parsed.series);
+}
+
+export function comparableValues(result: CalculatorResult): ResultValue[] {
+  return [result.headline, ...(result.secondary ?? [])].filter((r) =>
+    Number.isFinite(r.value),
+  );
+}
+
+// The current inputs (written in `locale`) followed by each saved scenario,
+// and the union of their result rows in the order they first appear.
+export function compareScenarios(
+  calc: CalculatorDefinition,
+  current: RawInputs,
+  locale: string,
+  scenarios: SavedScenario[],
+): { columns: ComparisonColumn[]; rows: ResultValue[] } {
+  const columns: ComparisonColumn[] = [
+    {
+      id: CURRENT_SCENARIO_ID,
+      name: "Current inputs",
+      result: computeScenario(calc, current, locale),
+    },
+    ...scenarios.map((s) => ({
+      id: s.id,
+      name: s.name,
+      // Saved inputs are locale-independent, so parse them as written.
+      result: computeScenario(
+        calc,
+        expandRawInputs(calc, s.inputs),
+        DEFAULT_LOCALE,
+      ),
+    })),
+  ];
+  const seen = new Map<string, ResultValue>();
+  for (const column of columns) {
+    if (!column.result) continue;
+    for (const r of comparableValues(column.result)) {
+      if (!seen.has(r.key)) seen.set(r.key, r);
+    }
+  }
+  return { columns, rows: [...seen.values()] };
+}
+
+// The chosen baseline, or the current inputs once that scenario is deleted.
+export function baselineColumn(
+  columns: ComparisonColumn[],
+  baselineId: string,
+): ComparisonColumn {
+  return columns.find((c) => c.id === baselineId) ?? columns[0];
+}
+
+// How far `column` is from the baseline on one result row, or undefined when
+// either side has no value for it (invalid inputs or a missing row).
+export function scenarioDelta(
+  column: ComparisonColumn,
+  baseline: ComparisonColumn,
+  key: string,
+): number | undefined {
+  if (!column.result || !baseline.result) return undefined;
+  const value = comparableValues(column.result).find((r) => r.key === key);
+  const base = comparableValues(baseline.result).find((r) => r.key === key);
+  if (!value || !base) return undefined;
+  return value.value - base.value;
+}
+
+// Percent rows move in percentage points; others are formatted like the row.
+export function formatScenarioDelta(
+  row: ResultValue,
+  delta: number,
+  formatValue: (value: ResultValue) => string,
+  locale: string = DEFAULT_LOCALE,
+): string {
+  if (Math.abs(delta) < 1e-12) return "No change";
+  const sign = delta > 0 ? "+" : "-";
+  if (row.format === "percent") {
+    return `${sign}${formatNumber(Math.abs(delta) * 100, row.maxFractionDigits ?? 2, locale)} pts`;
+  }
+  return `${sign}${formatValue({ ...row, value: Math.abs(delta) })}`;
+}
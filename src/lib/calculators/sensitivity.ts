@@ -0,0 +1,102 @@
+import type { CalculatorDefinition } from "./types";
+import { isValidPoint } from "./validation.ts";
+
+export const SENSITIVITY_STEPS = [0.1, 0.2, 0.3];
+
+export type TornadoBar = {
+  key: string;
+  label: string;
+  baseInput: number;
+  lowInput: number;
+  highInput: number;
+  lowResult: number;
+  highResult: number;
+  swing: number; // |highResult - lowResult|
+};
+
+export type TornadoResult = {
+  baseResult: number;
+  bars: TornadoBar[];
+};
+
+function headlineAt(
+  calc: CalculatorDefinition,
+  values: Record<string, number>,
+  series: Record<string, number[]>,
+): number | null {
+  if (!isValidPoint(calc, values, series)) return null;
+  const value = calc.compute(values, series).headline.value;
+  return Number.isFinite(value) ? value : null;
+}
+
+// Moves each numeric input (and each series as a whole) by +/- step while
+// holding everything else at its current value, then ranks inputs by how far
+// the headline result swings. Moves that break an input constraint are dropped.
+export function computeTornado(
+  calc: CalculatorDefinition,
+  values: Record<string, number>,
+  series: Record<string, number[]>,
+  step: number,
+): TornadoResult | null {
+  const baseResult = headlineAt(calc, values, series);
+  if (baseResult === null) return null;
+
+  const bars: TornadoBar[] = [];
+
+  for (const input of calc.inputs) {
+    if (input.kind === "series") {
+      const rows = series[input.key] ?? [];
+      // Inputs at 0 cannot be moved by a percentage.
+      if (rows.every((row) => row === 0)) continue;
+      const at = (factor: number) =>
+        headlineAt(calc, values, {
+          ...series,
+          [input.key]: rows.map((row) => row * factor),
+        });
+      const lowResult = at(1 - step);
+      const highResult = at(1 + step);
+      if (lowResult === null || highResult === null) continue;
+      bars.push({
+        key: input.key,
+        label: input.label,
+        baseInput: rows.reduce((sum, row) => sum + row, 0),
+        lowInput: rows.reduce((sum, row) => sum + row * (1 - step), 0),
+        highInput: rows.reduce((sum, row) => sum + row * (1 + step), 0),
+        lowResult,
+        highResult,
+        swing: Math.abs(highResult - lowResult),
+      });
+      continue;
+    }
+
+    const baseInput = values[input.key];
+    if (baseInput === undefined || baseInput === 0) continue;
+    const snap = (x: number) => (input.integer ? Math.round(x) : x);
+    const lowInput = snap(
+      input.min !== undefined
+        ? Math.max(input.min, baseInput * (1 - step))
+        : baseInput * (1 - step),
+    );
+    const highInput = snap(
+      input.max !== undefined
+        ? Math.min(input.max, baseInput * (1 + step))
+        : baseInput * (1 + step),
+    );
+    const lowResult = headlineAt(calc, { ...values, [input.key]: lowInput }, series);
+    const highResult = headlineAt(calc, { ...values, [input.key]: highInput }, series);
+    if (lowResult === null || highResult === null) continue;
+    bars.push({
+      key: input.key,
+      label: input.label,
+      baseInput,
+      lowInput,
+      highInput,
+      lowResult,
+      highResult,
+      swing: Math.abs(highResult - lowResult),
+    });
+  }
+
+  bars.sort((a, b) => b.swing - a.swing);
+  return { baseResult, bars };
+}
@@ -0,0 +1,97 @@
+import { toNumber } from "../format.ts";
+import { DEFAULT_LOCALE } from "../locale.ts";
+import type { InputForm, LegacyParam, SeriesInputField } from "./types";
+
+// Series values travel through query strings and guide example params as a
+// single string, so rows are joined with a separator that never appears in a
+// typed number (commas are thousands or decimal separators depending on locale).
+export const SERIES_SEPARATOR = ";";
+
+export function parseSeriesParam(value: string): string[] {
+  if (!value.trim()) return [];
+  return value.split(SERIES_SEPARATOR).map((row) => row.trim());
+}
+
+export function serializeSeries(rows: string[]): string {
+  return rows.map((row) => row.trim()).join(SERIES_SEPARATOR);
+}
+
+// Spreadsheet pastes arrive tab- or newline-separated; semicolons are accepted
+// too so a copied share-link value can be pasted back in.
+export function splitPastedSeries(text: string): string[] {
+  return text
+    .split(/[\t\r\n;]+/)
+    .map((row) => row.trim())
+    .filter(Boolean);
+}
+
+export const DEFAULT_MAX_SERIES_ROWS = 50;
+
+export function clampSeriesRows(field: SeriesInputField, rows: string[]): string[] {
+  return rows.slice(0, field.maxRows ?? DEFAULT_MAX_SERIES_ROWS);
+}
+
+// Too few or too many rows, or null. Enforced on every parse, not just in the
+// form, so share links and API calls cannot send unbounded series.
+export function seriesRowCountMessage(field: SeriesInputField, count: number): string | null {
+  const minRows = field.minRows ?? 1;
+  const maxRows = field.maxRows ?? DEFAULT_MAX_SERIES_ROWS;
+  const rowLabel = field.rowLabel.toLowerCase();
+  if (count < minRows) return `Add at least ${minRows} ${rowLabel}${minRows === 1 ? "" : "s"}.`;
+  if (count > maxRows) return `Use at most ${maxRows} ${rowLabel}${maxRows === 1 ? "" : "s"}.`;
+  return null;
+}
+
+// Rewrites a pre-series share link, e.g. ?annualCashFlow=30000&years=5, into
+// the series param the form reads (?cashFlows=30000;30000;...). Links that
+// carry the series param, or none of the old ones, are returned unchanged.
+export function upgradeLegacyParams(
+  calc: InputForm,
+  flat: Record<string, string | null | undefined>,
+): Record<string, string | null | undefined> {
+  const has = (key: string) => flat[key] !== null && flat[key] !== undefined;
+  let upgraded = flat;
+  for (const input of calc.inputs) {
+    if (input.kind !== "series" || !input.legacyParams) continue;
+    if (has(input.key)) continue;
+    const legacy = input.legacyParams;
+    const keys = "rows" in legacy ? legacy.rows : [legacy.value, legacy.count];
+    if (!keys.some((param) => has(param.key))) continue;
+    const read = (param: LegacyParam) => flat[param.key] ?? param.defaultValue;
+
+    let rows: string[];
+    if ("rows" in legacy) {
+      rows = legacy.rows.map(read);
+    } else {
+      const count = Math.trunc(Number(read(legacy.count)));
+      const length = Math.min(
+        Number.isFinite(count) && count >= 1 ? count : Number(legacy.count.defaultValue),
+        input.maxRows ?? DEFAULT_MAX_SERIES_ROWS,
+      );
+      rows = Array.from({ length }, () => read(legacy.value));
+    }
+    upgraded = { ...upgraded, [input.key]: serializeSeries(clampSeriesRows(input, rows)) };
+  }
+  return upgraded;
+}
+
+export function seriesRowLabel(field: SeriesInputField, index: number): string {
+  return `${field.rowLabel} ${index + 1}`;
+}
+
+export function parseSeriesRows(
+  rows: string[],
+  locale: string = DEFAULT_LOCALE,
+): {
+  values: number[];
+  invalidRows: number[];
+} {
+  const values: number[] = [];
+  const invalidRows: number[] = [];
+  rows.forEach((row, index) => {
+    const parsed = toNumber(row, locale);
+    if (parsed === null) invalidRows.push(index);
+    else values.push(parsed);
+  });
+  return { values, invalidRows };
+}
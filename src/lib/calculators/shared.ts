@@ -1,5 +1,21 @@
+import type { CalculatorResult, ResultValue } from "./types";
+
 export function safeDivide(numerator: number, denominator: number): number | null {
   if (!Number.isFinite(numerator) || !Number.isFinite(denominator)) return null;
   if (denominator === 0) return null;
   return numerator / denominator;
 }
+
+// A result value by key: the headline or a secondary value, and breakdown rows
+// too when asked. Goal seek leaves breakdown out; hand-offs read it.
+export function findResultValue(
+  result: CalculatorResult,
+  key: string,
+  options: { includeBreakdown?: boolean } = {},
+): ResultValue | undefined {
+  return [
+    result.headline,
+    ...(result.secondary ?? []),
+    ...(options.includeBreakdown ? (result.breakdown ?? []) : []),
+  ].find((r) => r.key === key);
+}
@@ -6,7 +6,7 @@ export type CalculatorCategory = {
   description: string;
 };
 
-export type InputField = {
+type InputFieldBase = {
   key: string;
   label: string;
   help?: string;
@@ -14,10 +14,48 @@ export type InputField = {
   suffix?: string;
   prefix?: string;
   step?: number;
+  // Checked before compute runs; bounds are inclusive unless marked exclusive.
   min?: number;
+  max?: number;
+  exclusiveMin?: boolean;
+  exclusiveMax?: boolean;
+  integer?: boolean;
+};
+
+export type NumberInputField = InputFieldBase & {
+  kind?: "number";
   defaultValue: string;
 };
 
+export type SeriesInputField = InputFieldBase & {
+  kind: "series";
+  rowLabel: string; // e.g. "Year" renders rows as "Year 1", "Year 2", ...
+  minRows?: number;
+  maxRows?: number;
+  defaultValue: string[];
+  legacyParams?: LegacySeriesParams;
+};
+
+// Query params from before an input became a series, read when a link has no
+// param for the series itself. Params missing from such a link take the old
+// field's default.
+export type LegacySeriesParams =
+  // One param per row, e.g. cashFlow1..cashFlow5.
+  | { rows: LegacyParam[] }
+  // One value repeated for a number of rows, e.g. annualCashFlow for `years`.
+  | { value: LegacyParam; count: LegacyParam };
+
+export type LegacyParam = { key: string; defaultValue: string };
+
+export type InputField = NumberInputField | SeriesInputField;
+
+// A check across inputs, e.g. customers lost cannot exceed customers at start.
+export type InputRule = {
+  keys: string[]; // inputs that show the message
+  message: string;
+  isValid: (values: Record<string, number>) => boolean;
+};
+
 export type ResultValue = {
   key: string;
   label: string;
@@ -28,6 +66,72 @@ export type ResultValue = {
   detail?: string;
 };
 
+export type ResultChartLine = {
+  key: string;
+  label: string;
+  values: number[]; // one value per entry in ResultChart.x
+};
+
+export type ResultChart = {
+  title: string;
+  xLabel: string;
+  x: number[];
+  format: ResultValue["format"];
+  currency?: string;
+  maxFractionDigits?: number;
+  lines: ResultChartLine[];
+};
+
+// How a matrix axis's values are shown; formatted like result values so the
+// labels follow the locale and display currency.
+export type ResultMatrixAxis = Pick<ResultValue, "format" | "currency" | "maxFractionDigits">;
+
+export type ResultMatrix = {
+  title: string;
+  rowLabel: string;
+  columnLabel: string;
+  rows: number[];
+  rowFormat: ResultMatrixAxis;
+  columns: number[];
+  columnFormat: ResultMatrixAxis;
+  values: Array<Array<number | null>>; // [row][column]; null marks an invalid cell
+  format: ResultValue["format"];
+  currency?: string;
+  maxFractionDigits?: number;
+  baseRow: number;
+  baseColumn: number;
+  higherIsBetter: boolean;
+};
+
+export type CalculatorResult = {
+  headline: ResultValue;
+  secondary?: ResultValue[];
+  breakdown?: ResultValue[];
+  chart?: ResultChart;
+  matrix?: ResultMatrix;
+  warnings?: string[];
+};
+
+// Pre-fills another calculator from this one. Each downstream input takes a
+// result value (by key; percent results become whole percents) or one of this
+// calculator's inputs as entered.
+export type CalculatorHandoff = {
+  calculatorSlug: string;
+  inputs: Record<string, { result: string } | { input: string }>;
+};
+
+// A formula over a calculator's inputs. `percent` reads a percent input as a
+// fraction (60 -> 0.6); `label` overrides the input's label when typeset.
+export type FormulaExpression =
+  | { kind: "input"; key: string; label?: string }
+  | { kind: "percent"; key: string; label?: string }
+  | { kind: "number"; value: number }
+  | {
+      kind: "add" | "subtract" | "multiply" | "divide" | "power";
+      left: FormulaExpression;
+      right: FormulaExpression;
+    };
+
 export type CalculatorDefinition = {
   slug: string;
   title: string;
@@ -52,13 +156,20 @@ export type CalculatorDefinition = {
     benchmarks?: string[];
   };
   inputs: InputField[];
-  compute: (values: Record<string, number>) => {
-    headline: ResultValue;
-    secondary?: ResultValue[];
-    breakdown?: ResultValue[];
-    warnings?: string[];
-  };
+  rules?: InputRule[];
+  sendTo?: CalculatorHandoff[];
+  // Assumes validated input: values within each input's min/max/integer
+  // constraints and passing `rules`. Anything else still gets a finite result
+  // but no warning, since validateValues is what reports it; callers other than
+  // the form, the engine and the solvers must run it first.
+  compute: (
+    values: Record<string, number>,
+    series: Record<string, number[]>,
+  ) => CalculatorResult;
   formula: string;
+  // The headline formula in structured form. For valid inputs that raise no
+  // warnings it evaluates to the headline value (see calculator-formulas.test.ts).
+  formulaExpression?: FormulaExpression;
   assumptions: string[];
   faqs: Array<{ question: string; answer: string }>;
   guide?: Array<{
@@ -66,3 +177,7 @@ export type CalculatorDefinition = {
     bullets: string[];
   }>;
 };
+
+// The parts of a definition that describe its input form; workflows build one
+// from several calculators.
+export type InputForm = Pick<CalculatorDefinition, "inputs" | "rules">;
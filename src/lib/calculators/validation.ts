@@ -0,0 +1,103 @@
+import { formatNumber } from "../format.ts";
+import { DEFAULT_LOCALE } from "../locale.ts";
+import { seriesRowCountMessage } from "./series.ts";
+import type { CalculatorDefinition, InputField, InputForm } from "./types";
+
+function formatBound(input: InputField, bound: number, locale: string): string {
+  const value = formatNumber(bound, 4, locale);
+  if (input.suffix === "%") return `${value}%`;
+  return `${input.prefix ?? ""}${value}${input.suffix ? ` ${input.suffix}` : ""}`;
+}
+
+export function rangeMessage(input: InputField, locale: string = DEFAULT_LOCALE): string | null {
+  const { min, max } = input;
+  const lower = min === undefined ? "" : formatBound(input, min, locale);
+  const upper = max === undefined ? "" : formatBound(input, max, locale);
+  if (min !== undefined && max !== undefined) {
+    if (!input.exclusiveMin && !input.exclusiveMax) {
+      return `Must be between ${lower} and ${upper}.`;
+    }
+    return `Must be ${input.exclusiveMin ? "greater than" : "at least"} ${lower} and ${
+      input.exclusiveMax ? "less than" : "at most"
+    } ${upper}.`;
+  }
+  if (min !== undefined) {
+    return input.exclusiveMin ? `Must be greater than ${lower}.` : `Must be ${lower} or greater.`;
+  }
+  if (max !== undefined) {
+    return input.exclusiveMax ? `Must be less than ${upper}.` : `Must be ${upper} or less.`;
+  }
+  return null;
+}
+
+export function isWithinRange(input: InputField, value: number): boolean {
+  if (input.min !== undefined) {
+    if (input.exclusiveMin ? value <= input.min : value < input.min) return false;
+  }
+  if (input.max !== undefined) {
+    if (input.exclusiveMax ? value >= input.max : value > input.max) return false;
+  }
+  return true;
+}
+
+// Field-level message for a parsed value, or null when it is acceptable.
+export function checkInputValue(
+  input: InputField,
+  value: number,
+  locale: string = DEFAULT_LOCALE,
+): string | null {
+  if (input.integer && !Number.isInteger(value)) return "Must be a whole number.";
+  if (!isWithinRange(input, value)) return rangeMessage(input, locale);
+  return null;
+}
+
+// Per-field messages for values that parsed but break a constraint or rule.
+export function validateValues(
+  calc: InputForm,
+  values: Record<string, number>,
+  series: Record<string, number[]>,
+  locale: string = DEFAULT_LOCALE,
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const input of calc.inputs) {
+    if (input.kind === "series") {
+      const rows = series[input.key];
+      if (!rows) continue;
+      const countMessage = seriesRowCountMessage(input, rows.length);
+      if (countMessage) {
+        errors[input.key] = countMessage;
+        continue;
+      }
+      const badRow = rows.findIndex((row) => checkInputValue(input, row, locale) !== null);
+      if (badRow >= 0) {
+        errors[input.key] = `${input.rowLabel} ${badRow + 1}: ${checkInputValue(
+          input,
+          rows[badRow],
+          locale,
+        )}`;
+      }
+      continue;
+    }
+    const value = values[input.key];
+    if (value === undefined) continue;
+    const message = checkInputValue(input, value, locale);
+    if (message) errors[input.key] = message;
+  }
+  // Rules compare fields, so they only run once every field is valid on its own.
+  if (Object.keys(errors).length > 0) return errors;
+  for (const rule of calc.rules ?? []) {
+    if (rule.keys.some((key) => values[key] === undefined)) continue;
+    if (rule.isValid(values)) continue;
+    for (const key of rule.keys) errors[key] ??= rule.message;
+  }
+  return errors;
+}
+
+// True when compute may run at these values (used by solvers that probe inputs).
+export function isValidPoint(
+  calc: CalculatorDefinition,
+  values: Record<string, number>,
+  series: Record<string, number[]>,
+): boolean {
+  return Object.keys(validateValues(calc, values, series)).length === 0;
+}
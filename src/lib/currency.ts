@@ -0,0 +1,30 @@
+export const SUPPORTED_CURRENCIES = [
+  "USD",
+  "EUR",
+  "GBP",
+  "CAD",
+  "AUD",
+  "CHF",
+  "JPY",
+  "INR",
+] as const;
+
+export type CurrencyCode = (typeof SUPPORTED_CURRENCIES)[number];
+
+// Calculator definitions are written in dollars; this is their native currency.
+export const DEFAULT_CURRENCY: CurrencyCode = "USD";
+
+export function isSupportedCurrency(
+  value: string | null | undefined,
+): value is CurrencyCode {
+  return SUPPORTED_CURRENCIES.includes(value as CurrencyCode);
+}
+
+// "USD" -> "$", "CAD" -> "CA$", as Intl renders it in en-US.
+export function currencySymbol(currency: string): string {
+  const parts = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+  }).formatToParts(0);
+  return parts.find((p) => p.type === "currency")?.value ?? currency;
+}
@@ -0,0 +1,57 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_EMBED_THEME,
+  buildEmbedSnippet,
+  buildEmbedUrl,
+  embedPath,
+  readEmbedTheme,
+} from "./embed.ts";
+import { absoluteUrl } from "./site.ts";
+
+test("embed URLs carry inputs and currency, and the theme unless it is the default", () => {
+  const base = absoluteUrl(embedPath("paid-ads", "roas-calculator"));
+  assert.equal(buildEmbedUrl("paid-ads", "roas-calculator"), base);
+  assert.equal(
+    buildEmbedUrl("paid-ads", "roas-calculator", {
+      theme: DEFAULT_EMBED_THEME,
+    }),
+    base,
+  );
+
+  const url = new URL(
+    buildEmbedUrl("paid-ads", "roas-calculator", {
+      theme: "dark",
+      inputs: { revenue: "5000", adSpend: "1000" },
+      currency: "EUR",
+    }),
+  );
+  assert.equal(url.pathname, "/embed/paid-ads/roas-calculator");
+  assert.deepEqual(Object.fromEntries(url.searchParams), {
+    revenue: "5000",
+    adSpend: "1000",
+    currency: "EUR",
+    theme: "dark",
+  });
+});
+
+test("embed themes fall back to the default for anything unrecognised", () => {
+  assert.equal(readEmbedTheme("light"), "light");
+  assert.equal(readEmbedTheme("dark"), "dark");
+  for (const value of [undefined, "", "blue", ["dark"]]) {
+    assert.equal(readEmbedTheme(value), DEFAULT_EMBED_THEME);
+  }
+});
+
+test("embed snippets are an iframe with escaped attributes", () => {
+  const snippet = buildEmbedSnippet(
+    "https://example.com/embed/x?a=1&b=2",
+    'CAC "payback" <calculator>',
+    600,
+  );
+  assert.match(snippet, /^<iframe .*><\/iframe>$/);
+  assert.match(snippet, /src="https:\/\/example\.com\/embed\/x\?a=1&amp;b=2"/);
+  assert.match(snippet, /title="CAC &quot;payback&quot; &lt;calculator>"/);
+  assert.match(snippet, /height="600"/);
+  assert.match(buildEmbedSnippet("https://example.com", "X"), /height="720"/);
+});
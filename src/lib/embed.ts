@@ -0,0 +1,63 @@
+import { absoluteUrl } from "./site.ts";
+
+export const EMBED_THEMES = ["auto", "light", "dark"] as const;
+
+export type EmbedTheme = (typeof EMBED_THEMES)[number];
+
+// "auto" follows the visitor's system setting, like the rest of the site.
+export const DEFAULT_EMBED_THEME: EmbedTheme = "auto";
+
+export function isEmbedTheme(
+  value: string | null | undefined,
+): value is EmbedTheme {
+  return EMBED_THEMES.includes(value as EmbedTheme);
+}
+
+// The ?theme= param of an embed page; anything unrecognised falls back.
+export function readEmbedTheme(
+  value: string | string[] | undefined,
+): EmbedTheme {
+  return typeof value === "string" && isEmbedTheme(value)
+    ? value
+    : DEFAULT_EMBED_THEME;
+}
+
+export function embedPath(category: string, slug: string): string {
+  return `/embed/${category}/${slug}`;
+}
+
+// Inputs use the same flat, locale-independent params as share links.
+export function buildEmbedUrl(
+  category: string,
+  slug: string,
+  options: {
+    theme?: EmbedTheme;
+    inputs?: Record<string, string>;
+    currency?: string;
+  } = {},
+): string {
+  const url = new URL(absoluteUrl(embedPath(category, slug)));
+  for (const [key, value] of Object.entries(options.inputs ?? {})) {
+    url.searchParams.set(key, value);
+  }
+  if (options.currency) url.searchParams.set("currency", options.currency);
+  if (options.theme && options.theme !== DEFAULT_EMBED_THEME) {
+    url.searchParams.set("theme", options.theme);
+  }
+  return url.toString();
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("<", "&lt;");
+}
+
+export function buildEmbedSnippet(
+  src: string,
+  title: string,
+  height = 720,
+): string {
+  return `<iframe src="${escapeAttribute(src)}" title="${escapeAttribute(title)}" width="100%" height="${height}" style="border:0;max-width:100%" loading="lazy" allow="clipboard-write"></iframe>`;
+}
@@ -0,0 +1,66 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { calculators } from "./calculators/definitions.ts";
+import { fromLocaleInput, toLocaleInput, toNumber } from "./format.ts";
+
+test("toNumber reads each locale's separators", () => {
+  const cases: Array<[string, string, number]> = [
+    ["en-US", "1,234.5", 1234.5],
+    ["en-US", "-1,000", -1000],
+    ["en-US", " 42 ", 42],
+    ["en-US", ".5", 0.5],
+    ["de-DE", "1.234,5", 1234.5],
+    ["de-DE", "2,5", 2.5],
+    ["de-DE", "2.500", 2500],
+    ["fr-FR", "1 234,5", 1234.5],
+    ["fr-FR", "1\u202f234 567", 1234567],
+    ["fr-FR", "\u22121,5", -1.5],
+  ];
+  for (const [locale, text, expected] of cases) {
+    assert.equal(toNumber(text, locale), expected, `${locale} "${text}"`);
+  }
+});
+
+test("toNumber rejects misplaced group separators instead of guessing", () => {
+  const cases: Array<[string, string]> = [
+    // A decimal typed with another locale's separator is not 10x the value.
+    ["de-DE", "2.5"],
+    ["de-DE", "1,234.5"],
+    ["de-DE", "1.2.3"],
+    ["en-US", "1,5"],
+    ["en-US", "12,34"],
+    ["en-US", "1.5,000"],
+    // Spaces only group in locales that group with spaces.
+    ["en-US", "1 2"],
+    ["de-DE", "1 000"],
+    ["fr-FR", "12 34"],
+    ["en-US", ""],
+    ["fr-FR", "  "],
+  ];
+  for (const [locale, text] of cases) {
+    assert.equal(toNumber(text, locale), null, `${locale} "${text}"`);
+  }
+});
+
+test("defaults and placeholders round-trip through every locale", () => {
+  const canonical = calculators.flatMap((calc) =>
+    calc.inputs.flatMap((input) => [
+      ...(input.kind === "series" ? input.defaultValue : [input.defaultValue]),
+      ...(input.placeholder === undefined ? [] : [input.placeholder]),
+    ]),
+  );
+  for (const text of canonical) {
+    const value = toNumber(text);
+    assert.notEqual(value, null, `"${text}" is not a number`);
+    for (const locale of ["en-US", "de-DE", "fr-FR"]) {
+      const shown = toLocaleInput(text, locale);
+      assert.equal(toNumber(shown, locale), value, `${locale} "${shown}"`);
+      assert.equal(toNumber(fromLocaleInput(shown, locale)), value);
+    }
+  }
+  assert.equal(toLocaleInput("1234.5", "de-DE"), "1234,5");
+  assert.equal(fromLocaleInput("1.234,5", "de-DE"), "1234.5");
+  assert.equal(toLocaleInput("0.05", "fr-FR"), "0,05");
+  // Unparsable text is left for validation to flag.
+  assert.equal(fromLocaleInput(" 2.5x ", "de-DE"), "2.5x");
+});
@@ -1,30 +1,115 @@
-export function toNumber(value: string): number | null {
-  const normalized = value.replaceAll(",", "").trim();
+import { DEFAULT_LOCALE } from "./locale.ts";
+
+const separatorCache = new Map<string, { group: string; decimal: string }>();
+
+export function numberSeparators(locale: string = DEFAULT_LOCALE): {
+  group: string;
+  decimal: string;
+} {
+  const cached = separatorCache.get(locale);
+  if (cached) return cached;
+  const parts = new Intl.NumberFormat(locale).formatToParts(1234567.8);
+  const separators = {
+    group: parts.find((p) => p.type === "group")?.value ?? ",",
+    decimal: parts.find((p) => p.type === "decimal")?.value ?? ".",
+  };
+  separatorCache.set(locale, separators);
+  return separators;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Group separators are accepted only between groups of three digits, so "2.5"
+// typed in de-DE (where "." groups) is rejected rather than read as 25.
+// Locales that group with a space (fr-FR, sv-SE) accept any space there, since
+// few people can type the no-break space Intl uses.
+export function toNumber(value: string, locale: string = DEFAULT_LOCALE): number | null {
+  const { group, decimal } = numberSeparators(locale);
+  const groupsWithSpace = /\s/.test(group);
+  // Some locales format negatives with U+2212.
+  let text = value.trim().replaceAll("\u2212", "-");
+  if (groupsWithSpace) text = text.replace(/\s+/g, " ");
+  const separator = groupsWithSpace ? " " : group;
+
+  const [integer, fraction, ...rest] = text.split(decimal);
+  if (rest.length > 0 || fraction?.includes(separator)) return null;
+  let digits = integer;
+  if (integer.includes(separator)) {
+    const grouped = new RegExp(`^[+-]?\\d{1,3}(?:${escapeRegExp(separator)}\\d{3})+$`);
+    if (!grouped.test(integer)) return null;
+    digits = integer.replaceAll(separator, "");
+  }
+  const normalized = fraction === undefined ? digits : `${digits}.${fraction}`;
   if (!normalized) return null;
   const asNumber = Number(normalized);
   return Number.isFinite(asNumber) ? asNumber : null;
 }
 
+// Definitions, share links and saved scenarios store numbers in plain
+// JavaScript notation ("1234.5"); input fields show them in the user's locale.
+export function toLocaleInput(canonical: string, locale: string = DEFAULT_LOCALE): string {
+  if (locale === DEFAULT_LOCALE) return canonical;
+  const parsed = toNumber(canonical);
+  if (parsed === null) return canonical;
+  return new Intl.NumberFormat(locale, {
+    useGrouping: false,
+    maximumFractionDigits: 20,
+  }).format(parsed);
+}
+
+export function fromLocaleInput(raw: string, locale: string = DEFAULT_LOCALE): string {
+  if (locale === DEFAULT_LOCALE) return raw.trim();
+  const parsed = toNumber(raw, locale);
+  return parsed === null ? raw.trim() : String(parsed);
+}
+
 export function clampNonNegative(value: number): number {
   return value < 0 ? 0 : value;
 }
 
-export function formatCurrency(value: number, currency: string = "USD"): string {
-  return new Intl.NumberFormat("en-US", {
+export function formatCurrency(
+  value: number,
+  currency: string = "USD",
+  locale: string = DEFAULT_LOCALE,
+): string {
+  return new Intl.NumberFormat(locale, {
     style: "currency",
     currency,
     maximumFractionDigits: 2,
   }).format(value);
 }
 
-export function formatNumber(value: number, maxFractionDigits = 2): string {
-  return new Intl.NumberFormat("en-US", {
+export function formatCompactCurrency(
+  value: number,
+  currency: string = "USD",
+  locale: string = DEFAULT_LOCALE,
+): string {
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(value);
+}
+
+export function formatNumber(
+  value: number,
+  maxFractionDigits = 2,
+  locale: string = DEFAULT_LOCALE,
+): string {
+  return new Intl.NumberFormat(locale, {
     maximumFractionDigits: maxFractionDigits,
   }).format(value);
 }
 
-export function formatPercent(value: number, maxFractionDigits = 2): string {
-  return new Intl.NumberFormat("en-US", {
+export function formatPercent(
+  value: number,
+  maxFractionDigits = 2,
+  locale: string = DEFAULT_LOCALE,
+): string {
+  return new Intl.NumberFormat(locale, {
     style: "percent",
     maximumFractionDigits: maxFractionDigits,
   }).format(value);
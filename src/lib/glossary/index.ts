@@ -1,11 +1,11 @@
 import type { GlossaryTerm } from "./types";
-import { termsCore } from "./terms/core";
-import { termsSaas } from "./terms/saas";
-import { termsPaidAds } from "./terms/paidAds";
-import { termsFinance } from "./terms/finance";
-import { termsPaidAdsExtra } from "./terms/paidAdsExtra";
-import { termsSaasExtra } from "./terms/saasExtra";
-import { termsFinanceExtra } from "./terms/financeExtra";
+import { termsCore } from "./terms/core.ts";
+import { termsSaas } from "./terms/saas.ts";
+import { termsPaidAds } from "./terms/paidAds.ts";
+import { termsFinance } from "./terms/finance.ts";
+import { termsPaidAdsExtra } from "./terms/paidAdsExtra.ts";
+import { termsSaasExtra } from "./terms/saasExtra.ts";
+import { termsFinanceExtra } from "./terms/financeExtra.ts";
 
 const allTerms: GlossaryTerm[] = [
   ...termsCore,
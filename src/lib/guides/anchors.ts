@@ -0,0 +1,10 @@
+// Heading ids on guide pages: the table of contents links to them, and search
+// results deep-link to them.
+export function slugify(input: string): string {
+  return input
+    .toLowerCase()
+    .trim()
+    .replaceAll(/[^a-z0-9\s-]/g, "")
+    .replaceAll(/\s+/g, "-")
+    .replaceAll(/-+/g, "-");
+}
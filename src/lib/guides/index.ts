@@ -4558,7 +4558,11 @@ export const guides: Guide[] = [
       {
         label: "NPV example ($100k upfront; $30k/year for 5 years; 12% discount)",
         calculatorSlug: "npv-calculator",
-        params: { initialInvestment: "100000", annualCashFlow: "30000", years: "5", discountRatePercent: "12" },
+        params: {
+          initialInvestment: "100000",
+          cashFlows: "30000;30000;30000;30000;30000",
+          discountRatePercent: "12",
+        },
       },
     ],
   },
@@ -4643,11 +4647,7 @@ export const guides: Guide[] = [
         calculatorSlug: "irr-calculator",
         params: {
           initialInvestment: "100000",
-          cashFlow1: "25000",
-          cashFlow2: "30000",
-          cashFlow3: "35000",
-          cashFlow4: "40000",
-          cashFlow5: "45000",
+          cashFlows: "25000;30000;35000;40000;45000",
           terminalValue: "0",
           discountRatePercent: "12",
         },
@@ -4734,7 +4734,11 @@ export const guides: Guide[] = [
       {
         label: "Discounted payback example ($100k upfront; $30k/year; 10 years; 12% discount)",
         calculatorSlug: "discounted-payback-period-calculator",
-        params: { initialInvestment: "100000", annualCashFlow: "30000", years: "10", discountRatePercent: "12" },
+        params: {
+          initialInvestment: "100000",
+          cashFlows: "30000;30000;30000;30000;30000;30000;30000;30000;30000;30000",
+          discountRatePercent: "12",
+        },
       },
     ],
   },
@@ -7560,8 +7564,7 @@ export const guides: Guide[] = [
         calculatorSlug: "npv-calculator",
         params: {
           initialInvestment: "100000",
-          annualCashFlow: "30000",
-          years: "5",
+          cashFlows: "30000;30000;30000;30000;30000",
           discountRatePercent: "12",
         },
       },
@@ -0,0 +1,22 @@
+export const SUPPORTED_LOCALES = [
+  "en-US",
+  "en-GB",
+  "de-DE",
+  "fr-FR",
+  "es-ES",
+  "it-IT",
+  "nl-NL",
+  "pt-BR",
+  "sv-SE",
+] as const;
+
+export type LocaleCode = (typeof SUPPORTED_LOCALES)[number];
+
+// Calculator defaults, placeholders and share-link values are written in this locale.
+export const DEFAULT_LOCALE: LocaleCode = "en-US";
+
+export function isSupportedLocale(
+  value: string | null | undefined,
+): value is LocaleCode {
+  return SUPPORTED_LOCALES.includes(value as LocaleCode);
+}
@@ -0,0 +1,363 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { gzipSync } from "node:zlib";
+import { calculators } from "./calculators/definitions.ts";
+import { buildDefaultRawInputs, readUrlInputs } from "./calculators/inputs.ts";
+import { glossaryTerms } from "./glossary/index.ts";
+import { slugify } from "./guides/anchors.ts";
+import { parseCalculatorAction } from "./search/actions.ts";
+import { buildSearchIndex, buildSearchPassages } from "./search/build.ts";
+import { correctQuery, editDistance } from "./search/fuzzy.ts";
+import { searchDocuments } from "./search/query.ts";
+import { searchSnippet } from "./search/snippet.ts";
+import { buildSynonymGroups, phraseKey } from "./search/synonyms.ts";
+import { analyze, stem } from "./search/text.ts";
+import type { SearchIndex } from "./search/types";
+
+const index = buildSearchIndex();
+const passages = buildSearchPassages();
+
+function snippetFor(query: string, slug: string) {
+  const hit = searchDocuments(index, query).find(
+    (h) => h.document.slug === slug,
+  );
+  assert.ok(hit, `${slug} matches "${query}"`);
+  const snippet = searchSnippet(hit, passages[hit.document.href]);
+  return {
+    href: snippet.href,
+    text: snippet.segments.map((s) => s.text).join(""),
+    marked: snippet.segments.filter((s) => s.match).map((s) => s.text),
+  };
+}
+
+function slugsFor(query: string, limit?: number) {
+  return searchDocuments(index, query, { limit }).map(
+    (hit) => `${hit.document.kind}:${hit.document.slug}`,
+  );
+}
+
+test("stemming folds inflections onto one term", () => {
+  for (const group of [
+    ["calculate", "calculated", "calculating", "calculations"],
+    ["multiply", "multiplied", "multiplies"],
+    ["churn", "churned", "churns"],
+    ["month", "months", "monthly"],
+  ]) {
+    assert.equal(new Set(group.map(stem)).size, 1, group.join(", "));
+  }
+  assert.deepEqual(
+    analyze("How to calculate the ROAS?"),
+    analyze("calculating ROAS"),
+  );
+});
+
+test("the index covers every calculator, guide and glossary term", () => {
+  const kinds = new Set(index.documents.map((d) => d.kind));
+  assert.deepEqual([...kinds].sort(), ["calculator", "glossary", "guide"]);
+  const keys = index.documents.map((d) => `${d.kind}:${d.slug}`);
+  assert.equal(new Set(keys).size, keys.length, "duplicate documents");
+});
+
+test("body text is searchable, not just titles and descriptions", () => {
+  // "downsell" only appears in the churn rate calculator's explanation.
+  assert.ok(slugsFor("downsell").includes("calculator:churn-rate-calculator"));
+  assert.deepEqual(slugsFor("downsells"), slugsFor("downsell"));
+});
+
+test("title matches outrank body-only matches", () => {
+  const hits = searchDocuments(index, "roas");
+  const top = hits.findIndex((h) => h.document.slug === "roas-calculator");
+  assert.ok(top >= 0);
+  for (const hit of hits.slice(0, top)) {
+    assert.match(hit.document.title, /roas/i, hit.document.title);
+  }
+  const firstBodyOnly = hits.findIndex((h) => !/roas/i.test(h.document.title));
+  assert.ok(firstBodyOnly > top);
+});
+
+test("documents matching every query term come first", () => {
+  const [first] = searchDocuments(index, "cac payback");
+  assert.match(first.document.title, /cac payback/i);
+});
+
+test("a partly typed last word matches as a prefix", () => {
+  assert.ok(
+    slugsFor("discounted payb", 5).includes(
+      "calculator:discounted-payback-period-calculator",
+    ),
+  );
+  assert.deepEqual(slugsFor("payb "), []);
+});
+
+test("kind filters and limits apply", () => {
+  const hits = searchDocuments(index, "churn", {
+    kinds: ["glossary"],
+    limit: 3,
+  });
+  assert.equal(hits.length, 3);
+  assert.ok(hits.every((h) => h.document.kind === "glossary"));
+  assert.deepEqual(searchDocuments(index, "the and of"), []);
+});
+
+test("every page ranks near the top for its own title", () => {
+  // Not always first: aliases put duplicate concepts ("Conversion Rate" and
+  // "CVR (Conversion Rate)") side by side.
+  for (const document of index.documents) {
+    const rank = searchDocuments(index, document.title, { limit: 5 }).findIndex(
+      (hit) => hit.document === document,
+    );
+    assert.ok(rank >= 0, `${document.kind}:${document.slug}`);
+  }
+});
+
+test("synonym groups pair acronyms with their expansions only", () => {
+  const groups = buildSynonymGroups(glossaryTerms);
+  const groupOf = (phrase: string) =>
+    groups.find((g) => g.some((p) => phraseKey(p) === phraseKey(phrase)));
+
+  assert.ok(groupOf("ROAS")?.includes("Return on Ad Spend"));
+  assert.ok(groupOf("CapEx")?.includes("Capital Expenditures"));
+  assert.ok(groupOf("clv")?.includes("LTV"));
+  assert.equal(groupOf("LTV:CAC Ratio")?.includes("LTV"), false);
+  // A qualifier in brackets is not an alias.
+  assert.equal(groupOf("finance"), undefined);
+  // "Impression Share Lost (Budget)" and "(Rank)" stay separate terms.
+  assert.equal(groupOf("impression share lost"), undefined);
+});
+
+test("any alias finds the canonical term, calculator and guide", () => {
+  for (const query of [
+    "LTV",
+    "CLV",
+    "lifetime value",
+    "customer lifetime value",
+  ]) {
+    const top = slugsFor(query, 5);
+    for (const expected of [
+      "glossary:ltv",
+      "calculator:ltv-calculator",
+      "guide:ltv-guide",
+    ]) {
+      assert.ok(top.includes(expected), `${query}: ${expected} in ${top}`);
+    }
+  }
+  assert.deepEqual(slugsFor("payback", 2), [
+    "glossary:cac-payback-period",
+    "calculator:cac-payback-period-calculator",
+  ]);
+
+  for (const group of index.synonyms) {
+    const keys = new Set(group.map(phraseKey));
+    const terms = index.documents.filter(
+      (d) => d.kind === "glossary" && keys.has(phraseKey(d.slug)),
+    );
+    for (const phrase of group) {
+      const top = slugsFor(phrase, 10);
+      for (const term of terms) {
+        assert.ok(
+          top.includes(`glossary:${term.slug}`),
+          `${phrase} -> ${term.slug}`,
+        );
+      }
+    }
+  }
+});
+
+test("edit distance counts swapped neighbours as one edit", () => {
+  assert.equal(editDistance("roas", "raos"), 1);
+  assert.equal(editDistance("retension", "retention"), 1);
+  assert.equal(editDistance("kitten", "sitting"), 3);
+  assert.equal(editDistance("kitten", "sitting", 1), 2);
+  assert.equal(editDistance("", "cac"), 3);
+});
+
+test("misspelled queries are corrected from title words", () => {
+  assert.equal(correctQuery(index, "retension"), "retention");
+  assert.equal(correctQuery(index, "amortisation"), "amortization");
+  assert.equal(correctQuery(index, "liquidaton"), "liquidation");
+  assert.equal(correctQuery(index, "payback peroid"), "payback period");
+  // Known words, short acronyms and half-typed words are left alone.
+  assert.equal(correctQuery(index, "roas"), null);
+  assert.equal(correctQuery(index, "cca"), null);
+  assert.equal(correctQuery(index, "calc"), null);
+  assert.equal(correctQuery(index, "xyzzy"), null);
+});
+
+test("terms named like Object.prototype members are ordinary terms", () => {
+  assert.equal(Object.getPrototypeOf(index.postings), null);
+  // Browsers get the index through JSON.parse, which restores the prototype.
+  const parsed: SearchIndex = JSON.parse(JSON.stringify(index));
+  assert.equal(Object.hasOwn(parsed.postings, "constructor"), false);
+  assert.deepEqual(
+    searchDocuments(parsed, "constructor").filter((hit) => !hit.corrected),
+    [],
+  );
+  const [document] = index.documents;
+  const tiny: SearchIndex = JSON.parse(
+    JSON.stringify({
+      documents: [document],
+      postings: { constructor: [0, 2] },
+      synonyms: [],
+    }),
+  );
+  assert.deepEqual(
+    searchDocuments(tiny, "constructor").map((hit) => hit.document.slug),
+    [document.slug],
+  );
+});
+
+test("typos still find pages, marked as corrected", () => {
+  for (const [query, title] of [
+    ["retension", /retention/i],
+    ["amortisation", /amortization/i],
+    ["liquidaton", /liquidation/i],
+  ] as const) {
+    const hits = searchDocuments(index, query);
+    assert.ok(hits.length > 0, query);
+    assert.ok(
+      hits.every((hit) => hit.corrected),
+      query,
+    );
+    assert.match(hits[0].document.title, title);
+  }
+  // Exact matches on the other words keep the pages unmarked.
+  const mixed = searchDocuments(index, "churn retension", { limit: 5 });
+  assert.ok(mixed.every((hit) => !hit.corrected));
+  assert.ok(searchDocuments(index, "roas").every((hit) => !hit.corrected));
+});
+
+test("calculator actions open a calculator with inputs typed inline", () => {
+  const roas = parseCalculatorAction(index, "roas 5000 1000");
+  assert.equal(roas?.document.slug, "roas-calculator");
+  assert.equal(
+    roas?.href,
+    "/paid-ads/roas-calculator?revenue=5000&adSpend=1000",
+  );
+
+  // Numbers fill inputs in form order; "k" means thousands.
+  const cac = parseCalculatorAction(index, "cac $50k 100");
+  assert.deepEqual(
+    cac?.values.map(({ key, value }) => [key, value]),
+    [
+      ["spend", 50000],
+      ["newCustomers", 100],
+    ],
+  );
+  // Numbers beyond the calculator's inputs are dropped.
+  const many = parseCalculatorAction(index, `roas ${"1 ".repeat(20)}`);
+  assert.equal(many?.values.length, roas?.document.inputs?.length);
+  assert.equal(
+    parseCalculatorAction(index, "break-even roas 60% 2.5")?.href,
+    "/paid-ads/break-even-roas-calculator?grossMarginPercent=60&paymentFeesPercent=2.5",
+  );
+
+  // Amounts are read in the visitor's locale.
+  assert.equal(
+    parseCalculatorAction(index, "roas 5.000 2,5", "de-DE")?.href,
+    "/paid-ads/roas-calculator?revenue=5000&adSpend=2.5",
+  );
+  assert.equal(
+    parseCalculatorAction(index, "roas 5,000 2.5")?.href,
+    "/paid-ads/roas-calculator?revenue=5000&adSpend=2.5",
+  );
+  // "2,5" is not a number in en-US, so it is read as a word.
+  assert.equal(parseCalculatorAction(index, "roas 2,5"), null);
+
+  assert.equal(parseCalculatorAction(index, "roas"), null);
+  assert.equal(parseCalculatorAction(index, "5000 1000"), null);
+});
+
+test("actions on the open calculator replace its inputs", () => {
+  const roas = calculators.find((c) => c.slug === "roas-calculator");
+  assert.ok(roas);
+  const inputsAt = (href: string | undefined, locale?: string) =>
+    readUrlInputs(
+      roas,
+      new URL(href ?? "", "https://x.test").searchParams,
+      locale,
+    );
+
+  // Same page, new query: each action brings its own numbers.
+  const first = inputsAt(parseCalculatorAction(index, "roas 5000 1000")?.href);
+  const second = inputsAt(parseCalculatorAction(index, "roas 800 200")?.href);
+  assert.equal(first.raw.values.revenue, "5000");
+  assert.equal(first.raw.values.adSpend, "1000");
+  assert.equal(second.raw.values.revenue, "800");
+  assert.equal(second.raw.values.adSpend, "200");
+  assert.equal(second.example, null);
+  // Inputs the action leaves out go back to their defaults.
+  const defaults = buildDefaultRawInputs(roas, "de-DE");
+  const german = inputsAt(
+    parseCalculatorAction(index, "roas 5.000 2,5", "de-DE")?.href,
+    "de-DE",
+  );
+  assert.deepEqual(german.raw.values, {
+    ...defaults.values,
+    revenue: "5000",
+    adSpend: "2,5",
+  });
+  assert.deepEqual(
+    inputsAt("/paid-ads/roas-calculator").raw,
+    buildDefaultRawInputs(roas),
+  );
+
+  // A guide example link names the example it opened.
+  const example = inputsAt(
+    "/paid-ads/roas-calculator?revenue=5000&adSpend=1000&example=Launch",
+  ).example;
+  assert.equal(example?.name, "Launch");
+  assert.equal(example?.inputs.revenue, "5000");
+  assert.equal(example?.inputs.example, undefined);
+});
+
+test("snippets quote the passage that matched, with matches marked", () => {
+  const churn = snippetFor("downsell", "churn-rate-calculator");
+  assert.match(churn.text, /downsells/);
+  assert.deepEqual(churn.marked, ["downsells"]);
+  assert.equal(churn.href, "/saas-metrics/churn-rate-calculator");
+
+  // The description is kept when it matches as well as anything else.
+  const roas = snippetFor("roas", "roas-calculator");
+  assert.equal(
+    roas.text,
+    index.documents.find((d) => d.slug === "roas-calculator")?.description,
+  );
+  assert.ok(roas.marked.length > 0);
+
+  // Long passages are cut to a window around the first match.
+  for (const hit of searchDocuments(index, "retention", { limit: 50 })) {
+    const text = searchSnippet(hit, passages[hit.document.href])
+      .segments.map((s) => s.text)
+      .join("");
+    assert.ok(text.length <= 210, text);
+  }
+});
+
+test("snippets inside a guide section link to that section", () => {
+  const guide = snippetFor(
+    "cohort quality short-term roas",
+    "burn-multiple-guide",
+  );
+  assert.match(guide.text, /cohort quality/);
+  assert.equal(
+    guide.href,
+    `/guides/burn-multiple-guide#${slugify("Operational checkpoints")}`,
+  );
+});
+
+// Every search box downloads the index, so it stays small; passage text is
+// served separately. Raise these deliberately when the content grows.
+test("the index and passages stay within their size budgets", () => {
+  const kb = (data: unknown) => Buffer.byteLength(JSON.stringify(data)) / 1024;
+  const gzipKb = (data: unknown) =>
+    gzipSync(JSON.stringify(data)).length / 1024;
+  assert.ok(kb(index) < 640, `index: ${kb(index).toFixed(0)} KB`);
+  assert.ok(gzipKb(index) < 170, `index: ${gzipKb(index).toFixed(0)} KB gzip`);
+  assert.ok(kb(passages) < 1000, `passages: ${kb(passages).toFixed(0)} KB`);
+
+  // Every document has its passages, keyed by href.
+  assert.deepEqual(
+    Object.keys(passages).sort(),
+    index.documents.map((d) => d.href).sort(),
+  );
+});
@@ -0,0 +1,59 @@
+import { toParamValue } from "../calculators/handoff.ts";
+import { toNumber } from "../format.ts";
+import { DEFAULT_LOCALE } from "../locale.ts";
+import { searchDocuments } from "./query.ts";
+import type { SearchDocument, SearchIndex } from "./types";
+
+export type CalculatorAction = {
+  document: SearchDocument;
+  values: Array<{ key: string; label: string; value: number }>;
+  href: string;
+};
+
+// "5000", "5,000", "$5k", "2.5%", with separators as `locale` writes them
+// ("2,5" in de-DE). No "m" suffix: "12m" is as likely to mean months as
+// millions.
+function parseAmount(token: string, locale: string): number | null {
+  const match = /^[$]?([-\u2212]?[\d.,]*\d)(k)?%?$/i.exec(token);
+  if (!match) return null;
+  const value = toNumber(match[1], locale);
+  if (value === null) return null;
+  return match[2] ? value * 1000 : value;
+}
+
+// "roas 5000 1000": the words pick a calculator, the numbers fill its number
+// inputs in form order (here revenue, then ad spend). Null unless the query
+// has both, and numbers beyond the calculator's inputs are dropped.
+export function parseCalculatorAction(
+  index: SearchIndex,
+  query: string,
+  locale: string = DEFAULT_LOCALE,
+): CalculatorAction | null {
+  const words: string[] = [];
+  const amounts: number[] = [];
+  for (const token of query.trim().split(/\s+/)) {
+    const amount = parseAmount(token, locale);
+    if (amount === null) words.push(token);
+    else amounts.push(amount);
+  }
+  if (!words.length || !amounts.length) return null;
+
+  const [hit] = searchDocuments(index, words.join(" "), {
+    kinds: ["calculator"],
+    limit: 1,
+  });
+  const inputs = hit?.document.inputs;
+  if (!inputs?.length) return null;
+
+  const values = inputs
+    .slice(0, amounts.length)
+    .map((input, i) => ({ ...input, value: amounts[i] }));
+  const params = new URLSearchParams(
+    values.map(({ key, value }) => [key, toParamValue(value)]),
+  );
+  return {
+    document: hit.document,
+    values,
+    href: `${hit.document.href}?${params.toString()}`,
+  };
+}
@@ -0,0 +1,226 @@
+import { calculators, categories } from "../calculators/definitions.ts";
+import { glossaryTerms } from "../glossary/index.ts";
+import type {
+  GlossaryPageModuleValue,
+  GlossarySection,
+} from "../glossary/types";
+import { slugify } from "../guides/anchors.ts";
+import { guides } from "../guides/index.ts";
+import type { GuideSection } from "../guides/types";
+import { buildSynonymGroups } from "./synonyms.ts";
+import { analyze } from "./text.ts";
+import type {
+  SearchDocument,
+  SearchIndex,
+  SearchPassage,
+  SearchPassages,
+} from "./types";
+
+// How much a term counts, by where it appears. Repeats within a field add
+// logarithmically, so a title hit beats a page that only mentions the word in
+// passing, however often it does.
+const FIELD_WEIGHTS = {
+  title: 10,
+  slug: 5,
+  description: 4,
+  heading: 3,
+  formula: 2,
+  body: 1,
+  // Category names and input labels: searchable, but too terse to quote.
+  label: 1,
+} as const;
+
+type Field = keyof typeof FIELD_WEIGHTS;
+
+// Fields whose text is shown as a result snippet.
+const PASSAGE_FIELDS = new Set<Field>(["heading", "formula", "body"]);
+
+// The optional third element is the anchor of the guide section the text is in.
+type FieldText = [Field, string, string?];
+type Entry = {
+  document: SearchDocument;
+  fields: FieldText[];
+};
+
+const categoryTitles = new Map<string, string>(
+  categories.map((c) => [c.slug, c.title]),
+);
+
+function categoryTitle(slug: string): string {
+  return categoryTitles.get(slug) ?? slug.replace("-", " ");
+}
+
+// With `anchored`, text is tagged with the id of the h2/h3 above it, as the
+// guide page renders them.
+function sectionFields(
+  sections: Array<GuideSection | GlossarySection>,
+  anchored = false,
+): FieldText[] {
+  let anchor: string | undefined;
+  return sections.flatMap((s): FieldText[] => {
+    if (s.type === "h2" || s.type === "h3") {
+      if (anchored) anchor = slugify(s.text);
+      return [["heading", s.text, anchor]];
+    }
+    if (s.type === "p") return [["body", s.text, anchor]];
+    if (s.type === "bullets") {
+      return s.items.map((item) => ["body", item, anchor]);
+    }
+    return [s.columns, ...s.rows].map((row) => ["body", row.join(" "), anchor]);
+  });
+}
+
+function faqFields(
+  faqs: Array<{ question: string; answer: string }> | undefined,
+): FieldText[] {
+  return (faqs ?? []).flatMap((f): FieldText[] => [
+    ["heading", f.question],
+    ["body", f.answer],
+  ]);
+}
+
+function moduleText(value: GlossaryPageModuleValue | undefined): string[] {
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function calculatorEntries(): Entry[] {
+  return calculators.map((c) => ({
+    document: {
+      kind: "calculator",
+      slug: c.slug,
+      title: c.title,
+      description: c.description,
+      href: `/${c.category}/${c.slug}`,
+      category: categoryTitle(c.category),
+      updatedAt: c.updatedAt,
+      inputs: c.inputs
+        .filter((i) => i.kind !== "series")
+        .map((i) => ({ key: i.key, label: i.label })),
+    },
+    fields: [
+      ["title", c.title],
+      ["slug", c.slug],
+      ["description", c.description],
+      ["formula", c.formula],
+      ["label", categoryTitle(c.category)],
+      ...c.inputs.map((i): FieldText => ["label", i.label]),
+      ...[
+        ...(c.seo?.intro ?? []),
+        ...(c.seo?.steps ?? []),
+        ...(c.seo?.pitfalls ?? []),
+        ...(c.seo?.benchmarks ?? []),
+        ...c.assumptions,
+      ].map((text): FieldText => ["body", text]),
+      ...faqFields(c.faqs),
+      ...(c.guide ?? []).flatMap((g): FieldText[] => [
+        ["heading", g.title],
+        ...g.bullets.map((b): FieldText => ["body", b]),
+      ]),
+    ],
+  }));
+}
+
+function guideEntries(): Entry[] {
+  return guides.map((g) => ({
+    document: {
+      kind: "guide",
+      slug: g.slug,
+      title: g.title,
+      description: g.description,
+      href: `/guides/${g.slug}`,
+      category: categoryTitle(g.category),
+      updatedAt: g.updatedAt,
+    },
+    fields: [
+      ["title", g.title],
+      ["slug", g.slug],
+      ["description", g.description],
+      ["label", categoryTitle(g.category)],
+      ...sectionFields(g.sections, true),
+      ...faqFields(g.faqs),
+      ...[g.summary?.decision, g.summary?.useWhen]
+        .filter((text): text is string => Boolean(text))
+        .map((text): FieldText => ["body", text]),
+    ],
+  }));
+}
+
+function glossaryEntries(): Entry[] {
+  return glossaryTerms.map((t) => ({
+    document: {
+      kind: "glossary",
+      slug: t.slug,
+      title: t.title,
+      description: t.description,
+      href: `/glossary/${t.slug}`,
+      category: categoryTitle(t.category),
+      updatedAt: t.updatedAt,
+    },
+    fields: [
+      ["title", t.title],
+      ["slug", t.slug],
+      ["description", t.description],
+      ["label", categoryTitle(t.category)],
+      ...sectionFields(t.sections),
+      ...faqFields(t.faqs),
+      ...Object.values(t.modules ?? {})
+        .flatMap(moduleText)
+        .map((text): FieldText => ["body", text]),
+    ],
+  }));
+}
+
+function passages(fields: FieldText[]): SearchPassage[] {
+  const seen = new Set<string>();
+  const result: SearchPassage[] = [];
+  for (const [field, text, anchor] of fields) {
+    if (!PASSAGE_FIELDS.has(field) || seen.has(text)) continue;
+    seen.add(text);
+    result.push(anchor ? { text, anchor } : { text });
+  }
+  return result;
+}
+
+function allEntries(): Entry[] {
+  return [...calculatorEntries(), ...guideEntries(), ...glossaryEntries()];
+}
+
+// Runs at build time (the /search/index.json route is static); the client only
+// ever downloads the result.
+export function buildSearchIndex(): SearchIndex {
+  const entries = allEntries();
+  // No prototype, so terms such as "constructor" start out empty.
+  const postings: Record<string, number[]> = Object.create(null);
+
+  entries.forEach((entry, docIndex) => {
+    const counts = new Map<string, Map<Field, number>>();
+    for (const [field, text] of entry.fields) {
+      for (const term of analyze(text)) {
+        const byField = counts.get(term) ?? new Map<Field, number>();
+        byField.set(field, (byField.get(field) ?? 0) + 1);
+        counts.set(term, byField);
+      }
+    }
+    for (const [term, byField] of counts) {
+      let weight = 0;
+      for (const [field, count] of byField) {
+        weight += FIELD_WEIGHTS[field] * (1 + Math.log(count));
+      }
+      (postings[term] ??= []).push(docIndex, Math.round(weight * 10) / 10);
+    }
+  });
+
+  return {
+    documents: entries.map((e) => e.document),
+    postings,
+    synonyms: buildSynonymGroups(glossaryTerms),
+  };
+}
+
+// Served as /search/passages.json, fetched only where snippets are shown.
+export function buildSearchPassages(): SearchPassages {
+  return Object.fromEntries(
+    allEntries().map((e) => [e.document.href, passages(e.fields)]),
+  );
+}
@@ -0,0 +1,110 @@
+import { isStopWord, stem, tokenize } from "./text.ts";
+import type { SearchIndex } from "./types";
+
+// Typos allowed for a word of this length. Short words are left alone:
+// "cac", "cpc" and "cpa" are one edit apart and all real.
+function maxEdits(length: number): number {
+  if (length <= 3) return 0;
+  return length <= 5 ? 1 : 2;
+}
+
+// Optimal string alignment distance: insertions, deletions, substitutions and
+// swaps of neighbouring letters ("raos" -> "roas") each cost one. Returns
+// limit + 1 as soon as the distance must exceed `limit`.
+export function editDistance(a: string, b: string, limit = Infinity): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let before = new Array<number>(b.length + 1).fill(0);
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, before[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > limit) return limit + 1;
+    before = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const vocabularies = new WeakMap<SearchIndex, Map<string, number>>();
+
+// Words used in page titles, with how many titles use them. Suggestions come
+// only from here, so "did you mean" always names a word a title really uses.
+function titleVocabulary(index: SearchIndex): Map<string, number> {
+  const cached = vocabularies.get(index);
+  if (cached) return cached;
+  const vocabulary = new Map<string, number>();
+  for (const document of index.documents) {
+    for (const word of new Set(tokenize(document.title))) {
+      if (isStopWord(word) || /\d/.test(word)) continue;
+      vocabulary.set(word, (vocabulary.get(word) ?? 0) + 1);
+    }
+  }
+  vocabularies.set(index, vocabulary);
+  return vocabulary;
+}
+
+function closestWord(
+  vocabulary: Map<string, number>,
+  word: string,
+): string | undefined {
+  const limit = maxEdits(word.length);
+  if (!limit) return undefined;
+  let best: { word: string; distance: number; count: number } | undefined;
+  for (const [candidate, count] of vocabulary) {
+    const distance = editDistance(word, candidate, limit);
+    if (distance > limit) continue;
+    if (
+      !best ||
+      distance < best.distance ||
+      (distance === best.distance && count > best.count)
+    ) {
+      best = { word: candidate, distance, count };
+    }
+  }
+  return best?.word;
+}
+
+// The query with misspelled words replaced by the closest title word
+// ("retension" -> "retention"), or null when there is nothing to correct.
+// Words the index knows, stop words and numbers are kept as typed, as is a
+// last word that is still being typed and already prefixes an index term.
+export function correctQuery(index: SearchIndex, query: string): string | null {
+  const vocabulary = titleVocabulary(index);
+  const words = tokenize(query);
+  const lastIsPartial = !/\s$/.test(query);
+  let changed = false;
+
+  const corrected = words.map((word, position) => {
+    if (isStopWord(word) || /\d/.test(word) || vocabulary.has(word)) {
+      return word;
+    }
+    const term = stem(word);
+    if (Object.hasOwn(index.postings, term)) return word;
+    if (
+      lastIsPartial &&
+      position === words.length - 1 &&
+      Object.keys(index.postings).some((t) => t.startsWith(term))
+    ) {
+      return word;
+    }
+    const suggestion = closestWord(vocabulary, word);
+    if (!suggestion) return word;
+    changed = true;
+    return suggestion;
+  });
+
+  return changed ? corrected.join(" ") : null;
+}
@@ -0,0 +1,283 @@
+import { correctQuery } from "./fuzzy.ts";
+import { phraseKey } from "./synonyms.ts";
+import { analyze } from "./text.ts";
+import type { SearchHit, SearchIndex, SearchKind } from "./types";
+
+// Weight saturation, as in BM25: beyond a title-plus-description hit, more
+// occurrences add little.
+const SATURATION = 12;
+// A half-typed last word ("calc") still matches longer terms, at a discount.
+const PREFIX_FACTOR = 0.6;
+// Pages using the words the user typed edge out pages using an alias.
+const ALIAS_FACTOR = 0.9;
+// Pages that match only after fixing a typo rank below exact matches of the
+// same strength.
+const CORRECTION_FACTOR = 0.8;
+// For pages whose slug names exactly what was searched (ltv, ltv-calculator
+// and ltv-guide for "CLV"), however long their title.
+const TOPIC_BOOST = 1.5;
+
+export type SearchOptions = {
+  kinds?: SearchKind[];
+  limit?: number;
+};
+
+type Alternative = { terms: string[]; factor: number; prefix: boolean };
+
+// A document's score for part of the query and the index terms behind it.
+type Match = { score: number; terms: string[] };
+
+// One unit of the query: a typed word, or a typed phrase that names a
+// synonym group ("lifetime value"), matched by any of its spellings.
+export type QueryClause = {
+  text: string;
+  aliases: string[]; // other spellings searched, as written in the content
+  alternatives: Alternative[];
+};
+
+type SynonymLookup = { groups: Map<string, string[]>; longest: number };
+
+const lookups = new WeakMap<SearchIndex, SynonymLookup>();
+
+// phrase key -> the phrases of its group, built once per loaded index.
+function synonymLookup(index: SearchIndex): SynonymLookup {
+  const cached = lookups.get(index);
+  if (cached) return cached;
+  const groups = new Map<string, string[]>();
+  let longest = 1;
+  for (const group of index.synonyms) {
+    for (const phrase of group) {
+      const key = phraseKey(phrase);
+      groups.set(key, group);
+      longest = Math.max(longest, key.split(" ").length);
+    }
+  }
+  const lookup = { groups, longest };
+  lookups.set(index, lookup);
+  return lookup;
+}
+
+// Splits the query into clauses, taking the longest synonym phrase at each
+// position so "customer lifetime value" is one clause rather than three.
+export function expandQuery(index: SearchIndex, query: string): QueryClause[] {
+  const words = analyze(query);
+  // While the user is still typing the last word, treat it as a prefix.
+  const lastIsPartial = !/\s$/.test(query);
+  const { groups, longest } = synonymLookup(index);
+  const clauses: QueryClause[] = [];
+
+  for (let start = 0; start < words.length;) {
+    let length = Math.min(longest, words.length - start);
+    while (
+      length > 1 &&
+      !groups.has(words.slice(start, start + length).join(" "))
+    ) {
+      length -= 1;
+    }
+    const terms = words.slice(start, start + length);
+    const text = terms.join(" ");
+    start += length;
+    if (clauses.some((c) => c.text === text)) continue;
+
+    const aliases = (groups.get(text) ?? []).filter(
+      (phrase) => phraseKey(phrase) !== text,
+    );
+    clauses.push({
+      text,
+      aliases,
+      alternatives: [
+        {
+          terms,
+          factor: 1,
+          prefix: lastIsPartial && start === words.length,
+        },
+        ...aliases.map((phrase) => ({
+          terms: analyze(phrase),
+          factor: ALIAS_FACTOR,
+          prefix: false,
+        })),
+      ],
+    });
+  }
+  return clauses;
+}
+
+function idf(index: SearchIndex, postings: number[]): number {
+  const total = index.documents.length;
+  const matching = postings.length / 2;
+  return Math.log(1 + (total - matching + 0.5) / (matching + 0.5));
+}
+
+// Index terms the query term stands for, with how much each counts.
+function expandTerm(
+  index: SearchIndex,
+  term: string,
+  prefix: boolean,
+): Array<[string, number]> {
+  const expanded: Array<[string, number]> = [];
+  // Own keys only: the parsed index has a prototype, with "constructor" on it.
+  if (Object.hasOwn(index.postings, term)) expanded.push([term, 1]);
+  if (prefix && term.length >= 2) {
+    for (const candidate of Object.keys(index.postings)) {
+      if (candidate !== term && candidate.startsWith(term)) {
+        expanded.push([candidate, PREFIX_FACTOR]);
+      }
+    }
+  }
+  return expanded;
+}
+
+function termScores(
+  index: SearchIndex,
+  term: string,
+  prefix: boolean,
+  matchedTerms: Set<string>,
+): Map<number, Match> {
+  const best = new Map<number, Match>();
+  for (const [indexTerm, factor] of expandTerm(index, term, prefix)) {
+    const postings = index.postings[indexTerm];
+    const weight = idf(index, postings) * factor;
+    for (let i = 0; i < postings.length; i += 2) {
+      const doc = postings[i];
+      const tf = postings[i + 1];
+      const score = (weight * tf * (SATURATION + 1)) / (tf + SATURATION);
+      if (score > (best.get(doc)?.score ?? 0)) {
+        best.set(doc, { score, terms: [indexTerm] });
+      }
+    }
+    matchedTerms.add(indexTerm);
+  }
+  return best;
+}
+
+// Documents containing every term of the alternative, scored by the mean so
+// a three-word alias counts the same as a one-word acronym.
+function alternativeScores(
+  index: SearchIndex,
+  alternative: Alternative,
+  matchedTerms: Set<string>,
+): Map<number, Match> {
+  const perTerm = alternative.terms.map((term, position) =>
+    termScores(
+      index,
+      term,
+      alternative.prefix && position === alternative.terms.length - 1,
+      matchedTerms,
+    ),
+  );
+  const scores = new Map<number, Match>();
+  if (!perTerm.length) return scores;
+  for (const doc of perTerm[0].keys()) {
+    if (!perTerm.every((term) => term.has(doc))) continue;
+    const matches = perTerm.map((term) => term.get(doc)!);
+    const sum = matches.reduce((total, m) => total + m.score, 0);
+    scores.set(doc, {
+      score: (sum / perTerm.length) * alternative.factor,
+      terms: matches.flatMap((m) => m.terms),
+    });
+  }
+  return scores;
+}
+
+function rankDocuments(
+  index: SearchIndex,
+  query: string,
+  kinds: SearchKind[] | undefined,
+): SearchHit[] {
+  const clauses = expandQuery(index, query);
+  if (!clauses.length) return [];
+
+  const scores = new Map<number, number>();
+  const matched = new Map<number, number>();
+  const docTerms = new Map<number, string[]>();
+  const matchedTerms = new Set<string>();
+  for (const clause of clauses) {
+    const best = new Map<number, Match>();
+    for (const alternative of clause.alternatives) {
+      const alternativeBest = alternativeScores(
+        index,
+        alternative,
+        matchedTerms,
+      );
+      for (const [doc, match] of alternativeBest) {
+        if (match.score > (best.get(doc)?.score ?? 0)) best.set(doc, match);
+      }
+    }
+    for (const [doc, { score, terms }] of best) {
+      scores.set(doc, (scores.get(doc) ?? 0) + score);
+      matched.set(doc, (matched.get(doc) ?? 0) + 1);
+      docTerms.set(doc, [...(docTerms.get(doc) ?? []), ...terms]);
+    }
+  }
+
+  // Everything the whole query could be spelled as; only a one-clause query
+  // has alternatives.
+  const spellings = new Set([
+    clauses.map((c) => c.text).join(" "),
+    ...(clauses.length === 1
+      ? clauses[0].alternatives.map((a) => a.terms.join(" "))
+      : []),
+  ]);
+  const hits: SearchHit[] = [];
+  for (const [doc, score] of scores) {
+    const document = index.documents[doc];
+    if (kinds && !kinds.includes(document.kind)) continue;
+    const coverage = (matched.get(doc) ?? 0) / clauses.length;
+    // "ROAS Calculator" is more about ROAS than "Target ROAS: how to set a
+    // realistic goal", so reward titles the query covers.
+    const titleTerms = new Set(analyze(document.title));
+    let titleMatches = 0;
+    for (const term of titleTerms) {
+      if (matchedTerms.has(term)) titleMatches += 1;
+    }
+    const titleShare = titleTerms.size ? titleMatches / titleTerms.size : 0;
+    const topic = phraseKey(
+      document.slug.replace(/-(calculator|guide)$/, "").replace(/-/g, " "),
+    );
+    hits.push({
+      document,
+      score:
+        score *
+        coverage *
+        coverage *
+        (1 + titleShare) *
+        (spellings.has(topic) ? TOPIC_BOOST : 1),
+      terms: [...new Set(docTerms.get(doc))],
+    });
+  }
+
+  return hits;
+}
+
+// Ranks every document against the query. Documents matching more of the
+// query's clauses come first; within that, title and description hits
+// outweigh body hits through the field weights baked into the index. Typos
+// are forgiven: pages found only by the corrected query (see correctQuery)
+// follow at a discount and are marked `corrected`.
+export function searchDocuments(
+  index: SearchIndex,
+  query: string,
+  options: SearchOptions = {},
+): SearchHit[] {
+  const hits = rankDocuments(index, query, options.kinds);
+  const correction = correctQuery(index, query);
+  if (correction) {
+    const exact = new Map(hits.map((hit) => [hit.document, hit]));
+    for (const hit of rankDocuments(index, correction, options.kinds)) {
+      const score = hit.score * CORRECTION_FACTOR;
+      const existing = exact.get(hit.document);
+      if (!existing) {
+        hits.push({ ...hit, score, corrected: true });
+      } else if (score > existing.score) {
+        existing.score = score;
+        existing.terms = [...new Set([...existing.terms, ...hit.terms])];
+      }
+    }
+  }
+
+  hits.sort(
+    (a, b) =>
+      b.score - a.score || a.document.title.localeCompare(b.document.title),
+  );
+  return options.limit ? hits.slice(0, options.limit) : hits;
+}
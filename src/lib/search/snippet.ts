@@ -0,0 +1,90 @@
+import { isStopWord, stem, tokenize } from "./text.ts";
+import type { SearchHit, SearchPassage } from "./types";
+
+// Roughly two lines of a result card.
+const SNIPPET_LENGTH = 200;
+// Text kept ahead of the first match so it reads in context.
+const LEAD = 40;
+
+export type SnippetSegment = { text: string; match: boolean };
+
+export type Snippet = {
+  segments: SnippetSegment[];
+  // The page, or the guide section the passage is in.
+  href: string;
+};
+
+type Span = { start: number; end: number; term: string };
+
+// Words of `text` that reduce to one of `terms`, by character offset. Words
+// are split as tokenize splits them, accented letters included.
+function matchSpans(text: string, terms: Set<string>): Span[] {
+  const spans: Span[] = [];
+  for (const word of text.matchAll(/[0-9A-Za-z\u00c0-\u024f]+/g)) {
+    const term = tokenize(word[0])
+      .filter((token) => !isStopWord(token))
+      .map(stem)
+      .find((token) => terms.has(token));
+    if (term === undefined) continue;
+    const start = word.index ?? 0;
+    spans.push({ start, end: start + word[0].length, term });
+  }
+  return spans;
+}
+
+// Cuts long text down to a window that opens just before the first match,
+// on word boundaries, and splits it into plain and matched segments.
+function excerpt(text: string, spans: Span[]): SnippetSegment[] {
+  let start = 0;
+  let end = text.length;
+  if (text.length > SNIPPET_LENGTH) {
+    start = Math.max(0, (spans[0]?.start ?? 0) - LEAD);
+    if (start > 0) start = text.indexOf(" ", start) + 1 || start;
+    end = Math.min(text.length, start + SNIPPET_LENGTH);
+    if (end < text.length) end = text.lastIndexOf(" ", end) || end;
+  }
+
+  const segments: SnippetSegment[] = [];
+  let cursor = start;
+  for (const span of spans) {
+    if (span.end > end) break;
+    if (span.start > cursor) {
+      segments.push({ text: text.slice(cursor, span.start), match: false });
+    }
+    segments.push({ text: text.slice(span.start, span.end), match: true });
+    cursor = span.end;
+  }
+  if (cursor < end) {
+    segments.push({ text: text.slice(cursor, end), match: false });
+  }
+  if (start > 0) segments.unshift({ text: "...", match: false });
+  if (end < text.length) segments.push({ text: "...", match: false });
+  return segments;
+}
+
+// The passage of the page that best matches the hit's terms, with the matches
+// marked: the description unless one of `passages` (the page's entry in
+// SearchPassages) matches more distinct terms. Passages under a guide h2/h3
+// link straight to that section.
+export function searchSnippet(
+  hit: SearchHit,
+  passages: SearchPassage[] = [],
+): Snippet {
+  const { document } = hit;
+  const terms = new Set(hit.terms);
+  let best: SearchPassage = { text: document.description };
+  let bestSpans = matchSpans(best.text, terms);
+  let bestCount = new Set(bestSpans.map((s) => s.term)).size;
+  for (const passage of passages) {
+    const spans = matchSpans(passage.text, terms);
+    const count = new Set(spans.map((s) => s.term)).size;
+    if (count <= bestCount) continue;
+    best = passage;
+    bestSpans = spans;
+    bestCount = count;
+  }
+  return {
+    segments: excerpt(best.text, bestSpans),
+    href: best.anchor ? `${document.href}#${best.anchor}` : document.href,
+  };
+}
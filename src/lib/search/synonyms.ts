@@ -0,0 +1,82 @@
+import type { GlossaryTerm } from "../glossary/types";
+import { analyze } from "./text.ts";
+
+// Aliases the glossary titles don't spell out. Each group is searched as one
+// concept; the first phrase is only what gets shown.
+const EXTRA_SYNONYMS: string[][] = [
+  ["LTV", "CLV", "CLTV", "lifetime value", "customer lifetime value"],
+  ["CAC payback period", "payback", "CAC payback"],
+  ["WACC", "weighted average cost of capital", "cost of capital"],
+  ["EBIT", "operating profit", "operating income"],
+  ["income statement", "P&L", "profit and loss"],
+  ["conversion rate", "CVR", "CR"],
+  ["cost of goods sold", "COGS", "cost of sales"],
+];
+
+// One word written mostly in capitals ("ROAS", "iROAS", "D/E", "P&L"), or a
+// mixed-case spelling of the term's own slug ("CapEx" for capex).
+function isAcronym(text: string, slug: string): boolean {
+  if (/\s/.test(text)) return false;
+  const upper = text.replace(/[^A-Z]/g, "").length;
+  const lower = text.replace(/[^a-z]/g, "").length;
+  if (upper < 2) return false;
+  return upper > lower || text.toLowerCase() === slug;
+}
+
+// "ROAS (Return on Ad Spend)" and "Accounts Payable (AP)" name the same thing
+// twice; "Impression Share Lost (Budget)" qualifies it, so the whole title is
+// the name.
+function titleAliases(term: GlossaryTerm): string[] {
+  const title = term.title
+    .split(": ")[0]
+    .replace(/\s+meaning$/i, "")
+    .trim();
+  const match = /^(.+?)\s*\(([^)]+)\)$/.exec(title);
+  if (!match) return [title];
+  const [, name, aside] = match;
+  if (isAcronym(name, term.slug) || isAcronym(aside, term.slug)) {
+    return [name, aside];
+  }
+  return [title];
+}
+
+export const phraseKey = (phrase: string) => analyze(phrase).join(" ");
+
+// Groups of interchangeable phrases: every glossary term's slug, its title and
+// any acronym the title spells out, plus EXTRA_SYNONYMS. Groups that share a
+// phrase are merged.
+export function buildSynonymGroups(terms: GlossaryTerm[]): string[][] {
+  const seeds = [
+    ...terms.map((t) => [...titleAliases(t), t.slug.replace(/-/g, " ")]),
+    ...EXTRA_SYNONYMS,
+  ];
+
+  // Union-find over phrase keys; the first spelling seen is kept for display.
+  const parent = new Map<string, string>();
+  const display = new Map<string, string>();
+  const find = (key: string): string => {
+    let root = key;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    return root;
+  };
+  for (const seed of seeds) {
+    let first: string | undefined;
+    for (const phrase of seed) {
+      const key = phraseKey(phrase);
+      if (!key) continue;
+      if (!parent.has(key)) {
+        parent.set(key, key);
+        display.set(key, phrase);
+      }
+      if (first === undefined) first = key;
+      else parent.set(find(key), find(first));
+    }
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const [key, phrase] of display) {
+    const root = find(key);
+    groups.set(root, [...(groups.get(root) ?? []), phrase]);
+  }
+  return [...groups.values()].filter((group) => group.length > 1);
+}
@@ -0,0 +1,98 @@
+// Shared by the index build and the query side so both reduce words to the
+// same terms.
+
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "by",
+  "can",
+  "do",
+  "does",
+  "for",
+  "from",
+  "how",
+  "if",
+  "in",
+  "into",
+  "is",
+  "it",
+  "its",
+  "of",
+  "on",
+  "or",
+  "so",
+  "than",
+  "that",
+  "the",
+  "their",
+  "then",
+  "this",
+  "to",
+  "vs",
+  "was",
+  "what",
+  "when",
+  "which",
+  "why",
+  "with",
+  "you",
+  "your",
+]);
+
+export function isStopWord(word: string): boolean {
+  return STOP_WORDS.has(word);
+}
+
+// Lowercase ASCII words, with accents folded onto the base letter.
+export function tokenize(text: string): string[] {
+  return (
+    text
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .match(/[a-z0-9]+/g) ?? []
+  );
+}
+
+const hasVowel = (word: string) => /[aeiouy]/.test(word);
+
+// A light suffix stripper, not a full Porter stemmer: enough that plurals,
+// -ing/-ed forms and -ation nouns meet their base word ("calculations",
+// "calculated" and "calculate" all become "calculat").
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  let w = word;
+  if (w.endsWith("sses")) w = w.slice(0, -2);
+  else if (w.endsWith("ies") && w.length > 4) w = `${w.slice(0, -3)}y`;
+  else if (w.endsWith("s") && !/(ss|us|is)$/.test(w)) w = w.slice(0, -1);
+  if (w.endsWith("ied") && w.length > 4) w = `${w.slice(0, -3)}y`;
+
+  for (const suffix of ["ing", "ed"]) {
+    const base = w.slice(0, -suffix.length);
+    if (w.endsWith(suffix) && base.length >= 3 && hasVowel(base)) {
+      w = /([^aeiouylsz])\1$/.test(base) ? base.slice(0, -1) : base;
+      break;
+    }
+  }
+
+  if (w.endsWith("ation") && w.length > 7) w = w.slice(0, -3);
+  else if (w.endsWith("tion") && w.length > 6) w = w.slice(0, -3);
+  // "monthly" -> "month", but "apply" and "multiply" are verbs.
+  if (w.endsWith("ly") && !w.endsWith("ply") && w.length > 5) {
+    w = w.slice(0, -2);
+  }
+  if (w.endsWith("e") && w.length > 4) w = w.slice(0, -1);
+  return w;
+}
+
+// Index terms for a piece of text, in order (duplicates kept).
+export function analyze(text: string): string[] {
+  return tokenize(text)
+    .filter((word) => !isStopWord(word))
+    .map(stem);
+}
@@ -0,0 +1,41 @@
+export type SearchKind = "calculator" | "guide" | "glossary";
+
+// A quotable piece of a page: a paragraph, list item, table row, heading or
+// FAQ answer. `anchor` is the id of the guide h2/h3 section it sits under.
+export type SearchPassage = { text: string; anchor?: string };
+
+export type SearchDocument = {
+  kind: SearchKind;
+  slug: string;
+  title: string;
+  description: string;
+  href: string;
+  category: string;
+  updatedAt?: string;
+  // Calculators only: number inputs in form order, for calculator actions.
+  inputs?: Array<{ key: string; label: string }>;
+};
+
+// Built by buildSearchIndex and served as static JSON, so keep it plain data.
+export type SearchIndex = {
+  documents: SearchDocument[];
+  // term -> flat [documentIndex, weight, documentIndex, weight, ...], where
+  // weight combines the field weights of the term's occurrences in that
+  // document.
+  postings: Record<string, number[]>;
+  // Interchangeable phrases ("LTV", "customer lifetime value"); see
+  // buildSynonymGroups.
+  synonyms: string[][];
+};
+
+// Body text of each page in page order, by document href, for result
+// snippets. Served apart from the index, which is needed sooner and by every
+// search box.
+export type SearchPassages = Record<string, SearchPassage[]>;
+
+export type SearchHit = {
+  document: SearchDocument;
+  score: number;
+  terms: string[]; // index terms the page matched, for highlighting
+  corrected?: boolean; // matched only once typos in the query were corrected
+};
@@ -0,0 +1,46 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { toCsv, toXlsx } from "./spreadsheet.ts";
+
+test("toCsv quotes fields with commas, quotes and newlines", () => {
+  assert.equal(
+    toCsv([
+      ["Label", "Value"],
+      ['Revenue, "net"', 1200.5],
+      ["Multi\nline", null],
+    ]),
+    'Label,Value\r\n"Revenue, ""net""",1200.5\r\n"Multi\nline",\r\n',
+  );
+});
+
+test("toCsv writes formatted numbers as plain values", () => {
+  assert.equal(
+    toCsv([[{ value: 0.25, numberFormat: "0.00%" }, NaN]]),
+    "0.25,\r\n",
+  );
+});
+
+test("toXlsx writes a zip with the workbook parts", () => {
+  const bytes = toXlsx(
+    [
+      ["Label", 1],
+      ["Margin", { value: 0.4, numberFormat: "0.00%" }],
+    ],
+    "ROAS",
+  );
+  const text = new TextDecoder().decode(bytes);
+  assert.deepEqual([...bytes.slice(0, 4)], [0x50, 0x4b, 0x03, 0x04]);
+  for (const part of [
+    "[Content_Types].xml",
+    "_rels/.rels",
+    "xl/workbook.xml",
+    "xl/_rels/workbook.xml.rels",
+    "xl/worksheets/sheet1.xml",
+    "xl/styles.xml",
+  ]) {
+    assert.ok(text.includes(part), part);
+  }
+  assert.ok(text.includes('<c r="B2" s="1"><v>0.4</v></c>'));
+  assert.ok(text.includes('formatCode="0.00%"'));
+  assert.ok(text.includes('<sheet name="ROAS"'));
+});
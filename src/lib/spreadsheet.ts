@@ -0,0 +1,244 @@
+// Minimal CSV and XLSX writers for result exports. XLSX files are written
+// uncompressed (stored zip entries), which every spreadsheet app accepts.
+
+// Numbers with a format stay numeric in XLSX and are shown with the Excel
+// number format code, e.g. "0.00%" or "\"$\"#,##0.00".
+export type SheetCell =
+  string | number | null | { value: number; numberFormat: string };
+
+function cellText(cell: SheetCell): string {
+  if (cell === null) return "";
+  if (typeof cell === "string") return cell;
+  const value = typeof cell === "number" ? cell : cell.value;
+  return Number.isFinite(value) ? String(value) : "";
+}
+
+function csvField(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+export function toCsv(rows: SheetCell[][]): string {
+  return (
+    rows
+      .map((row) => row.map((cell) => csvField(cellText(cell))).join(","))
+      .join("\r\n") + "\r\n"
+  );
+}
+
+function escapeXml(text: string): string {
+  return (
+    text
+      .replaceAll("&", "&amp;")
+      .replaceAll("<", "&lt;")
+      .replaceAll(">", "&gt;")
+      .replaceAll('"', "&quot;")
+      // Control characters other than tab/newline are not allowed in XML.
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+  );
+}
+
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Sheet names are limited to 31 characters and may not contain []:*?/\.
+function sheetName(name: string): string {
+  return (
+    name
+      .replace(/[[\]:*?/\\]/g, " ")
+      .trim()
+      .slice(0, 31) || "Sheet1"
+  );
+}
+
+const SPREADSHEET_NS =
+  "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const RELATIONSHIPS_NS =
+  "http://schemas.openxmlformats.org/package/2006/relationships";
+const OFFICE_RELATIONSHIPS_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+function worksheetXml(
+  rows: SheetCell[][],
+  styleFor: (format: string) => number,
+): string {
+  const rowXml = rows.map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      if (cell === null) return "";
+      if (typeof cell === "string") {
+        return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+      }
+      const value = typeof cell === "number" ? cell : cell.value;
+      if (!Number.isFinite(value)) return "";
+      const style =
+        typeof cell === "number" ? "" : ` s="${styleFor(cell.numberFormat)}"`;
+      return `<c r="${ref}"${style}><v>${value}</v></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join("")}</row>`;
+  });
+  return `${XML_HEADER}<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>${rowXml.join("")}</sheetData></worksheet>`;
+}
+
+function stylesXml(formats: string[]): string {
+  // Custom number formats start at id 164; style 0 is the default.
+  const numFmts = formats.length
+    ? `<numFmts count="${formats.length}">${formats
+        .map(
+          (code, i) =>
+            `<numFmt numFmtId="${164 + i}" formatCode="${escapeXml(code)}"/>`,
+        )
+        .join("")}</numFmts>`
+    : "";
+  const xfs = [
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>',
+    ...formats.map(
+      (_, i) =>
+        `<xf numFmtId="${164 + i}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>`,
+    ),
+  ];
+  return (
+    `${XML_HEADER}<styleSheet xmlns="${SPREADSHEET_NS}">${numFmts}` +
+    '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    `<cellXfs count="${xfs.length}">${xfs.join("")}</cellXfs>` +
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+    "</styleSheet>"
+  );
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n += 1) {
+      let c = n;
+      for (let k = 0; k < 8; k += 1) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function zipStored(
+  files: Array<{ name: string; data: Uint8Array }>,
+): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  // 1980-01-01 00:00, the earliest DOS timestamp; keeps output deterministic.
+  const dosTime = 0;
+  const dosDate = (1 << 5) | 1;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+    const size = file.data.length;
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true); // version needed
+    header.setUint16(6, 0x0800, true); // UTF-8 names
+    header.setUint16(8, 0, true); // stored
+    header.setUint16(10, dosTime, true);
+    header.setUint16(12, dosDate, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, size, true);
+    header.setUint32(22, size, true);
+    header.setUint16(26, name.length, true);
+    header.setUint16(28, 0, true);
+    local.push(new Uint8Array(header.buffer), name, file.data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true); // version made by
+    entry.setUint16(6, 20, true); // version needed
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(10, 0, true);
+    entry.setUint16(12, dosTime, true);
+    entry.setUint16(14, dosDate, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, size, true);
+    entry.setUint32(24, size, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + size;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...local, ...central, new Uint8Array(end.buffer)];
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    out.set(part, position);
+    position += part.length;
+  }
+  return out;
+}
+
+export function toXlsx(
+  rows: SheetCell[][],
+  name = "Sheet1",
+): Uint8Array<ArrayBuffer> {
+  const formats: string[] = [];
+  const styleFor = (format: string) => {
+    let index = formats.indexOf(format);
+    if (index === -1) index = formats.push(format) - 1;
+    return index + 1;
+  };
+  const sheet = worksheetXml(rows, styleFor);
+  const encoder = new TextEncoder();
+  const parts: Record<string, string> = {
+    "[Content_Types].xml":
+      `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      "</Types>",
+    "_rels/.rels":
+      `${XML_HEADER}<Relationships xmlns="${RELATIONSHIPS_NS}">` +
+      `<Relationship Id="rId1" Type="${OFFICE_RELATIONSHIPS_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+      "</Relationships>",
+    "xl/workbook.xml":
+      `${XML_HEADER}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${OFFICE_RELATIONSHIPS_NS}">` +
+      `<sheets><sheet name="${escapeXml(sheetName(name))}" sheetId="1" r:id="rId1"/></sheets>` +
+      "</workbook>",
+    "xl/_rels/workbook.xml.rels":
+      `${XML_HEADER}<Relationships xmlns="${RELATIONSHIPS_NS}">` +
+      `<Relationship Id="rId1" Type="${OFFICE_RELATIONSHIPS_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+      `<Relationship Id="rId2" Type="${OFFICE_RELATIONSHIPS_NS}/styles" Target="styles.xml"/>` +
+      "</Relationships>",
+    "xl/worksheets/sheet1.xml": sheet,
+    "xl/styles.xml": stylesXml(formats),
+  };
+  return zipStored(
+    Object.entries(parts).map(([fileName, xml]) => ({
+      name: fileName,
+      data: encoder.encode(xml),
+    })),
+  );
+}
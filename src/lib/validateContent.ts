@@ -1,6 +1,7 @@
 import { calculators, categories } from "@/lib/calculators";
 import { guides } from "@/lib/guides";
 import { glossaryTerms } from "@/lib/glossary";
+import { workflows } from "@/lib/workflows";
 
 function assert(condition: unknown, message: string): asserts condition {
   if (!condition) throw new Error(message);
@@ -43,6 +44,25 @@ export function validateContentOrThrow() {
         `Calculator ${calc.slug} references missing glossary term: ${slug}`,
       );
     }
+    for (const handoff of calc.sendTo ?? []) {
+      const target = calculators.find((c) => c.slug === handoff.calculatorSlug);
+      assert(
+        target,
+        `Calculator ${calc.slug} sends to missing calculator: ${handoff.calculatorSlug}`,
+      );
+      for (const [key, source] of Object.entries(handoff.inputs)) {
+        assert(
+          target.inputs.some((i) => i.key === key && i.kind !== "series"),
+          `Calculator ${calc.slug} sends to missing input: ${handoff.calculatorSlug}.${key}`,
+        );
+        if ("input" in source) {
+          assert(
+            calc.inputs.some((i) => i.key === source.input),
+            `Calculator ${calc.slug} sends missing input: ${source.input}`,
+          );
+        }
+      }
+    }
   }
 
   for (const guide of guides) {
@@ -66,6 +86,31 @@ export function validateContentOrThrow() {
     }
   }
 
+  const workflowSlugs = new Set<string>();
+  for (const workflow of workflows) {
+    assert(
+      !workflowSlugs.has(workflow.slug),
+      `Duplicate workflow slug: ${workflow.slug}`,
+    );
+    workflowSlugs.add(workflow.slug);
+    const earlier = new Set<string>();
+    for (const step of workflow.steps) {
+      assert(
+        calculatorSlugs.has(step.calculatorSlug),
+        `Workflow ${workflow.slug} references missing calculator: ${step.calculatorSlug}`,
+      );
+      for (const source of Object.values(step.inputs ?? {})) {
+        if ("step" in source) {
+          assert(
+            earlier.has(source.step),
+            `Workflow ${workflow.slug} step ${step.calculatorSlug} reads a result from a later or missing step: ${source.step}`,
+          );
+        }
+      }
+      earlier.add(step.calculatorSlug);
+    }
+  }
+
   for (const term of glossaryTerms) {
     for (const slug of term.relatedGuideSlugs ?? []) {
       assert(
@@ -0,0 +1,96 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { getWorkflow, workflows } from "./workflows/index.ts";
+import {
+  buildWorkflowForm,
+  resolveWorkflowSteps,
+  runWorkflow,
+  summarizeWorkflow,
+} from "./workflows/run.ts";
+import type { Workflow } from "./workflows/types";
+
+function defaultValues(workflow: Workflow) {
+  const steps = resolveWorkflowSteps(workflow);
+  const form = buildWorkflowForm(workflow, steps);
+  const values: Record<string, number> = {};
+  for (const input of form.inputs) {
+    if (input.kind !== "series") values[input.key] = Number(input.defaultValue);
+  }
+  return { steps, form, values };
+}
+
+test("workflows reference real calculators, fields and earlier results", () => {
+  for (const workflow of workflows) {
+    const { steps, form, values } = defaultValues(workflow);
+    assert.equal(
+      steps.length,
+      workflow.steps.length,
+      `${workflow.slug}: unknown calculator`,
+    );
+    for (const key of Object.keys(workflow.fields ?? {})) {
+      assert.ok(
+        form.inputs.some((input) => input.key === key),
+        `${workflow.slug}: field override ${key} matches no field`,
+      );
+    }
+
+    const runs = runWorkflow(steps, values, {});
+    for (const run of runs) {
+      assert.deepEqual(run.errors, [], `${workflow.slug}: ${run.calc.slug}`);
+    }
+    for (const item of summarizeWorkflow(workflow, runs)) {
+      assert.ok(item.value, `${workflow.slug}: ${item.calc.slug} summary`);
+    }
+  }
+});
+
+test("unit economics review feeds CAC into LTV and payback", () => {
+  const workflow = getWorkflow("unit-economics-review");
+  assert.ok(workflow);
+  const { steps, values } = defaultValues(workflow);
+  const runs = runWorkflow(
+    steps,
+    { ...values, spend: 50000, newCustomers: 50 },
+    {},
+  );
+  const bySlug = (slug: string) => runs.find((r) => r.calc.slug === slug);
+
+  assert.equal(bySlug("cac-calculator")?.result?.headline.value, 1000);
+  assert.equal(bySlug("ltv-calculator")?.values.cac, 1000);
+  assert.equal(bySlug("cac-payback-period-calculator")?.values.cac, 1000);
+  assert.equal(
+    bySlug("cac-payback-period-calculator")?.values.monthlyChurnPercent,
+    values.churnPercent,
+  );
+  assert.equal(
+    bySlug("cac-payback-period-calculator")?.result?.headline.value,
+    1000 / (values.arpaMonthly * (values.grossMarginPercent / 100)),
+  );
+});
+
+test("a failed step skips the steps that depend on it", () => {
+  const workflow = getWorkflow("unit-economics-review");
+  assert.ok(workflow);
+  const { steps, values } = defaultValues(workflow);
+  const runs = runWorkflow(steps, { ...values, newCustomers: 0 }, {});
+
+  assert.equal(runs[0].result, null);
+  assert.match(runs[0].errors[0], /^New customers acquired: /);
+  assert.equal(runs[1].result, null);
+  assert.match(runs[1].errors[0], /needs a result from CAC Calculator/);
+  assert.ok(runs[3].result, "burn multiple does not depend on CAC");
+});
+
+test("a field that did not parse fails only the steps that read it", () => {
+  const workflow = getWorkflow("unit-economics-review");
+  assert.ok(workflow);
+  const { steps, values } = defaultValues(workflow);
+  const withoutSpend = { ...values };
+  delete withoutSpend.spend;
+  const runs = runWorkflow(steps, withoutSpend, {});
+
+  assert.equal(runs[0].result, null);
+  assert.match(runs[0].errors[0], /: Enter a valid number\.$/);
+  assert.match(runs[1].errors[0], /needs a result from CAC Calculator/);
+  assert.ok(runs[3].result, "burn multiple does not read ad spend");
+});
@@ -0,0 +1,62 @@
+import type { Workflow } from "./types";
+
+export const workflows: Workflow[] = [
+  {
+    slug: "unit-economics-review",
+    title: "Unit economics review",
+    description:
+      "Run CAC, LTV, CAC payback and burn multiple from one set of inputs and read them side by side.",
+    updatedAt: "2026-10-19",
+    intro: [
+      "Enter acquisition spend, pricing, margin, churn and burn once. CAC feeds LTV and payback, so every step uses the same assumptions.",
+      "Read the summary first: LTV:CAC and payback tell you whether acquisition pays back, and burn multiple tells you what that growth costs in cash.",
+    ],
+    steps: [
+      { calculatorSlug: "cac-calculator" },
+      {
+        calculatorSlug: "ltv-calculator",
+        inputs: { cac: { step: "cac-calculator", result: "cac" } },
+      },
+      {
+        calculatorSlug: "cac-payback-period-calculator",
+        inputs: {
+          cac: { step: "cac-calculator", result: "cac" },
+          monthlyChurnPercent: { field: "churnPercent" },
+        },
+      },
+      { calculatorSlug: "burn-multiple-calculator" },
+    ],
+    fields: {
+      arpaMonthly: { label: "ARPA per month" },
+      grossMarginPercent: { label: "Gross margin" },
+      targetPaybackMonths: { label: "Target payback (months, optional)" },
+    },
+    summary: [
+      { step: "cac-calculator", result: "cac" },
+      { step: "ltv-calculator", result: "ltv" },
+      { step: "ltv-calculator", result: "ltvToCac" },
+      { step: "cac-payback-period-calculator", result: "payback" },
+      { step: "burn-multiple-calculator", result: "burnMultiple" },
+    ],
+  },
+  {
+    slug: "paid-ads-profitability-check",
+    title: "Paid ads profitability check",
+    description:
+      "Compare actual ROAS with break-even and target ROAS using one set of margin and cost assumptions.",
+    updatedAt: "2026-10-19",
+    intro: [
+      "Enter revenue, ad spend and your cost structure once. The same margin, fee, shipping and returns assumptions drive all three checks.",
+      "If actual ROAS sits below break-even ROAS, every extra dollar of spend loses money; between break-even and target, it is profitable but short of your goal.",
+    ],
+    steps: [
+      { calculatorSlug: "roas-calculator" },
+      { calculatorSlug: "break-even-roas-calculator" },
+      { calculatorSlug: "target-roas-calculator" },
+    ],
+  },
+];
+
+export function getWorkflow(slug: string): Workflow | undefined {
+  return workflows.find((w) => w.slug === slug);
+}
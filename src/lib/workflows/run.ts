@@ -0,0 +1,148 @@
+import { calculators } from "../calculators/definitions.ts";
+import { resultAsInput } from "../calculators/handoff.ts";
+import { findResultValue } from "../calculators/shared.ts";
+import type {
+  CalculatorDefinition,
+  CalculatorResult,
+  InputField,
+  InputForm,
+  ResultValue,
+} from "../calculators/types";
+import { validateValues } from "../calculators/validation.ts";
+import type { Workflow, WorkflowInputSource, WorkflowStep } from "./types";
+
+export type ResolvedWorkflowStep = {
+  step: WorkflowStep;
+  calc: CalculatorDefinition;
+};
+
+export type WorkflowStepRun = ResolvedWorkflowStep & {
+  values: Record<string, number>;
+  series: Record<string, number[]>;
+  result: CalculatorResult | null;
+  errors: string[]; // why the step did not run
+};
+
+function sourceFor(step: WorkflowStep, key: string): WorkflowInputSource {
+  return step.inputs?.[key] ?? { field: key };
+}
+
+export function resolveWorkflowSteps(
+  workflow: Workflow,
+): ResolvedWorkflowStep[] {
+  return workflow.steps.flatMap((step) => {
+    const calc = calculators.find((c) => c.slug === step.calculatorSlug);
+    return calc ? [{ step, calc }] : [];
+  });
+}
+
+// The shared form: one field per distinct source field, in first-use order.
+// A field takes its label, default and bounds from the first step that reads
+// it; steps with stricter bounds report their own errors when they run.
+export function buildWorkflowForm(
+  workflow: Workflow,
+  steps: ResolvedWorkflowStep[],
+): InputForm {
+  const inputs: InputField[] = [];
+  for (const { step, calc } of steps) {
+    for (const input of calc.inputs) {
+      const source = sourceFor(step, input.key);
+      if (!("field" in source)) continue;
+      if (inputs.some((field) => field.key === source.field)) continue;
+      inputs.push({
+        ...input,
+        key: source.field,
+        ...workflow.fields?.[source.field],
+      });
+    }
+  }
+  return { inputs };
+}
+
+// Runs each step in order with values from the shared form and from earlier
+// steps' results. A step whose inputs are missing or invalid is skipped, and
+// so is any later step that reads its results.
+export function runWorkflow(
+  steps: ResolvedWorkflowStep[],
+  values: Record<string, number>,
+  series: Record<string, number[]>,
+): WorkflowStepRun[] {
+  const runs: WorkflowStepRun[] = [];
+  for (const { step, calc } of steps) {
+    const run: WorkflowStepRun = {
+      step,
+      calc,
+      values: {},
+      series: {},
+      result: null,
+      errors: [],
+    };
+    runs.push(run);
+
+    for (const input of calc.inputs) {
+      const source = sourceFor(step, input.key);
+      if ("field" in source) {
+        // Fields that did not parse are left out of `values` and `series`.
+        if (input.kind === "series") {
+          const rows = series[source.field];
+          if (rows) run.series[input.key] = rows;
+          else run.errors.push(`${input.label}: Enter a valid number in every row.`);
+        } else if (values[source.field] !== undefined) {
+          run.values[input.key] = values[source.field];
+        } else {
+          run.errors.push(`${input.label}: Enter a valid number.`);
+        }
+        continue;
+      }
+      const upstream = runs.find(
+        (r) => r.calc.slug === source.step && r !== run,
+      );
+      const value = upstream?.result
+        ? resultAsInput(upstream.result, source.result)
+        : undefined;
+      if (value === undefined) {
+        run.errors.push(
+          `${input.label}: needs a result from ${upstream?.calc.title ?? source.step}.`,
+        );
+      } else {
+        run.values[input.key] = value;
+      }
+    }
+    if (run.errors.length > 0) continue;
+
+    const errors = validateValues(calc, run.values, run.series);
+    for (const input of calc.inputs) {
+      if (errors[input.key]) {
+        run.errors.push(`${input.label}: ${errors[input.key]}`);
+      }
+    }
+    if (run.errors.length > 0) continue;
+    run.result = calc.compute(run.values, run.series);
+  }
+  return runs;
+}
+
+export type WorkflowSummaryItem = {
+  calc: CalculatorDefinition;
+  value: ResultValue | null;
+};
+
+export function summarizeWorkflow(
+  workflow: Workflow,
+  runs: WorkflowStepRun[],
+): WorkflowSummaryItem[] {
+  const items =
+    workflow.summary ??
+    runs.map((run) => ({ step: run.calc.slug, result: null }));
+  return items.flatMap(({ step, result }) => {
+    const run = runs.find((r) => r.calc.slug === step);
+    if (!run) return [];
+    const value = run.result
+      ? result === null
+        ? run.result.headline
+        : (findResultValue(run.result, result, { includeBreakdown: true }) ??
+          null)
+      : null;
+    return [{ calc: run.calc, value }];
+  });
+}
@@ -0,0 +1,24 @@
+// Where a step input comes from: a field of the shared workflow form, or a
+// result value of an earlier step (by that step's calculator slug).
+export type WorkflowInputSource =
+  { field: string } | { step: string; result: string };
+
+export type WorkflowStep = {
+  calculatorSlug: string;
+  // Inputs not listed here read the shared field with the same key.
+  inputs?: Record<string, WorkflowInputSource>;
+};
+
+export type Workflow = {
+  slug: string;
+  title: string;
+  description: string;
+  updatedAt: string; // YYYY-MM-DD
+  intro: string[];
+  steps: WorkflowStep[];
+  // Label/help overrides for shared fields, e.g. to drop "(optional)" when a
+  // later step requires the value.
+  fields?: Record<string, { label?: string; help?: string }>;
+  // Key figures for the combined summary; defaults to each step's headline.
+  summary?: Array<{ step: string; result: string }>;
+};